@@ -0,0 +1,190 @@
+/**
+ * Tests for the `window.__STORYBOOK_PERFORMANCE__` preview global.
+ *
+ * External harnesses only see the preview iframe, so the global has to work
+ * with the panel closed and without any manager listening on the channel.
+ */
+import type {StoryContext} from 'storybook/internal/types'
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+import {performanceStore} from '../core/performance-store'
+import {DEFAULT_METRICS, type ReactMetrics} from '../core/performance-types'
+import {getActiveCore, setActiveCore} from '../core/preview-core'
+
+// ── Mock storybook channel ──────────────────────────────────────────────────
+
+const mockChannel = {
+  emit: vi.fn(),
+  on: vi.fn(),
+  off: vi.fn(),
+}
+
+vi.mock('storybook/preview-api', () => ({
+  addons: {
+    getChannel: () => mockChannel,
+  },
+}))
+
+// ── Import after mocks are registered ───────────────────────────────────────
+
+const {withPerformanceMonitor} = await import('../decorators/universal')
+const {GLOBAL_API_VERSION} = await import('../core/global-api')
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function renderStory(parameters: StoryContext['parameters'] = {}) {
+  withPerformanceMonitor(
+    vi.fn(() => ''),
+    {id: 'components-button--primary', parameters} as StoryContext,
+  )
+}
+
+function createReactMetrics(overrides: Partial<ReactMetrics> = {}): ReactMetrics {
+  return {
+    reactRenderCount: 0,
+    reactMountCount: 0,
+    reactMountDuration: 0,
+    reactPostMountUpdateCount: 0,
+    reactPostMountMaxDuration: 0,
+    nestedUpdateCount: 0,
+    slowReactUpdates: 0,
+    reactUpdateDurations: [],
+    totalBaseDuration: 0,
+    maxCommitLag: 0,
+    commitLagHistory: [],
+    memoizationEfficiency: 1,
+    totalActualDuration: 0,
+    ...overrides,
+  }
+}
+
+function getApi() {
+  const api = window.__STORYBOOK_PERFORMANCE__
+  if (!api) throw new Error('Global API was not installed')
+  return api
+}
+
+// ── Tests ───────────────────────────────────────────────────────────────────
+
+describe('window.__STORYBOOK_PERFORMANCE__', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setActiveCore(null)
+    performanceStore.resetAll()
+    performanceStore.clearProfilers()
+  })
+
+  afterEach(() => {
+    getActiveCore()?.stop()
+    setActiveCore(null)
+  })
+
+  it('is installed once by the decorator', () => {
+    renderStory()
+    const api = getApi()
+    renderStory()
+
+    expect(api.version).toBe(GLOBAL_API_VERSION)
+    expect(window.__STORYBOOK_PERFORMANCE__).toBe(api)
+    expect(api.getStoryId()).toBe('components-button--primary')
+  })
+
+  it('returns stored metrics while collectors are idle', () => {
+    renderStory()
+
+    expect(getApi().getMetrics()).toBe(performanceStore.getGlobalMetrics())
+  })
+
+  it('returns profiler metrics keyed by ID', () => {
+    renderStory()
+    performanceStore.updateProfiler('Button', createReactMetrics({reactRenderCount: 3}))
+
+    const profilers = getApi().getProfilers()
+
+    expect(Object.keys(profilers)).toEqual(['Button'])
+    expect(profilers.Button?.reactRenderCount).toBe(3)
+  })
+
+  it('checks the story budgets', () => {
+    renderStory({performancePanel: {budgets: {forcedReflowCount: 0}}})
+
+    expect(getApi().getBudgetResults()).toEqual([
+      expect.objectContaining({metric: 'forcedReflowCount', status: 'pass'}),
+    ])
+  })
+
+  it('checks the story measure budgets', () => {
+    renderStory({performancePanel: {measureBudgets: {'search:filter': 8}}})
+
+    expect(getApi().getMeasureBudgetResults()).toEqual([
+      {measure: 'search:filter', budget: 8, actual: null, status: 'no-data', higherIsBetter: false},
+    ])
+  })
+
+  it('returns the timeline events of the active story', () => {
+    expect(getApi().getTimelineEvents()).toEqual([])
+
+    renderStory()
+    getActiveCore()?.manager.reportRender({
+      profilerId: 'Button',
+      storyId: 'components-button--primary',
+      phase: 'mount',
+      actualDuration: 2,
+      baseDuration: 3,
+      startTime: 100,
+      commitTime: 104,
+    })
+
+    expect(getApi().getTimelineEvents()).toEqual([
+      expect.objectContaining({track: 'react-commit', name: 'Button mount', startTime: 100, duration: 4}),
+    ])
+  })
+
+  it('resets collected metrics', () => {
+    renderStory()
+    performanceStore.updateProfiler('Button', createReactMetrics({reactRenderCount: 3}))
+
+    getApi().reset()
+
+    expect(getApi().getProfilers().Button?.reactRenderCount).toBe(0)
+  })
+
+  it('notifies subscribers with the latest metrics until unsubscribed', () => {
+    renderStory()
+    const listener = vi.fn()
+    const unsubscribe = getApi().subscribe(listener)
+
+    const metrics = {...DEFAULT_METRICS, fps: 42}
+    performanceStore.setGlobalMetrics(metrics)
+    unsubscribe()
+    performanceStore.setGlobalMetrics({...DEFAULT_METRICS})
+
+    expect(listener).toHaveBeenCalledOnce()
+    expect(listener).toHaveBeenCalledWith(metrics)
+  })
+
+  it('starts collection and resolves once the page is quiet', async () => {
+    renderStory()
+
+    const metrics = await getApi().waitForIdle({quietMs: 100})
+
+    expect(getActiveCore()?.manager.isRunning).toBe(true)
+    expect(metrics.fps).toEqual(expect.any(Number))
+  })
+
+  it('resolves at the timeout while the DOM keeps changing', async () => {
+    renderStory()
+    const el = document.createElement('div')
+    document.body.appendChild(el)
+    const intervalId = setInterval(() => {
+      el.textContent = String(performance.now())
+    }, 20)
+
+    const startedAt = performance.now()
+    await getApi().waitForIdle({quietMs: 1_000, timeoutMs: 200})
+    clearInterval(intervalId)
+    el.remove()
+
+    expect(performance.now() - startedAt).toBeLessThan(1_000)
+  })
+})
@@ -0,0 +1,151 @@
+/**
+ * Tests for the play function assertion API.
+ *
+ * Assertions read from the active core directly, so they must work while the
+ * panel is hidden and without any manager listening on the channel.
+ */
+import type {StoryContext} from 'storybook/internal/types'
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+import {PERF_EVENTS} from '../core/performance-types'
+import {getActiveCore, setActiveCore} from '../core/preview-core'
+
+// ── Mock storybook channel ──────────────────────────────────────────────────
+
+const mockChannel = {
+  emit: vi.fn(),
+  on: vi.fn(),
+  off: vi.fn(),
+}
+
+vi.mock('storybook/preview-api', () => ({
+  addons: {
+    getChannel: () => mockChannel,
+  },
+}))
+
+// ── Import after mocks are registered ───────────────────────────────────────
+
+const {withPerformanceMonitor} = await import('../decorators/universal')
+const {expectPerformance, getPerformanceMetrics, PerformanceAssertionError} =
+  await import('../core/performance-assertions')
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function renderStory(parameters: StoryContext['parameters'] = {}) {
+  withPerformanceMonitor(
+    vi.fn(() => ''),
+    {id: 'components-button--primary', parameters} as StoryContext,
+  )
+}
+
+function getVisibilityHandler() {
+  const call = mockChannel.on.mock.calls.find((c: unknown[]) => c[0] === PERF_EVENTS.PANEL_VISIBILITY)
+  return call?.[1] as (visible: boolean) => void
+}
+
+// ── Tests ───────────────────────────────────────────────────────────────────
+
+describe('performance assertions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setActiveCore(null)
+  })
+
+  afterEach(() => {
+    getActiveCore()?.stop()
+    setActiveCore(null)
+  })
+
+  it('throws when no performance monitor is active', async () => {
+    expect(() => expectPerformance()).toThrow(PerformanceAssertionError)
+    await expect(getPerformanceMetrics()).rejects.toThrow(PerformanceAssertionError)
+  })
+
+  it('starts collection while the panel is hidden', () => {
+    renderStory()
+    expect(getActiveCore()?.manager.isRunning).toBe(false)
+
+    expectPerformance()
+
+    expect(getActiveCore()?.manager.isRunning).toBe(true)
+  })
+
+  it('keeps collecting when the panel is hidden after an assertion started collection', () => {
+    renderStory()
+    const handleVisibility = getVisibilityHandler()
+
+    handleVisibility(true)
+    expectPerformance()
+    handleVisibility(false)
+
+    expect(getActiveCore()?.manager.isRunning).toBe(true)
+  })
+
+  it('reads metrics without emitting them to the manager', async () => {
+    renderStory()
+
+    const metrics = await getPerformanceMetrics()
+
+    expect(metrics.fps).toEqual(expect.any(Number))
+    expect(mockChannel.emit).not.toHaveBeenCalledWith(PERF_EVENTS.METRICS_UPDATE, expect.any(Object))
+  })
+
+  it('fails toHaveNoForcedReflows after a forced reflow', async () => {
+    renderStory()
+    const perf = expectPerformance()
+    await expect(perf.toHaveNoForcedReflows()).resolves.toBeUndefined()
+
+    const el = document.createElement('div')
+    document.body.appendChild(el)
+    getActiveCore()?.manager.collectors.reflow.markLayoutDirty()
+    // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+    el.offsetWidth
+    el.remove()
+
+    await expect(perf.toHaveNoForcedReflows()).rejects.toThrow('Expected no forced reflows, but 1 occurred')
+  })
+
+  it('counts DOM elements inside the canvas element', async () => {
+    renderStory()
+    const canvasElement = document.createElement('div')
+    canvasElement.innerHTML = '<ul><li></li><li></li></ul>'
+    const perf = expectPerformance(canvasElement)
+
+    await expect(perf.toHaveDOMElementsBelow(4)).resolves.toBeUndefined()
+    await expect(perf.toHaveDOMElementsBelow(3)).rejects.toThrow(
+      'Expected DOM element count to be below 3, but it was 3',
+    )
+  })
+
+  it('checks the story budgets by default', async () => {
+    renderStory({performancePanel: {budgets: {fps: 1000}}})
+    const perf = expectPerformance()
+
+    await expect(perf.toMeetBudgets()).rejects.toThrow('Performance budgets not met: fps')
+    await expect(perf.toMeetBudgets({forcedReflowCount: 0})).resolves.toBeUndefined()
+  })
+
+  it('does not fail budgets on metrics without data', async () => {
+    renderStory({performancePanel: {budgets: {firstInputDelay: 100}}})
+
+    await expect(expectPerformance().toMeetBudgets()).resolves.toBeUndefined()
+  })
+
+  it('checks the story measure budgets', async () => {
+    renderStory({performancePanel: {measureBudgets: {'search:filter': 8}}})
+    const perf = expectPerformance()
+
+    // Measures that weren't recorded don't fail
+    await expect(perf.toMeetBudgets()).resolves.toBeUndefined()
+
+    performance.measure('search:filter', {start: performance.now(), duration: 20})
+    await expect(perf.toMeetBudgets()).rejects.toThrow('Performance budgets not met: search:filter')
+  })
+
+  it('requires budgets for toMeetBudgets', async () => {
+    renderStory()
+
+    await expect(expectPerformance().toMeetBudgets()).rejects.toThrow('No budgets to check')
+  })
+})
@@ -8,6 +8,8 @@
 import type {StoryContext} from 'storybook/internal/types'
 import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
 
+import {isHeadlessUrl} from '../core/headless'
+import {performanceStore} from '../core/performance-store'
 import {PERF_EVENTS} from '../core/performance-types'
 import {getActiveCore, setActiveCore} from '../core/preview-core'
 
@@ -300,3 +302,177 @@ describe('withPerformanceMonitor (universal / web-component usage)', () => {
     expect(mockChannel.off).toHaveBeenCalledWith(PERF_EVENTS.INSPECT_ELEMENT, expect.any(Function))
   })
 })
+
+describe('withPerformanceMonitor (headless mode)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setActiveCore(null)
+    performanceStore.resetAll()
+  })
+
+  afterEach(() => {
+    getActiveCore()?.stop()
+    setActiveCore(null)
+  })
+
+  it('starts collectors at render when enabled via parameters', () => {
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({parameters: {performancePanel: {headless: true}}}),
+    )
+
+    expect(getActiveCore()?.isHeadless).toBe(true)
+    expect(getActiveCore()?.manager.isRunning).toBe(true)
+  })
+
+  it('starts collectors at render when enabled via globals', () => {
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({globals: {performancePanelHeadless: true}}),
+    )
+
+    expect(getActiveCore()?.manager.isRunning).toBe(true)
+  })
+
+  it('keeps collecting when the panel is hidden', () => {
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({parameters: {performancePanel: {headless: true}}}),
+    )
+    const visibilityCall = mockChannel.on.mock.calls.find((call: unknown[]) => call[0] === PERF_EVENTS.PANEL_VISIBILITY)
+    const handleVisibility = visibilityCall?.[1] as (visible: boolean) => void
+
+    handleVisibility(true)
+    handleVisibility(false)
+
+    expect(getActiveCore()?.manager.isRunning).toBe(true)
+  })
+
+  it('stores metrics in the preview without emitting them to the manager', async () => {
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({parameters: {performancePanel: {headless: true}}}),
+    )
+    const initial = performanceStore.getGlobalMetrics()
+    mockChannel.emit.mockClear()
+
+    await new Promise(resolve => setTimeout(resolve, 300))
+
+    expect(performanceStore.getGlobalMetrics()).not.toBe(initial)
+    expect(mockChannel.emit).not.toHaveBeenCalledWith(PERF_EVENTS.METRICS_UPDATE, expect.any(Object))
+  })
+
+  it('stops collecting when headless mode is turned off on re-render', () => {
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({globals: {performancePanelHeadless: true}}),
+    )
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({globals: {performancePanelHeadless: false}}),
+    )
+
+    expect(getActiveCore()?.isHeadless).toBe(false)
+    expect(getActiveCore()?.manager.isRunning).toBe(false)
+  })
+
+  it('reads the URL flag', () => {
+    expect(isHeadlessUrl('?id=button--primary&performancePanelHeadless=true')).toBe(true)
+    expect(isHeadlessUrl('?performancePanelHeadless')).toBe(true)
+    expect(isHeadlessUrl('?performancePanelHeadless=false')).toBe(false)
+    expect(isHeadlessUrl('?performancePanelHeadless=0')).toBe(false)
+    expect(isHeadlessUrl('?id=button--primary')).toBe(false)
+  })
+})
+
+describe('withPerformanceMonitor (leaked listeners, observers and timers)', () => {
+  const headless = {performancePanel: {headless: true}}
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setActiveCore(null)
+  })
+
+  afterEach(() => {
+    getActiveCore()?.stop()
+    setActiveCore(null)
+  })
+
+  it('reports listeners the previous story left attached', () => {
+    const onResize = vi.fn()
+    withPerformanceMonitor(
+      vi.fn(() => {
+        window.addEventListener('resize', onResize)
+        return ''
+      }),
+      makeCtx({id: 'leaky--story', parameters: headless}),
+    )
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({id: 'next--story', parameters: headless}),
+    )
+    window.removeEventListener('resize', onResize)
+
+    expect(getActiveCore()?.collectMetrics().previousStoryLeaks).toEqual({
+      storyId: 'leaky--story',
+      eventListeners: [{type: 'resize', target: 'window', count: 1}],
+      observers: [],
+      timers: [],
+    })
+  })
+
+  it('reports observers the previous story never disconnected', () => {
+    let observer: ResizeObserver | undefined
+    withPerformanceMonitor(
+      vi.fn(() => {
+        observer = new ResizeObserver(vi.fn())
+        observer.observe(document.body)
+        return ''
+      }),
+      makeCtx({id: 'leaky--story', parameters: headless}),
+    )
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({id: 'next--story', parameters: headless}),
+    )
+    observer?.disconnect()
+
+    expect(getActiveCore()?.collectMetrics().previousStoryLeaks?.observers).toEqual([
+      {type: 'ResizeObserver', target: 'body', count: 1},
+    ])
+  })
+
+  it('reports timers the previous story left pending', () => {
+    let interval: number | undefined
+    withPerformanceMonitor(
+      vi.fn(() => {
+        interval = setInterval(vi.fn(), 10_000)
+        return ''
+      }),
+      makeCtx({id: 'leaky--story', parameters: headless}),
+    )
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({id: 'next--story', parameters: headless}),
+    )
+    clearInterval(interval)
+
+    const timers = getActiveCore()?.collectMetrics().previousStoryLeaks?.timers
+    expect(timers).toHaveLength(1)
+    expect(timers?.[0]).toMatchObject({kind: 'interval', count: 1})
+    expect(timers?.[0]?.callSite).toContain('performance-decorator-universal.browser.test.ts')
+  })
+
+  it('reports nothing when the previous story cleaned up', () => {
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({id: 'clean--story', parameters: headless}),
+    )
+    withPerformanceMonitor(
+      vi.fn(() => ''),
+      makeCtx({id: 'next--story', parameters: headless}),
+    )
+
+    expect(getActiveCore()?.collectMetrics().previousStoryLeaks).toBeNull()
+  })
+})
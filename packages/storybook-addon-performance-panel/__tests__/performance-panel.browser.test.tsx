@@ -17,6 +17,8 @@ vi.mock('storybook/manager-api', () => ({
     channel.registrations.push({events, deps})
     return channel.emit
   },
+  useParameter: (_key: string, defaultValue?: unknown) => defaultValue,
+  useGlobals: () => [{}, vi.fn(), {}],
   useStorybookState: () => ({
     previewInitialized: true,
     refId: undefined,
@@ -0,0 +1,137 @@
+import {act, createContext, type ReactNode, useContext, useState} from 'react'
+import type {Root} from 'react-dom/client'
+import {afterEach, beforeAll, beforeEach, describe, expect, it} from 'vitest'
+
+import {installReactDevToolsHook, RenderReasonCollector} from '../collectors/render-reason-collector'
+import type {ComponentRenderInfo} from '../core/performance-types'
+
+// react-dom connects to the hook when it loads, so it is imported after the hook is installed
+installReactDevToolsHook()
+;(globalThis as {IS_REACT_ACT_ENVIRONMENT?: boolean}).IS_REACT_ACT_ENVIRONMENT = true
+
+const ThemeContext = createContext('light')
+
+function Label({text}: {text: string}) {
+  return <span>{text}</span>
+}
+
+function Counter() {
+  const [count, setCount] = useState(0)
+  return (
+    <button
+      className="count"
+      onClick={() => {
+        setCount(count + 1)
+      }}
+    >
+      {count}
+    </button>
+  )
+}
+
+function Themed() {
+  return <span>{useContext(ThemeContext)}</span>
+}
+
+function Footer() {
+  return <footer>Footer</footer>
+}
+
+function ThemeProvider({children}: {children: ReactNode}) {
+  const [theme, setTheme] = useState('light')
+  return (
+    <ThemeContext value={theme}>
+      <button
+        className="theme"
+        onClick={() => {
+          setTheme('dark')
+        }}
+      >
+        Dark
+      </button>
+      {children}
+    </ThemeContext>
+  )
+}
+
+function App({text}: {text: string}) {
+  return (
+    <ThemeProvider>
+      <Label text={text} />
+      <Counter />
+      <Themed />
+      <Footer />
+    </ThemeProvider>
+  )
+}
+
+describe('RenderReasonCollector with react-dom', () => {
+  let createRoot: typeof import('react-dom/client').createRoot
+  let collector: RenderReasonCollector
+  let container: HTMLDivElement
+  let root: Root
+
+  /** The components that re-rendered in the commits `update` caused, by name */
+  function getRenders(update: () => void): Map<string, ComponentRenderInfo> {
+    collector.reset()
+    act(update)
+    const components = collector.getMetrics().commits.flatMap(commit => commit.components)
+    return new Map(components.map(component => [component.name, component]))
+  }
+
+  function click(selector: string) {
+    container.querySelector<HTMLButtonElement>(selector)?.click()
+  }
+
+  beforeAll(async () => {
+    ;({createRoot} = await import('react-dom/client'))
+  })
+
+  beforeEach(() => {
+    collector = new RenderReasonCollector()
+    collector.enabled = true
+    collector.start()
+    container = document.createElement('div')
+    document.body.appendChild(container)
+    root = createRoot(container)
+    act(() => {
+      root.render(<App text="Total" />)
+    })
+  })
+
+  afterEach(() => {
+    act(() => {
+      root.unmount()
+    })
+    container.remove()
+    collector.stop()
+  })
+
+  it('reports changed props and parent re-renders', () => {
+    const renders = getRenders(() => {
+      root.render(<App text="Subtotal" />)
+    })
+
+    expect(renders.get('Label')).toMatchObject({reasons: ['props'], changedProps: ['text']})
+    expect(renders.get('Footer')).toMatchObject({reasons: ['parent'], changedProps: []})
+  })
+
+  it('reports a useState update', () => {
+    const renders = getRenders(() => {
+      click('.count')
+    })
+
+    expect([...renders.keys()]).toEqual(['Counter'])
+    expect(renders.get('Counter')?.reasons).toEqual(['state'])
+  })
+
+  it('reports a context change', () => {
+    const renders = getRenders(() => {
+      click('.theme')
+    })
+
+    expect(renders.get('ThemeProvider')?.reasons).toEqual(['state'])
+    expect(renders.get('Themed')?.reasons).toEqual(['context'])
+    expect(renders.has('Label')).toBe(false)
+  })
+})
@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview `storybook-perf` executable
+ *
+ * Profiles every story of a built Storybook in headless Chromium and writes
+ * a JSON report plus JUnit XML for budget failures.
+ *
+ * @example
+ * npx storybook-perf storybook-static --play --out reports/performance.json
+ *
+ * @see {@link ./cli/run.ts}
+ * @module cli
+ */
+
+import {runCli} from './cli/run'
+
+process.exitCode = await runCli(process.argv.slice(2))
@@ -0,0 +1,74 @@
+import {describe, expect, it} from 'vitest'
+
+import {parseCliOptions} from '../options'
+
+describe('parseCliOptions', () => {
+  it('uses defaults for a bare invocation', () => {
+    expect(parseCliOptions([])).toEqual({
+      storybookDir: 'storybook-static',
+      url: undefined,
+      outFile: 'performance-report.json',
+      junitFile: 'performance-junit.xml',
+      otlpFile: undefined,
+      otlpEndpoint: undefined,
+      play: false,
+      filter: undefined,
+      timeoutMs: 30_000,
+      quietMs: 500,
+      help: false,
+    })
+  })
+
+  it('reads the directory and options', () => {
+    const options = parseCliOptions([
+      'dist/storybook',
+      '--play',
+      '--out',
+      'reports/perf.json',
+      '--junit',
+      'reports/perf.xml',
+      '--filter',
+      '^components-button',
+      '--timeout',
+      '5000',
+      '--quiet-ms',
+      '250',
+    ])
+
+    expect(options).toMatchObject({
+      storybookDir: 'dist/storybook',
+      outFile: 'reports/perf.json',
+      junitFile: 'reports/perf.xml',
+      play: true,
+      timeoutMs: 5000,
+      quietMs: 250,
+    })
+    expect(options.filter?.test('components-button--primary')).toBe(true)
+    expect(options.filter?.test('components-menu--open')).toBe(false)
+  })
+
+  it('strips trailing slashes from --url', () => {
+    expect(parseCliOptions(['--url', 'http://localhost:6006/']).url).toBe('http://localhost:6006')
+  })
+
+  it('reads the OTLP file and endpoint', () => {
+    expect(
+      parseCliOptions(['--otlp', 'reports/spans.json', '--otlp-endpoint', 'http://localhost:4318/v1/traces']),
+    ).toMatchObject({otlpFile: 'reports/spans.json', otlpEndpoint: 'http://localhost:4318/v1/traces'})
+  })
+
+  it('rejects an OTLP endpoint that is not a URL', () => {
+    expect(() => parseCliOptions(['--otlp-endpoint', 'localhost:4318'])).toThrow(
+      '--otlp-endpoint must be an http(s) URL',
+    )
+  })
+
+  it('rejects invalid timeouts', () => {
+    expect(() => parseCliOptions(['--timeout', 'soon'])).toThrow('--timeout must be a non-negative number')
+  })
+
+  it('rejects unknown options and extra directories', () => {
+    expect(() => parseCliOptions(['--verbose'])).toThrow()
+    expect(() => parseCliOptions(['a', 'b'])).toThrow('Expected at most one Storybook directory')
+  })
+})
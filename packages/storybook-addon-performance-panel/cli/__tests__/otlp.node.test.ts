@@ -0,0 +1,153 @@
+import {createServer, type IncomingMessage, type Server} from 'node:http'
+import type {AddressInfo} from 'node:net'
+
+import {afterAll, beforeAll, describe, expect, it} from 'vitest'
+
+import {DEFAULT_METRICS} from '../../core/performance-types'
+import {countOtlpSpans, createOtlpTraceRequest, type OtlpSpan, postOtlpTraces} from '../otlp'
+import {createPerformanceReport, type StoryReport} from '../report'
+
+function createStory(overrides: Partial<StoryReport> = {}): StoryReport {
+  return {
+    id: 'components-button--primary',
+    title: 'Components/Button',
+    name: 'Primary',
+    url: 'http://127.0.0.1:6006/iframe.html?id=components-button--primary',
+    durationMs: 1500,
+    metrics: {...DEFAULT_METRICS, fps: 58.5, domElements: 12},
+    profilers: {},
+    budgets: [{metric: 'inpMs', budget: 200, actual: 312, status: 'fail', higherIsBetter: false}],
+    measureBudgets: [],
+    error: null,
+    timeline: {
+      timeOrigin: 1_700_000_000_000,
+      measuredAt: 900,
+      events: [
+        {track: 'frame', name: 'Frame', startTime: 100, duration: 16},
+        {
+          track: 'interaction',
+          name: 'click',
+          startTime: 200.5,
+          duration: 48,
+          detail: 'button.primary',
+          segments: [{name: 'js', startTime: 210.5, duration: 30}],
+        },
+        {track: 'react-commit', name: 'Button update', startTime: 215, duration: 6},
+      ],
+    },
+    ...overrides,
+  }
+}
+
+function getSpans(stories: StoryReport[]): OtlpSpan[] {
+  const request = createOtlpTraceRequest(createPerformanceReport('http://127.0.0.1:6006', stories))
+  return request.resourceSpans[0]?.scopeSpans[0]?.spans ?? []
+}
+
+describe('createOtlpTraceRequest', () => {
+  it('creates a root span per story with metrics as attributes', () => {
+    const [root] = getSpans([createStory()])
+
+    expect(root).toMatchObject({
+      name: 'components-button--primary',
+      kind: 1,
+      startTimeUnixNano: '1700000000000000000',
+      endTimeUnixNano: '1700000000900000000',
+    })
+    expect(root?.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(root?.spanId).toMatch(/^[0-9a-f]{16}$/)
+    expect(root?.parentSpanId).toBeUndefined()
+    expect(root?.attributes).toEqual(
+      expect.arrayContaining([
+        {key: 'storybook.story.id', value: {stringValue: 'components-button--primary'}},
+        {key: 'storybook.budget.failures', value: {arrayValue: {values: [{stringValue: 'inpMs'}]}}},
+        {key: 'storybook.metric.fps', value: {doubleValue: 58.5}},
+        {key: 'storybook.metric.domElements', value: {intValue: '12'}},
+      ]),
+    )
+    // Lists and metrics without data aren't attributes
+    expect(root?.attributes.map(attribute => attribute.key)).not.toContain('storybook.metric.frameTimeHistory')
+    expect(root?.attributes.map(attribute => attribute.key)).not.toContain('storybook.metric.memoryUsedMB')
+  })
+
+  it('nests interactions, React commits and their segments below the story', () => {
+    const [root, interaction, segment, commit] = getSpans([createStory()])
+
+    expect(interaction).toMatchObject({
+      traceId: root?.traceId,
+      parentSpanId: root?.spanId,
+      name: 'click',
+      startTimeUnixNano: '1700000000200500000',
+      endTimeUnixNano: '1700000000248500000',
+      attributes: [
+        {key: 'storybook.timeline.track', value: {stringValue: 'interaction'}},
+        {key: 'storybook.timeline.detail', value: {stringValue: 'button.primary'}},
+      ],
+    })
+    expect(segment).toMatchObject({parentSpanId: interaction?.spanId, name: 'js'})
+    expect(commit).toMatchObject({parentSpanId: root?.spanId, name: 'Button update'})
+  })
+
+  it('gives each story its own trace and skips stories without a timeline', () => {
+    const spans = getSpans([
+      createStory(),
+      createStory({id: 'components-button--secondary', error: 'Timeout'}),
+      createStory({id: 'components-menu--open', timeline: null}),
+    ])
+    const roots = spans.filter(span => span.parentSpanId === undefined)
+
+    expect(roots.map(root => root.name)).toEqual(['components-button--primary', 'components-button--secondary'])
+    expect(roots[0]?.traceId).not.toBe(roots[1]?.traceId)
+    expect(roots[1]?.status).toEqual({code: 2, message: 'Timeout'})
+    expect(spans).toHaveLength(8)
+  })
+})
+
+describe('postOtlpTraces', () => {
+  let server: Server
+  let endpoint: string
+  let received: {url: string | undefined; contentType: string | undefined; body: string}[]
+  let status: number
+
+  beforeAll(async () => {
+    // Stand-in for an OpenTelemetry Collector's OTLP/HTTP receiver
+    server = createServer((request: IncomingMessage, response) => {
+      let body = ''
+      request.on('data', (chunk: Buffer) => {
+        body += chunk.toString()
+      })
+      request.on('end', () => {
+        received.push({url: request.url, contentType: request.headers['content-type'], body})
+        response.writeHead(status).end()
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    endpoint = `http://127.0.0.1:${String((server.address() as AddressInfo).port)}/v1/traces`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('posts the spans as JSON', async () => {
+    received = []
+    status = 200
+    const request = createOtlpTraceRequest(createPerformanceReport('http://127.0.0.1:6006', [createStory()]))
+
+    await postOtlpTraces(endpoint, request)
+
+    expect(received).toHaveLength(1)
+    expect(received[0]?.url).toBe('/v1/traces')
+    expect(received[0]?.contentType).toBe('application/json')
+    expect(JSON.parse(received[0]?.body ?? '')).toEqual(request)
+    expect(countOtlpSpans(request)).toBe(4)
+  })
+
+  it('fails when the collector rejects the spans', async () => {
+    received = []
+    status = 500
+    const request = createOtlpTraceRequest(createPerformanceReport('http://127.0.0.1:6006', []))
+
+    await expect(postOtlpTraces(endpoint, request)).rejects.toThrow(`Could not post spans to ${endpoint} (HTTP 500)`)
+  })
+})
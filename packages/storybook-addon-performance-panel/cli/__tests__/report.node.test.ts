@@ -0,0 +1,120 @@
+import {describe, expect, it} from 'vitest'
+
+import {DEFAULT_METRICS} from '../../core/performance-types'
+import {createJUnitReport, createPerformanceReport, isStoryFailed, type StoryReport} from '../report'
+
+function createStory(overrides: Partial<StoryReport> = {}): StoryReport {
+  return {
+    id: 'components-button--primary',
+    title: 'Components/Button',
+    name: 'Primary',
+    url: 'http://127.0.0.1:6006/iframe.html?id=components-button--primary',
+    durationMs: 1500,
+    metrics: {...DEFAULT_METRICS},
+    profilers: {},
+    budgets: [],
+    measureBudgets: [],
+    error: null,
+    timeline: null,
+    ...overrides,
+  }
+}
+
+const overBudget = createStory({
+  id: 'components-menu--open',
+  title: 'Components/Menu',
+  name: 'Open <large>',
+  budgets: [
+    {metric: 'inpMs', budget: 200, actual: 312, status: 'fail', higherIsBetter: false},
+    {metric: 'fps', budget: 55, actual: 60, status: 'pass', higherIsBetter: true},
+    {metric: 'memoryUsedMB', budget: 50, actual: null, status: 'no-data', higherIsBetter: false},
+  ],
+  measureBudgets: [
+    {measure: 'menu:open', budget: 8, actual: 12.5, status: 'fail', higherIsBetter: false},
+    {measure: 'menu:close', budget: 8, actual: 2, status: 'pass', higherIsBetter: false},
+  ],
+})
+
+describe('createPerformanceReport', () => {
+  it('stamps the format, version and creation time', () => {
+    const report = createPerformanceReport('http://127.0.0.1:6006', [], new Date('2025-01-02T03:04:05Z'))
+
+    expect(report).toEqual({
+      format: 'storybook-addon-performance-panel/report',
+      version: 1,
+      createdAt: '2025-01-02T03:04:05.000Z',
+      storybookUrl: 'http://127.0.0.1:6006',
+      stories: [],
+    })
+  })
+})
+
+describe('isStoryFailed', () => {
+  it('fails on exceeded budgets and errors, not on missing data', () => {
+    expect(isStoryFailed(createStory())).toBe(false)
+    expect(isStoryFailed(overBudget)).toBe(true)
+    expect(isStoryFailed(createStory({error: 'Timeout'}))).toBe(true)
+    expect(
+      isStoryFailed(
+        createStory({
+          budgets: [{metric: 'memoryUsedMB', budget: 1, actual: null, status: 'no-data', higherIsBetter: false}],
+        }),
+      ),
+    ).toBe(false)
+  })
+
+  it('fails on exceeded measure budgets, not on measures that were not recorded', () => {
+    expect(
+      isStoryFailed(
+        createStory({
+          measureBudgets: [{measure: 'table:sort', budget: 16, actual: 24, status: 'fail', higherIsBetter: false}],
+        }),
+      ),
+    ).toBe(true)
+    expect(
+      isStoryFailed(
+        createStory({
+          measureBudgets: [{measure: 'table:sort', budget: 16, actual: null, status: 'no-data', higherIsBetter: false}],
+        }),
+      ),
+    ).toBe(false)
+  })
+})
+
+describe('createJUnitReport', () => {
+  const report = createPerformanceReport(
+    'http://127.0.0.1:6006',
+    [
+      createStory(),
+      createStory({id: 'components-button--broken', name: 'Broken', metrics: null, error: 'Timeout 30000ms exceeded'}),
+      createStory({id: 'components-button--disabled', name: 'Disabled', metrics: null}),
+      overBudget,
+    ],
+    new Date('2025-01-02T03:04:05Z'),
+  )
+  const xml = createJUnitReport(report)
+
+  it('summarises failures and errors', () => {
+    expect(xml).toContain('<testsuites name="storybook-perf" tests="4" failures="1" errors="1" time="6.000">')
+    expect(xml).toContain('<testsuite name="Components/Button" tests="3" failures="0" errors="1"')
+    expect(xml).toContain('<testsuite name="Components/Menu" tests="1" failures="1" errors="0"')
+  })
+
+  it('lists exceeded budgets as failures', () => {
+    expect(xml).toContain(
+      '<failure message="Performance budgets not met: inpMs, menu:open" type="PerformanceBudget">inpMs: 312 (budget ≤ 200)\nmenu:open: 12.5 (budget ≤ 8)</failure>',
+    )
+    expect(xml).not.toContain('menu:close')
+    expect(xml).not.toContain('fps:')
+  })
+
+  it('reports errors and skipped stories', () => {
+    expect(xml).toContain('<error message="Timeout 30000ms exceeded" type="StoryError"/>')
+    expect(xml).toContain('<skipped message="Performance monitoring is disabled for this story"/>')
+    expect(xml).toContain('<testcase classname="Components/Button" name="Primary" time="1.500"/>')
+  })
+
+  it('escapes XML special characters', () => {
+    expect(xml).toContain('name="Open &lt;large&gt;"')
+  })
+})
@@ -0,0 +1,59 @@
+import {mkdtemp, rm, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {afterAll, beforeAll, describe, expect, it} from 'vitest'
+
+import {resolveRequestPath, startStaticServer, type StaticServer} from '../static-server'
+
+describe('resolveRequestPath', () => {
+  it('maps URLs into the root directory', () => {
+    expect(resolveRequestPath('/srv/sb', '/iframe.html?id=a--b')).toBe('/srv/sb/iframe.html')
+    expect(resolveRequestPath('/srv/sb', '/')).toBe('/srv/sb/index.html')
+  })
+
+  it('rejects paths outside the root directory', () => {
+    expect(resolveRequestPath('/srv/sb', '/..%2Fsecret')).toBeNull()
+  })
+
+  it('throws for malformed percent-encoding', () => {
+    expect(() => resolveRequestPath('/srv/sb', '/%E0%A4%A')).toThrow(URIError)
+  })
+})
+
+describe('startStaticServer', () => {
+  let dir: string
+  let server: StaticServer
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'storybook-perf-'))
+    await writeFile(join(dir, 'index.json'), '{"v":5,"entries":{}}')
+    server = await startStaticServer(dir)
+  })
+
+  afterAll(async () => {
+    await server.close()
+    await rm(dir, {recursive: true})
+  })
+
+  it('serves files with a content type', async () => {
+    const response = await fetch(`${server.url}/index.json`)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('application/json')
+    expect(await response.json()).toEqual({v: 5, entries: {}})
+  })
+
+  it('responds 404 for missing files', async () => {
+    const response = await fetch(`${server.url}/missing.js`)
+
+    expect(response.status).toBe(404)
+  })
+
+  it('responds 400 for malformed paths and keeps serving', async () => {
+    const response = await fetch(`${server.url}/%E0%A4%A`)
+
+    expect(response.status).toBe(400)
+    expect((await fetch(`${server.url}/index.json`)).status).toBe(200)
+  })
+})
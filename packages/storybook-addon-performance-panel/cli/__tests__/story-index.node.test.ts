@@ -0,0 +1,45 @@
+import {describe, expect, it} from 'vitest'
+
+import {getStoryUrl, selectStories, type StoryIndex} from '../story-index'
+
+const index: StoryIndex = {
+  v: 5,
+  entries: {
+    'components-button--docs': {type: 'docs', id: 'components-button--docs', title: 'Components/Button', name: 'Docs'},
+    'components-button--primary': {
+      type: 'story',
+      id: 'components-button--primary',
+      title: 'Components/Button',
+      name: 'Primary',
+    },
+    'components-menu--open': {type: 'story', id: 'components-menu--open', title: 'Components/Menu', name: 'Open'},
+  },
+}
+
+describe('selectStories', () => {
+  it('skips docs entries', () => {
+    expect(selectStories(index).map(entry => entry.id)).toEqual(['components-button--primary', 'components-menu--open'])
+  })
+
+  it('filters by story ID', () => {
+    expect(selectStories(index, /menu/).map(entry => entry.id)).toEqual(['components-menu--open'])
+  })
+})
+
+describe('getStoryUrl', () => {
+  it('enables headless collection and skips play functions by default', () => {
+    const url = new URL(getStoryUrl('http://127.0.0.1:6006', 'components-menu--open', {play: false}))
+
+    expect(url.pathname).toBe('/iframe.html')
+    expect(url.searchParams.get('id')).toBe('components-menu--open')
+    expect(url.searchParams.get('viewMode')).toBe('story')
+    expect(url.searchParams.get('performancePanelHeadless')).toBe('true')
+    expect(url.searchParams.get('embed')).toBe('true')
+  })
+
+  it('runs play functions when requested', () => {
+    const url = new URL(getStoryUrl('http://127.0.0.1:6006', 'components-menu--open', {play: true}))
+
+    expect(url.searchParams.has('embed')).toBe(false)
+  })
+})
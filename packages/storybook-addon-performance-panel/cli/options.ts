@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Command line options for `storybook-perf`
+ *
+ * @module cli/options
+ */
+
+import {parseArgs} from 'node:util'
+
+/** Default per-story timeout (ms) */
+const DEFAULT_TIMEOUT_MS = 30_000
+
+/** Default quiet period before metrics are read (ms) */
+const DEFAULT_QUIET_MS = 500
+
+export interface CliOptions {
+  /** Built Storybook directory to serve (ignored when `url` is set) */
+  storybookDir: string
+  /** URL of an already running Storybook */
+  url: string | undefined
+  /** Path of the JSON report */
+  outFile: string
+  /** Path of the JUnit XML report */
+  junitFile: string
+  /** Path of the OTLP JSON trace file */
+  otlpFile: string | undefined
+  /** OTLP/HTTP traces endpoint to post spans to */
+  otlpEndpoint: string | undefined
+  /** Run play functions before reading metrics */
+  play: boolean
+  /** Only profile stories whose ID matches */
+  filter: RegExp | undefined
+  /** Give up on a story after this long (ms) */
+  timeoutMs: number
+  /** Quiet period with no DOM mutations or React commits before metrics are read (ms) */
+  quietMs: number
+  help: boolean
+}
+
+export const USAGE = `Usage: storybook-perf [storybook-static] [options]
+
+Profiles every story of a built Storybook in headless Chromium and writes
+per-story metrics to JSON and budget failures to JUnit XML.
+
+Options:
+  --url <url>          Profile a running Storybook instead of a static build
+  --out <file>         JSON report path (default: performance-report.json)
+  --junit <file>       JUnit XML report path (default: performance-junit.xml)
+  --otlp <file>        Also write each story as OpenTelemetry spans (OTLP JSON)
+  --otlp-endpoint <url>
+                       Post the spans to an OTLP/HTTP collector, e.g.
+                       http://localhost:4318/v1/traces
+  --play               Run play functions before reading metrics
+  --filter <regex>     Only profile stories whose ID matches
+  --timeout <ms>       Per-story timeout (default: ${String(DEFAULT_TIMEOUT_MS)})
+  --quiet-ms <ms>      Idle period before metrics are read (default: ${String(DEFAULT_QUIET_MS)})
+  -h, --help           Show this message
+`
+
+function parseEndpoint(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined
+  let protocol = ''
+  try {
+    protocol = new URL(value).protocol
+  } catch {
+    // Reported below
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`--otlp-endpoint must be an http(s) URL, got "${value}"`)
+  }
+  return value
+}
+
+function parseMilliseconds(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative number of milliseconds, got "${value}"`)
+  }
+  return parsed
+}
+
+/**
+ * Parse `storybook-perf` arguments.
+ * @throws {Error} On unknown options or invalid values
+ */
+export function parseCliOptions(argv: string[]): CliOptions {
+  const {values, positionals} = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: {type: 'string'},
+      out: {type: 'string', default: 'performance-report.json'},
+      junit: {type: 'string', default: 'performance-junit.xml'},
+      otlp: {type: 'string'},
+      'otlp-endpoint': {type: 'string'},
+      play: {type: 'boolean', default: false},
+      filter: {type: 'string'},
+      timeout: {type: 'string'},
+      'quiet-ms': {type: 'string'},
+      help: {type: 'boolean', short: 'h', default: false},
+    },
+  })
+
+  if (positionals.length > 1) {
+    throw new Error(`Expected at most one Storybook directory, got ${String(positionals.length)}`)
+  }
+
+  return {
+    storybookDir: positionals[0] ?? 'storybook-static',
+    url: values.url?.replace(/\/+$/, ''),
+    outFile: values.out,
+    junitFile: values.junit,
+    otlpFile: values.otlp,
+    otlpEndpoint: parseEndpoint(values['otlp-endpoint']),
+    play: values.play,
+    filter: values.filter === undefined ? undefined : new RegExp(values.filter),
+    timeoutMs: parseMilliseconds('timeout', values.timeout, DEFAULT_TIMEOUT_MS),
+    quietMs: parseMilliseconds('quiet-ms', values['quiet-ms'], DEFAULT_QUIET_MS),
+    help: values.help,
+  }
+}
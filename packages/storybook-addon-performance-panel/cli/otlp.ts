@@ -0,0 +1,236 @@
+/**
+ * @fileoverview OpenTelemetry export for `storybook-perf`
+ *
+ * Converts a report into an OTLP JSON `ExportTraceServiceRequest`, so story
+ * measurements can be compared with field data in the same tracing backend.
+ * Each story becomes its own trace: a root span for the story render, from
+ * page navigation until metrics were read, with the story's metrics as
+ * attributes. Interactions, React commits and long animation frames are
+ * child spans, and their phases, render times and scripts are nested below
+ * them.
+ *
+ * @see https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+ * @module cli/otlp
+ */
+
+import {randomBytes} from 'node:crypto'
+
+import type {TimelineEvent, TimelineTrack} from '../core/performance-types'
+import {getFailedBudgetNames, type PerformanceReport, type StoryReport, type StoryTimeline} from './report'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An OTLP `AnyValue` in JSON encoding. 64-bit integers are strings. */
+export type OtlpAnyValue =
+  | {stringValue: string}
+  | {boolValue: boolean}
+  | {intValue: string}
+  | {doubleValue: number}
+  | {arrayValue: {values: OtlpAnyValue[]}}
+
+export interface OtlpKeyValue {
+  key: string
+  value: OtlpAnyValue
+}
+
+export interface OtlpSpan {
+  /** 16 bytes, hex encoded */
+  traceId: string
+  /** 8 bytes, hex encoded */
+  spanId: string
+  parentSpanId?: string
+  name: string
+  /** `SPAN_KIND_INTERNAL` */
+  kind: 1
+  startTimeUnixNano: string
+  endTimeUnixNano: string
+  attributes: OtlpKeyValue[]
+  /** `STATUS_CODE_ERROR` with a message, for stories that failed to render */
+  status?: {code: 2; message: string}
+}
+
+/** Request body for `POST /v1/traces` */
+export interface OtlpTraceRequest {
+  resourceSpans: {
+    resource: {attributes: OtlpKeyValue[]}
+    scopeSpans: {
+      scope: {name: string}
+      spans: OtlpSpan[]
+    }[]
+  }[]
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/** Timeline tracks exported as child spans of the story render */
+export const OTLP_SPAN_TRACKS: readonly TimelineTrack[] = ['interaction', 'react-commit', 'loaf']
+
+const SCOPE_NAME = 'storybook-addon-performance-panel'
+
+const SPAN_KIND_INTERNAL = 1
+
+/** Epoch milliseconds as a decimal nanosecond string, with microsecond precision */
+function toUnixNano(epochMs: number): string {
+  return `${String(Math.round(epochMs * 1000))}000`
+}
+
+function createId(bytes: number): string {
+  return randomBytes(bytes).toString('hex')
+}
+
+function toAnyValue(value: string | number | boolean): OtlpAnyValue {
+  if (typeof value === 'string') return {stringValue: value}
+  if (typeof value === 'boolean') return {boolValue: value}
+  return Number.isInteger(value) ? {intValue: String(value)} : {doubleValue: value}
+}
+
+/**
+ * Scalar metrics as `storybook.metric.*` attributes. Lists, objects and
+ * metrics without data (`null`) are left out.
+ */
+function getMetricAttributes(story: StoryReport): OtlpKeyValue[] {
+  const attributes: OtlpKeyValue[] = []
+  for (const [key, value] of Object.entries(story.metrics ?? {})) {
+    if (typeof value === 'string' || typeof value === 'boolean' || Number.isFinite(value)) {
+      attributes.push({key: `storybook.metric.${key}`, value: toAnyValue(value as string | number | boolean)})
+    }
+  }
+  return attributes
+}
+
+function getStoryAttributes(story: StoryReport): OtlpKeyValue[] {
+  const attributes: OtlpKeyValue[] = [
+    {key: 'storybook.story.id', value: {stringValue: story.id}},
+    {key: 'storybook.story.title', value: {stringValue: story.title}},
+    {key: 'storybook.story.name', value: {stringValue: story.name}},
+    {key: 'url.full', value: {stringValue: story.url}},
+  ]
+  const failures = getFailedBudgetNames(story)
+  if (failures.length > 0) {
+    attributes.push({
+      key: 'storybook.budget.failures',
+      value: {arrayValue: {values: failures.map(name => ({stringValue: name}))}},
+    })
+  }
+  return [...attributes, ...getMetricAttributes(story)]
+}
+
+/** Spans for one timeline event and its segments, below `parentSpanId` */
+function createEventSpans(
+  event: TimelineEvent,
+  timeline: StoryTimeline,
+  traceId: string,
+  parentSpanId: string,
+): OtlpSpan[] {
+  const spanId = createId(8)
+  const attributes: OtlpKeyValue[] = [{key: 'storybook.timeline.track', value: {stringValue: event.track}}]
+  if (event.detail) {
+    attributes.push({key: 'storybook.timeline.detail', value: {stringValue: event.detail}})
+  }
+
+  const spans: OtlpSpan[] = [
+    {
+      traceId,
+      spanId,
+      parentSpanId,
+      name: event.name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(timeline.timeOrigin + event.startTime),
+      endTimeUnixNano: toUnixNano(timeline.timeOrigin + event.startTime + event.duration),
+      attributes,
+    },
+  ]
+  for (const segment of event.segments ?? []) {
+    spans.push({
+      traceId,
+      spanId: createId(8),
+      parentSpanId: spanId,
+      name: segment.name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(timeline.timeOrigin + segment.startTime),
+      endTimeUnixNano: toUnixNano(timeline.timeOrigin + segment.startTime + segment.duration),
+      attributes: [],
+    })
+  }
+  return spans
+}
+
+/** The root span of a story and the spans of its timeline events */
+function createStorySpans(story: StoryReport, timeline: StoryTimeline): OtlpSpan[] {
+  const traceId = createId(16)
+  const spanId = createId(8)
+  const root: OtlpSpan = {
+    traceId,
+    spanId,
+    name: story.id,
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(timeline.timeOrigin),
+    endTimeUnixNano: toUnixNano(timeline.timeOrigin + timeline.measuredAt),
+    attributes: getStoryAttributes(story),
+  }
+  if (story.error !== null) {
+    root.status = {code: 2, message: story.error}
+  }
+
+  const events = timeline.events.filter(event => OTLP_SPAN_TRACKS.includes(event.track))
+  return [root, ...events.flatMap(event => createEventSpans(event, timeline, traceId, spanId))]
+}
+
+/**
+ * Build an OTLP trace request from a report. Stories without a timeline
+ * (not profiled, or monitoring disabled) are left out.
+ */
+export function createOtlpTraceRequest(report: PerformanceReport): OtlpTraceRequest {
+  const spans = report.stories.flatMap(story => (story.timeline ? createStorySpans(story, story.timeline) : []))
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [
+            {key: 'service.name', value: {stringValue: 'storybook'}},
+            {key: 'storybook.url', value: {stringValue: report.storybookUrl}},
+          ],
+        },
+        scopeSpans: [{scope: {name: SCOPE_NAME}, spans}],
+      },
+    ],
+  }
+}
+
+/** Number of spans in a request */
+export function countOtlpSpans(request: OtlpTraceRequest): number {
+  return request.resourceSpans.reduce(
+    (total, resource) => total + resource.scopeSpans.reduce((sum, scope) => sum + scope.spans.length, 0),
+    0,
+  )
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Post spans to an OTLP/HTTP traces endpoint, such as a local
+ * OpenTelemetry Collector at `http://localhost:4318/v1/traces`.
+ *
+ * @throws {Error} If the collector can't be reached or rejects the request
+ */
+export async function postOtlpTraces(endpoint: string, request: OtlpTraceRequest): Promise<void> {
+  let response: Response
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify(request),
+    })
+  } catch (error) {
+    throw new Error(`Could not post spans to ${endpoint}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (!response.ok) {
+    throw new Error(`Could not post spans to ${endpoint} (HTTP ${String(response.status)})`)
+  }
+}
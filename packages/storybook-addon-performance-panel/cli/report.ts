@@ -0,0 +1,171 @@
+/**
+ * @fileoverview JSON and JUnit reports for `storybook-perf`
+ *
+ * The JSON report keeps everything collected for each story. The JUnit
+ * report has one test case per story, failing when a metric or measure
+ * budget is exceeded or
+ * the story could not be profiled, so CI systems can show regressions
+ * without knowing about the JSON format.
+ *
+ * @module cli/report
+ */
+
+import {type BudgetResult, formatBudget, type MeasureBudgetResult} from '../core/performance-budgets'
+import type {ProfilerMetrics} from '../core/performance-store'
+import type {PerformanceMetrics, TimelineEvent} from '../core/performance-types'
+
+/** Identifies report files written by the runner */
+export const REPORT_FORMAT = 'storybook-addon-performance-panel/report'
+
+/** Version of the {@link PerformanceReport} shape */
+export const REPORT_VERSION = 1
+
+/** Timestamped events of a story, read when OTLP export is enabled */
+export interface StoryTimeline {
+  /** `performance.timeOrigin` of the story's page (epoch ms) */
+  timeOrigin: number
+  /** When metrics were read, relative to `timeOrigin` (ms) */
+  measuredAt: number
+  /** Interactions, React commits and long animation frames, relative to `timeOrigin` */
+  events: TimelineEvent[]
+}
+
+export interface StoryReport {
+  id: string
+  title: string
+  name: string
+  url: string
+  /** Time spent loading and measuring the story (ms) */
+  durationMs: number
+  /** `null` when the story could not be profiled or monitoring is disabled for it */
+  metrics: PerformanceMetrics | null
+  /** React profiler metrics keyed by profiler ID */
+  profilers: Record<string, ProfilerMetrics>
+  /** Results for `parameters.performancePanel.budgets` */
+  budgets: BudgetResult[]
+  /** Results for `parameters.performancePanel.measureBudgets` */
+  measureBudgets: MeasureBudgetResult[]
+  /** Why the story could not be profiled, or why its play function failed */
+  error: string | null
+  /** `null` unless OTLP export is enabled and the story was profiled */
+  timeline: StoryTimeline | null
+}
+
+export interface PerformanceReport {
+  format: typeof REPORT_FORMAT
+  version: typeof REPORT_VERSION
+  createdAt: string
+  storybookUrl: string
+  stories: StoryReport[]
+}
+
+export function createPerformanceReport(
+  storybookUrl: string,
+  stories: StoryReport[],
+  createdAt: Date = new Date(),
+): PerformanceReport {
+  return {format: REPORT_FORMAT, version: REPORT_VERSION, createdAt: createdAt.toISOString(), storybookUrl, stories}
+}
+
+/** Budgets a story exceeded. Metrics without data don't count as failures. */
+export function getBudgetFailures(story: StoryReport): BudgetResult[] {
+  return story.budgets.filter(result => result.status === 'fail')
+}
+
+/** Measure budgets a story exceeded. Measures that weren't recorded don't count as failures. */
+export function getMeasureBudgetFailures(story: StoryReport): MeasureBudgetResult[] {
+  return story.measureBudgets.filter(result => result.status === 'fail')
+}
+
+/** Names of the metrics and measures a story exceeded its budget for */
+export function getFailedBudgetNames(story: StoryReport): string[] {
+  return [
+    ...getBudgetFailures(story).map(result => result.metric),
+    ...getMeasureBudgetFailures(story).map(result => result.measure),
+  ]
+}
+
+/** Whether a story errored or exceeded any budget */
+export function isStoryFailed(story: StoryReport): boolean {
+  return story.error !== null || getFailedBudgetNames(story).length > 0
+}
+
+// ============================================================================
+// JUnit XML
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function formatSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3)
+}
+
+function describeFailure(name: string, result: BudgetResult | MeasureBudgetResult): string {
+  return `${name}: ${String(result.actual)} (budget ${formatBudget(result)})`
+}
+
+function renderTestCase(story: StoryReport): string {
+  const attributes = `classname="${escapeXml(story.title)}" name="${escapeXml(story.name)}" time="${formatSeconds(story.durationMs)}"`
+  const failures = getFailedBudgetNames(story)
+  const children: string[] = []
+
+  if (story.error !== null) {
+    children.push(`      <error message="${escapeXml(story.error)}" type="StoryError"/>`)
+  }
+  if (failures.length > 0) {
+    const message = `Performance budgets not met: ${failures.join(', ')}`
+    const details = [
+      ...getBudgetFailures(story).map(result => describeFailure(result.metric, result)),
+      ...getMeasureBudgetFailures(story).map(result => describeFailure(result.measure, result)),
+    ].join('\n')
+    children.push(
+      `      <failure message="${escapeXml(message)}" type="PerformanceBudget">${escapeXml(details)}</failure>`,
+    )
+  }
+
+  if (story.metrics === null && story.error === null) {
+    children.push('      <skipped message="Performance monitoring is disabled for this story"/>')
+  }
+
+  if (children.length === 0) return `    <testcase ${attributes}/>`
+  return [`    <testcase ${attributes}>`, ...children, '    </testcase>'].join('\n')
+}
+
+/**
+ * Render a JUnit XML report with one test suite per story title (component)
+ * and one test case per story.
+ */
+export function createJUnitReport(report: PerformanceReport): string {
+  const suites = new Map<string, StoryReport[]>()
+  for (const story of report.stories) {
+    const stories = suites.get(story.title) ?? []
+    stories.push(story)
+    suites.set(story.title, stories)
+  }
+
+  const countErrors = (stories: StoryReport[]) => stories.filter(story => story.error !== null).length
+  const countFailures = (stories: StoryReport[]) =>
+    stories.filter(story => getFailedBudgetNames(story).length > 0).length
+  const sumTime = (stories: StoryReport[]) => stories.reduce((total, story) => total + story.durationMs, 0)
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="storybook-perf" tests="${String(report.stories.length)}" failures="${String(countFailures(report.stories))}" errors="${String(countErrors(report.stories))}" time="${formatSeconds(sumTime(report.stories))}">`,
+  ]
+  for (const [title, stories] of suites) {
+    lines.push(
+      `  <testsuite name="${escapeXml(title)}" tests="${String(stories.length)}" failures="${String(countFailures(stories))}" errors="${String(countErrors(stories))}" time="${formatSeconds(sumTime(stories))}" timestamp="${report.createdAt}">`,
+      ...stories.map(renderTestCase),
+      '  </testsuite>',
+    )
+  }
+  lines.push('</testsuites>', '')
+  return lines.join('\n')
+}
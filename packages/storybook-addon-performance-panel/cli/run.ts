@@ -0,0 +1,119 @@
+/**
+ * @fileoverview `storybook-perf` command
+ *
+ * Serves a built Storybook (or uses a running one), profiles every story
+ * from its `index.json` and writes the JSON and JUnit reports, plus OTLP
+ * spans when requested. Exits with code 1 when any story exceeds a budget
+ * or can't be profiled.
+ *
+ * @module cli/run
+ */
+
+import {access, mkdir, writeFile} from 'node:fs/promises'
+import {dirname, join} from 'node:path'
+
+import {type CliOptions, parseCliOptions, USAGE} from './options'
+import {countOtlpSpans, createOtlpTraceRequest, postOtlpTraces} from './otlp'
+import {
+  createJUnitReport,
+  createPerformanceReport,
+  getFailedBudgetNames,
+  isStoryFailed,
+  type StoryReport,
+} from './report'
+import {profileStories} from './runner'
+import {startStaticServer} from './static-server'
+import {selectStories, type StoryIndex} from './story-index'
+
+async function loadStoryIndex(baseUrl: string): Promise<StoryIndex> {
+  const response = await fetch(`${baseUrl}/index.json`)
+  if (!response.ok) {
+    throw new Error(`Could not load ${baseUrl}/index.json (HTTP ${String(response.status)})`)
+  }
+  return (await response.json()) as StoryIndex
+}
+
+async function writeReportFile(filePath: string, contents: string): Promise<void> {
+  await mkdir(dirname(filePath), {recursive: true})
+  await writeFile(filePath, contents)
+}
+
+function printStory(report: StoryReport): void {
+  if (report.error !== null) {
+    console.log(`✗ ${report.id}: ${report.error}`)
+  } else if (report.metrics === null) {
+    console.log(`- ${report.id}: skipped (monitoring disabled)`)
+  } else {
+    const failures = getFailedBudgetNames(report)
+    console.log(failures.length > 0 ? `✗ ${report.id}: over budget (${failures.join(', ')})` : `✓ ${report.id}`)
+  }
+}
+
+async function profile(options: CliOptions): Promise<number> {
+  let baseUrl = options.url
+  let close: (() => Promise<void>) | undefined
+
+  if (!baseUrl) {
+    try {
+      await access(join(options.storybookDir, 'index.json'))
+    } catch {
+      throw new Error(`No index.json in "${options.storybookDir}". Build Storybook first or pass --url.`)
+    }
+    const server = await startStaticServer(options.storybookDir)
+    baseUrl = server.url
+    close = server.close
+  }
+
+  try {
+    const stories = selectStories(await loadStoryIndex(baseUrl), options.filter)
+    if (stories.length === 0) {
+      throw new Error('No stories to profile')
+    }
+
+    console.log(`Profiling ${String(stories.length)} stories from ${options.url ?? options.storybookDir}`)
+    const results = await profileStories(baseUrl, stories, options, printStory)
+    const report = createPerformanceReport(options.url ?? baseUrl, results)
+
+    await writeReportFile(options.outFile, `${JSON.stringify(report, null, 2)}\n`)
+    await writeReportFile(options.junitFile, createJUnitReport(report))
+
+    const failed = results.filter(isStoryFailed).length
+    console.log(`\n${String(failed)} of ${String(results.length)} stories failed`)
+    console.log(`Wrote ${options.outFile} and ${options.junitFile}`)
+
+    if (options.otlpFile !== undefined || options.otlpEndpoint !== undefined) {
+      const traces = createOtlpTraceRequest(report)
+      if (options.otlpFile !== undefined) {
+        await writeReportFile(options.otlpFile, `${JSON.stringify(traces)}\n`)
+        console.log(`Wrote ${String(countOtlpSpans(traces))} spans to ${options.otlpFile}`)
+      }
+      if (options.otlpEndpoint !== undefined) {
+        await postOtlpTraces(options.otlpEndpoint, traces)
+        console.log(`Posted ${String(countOtlpSpans(traces))} spans to ${options.otlpEndpoint}`)
+      }
+    }
+    return failed > 0 ? 1 : 0
+  } finally {
+    await close?.()
+  }
+}
+
+/**
+ * Run `storybook-perf` with command line arguments (without `node` and the
+ * script path).
+ *
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  try {
+    const options = parseCliOptions(argv)
+    if (options.help) {
+      console.log(USAGE)
+      return 0
+    }
+    return await profile(options)
+  } catch (error) {
+    console.error(`storybook-perf: ${error instanceof Error ? error.message : String(error)}`)
+    return 2
+  }
+}
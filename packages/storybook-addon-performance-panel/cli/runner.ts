@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Profiles stories in headless Chromium
+ *
+ * Each story is opened in its own page with headless collection enabled.
+ * Once Storybook has finished rendering (and running the play function, if
+ * enabled), the runner waits for the page to go quiet and reads metrics,
+ * profilers and budget results from `window.__STORYBOOK_PERFORMANCE__`. With
+ * OTLP export enabled, it also reads the timestamped events that become
+ * spans.
+ *
+ * Playwright is an optional peer dependency, loaded only when the runner
+ * starts.
+ *
+ * @module cli/runner
+ */
+
+import type {Browser, Page} from 'playwright'
+
+import type {StorybookPerformanceApi} from '../core/global-api'
+import type {CliOptions} from './options'
+import {OTLP_SPAN_TRACKS} from './otlp'
+import type {StoryReport} from './report'
+import {getStoryUrl, type StoryIndexEntry} from './story-index'
+
+/**
+ * Story render phases after which Storybook does no more work.
+ * Play functions run before `completed`.
+ */
+const SETTLED_PHASES = ['completed', 'finished', 'errored', 'aborted']
+
+type RunnerOptions = Pick<CliOptions, 'play' | 'timeoutMs' | 'quietMs' | 'otlpFile' | 'otlpEndpoint'>
+
+/** The parts of the preview globals the runner reads */
+interface PreviewWindow {
+  __STORYBOOK_PREVIEW__?: {currentRender?: {phase?: string}}
+  __STORYBOOK_PERFORMANCE__?: StorybookPerformanceApi
+}
+
+async function launchChromium(): Promise<Browser> {
+  let chromium: typeof import('playwright').chromium
+  try {
+    ;({chromium} = await import('playwright'))
+  } catch {
+    throw new Error(
+      'storybook-perf needs Playwright. Install it with `npm install -D playwright` and `npx playwright install chromium`.',
+    )
+  }
+  return chromium.launch({headless: true})
+}
+
+/** Wait until Storybook has finished rendering the story and return the final phase. */
+async function waitForRender(page: Page, timeoutMs: number): Promise<string> {
+  const handle = await page.waitForFunction(
+    settledPhases => {
+      const phase = (window as PreviewWindow).__STORYBOOK_PREVIEW__?.currentRender?.phase
+      if (phase === undefined) return 'unknown'
+      return settledPhases.includes(phase) ? phase : false
+    },
+    SETTLED_PHASES,
+    {timeout: timeoutMs},
+  )
+  return String(await handle.jsonValue())
+}
+
+async function profileStory(page: Page, baseUrl: string, entry: StoryIndexEntry, options: RunnerOptions) {
+  const url = getStoryUrl(baseUrl, entry.id, options)
+  const startedAt = performance.now()
+  const report: StoryReport = {
+    id: entry.id,
+    title: entry.title,
+    name: entry.name,
+    url,
+    durationMs: 0,
+    metrics: null,
+    profilers: {},
+    budgets: [],
+    measureBudgets: [],
+    error: null,
+    timeline: null,
+  }
+  // Spans are only needed for OTLP export, so other reports skip the events
+  const timelineTracks = options.otlpFile !== undefined || options.otlpEndpoint !== undefined ? OTLP_SPAN_TRACKS : null
+
+  try {
+    await page.goto(url, {timeout: options.timeoutMs})
+    const phase = await waitForRender(page, options.timeoutMs)
+    if (phase === 'errored') {
+      report.error = options.play
+        ? 'The story failed to render or its play function threw'
+        : 'The story failed to render'
+    }
+
+    const result = await page.evaluate(
+      async ({storyId, quietMs, tracks}) => {
+        const api = (window as PreviewWindow).__STORYBOOK_PERFORMANCE__
+        if (!api) throw new Error('The performance panel addon is not registered in this Storybook')
+        // Monitoring is disabled for this story (parameters.performancePanel.disable)
+        if (api.getStoryId() !== storyId) return null
+        const metrics = await api.waitForIdle({quietMs})
+        const timeline = tracks && {
+          timeOrigin: performance.timeOrigin,
+          measuredAt: performance.now(),
+          events: api.getTimelineEvents().filter(event => tracks.includes(event.track)),
+        }
+        return {
+          metrics,
+          profilers: api.getProfilers(),
+          budgets: api.getBudgetResults(),
+          measureBudgets: api.getMeasureBudgetResults(),
+          timeline,
+        }
+      },
+      {storyId: entry.id, quietMs: options.quietMs, tracks: timelineTracks},
+    )
+    if (result) {
+      report.metrics = result.metrics
+      report.profilers = result.profilers
+      report.budgets = result.budgets
+      report.measureBudgets = result.measureBudgets
+      report.timeline = result.timeline
+    }
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : String(error)
+  }
+
+  report.durationMs = performance.now() - startedAt
+  return report
+}
+
+/**
+ * Profile stories one at a time, in a fresh page each.
+ *
+ * @param onStory - Called after each story, e.g. to print progress
+ */
+export async function profileStories(
+  baseUrl: string,
+  entries: StoryIndexEntry[],
+  options: RunnerOptions,
+  onStory?: (report: StoryReport) => void,
+): Promise<StoryReport[]> {
+  const browser = await launchChromium()
+  const reports: StoryReport[] = []
+
+  try {
+    const context = await browser.newContext()
+    for (const entry of entries) {
+      const page = await context.newPage()
+      try {
+        const report = await profileStory(page, baseUrl, entry, options)
+        reports.push(report)
+        onStory?.(report)
+      } finally {
+        await page.close()
+      }
+    }
+  } finally {
+    await browser.close()
+  }
+
+  return reports
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Minimal static file server for a built Storybook
+ *
+ * @module cli/static-server
+ */
+
+import {readFile, stat} from 'node:fs/promises'
+import {createServer} from 'node:http'
+import type {AddressInfo} from 'node:net'
+import {extname, join, normalize, resolve, sep} from 'node:path'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.css': 'text/css',
+  '.html': 'text/html',
+  '.ico': 'image/x-icon',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.mjs': 'text/javascript',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+}
+
+export interface StaticServer {
+  /** Base URL without a trailing slash, e.g. `http://127.0.0.1:54321` */
+  url: string
+  close: () => Promise<void>
+}
+
+/**
+ * Resolve a request path inside `root`, or `null` if it escapes it.
+ *
+ * @throws {URIError} If the path has malformed percent-encoding, e.g. `/%E0%A4%A`
+ */
+export function resolveRequestPath(root: string, requestUrl: string): string | null {
+  const pathname = decodeURIComponent(new URL(requestUrl, 'http://localhost').pathname)
+  const filePath = normalize(join(root, pathname.endsWith('/') ? `${pathname}index.html` : pathname))
+  return filePath === root || filePath.startsWith(`${root}${sep}`) ? filePath : null
+}
+
+/** Serve `dir` on a random local port. */
+export async function startStaticServer(dir: string): Promise<StaticServer> {
+  const root = resolve(dir)
+
+  const server = createServer((request, response) => {
+    let filePath: string | null
+    try {
+      filePath = resolveRequestPath(root, request.url ?? '/')
+    } catch {
+      response.writeHead(400).end()
+      return
+    }
+    if (!filePath) {
+      response.writeHead(403).end()
+      return
+    }
+
+    void (async () => {
+      try {
+        if (!(await stat(filePath)).isFile()) throw new Error('Not a file')
+        const body = await readFile(filePath)
+        response.writeHead(200, {'Content-Type': CONTENT_TYPES[extname(filePath)] ?? 'application/octet-stream'})
+        response.end(body)
+      } catch {
+        response.writeHead(404).end()
+      }
+    })()
+  })
+
+  await new Promise<void>(resolveListen => {
+    server.listen(0, '127.0.0.1', resolveListen)
+  })
+  const {port} = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${String(port)}`,
+    close: () =>
+      new Promise((resolveClose, reject) => {
+        server.close(error => {
+          if (error) reject(error)
+          else resolveClose()
+        })
+      }),
+  }
+}
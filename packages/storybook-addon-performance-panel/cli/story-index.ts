@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Story selection from a Storybook `index.json`
+ *
+ * @module cli/story-index
+ */
+
+import {HEADLESS_URL_PARAM} from '../core/headless'
+
+/** The subset of a Storybook index entry the runner needs */
+export interface StoryIndexEntry {
+  type: 'story' | 'docs'
+  id: string
+  title: string
+  name: string
+  tags?: string[]
+}
+
+/** Shape of `index.json` served by Storybook */
+export interface StoryIndex {
+  v: number
+  entries: Record<string, StoryIndexEntry>
+}
+
+/** Story entries (docs entries excluded), optionally filtered by ID. */
+export function selectStories(index: StoryIndex, filter?: RegExp): StoryIndexEntry[] {
+  return Object.values(index.entries).filter(entry => entry.type === 'story' && (!filter || filter.test(entry.id)))
+}
+
+/**
+ * URL of a story's preview iframe with headless collection enabled.
+ * Without `play`, the story is loaded in embed mode, which skips play functions.
+ */
+export function getStoryUrl(baseUrl: string, storyId: string, {play}: {play: boolean}): string {
+  const params = new URLSearchParams({id: storyId, viewMode: 'story', [HEADLESS_URL_PARAM]: 'true'})
+  if (!play) params.set('embed', 'true')
+  return `${baseUrl}/iframe.html?${params.toString()}`
+}
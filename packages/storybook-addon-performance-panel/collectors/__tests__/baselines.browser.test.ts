@@ -0,0 +1,131 @@
+import {describe, expect, it} from 'vitest'
+
+import {DEFAULT_METRICS} from '../../core/performance-types'
+import {
+  BASELINE_STORAGE_PREFIX,
+  BASELINE_VERSION,
+  type BaselineStorage,
+  clearBaseline,
+  compareToBaseline,
+  computeMetricDeltas,
+  createBaseline,
+  loadBaseline,
+  saveBaseline,
+} from '../../panel/baselines'
+import {createEmptyReactMetrics} from '../react-profiler-collector'
+
+function createStorage(): BaselineStorage & {items: Map<string, string>} {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: key => {
+      items.delete(key)
+    },
+  }
+}
+
+const STORY_ID = 'components-button--primary'
+
+describe('baselines', () => {
+  describe('persistence', () => {
+    it('saves and loads a baseline per story', () => {
+      const storage = createStorage()
+      const baseline = createBaseline(
+        STORY_ID,
+        {...DEFAULT_METRICS, inpMs: 120},
+        [{id: 'Button', metrics: {...createEmptyReactMetrics(), reactRenderCount: 4}}],
+        1_700_000_000_000,
+      )
+
+      expect(saveBaseline(baseline, storage)).toBe(true)
+
+      expect(storage.items.has(`${BASELINE_STORAGE_PREFIX}${STORY_ID}`)).toBe(true)
+      expect(loadBaseline(STORY_ID, storage)).toEqual(baseline)
+      expect(loadBaseline('components-menu--open', storage)).toBeNull()
+    })
+
+    it('clears a saved baseline', () => {
+      const storage = createStorage()
+      saveBaseline(createBaseline(STORY_ID, DEFAULT_METRICS, []), storage)
+
+      clearBaseline(STORY_ID, storage)
+
+      expect(loadBaseline(STORY_ID, storage)).toBeNull()
+    })
+
+    it('fills in metrics added after the baseline was saved', () => {
+      const storage = createStorage()
+      storage.setItem(
+        `${BASELINE_STORAGE_PREFIX}${STORY_ID}`,
+        JSON.stringify({version: 1, storyId: STORY_ID, savedAt: 1, metrics: {fps: 30}, profilers: []}),
+      )
+
+      expect(loadBaseline(STORY_ID, storage)?.metrics).toEqual({...DEFAULT_METRICS, fps: 30})
+    })
+
+    it('ignores corrupt or newer baselines', () => {
+      const storage = createStorage()
+      const key = `${BASELINE_STORAGE_PREFIX}${STORY_ID}`
+
+      storage.setItem(key, '{not json')
+      expect(loadBaseline(STORY_ID, storage)).toBeNull()
+
+      storage.setItem(
+        key,
+        JSON.stringify({version: BASELINE_VERSION + 1, storyId: STORY_ID, savedAt: 1, metrics: {}, profilers: []}),
+      )
+      expect(loadBaseline(STORY_ID, storage)).toBeNull()
+    })
+
+    it('reports when storage rejects the write', () => {
+      const storage: BaselineStorage = {
+        ...createStorage(),
+        setItem: () => {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError')
+        },
+      }
+
+      expect(saveBaseline(createBaseline(STORY_ID, DEFAULT_METRICS, []), storage)).toBe(false)
+    })
+  })
+
+  describe('compareToBaseline', () => {
+    it('treats lower values as improvements by default', () => {
+      expect(compareToBaseline(80, 100)).toEqual({baseline: 100, delta: -20, trend: 'improved'})
+      expect(compareToBaseline(120, 100)).toEqual({baseline: 100, delta: 20, trend: 'regressed'})
+    })
+
+    it('treats higher values as improvements when higher is better', () => {
+      expect(compareToBaseline(60, 50, true)?.trend).toBe('improved')
+      expect(compareToBaseline(40, 50, true)?.trend).toBe('regressed')
+    })
+
+    it('ignores changes below 1% of the baseline', () => {
+      expect(compareToBaseline(100.5, 100)?.trend).toBe('unchanged')
+      expect(compareToBaseline(1, 0)?.trend).toBe('regressed')
+    })
+
+    it('returns null without data on both sides', () => {
+      expect(compareToBaseline(null, 100)).toBeNull()
+      expect(compareToBaseline(100, null)).toBeNull()
+    })
+  })
+
+  describe('computeMetricDeltas', () => {
+    it('compares every numeric metric using its direction', () => {
+      const deltas = computeMetricDeltas(
+        {...DEFAULT_METRICS, fps: 50, inpMs: 150, forcedReflowCount: 2},
+        {...DEFAULT_METRICS, fps: 60, inpMs: 200, forcedReflowCount: 2},
+      )
+
+      expect(deltas.get('fps')).toEqual({baseline: 60, delta: -10, trend: 'regressed'})
+      expect(deltas.get('inpMs')).toEqual({baseline: 200, delta: -50, trend: 'improved'})
+      expect(deltas.get('forcedReflowCount')?.trend).toBe('unchanged')
+      expect(deltas.has('fpsHistory')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import {describe, expect, it} from 'vitest'
+
+import {createChromeTrace, getChromeTraceFileName} from '../../panel/chrome-trace'
+import {appendTimelineEntry, createSessionRecording} from '../../panel/session-recording'
+
+describe('chrome trace', () => {
+  const recording = appendTimelineEntry(
+    createSessionRecording('button--primary', Date.UTC(2024, 0, 1)),
+    [
+      {
+        track: 'react-commit',
+        name: 'list update',
+        startTime: 20,
+        duration: 10,
+        detail: 'render 4ms · base 5ms',
+        segments: [{name: 'render', startTime: 20, duration: 4}],
+      },
+      {track: 'frame', name: 'Frame', startTime: 10.5, duration: 16.25},
+      {track: 'layout-shift', name: 'Layout shift', startTime: 40, duration: 0, detail: 'score 0.1 · div.card'},
+    ],
+    Date.UTC(2024, 0, 1) + 500,
+  )
+
+  it('names the process and one thread per track', () => {
+    const metadata = createChromeTrace(recording).traceEvents.filter(event => event.ph === 'M')
+
+    expect(metadata[0]).toEqual({
+      name: 'process_name',
+      ph: 'M',
+      pid: 1,
+      tid: 0,
+      args: {name: 'Storybook: button--primary'},
+    })
+    expect(metadata.filter(event => event.name === 'thread_name').map(event => event.args?.name)).toEqual([
+      'Frames',
+      'Long tasks',
+      'LoAFs',
+      'Interactions',
+      'React commits',
+      'Layout shifts',
+      'Measures',
+    ])
+  })
+
+  it('converts events to microsecond slices sorted by start time', () => {
+    const events = createChromeTrace(recording).traceEvents.filter(event => event.ph !== 'M')
+
+    expect(events).toEqual([
+      {name: 'Frame', cat: 'frame', ph: 'X', pid: 1, tid: 1, ts: 10_500, dur: 16_250, args: undefined},
+      {
+        name: 'list update',
+        cat: 'react-commit',
+        ph: 'X',
+        pid: 1,
+        tid: 5,
+        ts: 20_000,
+        dur: 10_000,
+        args: {detail: 'render 4ms · base 5ms'},
+      },
+      {name: 'render', cat: 'react-commit', ph: 'X', pid: 1, tid: 5, ts: 20_000, dur: 4_000},
+      {
+        name: 'Layout shift',
+        cat: 'layout-shift',
+        ph: 'i',
+        s: 't',
+        pid: 1,
+        tid: 6,
+        ts: 40_000,
+        args: {detail: 'score 0.1 · div.card'},
+      },
+    ])
+  })
+
+  it('records the story and start time', () => {
+    expect(createChromeTrace(recording).otherData).toEqual({
+      source: 'storybook-addon-performance-panel',
+      storyId: 'button--primary',
+      startedAt: '2024-01-01T00:00:00.000Z',
+    })
+    expect(getChromeTraceFileName(recording)).toBe('trace-button--primary-2024-01-01T00-00-00-000Z.json')
+  })
+})
@@ -57,8 +57,15 @@ describe('CollectorManager', () => {
       expect(manager.collectors.style).toBeDefined()
       expect(manager.collectors.reflow).toBeDefined()
       expect(manager.collectors.react).toBeDefined()
+      expect(manager.collectors.renderReasons).toBeDefined()
       expect(manager.collectors.paint).toBeDefined()
       expect(manager.collectors.elementTiming).toBeDefined()
+      expect(manager.collectors.detachedNodes).toBeDefined()
+      expect(manager.collectors.userTiming).toBeDefined()
+      expect(manager.collectors.resources).toBeDefined()
+      expect(manager.collectors.listeners).toBeDefined()
+      expect(manager.collectors.observers).toBeDefined()
+      expect(manager.collectors.timers).toBeDefined()
     })
 
     it('initializes with isRunning=false', () => {
@@ -169,6 +176,38 @@ describe('CollectorManager', () => {
     })
   })
 
+  describe('collectTimeline', () => {
+    it('merges frames and React commits into one list sorted by start time', () => {
+      manager.start()
+
+      manager.reportRender(createRenderInfo({profilerId: 'list', startTime: 20, actualDuration: 4, commitTime: 30}))
+      vi.spyOn(performance, 'now').mockReturnValue(10)
+      rafCallback?.(10)
+      vi.spyOn(performance, 'now').mockReturnValue(26.5)
+      rafCallback?.(26.5)
+
+      expect(manager.collectTimeline()).toEqual([
+        {track: 'frame', name: 'Frame', startTime: 10, duration: 16.5},
+        {
+          track: 'react-commit',
+          name: 'list mount',
+          startTime: 20,
+          duration: 10,
+          detail: 'render 4ms · base 5ms',
+          segments: [{name: 'render', startTime: 20, duration: 4}],
+        },
+      ])
+    })
+
+    it('is empty after reset', () => {
+      manager.start()
+      manager.reportRender(createRenderInfo())
+
+      manager.reset()
+      expect(manager.collectTimeline()).toEqual([])
+    })
+  })
+
   describe('observeContainer', () => {
     it('counts elements in container on initial call', () => {
       const container = document.createElement('div')
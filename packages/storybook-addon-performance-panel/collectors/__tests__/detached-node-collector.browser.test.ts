@@ -0,0 +1,128 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+import {DetachedNodeCollector} from '../../collectors/detached-node-collector'
+
+/** Run enough reachability checks for surviving subtrees to be reported without `window.gc` */
+function runChecks(collector: DetachedNodeCollector) {
+  for (let i = 0; i < 60; i++) {
+    collector.check()
+  }
+}
+
+describe('DetachedNodeCollector', () => {
+  let collector: DetachedNodeCollector
+  let root: HTMLDivElement
+
+  beforeEach(() => {
+    root = document.createElement('div')
+    root.id = 'storybook-root'
+    document.body.appendChild(root)
+    collector = new DetachedNodeCollector()
+  })
+
+  afterEach(() => {
+    collector.stop()
+    root.remove()
+    vi.unstubAllGlobals()
+  })
+
+  it('returns initial metrics', () => {
+    expect(collector.getMetrics()).toEqual({detachedNodeCount: 0, detachedNodes: [], detachedNodesConfirmed: false})
+  })
+
+  it('reports removed subtrees that are still referenced as unconfirmed after a long wait', () => {
+    const dialog = document.createElement('div')
+    dialog.id = 'dialog'
+    dialog.innerHTML = '<p>Title</p><button>Close</button>'
+    root.appendChild(dialog)
+    collector.start()
+
+    dialog.remove()
+    expect(collector.getMetrics().detachedNodeCount).toBe(0)
+    collector.check()
+    expect(collector.getMetrics().detachedNodeCount).toBe(0)
+
+    runChecks(collector)
+    expect(collector.getMetrics()).toEqual({
+      detachedNodeCount: 3,
+      detachedNodes: [{selector: '#dialog', nodeCount: 3, count: 1}],
+      detachedNodesConfirmed: false,
+    })
+    expect(dialog.isConnected).toBe(false)
+  })
+
+  it('confirms retained subtrees after one forced collection', () => {
+    const gc = vi.fn()
+    vi.stubGlobal('gc', gc)
+    const item = document.createElement('span')
+    root.appendChild(item)
+    collector.start()
+
+    item.remove()
+    collector.check()
+    collector.check()
+
+    expect(gc).toHaveBeenCalledOnce()
+    expect(collector.getMetrics()).toEqual({
+      detachedNodeCount: 1,
+      detachedNodes: [{selector: 'span', nodeCount: 1, count: 1}],
+      detachedNodesConfirmed: true,
+    })
+    expect(item.isConnected).toBe(false)
+  })
+
+  it('groups retained subtrees by selector', () => {
+    const items = [1, 2, 3].map(() => {
+      const item = document.createElement('li')
+      item.className = 'row'
+      root.appendChild(item)
+      return item
+    })
+    collector.start()
+
+    for (const item of items) {
+      item.remove()
+    }
+    runChecks(collector)
+
+    expect(collector.getMetrics().detachedNodes).toEqual([{selector: 'li.row', nodeCount: 3, count: 3}])
+    expect(items).toHaveLength(3)
+  })
+
+  it('drops subtrees that are inserted again', () => {
+    const item = document.createElement('span')
+    root.appendChild(item)
+    collector.start()
+
+    item.remove()
+    collector.check()
+    root.appendChild(item)
+    runChecks(collector)
+
+    expect(collector.getMetrics().detachedNodeCount).toBe(0)
+  })
+
+  it('ignores removals outside the story root', () => {
+    const outside = document.createElement('div')
+    document.body.appendChild(outside)
+    collector.start()
+
+    outside.remove()
+    runChecks(collector)
+
+    expect(collector.getMetrics().detachedNodeCount).toBe(0)
+    expect(outside.isConnected).toBe(false)
+  })
+
+  it('forgets tracked subtrees when stopped', () => {
+    const item = document.createElement('span')
+    root.appendChild(item)
+    collector.start()
+
+    item.remove()
+    runChecks(collector)
+    collector.stop()
+
+    expect(collector.getMetrics().detachedNodeCount).toBe(0)
+  })
+})
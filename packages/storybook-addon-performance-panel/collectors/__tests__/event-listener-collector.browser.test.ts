@@ -0,0 +1,131 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+import {EventListenerCollector} from '../../collectors/event-listener-collector'
+
+describe('EventListenerCollector', () => {
+  let collector: EventListenerCollector
+  let element: HTMLDivElement
+
+  beforeEach(() => {
+    collector = new EventListenerCollector()
+    element = document.createElement('div')
+    element.className = 'leaky'
+    document.body.appendChild(element)
+  })
+
+  afterEach(() => {
+    collector.stop()
+    element.remove()
+  })
+
+  it('returns initial metrics', () => {
+    expect(collector.getMetrics()).toEqual({listenerCount: 0, listenersAddedPerInteraction: 0})
+  })
+
+  it('counts listeners until they are removed', () => {
+    collector.start()
+    const onClick = vi.fn()
+    const onCaptureClick = vi.fn()
+
+    element.addEventListener('click', onClick)
+    element.addEventListener('click', onCaptureClick, true)
+    expect(collector.getMetrics().listenerCount).toBe(2)
+
+    element.removeEventListener('click', onClick)
+    element.removeEventListener('click', onCaptureClick, {capture: true})
+    expect(collector.getMetrics().listenerCount).toBe(0)
+  })
+
+  it('ignores duplicate adds and removals with a different capture flag', () => {
+    collector.start()
+    const onResize = vi.fn()
+
+    window.addEventListener('resize', onResize)
+    window.addEventListener('resize', onResize)
+    window.removeEventListener('resize', onResize, true)
+    expect(collector.getMetrics().listenerCount).toBe(1)
+
+    window.removeEventListener('resize', onResize)
+    expect(collector.getMetrics().listenerCount).toBe(0)
+  })
+
+  it('ignores listeners added before it started', () => {
+    const onScroll = vi.fn()
+    document.addEventListener('scroll', onScroll)
+    collector.start()
+
+    document.removeEventListener('scroll', onScroll)
+    expect(collector.getMetrics().listenerCount).toBe(0)
+  })
+
+  it('untracks once listeners after they fire', () => {
+    collector.start()
+    element.addEventListener('click', vi.fn(), {once: true})
+    expect(collector.getMetrics().listenerCount).toBe(1)
+
+    element.click()
+    expect(collector.getMetrics().listenerCount).toBe(0)
+  })
+
+  it('untracks listeners removed through an AbortSignal', () => {
+    collector.start()
+    const controller = new AbortController()
+    window.addEventListener('keyup', vi.fn(), {signal: controller.signal})
+    expect(collector.getMetrics().listenerCount).toBe(1)
+
+    controller.abort()
+    expect(collector.getMetrics().listenerCount).toBe(0)
+  })
+
+  it('does not count listeners on detached elements', () => {
+    collector.start()
+    element.addEventListener('click', vi.fn())
+
+    element.remove()
+    expect(collector.getMetrics().listenerCount).toBe(0)
+  })
+
+  it('reports listeners added per interaction', () => {
+    collector.start()
+    element.addEventListener('focus', vi.fn())
+
+    window.dispatchEvent(new PointerEvent('pointerdown'))
+    element.addEventListener('mousemove', vi.fn())
+    element.addEventListener('mouseup', vi.fn())
+    window.dispatchEvent(new KeyboardEvent('keydown', {key: 'a'}))
+    window.dispatchEvent(new KeyboardEvent('keydown', {key: 'a', repeat: true}))
+    element.addEventListener('keyup', vi.fn())
+
+    expect(collector.getMetrics().listenersAddedPerInteraction).toBe(1.5)
+  })
+
+  it('groups attached listeners by type and target', () => {
+    collector.start()
+    window.addEventListener('resize', vi.fn())
+    window.addEventListener('resize', vi.fn())
+    element.addEventListener('click', vi.fn())
+
+    expect(collector.getAttachedListeners()).toEqual([
+      {type: 'resize', target: 'window', count: 2},
+      {type: 'click', target: 'div.leaky', count: 1},
+    ])
+  })
+
+  it('restores the original methods when stopped', () => {
+    const originalAdd = EventTarget.prototype.addEventListener
+    collector.start()
+    expect(EventTarget.prototype.addEventListener).not.toBe(originalAdd)
+
+    collector.stop()
+    expect(EventTarget.prototype.addEventListener).toBe(originalAdd)
+  })
+
+  it('keeps tracked listeners on reset', () => {
+    collector.start()
+    window.dispatchEvent(new PointerEvent('pointerdown'))
+    window.addEventListener('resize', vi.fn())
+
+    collector.reset()
+    expect(collector.getMetrics()).toEqual({listenerCount: 1, listenersAddedPerInteraction: 0})
+  })
+})
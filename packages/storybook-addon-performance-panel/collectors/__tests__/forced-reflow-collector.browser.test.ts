@@ -1,4 +1,4 @@
-import {afterEach, beforeEach, describe, expect, it} from 'vitest'
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
 
 import {ForcedReflowCollector} from '../../collectors/forced-reflow-collector'
 
@@ -58,6 +58,57 @@ describe('ForcedReflowCollector', () => {
     })
   })
 
+  describe('call site sampling', () => {
+    /** Write a layout-affecting style and read layout back, forcing a reflow */
+    function forceReflow(el: HTMLElement) {
+      el.style.width = '10px'
+      return el.offsetHeight
+    }
+
+    it('does not capture stacks by default', () => {
+      collector.start()
+      const el = document.createElement('div')
+      document.body.appendChild(el)
+
+      forceReflow(el)
+
+      expect(collector.getMetrics()).toMatchObject({forcedReflowCount: 1, callSites: []})
+      el.remove()
+    })
+
+    it('records the call site, layout read and style write', () => {
+      collector.captureStacks = true
+      collector.start()
+      const el = document.createElement('div')
+      document.body.appendChild(el)
+
+      forceReflow(el)
+
+      const [site] = collector.getMetrics().callSites
+      expect(site).toMatchObject({property: 'offsetHeight', write: 'style.width', count: 1})
+      expect(site?.callSite).toContain('forced-reflow-collector.browser.test.ts')
+      el.remove()
+    })
+
+    it('samples at most one stack per interval', () => {
+      const now = vi.spyOn(performance, 'now').mockReturnValue(1_000)
+      collector.captureStacks = true
+      collector.start()
+      const el = document.createElement('div')
+      document.body.appendChild(el)
+
+      forceReflow(el)
+      forceReflow(el)
+      now.mockReturnValue(1_100)
+      forceReflow(el)
+
+      expect(collector.getMetrics().forcedReflowCount).toBe(3)
+      expect(collector.getMetrics().callSites.reduce((sum, site) => sum + site.count, 0)).toBe(2)
+      el.remove()
+      now.mockRestore()
+    })
+  })
+
   describe('reset', () => {
     it('clears count', () => {
       collector.start()
@@ -1,6 +1,14 @@
 import {describe, expect, it} from 'vitest'
 
-import {formatMb, formatMs, formatNumber, formatPercent, formatRate, formatScore} from '../../panel/formatters'
+import {
+  formatKb,
+  formatMb,
+  formatMs,
+  formatNumber,
+  formatPercent,
+  formatRate,
+  formatScore,
+} from '../../panel/formatters'
 
 describe('formatMs', () => {
   it('formats milliseconds with 1 decimal place', () => {
@@ -35,6 +43,12 @@ describe('formatMb', () => {
   })
 })
 
+describe('formatKb', () => {
+  it('formats kilobytes with 1 decimal place', () => {
+    expect(formatKb(12.54)).toBe('12.5kB')
+  })
+})
+
 describe('formatNumber', () => {
   it('formats with thousand separators', () => {
     expect(formatNumber(1234)).toBe('1,234')
@@ -39,6 +39,7 @@ describe('InputCollector', () => {
       expect(metrics.slowestInteraction).toBeNull()
       // Last interaction for real-time debugging
       expect(metrics.lastInteraction).toBeNull()
+      expect(metrics.interactionLog).toEqual([])
       // Interaction type breakdown
       expect(metrics.interactionsByType).toEqual({})
     })
@@ -89,6 +90,7 @@ describe('InputCollector', () => {
       expect(metrics.slowestInteraction).toBeNull()
       // Last interaction for real-time debugging
       expect(metrics.lastInteraction).toBeNull()
+      expect(metrics.interactionLog).toEqual([])
       // Interaction type breakdown
       expect(metrics.interactionsByType).toEqual({})
     })
@@ -269,6 +271,80 @@ describe('InputCollector', () => {
     scopedCollector.stop()
   })
 
+  it('logs recent interactions with their phase breakdown', () => {
+    const observerCallbacks: PerformanceObserverCallback[] = []
+    vi.stubGlobal(
+      'PerformanceObserver',
+      class MockPerformanceObserver {
+        static supportedEntryTypes = ['event', 'first-input']
+        constructor(callback: PerformanceObserverCallback) {
+          observerCallbacks.push(callback)
+        }
+        observe() {
+          /* empty */
+        }
+        disconnect() {
+          /* empty */
+        }
+      },
+    )
+
+    const scopedCollector = new InputCollector()
+    scopedCollector.start()
+    const startTime = performance.now()
+    observerCallbacks[0]?.(
+      {
+        getEntries: () => [
+          {
+            startTime,
+            duration: 120,
+            processingStart: startTime + 20,
+            processingEnd: startTime + 100,
+            interactionId: 1,
+            name: 'click',
+            targetSelector: 'button.save',
+          },
+          {
+            startTime,
+            duration: 40,
+            processingStart: startTime + 10,
+            processingEnd: startTime + 20,
+            interactionId: 8,
+            name: 'keydown',
+            targetSelector: '',
+          },
+        ],
+      } as unknown as PerformanceObserverEntryList,
+      {} as PerformanceObserver,
+    )
+
+    const metrics = scopedCollector.getMetrics()
+    expect(metrics.interactionLog).toEqual([
+      {
+        duration: 120,
+        eventType: 'click',
+        targetSelector: 'button.save',
+        inputDelay: 20,
+        processingTime: 80,
+        presentationDelay: 20,
+      },
+      {
+        duration: 40,
+        eventType: 'keydown',
+        targetSelector: 'unknown',
+        inputDelay: 10,
+        processingTime: 10,
+        presentationDelay: 20,
+      },
+    ])
+    expect(metrics).toMatchObject({avgInputDelay: 15, avgProcessingTime: 45, avgPresentationDelay: 20})
+    expect(metrics.interactionsByType).toEqual({click: 1, keydown: 1})
+
+    scopedCollector.reset()
+    expect(scopedCollector.getMetrics().interactionLog).toEqual([])
+    scopedCollector.stop()
+  })
+
   // Note: Interaction tracking is now handled via PerformanceObserver with 'event' entry type
   // (Event Timing API) when supported, which provides more accurate INP measurements.
   // The old manual click/keydown listeners have been removed in favor of the browser's
@@ -64,4 +64,58 @@ describe('LayoutShiftCollector', () => {
       layoutShiftScore: 0,
     })
   })
+  it('records the elements that moved in each shift', () => {
+    const banner = document.createElement('div')
+    banner.className = 'banner'
+    const text = document.createTextNode('Loaded')
+    const card = document.createElement('section')
+    card.appendChild(text)
+    collector.start()
+
+    observerCallback?.(
+      {
+        getEntries: () => [
+          {
+            startTime: performance.now() + 50,
+            value: 0.123456,
+            hadRecentInput: false,
+            sources: [
+              {
+                node: banner,
+                previousRect: new DOMRectReadOnly(0, 0, 300, 40.4),
+                currentRect: new DOMRectReadOnly(0, 60, 300, 40.4),
+              },
+              {node: text, previousRect: new DOMRectReadOnly(), currentRect: new DOMRectReadOnly(10, 20, 30, 40)},
+              {node: null, previousRect: new DOMRectReadOnly(), currentRect: new DOMRectReadOnly()},
+            ],
+          },
+        ],
+      } as unknown as PerformanceObserverEntryList,
+      {} as PerformanceObserver,
+    )
+
+    const [shift] = collector.getMetrics().layoutShifts
+    expect(shift?.score).toBe(0.1235)
+    expect(shift?.time).toBeGreaterThanOrEqual(50)
+    expect(shift?.sources).toEqual([
+      {
+        selector: 'div.banner',
+        previousRect: {x: 0, y: 0, width: 300, height: 40},
+        currentRect: {x: 0, y: 60, width: 300, height: 40},
+      },
+      {
+        selector: 'section',
+        previousRect: {x: 0, y: 0, width: 0, height: 0},
+        currentRect: {x: 10, y: 20, width: 30, height: 40},
+      },
+      {
+        selector: 'unknown',
+        previousRect: {x: 0, y: 0, width: 0, height: 0},
+        currentRect: {x: 0, y: 0, width: 0, height: 0},
+      },
+    ])
+
+    collector.reset()
+    expect(collector.getMetrics().layoutShifts).toEqual([])
+  })
 })
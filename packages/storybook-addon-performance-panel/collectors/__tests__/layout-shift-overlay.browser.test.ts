@@ -0,0 +1,54 @@
+import {afterEach, describe, expect, it} from 'vitest'
+
+import {removeLayoutShiftOverlay, renderLayoutShiftOverlay} from '../../core/layout-shift-overlay'
+import type {LayoutShiftInfo} from '../../core/performance-types'
+
+const SHIFT: LayoutShiftInfo = {
+  score: 0.12,
+  time: 250,
+  sources: [
+    {
+      selector: 'div.banner',
+      previousRect: {x: 0, y: 0, width: 300, height: 40},
+      currentRect: {x: 0, y: 60, width: 300, height: 40},
+    },
+  ],
+}
+
+function getOverlay() {
+  return document.getElementById('perf-layout-shift-overlay')
+}
+
+describe('layout shift overlay', () => {
+  afterEach(() => {
+    removeLayoutShiftOverlay()
+  })
+
+  it('draws the previous and current rectangle of each shifted element', () => {
+    renderLayoutShiftOverlay([SHIFT])
+
+    const overlay = getOverlay()
+    expect(overlay?.parentElement).toBe(document.documentElement)
+    const [previous, current] = Array.from(overlay?.children ?? []) as HTMLElement[]
+    expect(previous?.style.top).toBe('0px')
+    expect(previous?.style.borderStyle).toBe('dashed')
+    expect(current?.style.top).toBe('60px')
+    expect(current?.style.width).toBe('300px')
+    expect(current?.textContent).toBe('0.12')
+  })
+
+  it('replaces the shifts it shows', () => {
+    renderLayoutShiftOverlay([SHIFT, SHIFT])
+    expect(getOverlay()?.children).toHaveLength(4)
+
+    renderLayoutShiftOverlay([])
+    expect(getOverlay()?.children).toHaveLength(0)
+  })
+
+  it('removes the overlay', () => {
+    renderLayoutShiftOverlay([SHIFT])
+    removeLayoutShiftOverlay()
+
+    expect(getOverlay()).toBeNull()
+  })
+})
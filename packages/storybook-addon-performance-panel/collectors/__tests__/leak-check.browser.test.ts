@@ -0,0 +1,86 @@
+import {describe, expect, it, vi} from 'vitest'
+
+import {analyzeLeakCheck, computeSlope, runLeakCheck} from '../../core/leak-check'
+import type {LeakCheckSample} from '../../core/performance-types'
+
+function createSamples(memory: (number | null)[], domNodes: number[], listeners: number[]): LeakCheckSample[] {
+  return memory.map((memoryMB, cycle) => ({
+    cycle,
+    memoryMB,
+    domNodes: domNodes[cycle] ?? 0,
+    listeners: listeners[cycle] ?? 0,
+  }))
+}
+
+describe('computeSlope', () => {
+  it('returns the average change per sample', () => {
+    expect(computeSlope([10, 12, 14, 16])).toBe(2)
+    expect(computeSlope([5, 5, 5])).toBe(0)
+  })
+
+  it('fits a line through noisy samples', () => {
+    expect(computeSlope([1, 3, 2, 4])).toBeCloseTo(0.8)
+  })
+
+  it('returns 0 for fewer than two samples', () => {
+    expect(computeSlope([])).toBe(0)
+    expect(computeSlope([42])).toBe(0)
+  })
+})
+
+describe('analyzeLeakCheck', () => {
+  it('does not flag a story that returns to the same numbers', () => {
+    const result = analyzeLeakCheck('s1', createSamples([20, 20.2, 19.9, 20.1], [50, 50, 50, 50], [3, 3, 3, 3]))
+
+    expect(result).toMatchObject({
+      storyId: 's1',
+      cycles: 3,
+      domNodeSlope: 0,
+      listenerSlope: 0,
+      likelyLeak: false,
+    })
+    expect(result.memorySlopeMB).toBeLessThan(0.5)
+  })
+
+  it('flags growth in any metric', () => {
+    expect(analyzeLeakCheck('s1', createSamples([20, 21, 22], [50, 50, 50], [3, 3, 3])).likelyLeak).toBe(true)
+    expect(analyzeLeakCheck('s1', createSamples([20, 20, 20], [50, 52, 54], [3, 3, 3])).likelyLeak).toBe(true)
+    expect(analyzeLeakCheck('s1', createSamples([20, 20, 20], [50, 50, 50], [3, 4, 5])).likelyLeak).toBe(true)
+  })
+
+  it('reports no memory slope when any sample lacks memory', () => {
+    const result = analyzeLeakCheck('s1', createSamples([20, null, 20], [50, 50, 50], [3, 3, 3]))
+
+    expect(result.memorySlopeMB).toBeNull()
+    expect(result.likelyLeak).toBe(false)
+  })
+})
+
+describe('runLeakCheck', () => {
+  it('remounts after a warm-up and samples every cycle', async () => {
+    const remount = vi.fn(() => Promise.resolve())
+    let domNodes = 100
+    const sample = vi.fn(() => ({memoryMB: null, domNodes: domNodes++, listeners: 0}))
+    const onProgress = vi.fn()
+
+    const result = await runLeakCheck('s1', {cycles: 2, remount, sample, onProgress})
+
+    expect(remount).toHaveBeenCalledTimes(3)
+    expect(result.samples.map(s => s.cycle)).toEqual([0, 1, 2])
+    expect(result.domNodeSlope).toBe(1)
+    expect(result.likelyLeak).toBe(true)
+    expect(onProgress.mock.calls).toEqual([
+      [1, 2],
+      [2, 2],
+    ])
+  })
+
+  it('stops at the first failed remount', async () => {
+    const remount = vi.fn(() => Promise.reject(new Error('Story "s1" failed to render while remounting')))
+    const sample = vi.fn()
+
+    await expect(runLeakCheck('s1', {cycles: 3, remount, sample})).rejects.toThrow('failed to render')
+    expect(remount).toHaveBeenCalledTimes(1)
+    expect(sample).not.toHaveBeenCalled()
+  })
+})
@@ -86,6 +86,65 @@ describe('LongAnimationFrameCollector', () => {
     expect(collector.getMetrics()).toMatchObject({loafCount: 1, longestLoafDuration: 80})
   })
 
+  it('aggregates scripts across frames by source, function and invoker', () => {
+    collector.start()
+    const now = performance.now()
+    const script = (sourceFunctionName: string, invoker: string, duration: number, forced: number) => ({
+      sourceURL: 'http://localhost:6006/src/Grid.tsx',
+      sourceFunctionName,
+      invokerType: 'event-listener',
+      invoker,
+      duration,
+      forcedStyleAndLayoutDuration: forced,
+    })
+
+    observerCallback?.(
+      {
+        getEntries: () => [
+          {
+            startTime: now,
+            duration: 120,
+            blockingDuration: 70,
+            scripts: [script('handleSort', 'BUTTON.onclick', 60.4, 20.2), script('', 'DIV.onscroll', 30, 0)],
+          },
+          {
+            startTime: now + 200,
+            duration: 90,
+            blockingDuration: 40,
+            scripts: [script('handleSort', 'BUTTON.onclick', 40, 5)],
+          },
+        ],
+      } as unknown as PerformanceObserverEntryList,
+      {} as PerformanceObserver,
+    )
+
+    expect(collector.getMetrics().scripts).toEqual([
+      {
+        sourceURL: 'http://localhost:6006/src/Grid.tsx',
+        sourceFunctionName: 'handleSort',
+        invokerType: 'event-listener',
+        invoker: 'BUTTON.onclick',
+        count: 2,
+        totalDuration: 100,
+        forcedStyleAndLayoutDuration: 25,
+        maxDuration: 60,
+      },
+      {
+        sourceURL: 'http://localhost:6006/src/Grid.tsx',
+        sourceFunctionName: 'anonymous',
+        invokerType: 'event-listener',
+        invoker: 'DIV.onscroll',
+        count: 1,
+        totalDuration: 30,
+        forcedStyleAndLayoutDuration: 0,
+        maxDuration: 30,
+      },
+    ])
+
+    collector.reset()
+    expect(collector.getMetrics().scripts).toEqual([])
+  })
+
   describe('start/stop', () => {
     it('can be started and stopped without error', () => {
       expect(() => {
@@ -0,0 +1,124 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+import {runUntracked} from '../../collectors/instrumentation'
+import {ObserverCollector} from '../../collectors/observer-collector'
+
+describe('ObserverCollector', () => {
+  let collector: ObserverCollector
+  let element: HTMLDivElement
+
+  beforeEach(() => {
+    collector = new ObserverCollector()
+    element = document.createElement('div')
+    element.className = 'observed'
+    document.body.appendChild(element)
+  })
+
+  afterEach(() => {
+    collector.stop()
+    element.remove()
+  })
+
+  it('returns initial metrics', () => {
+    const metrics = collector.getMetrics()
+    expect(metrics.observerCount).toBe(0)
+    expect(metrics.observersByType.MutationObserver).toEqual({observers: 0, targets: 0})
+  })
+
+  it('counts observers by type once they observe a target', () => {
+    collector.start()
+    const mutation = new MutationObserver(vi.fn())
+    const resize = new ResizeObserver(vi.fn())
+    expect(collector.getMetrics().observerCount).toBe(0)
+
+    mutation.observe(element, {attributes: true})
+    mutation.observe(element, {childList: true})
+    resize.observe(element)
+    resize.observe(document.body)
+
+    const metrics = collector.getMetrics()
+    expect(metrics.observerCount).toBe(2)
+    expect(metrics.observersByType.MutationObserver).toEqual({observers: 1, targets: 1})
+    expect(metrics.observersByType.ResizeObserver).toEqual({observers: 1, targets: 2})
+
+    mutation.disconnect()
+    resize.disconnect()
+  })
+
+  it('stops counting targets on unobserve and disconnect', () => {
+    collector.start()
+    const intersection = new IntersectionObserver(vi.fn())
+    intersection.observe(element)
+    intersection.observe(document.body)
+
+    intersection.unobserve(element)
+    expect(collector.getMetrics().observersByType.IntersectionObserver).toEqual({observers: 1, targets: 1})
+
+    intersection.disconnect()
+    expect(collector.getMetrics().observerCount).toBe(0)
+  })
+
+  it('counts entry types observed by a PerformanceObserver', () => {
+    collector.start()
+    const observer = new PerformanceObserver(vi.fn())
+    observer.observe({type: 'mark'})
+    observer.observe({type: 'measure'})
+
+    expect(collector.getMetrics().observersByType.PerformanceObserver).toEqual({observers: 1, targets: 2})
+    expect(collector.getActiveObservers()).toEqual([{type: 'PerformanceObserver', target: 'mark, measure', count: 1}])
+
+    observer.disconnect()
+  })
+
+  it('does not count observers whose targets were detached', () => {
+    collector.start()
+    const observer = new MutationObserver(vi.fn())
+    observer.observe(element, {childList: true})
+
+    element.remove()
+    expect(collector.getMetrics().observerCount).toBe(0)
+  })
+
+  it('ignores observers created before it started or inside runUntracked', () => {
+    const early = new MutationObserver(vi.fn())
+    collector.start()
+    const untracked = runUntracked(() => new MutationObserver(vi.fn()))
+
+    early.observe(element, {childList: true})
+    untracked.observe(element, {childList: true})
+    expect(collector.getMetrics().observerCount).toBe(0)
+
+    early.disconnect()
+    untracked.disconnect()
+  })
+
+  it('groups active observers by type and first target', () => {
+    collector.start()
+    const first = new ResizeObserver(vi.fn())
+    const second = new ResizeObserver(vi.fn())
+    first.observe(element)
+    second.observe(element)
+
+    expect(collector.getActiveObservers()).toEqual([{type: 'ResizeObserver', target: 'div.observed', count: 2}])
+
+    first.disconnect()
+    second.disconnect()
+  })
+
+  it('keeps wrapped constructors compatible with the originals', () => {
+    const Original = window.PerformanceObserver
+    collector.start()
+
+    expect(window.PerformanceObserver).not.toBe(Original)
+    expect(new PerformanceObserver(vi.fn())).toBeInstanceOf(Original)
+    expect(PerformanceObserver.supportedEntryTypes).toEqual(Original.supportedEntryTypes)
+  })
+
+  it('restores the original constructors when stopped', () => {
+    const Original = window.MutationObserver
+    collector.start()
+    collector.stop()
+
+    expect(window.MutationObserver).toBe(Original)
+  })
+})
@@ -0,0 +1,65 @@
+import {describe, expect, it} from 'vitest'
+
+import {evaluateBudgets, evaluateMeasureBudgets, formatBudget} from '../../core/performance-budgets'
+import {DEFAULT_METRICS} from '../../core/performance-types'
+
+describe('evaluateBudgets', () => {
+  it('returns no results without budgets', () => {
+    expect(evaluateBudgets(DEFAULT_METRICS, undefined)).toEqual([])
+  })
+
+  it('treats budgets as maximums by default', () => {
+    const metrics = {...DEFAULT_METRICS, inpMs: 250, forcedReflowCount: 0}
+
+    const results = evaluateBudgets(metrics, {inpMs: 200, forcedReflowCount: 0})
+
+    expect(results).toEqual([
+      {metric: 'inpMs', budget: 200, actual: 250, status: 'fail', higherIsBetter: false},
+      {metric: 'forcedReflowCount', budget: 0, actual: 0, status: 'pass', higherIsBetter: false},
+    ])
+  })
+
+  it('treats fps and frame stability budgets as minimums', () => {
+    const metrics = {...DEFAULT_METRICS, fps: 58, frameStability: 80}
+
+    const results = evaluateBudgets(metrics, {fps: 55, frameStability: 90})
+
+    expect(results.map(r => r.status)).toEqual(['pass', 'fail'])
+    expect(results.every(r => r.higherIsBetter)).toBe(true)
+  })
+
+  it('reports no-data for metrics unavailable in this browser', () => {
+    const results = evaluateBudgets({...DEFAULT_METRICS, memoryUsedMB: null}, {memoryUsedMB: 50})
+
+    expect(results[0]?.status).toBe('no-data')
+    expect(results[0]?.actual).toBeNull()
+  })
+})
+
+describe('evaluateMeasureBudgets', () => {
+  const measure = {name: 'search:filter', count: 4, avgDuration: 6, p95Duration: 9.5, maxDuration: 10}
+
+  it('returns no results without budgets', () => {
+    expect(evaluateMeasureBudgets([measure], undefined)).toEqual([])
+  })
+
+  it('compares the p95 duration with the budget', () => {
+    expect(evaluateMeasureBudgets([measure], {'search:filter': 8})).toEqual([
+      {measure: 'search:filter', budget: 8, actual: 9.5, status: 'fail', higherIsBetter: false},
+    ])
+    expect(evaluateMeasureBudgets([measure], {'search:filter': 10})[0]?.status).toBe('pass')
+  })
+
+  it('reports no-data for measures that were not recorded', () => {
+    expect(evaluateMeasureBudgets([measure], {'table:sort': 16})).toEqual([
+      {measure: 'table:sort', budget: 16, actual: null, status: 'no-data', higherIsBetter: false},
+    ])
+  })
+})
+
+describe('formatBudget', () => {
+  it('shows the comparison direction', () => {
+    expect(formatBudget({budget: 200, higherIsBetter: false})).toBe('≤ 200')
+    expect(formatBudget({budget: 55, higherIsBetter: true})).toBe('≥ 55')
+  })
+})
@@ -274,6 +274,102 @@ describe('panelReducer', () => {
     })
   })
 
+  describe('session recording', () => {
+    it('records metrics and profiler updates only while recording', () => {
+      let state = panelReducer(INITIAL_STATE, {type: 'METRICS_RECEIVED', metrics: DEFAULT_METRICS})
+      expect(state.recording).toBeNull()
+
+      state = panelReducer(state, {type: 'START_RECORDING', storyId: 's1', startedAt: Date.now()})
+      state = panelReducer(state, {type: 'METRICS_RECEIVED', metrics: {...DEFAULT_METRICS, fps: 30}})
+      state = panelReducer(state, {type: 'PROFILER_UPDATE', storyId: 's1', id: 'main', metrics: createReactMetrics()})
+      state = panelReducer(state, {type: 'STOP_RECORDING'})
+      state = panelReducer(state, {type: 'METRICS_RECEIVED', metrics: DEFAULT_METRICS})
+
+      expect(state.isRecording).toBe(false)
+      expect(state.recording?.storyId).toBe('s1')
+      expect(state.recording?.entries.map(e => e.kind)).toEqual(['metrics', 'profiler'])
+    })
+
+    it('stops recording when the story changes', () => {
+      let state = panelReducer(INITIAL_STATE, {type: 'START_RECORDING', storyId: 's1', startedAt: Date.now()})
+      state = panelReducer(state, {type: 'CLEANUP_OLD_STORIES', currentStoryId: 's1'})
+      expect(state.isRecording).toBe(true)
+
+      state = panelReducer(state, {type: 'PROFILER_UPDATE', storyId: 's0', id: 'main', metrics: createReactMetrics()})
+      state = panelReducer(state, {type: 'CLEANUP_OLD_STORIES', currentStoryId: 's2'})
+      state = panelReducer(state, {type: 'METRICS_RECEIVED', metrics: DEFAULT_METRICS})
+
+      expect(state.isRecording).toBe(false)
+      expect(state.recording?.entries).toEqual([])
+    })
+
+    it('records timeline events only while recording', () => {
+      const event = {track: 'frame' as const, name: 'Frame', startTime: 10, duration: 16}
+      let state = panelReducer(INITIAL_STATE, {type: 'TIMELINE_RECEIVED', events: [event]})
+      expect(state).toBe(INITIAL_STATE)
+
+      state = panelReducer(state, {type: 'START_RECORDING', storyId: 's1', startedAt: Date.now()})
+      state = panelReducer(state, {type: 'TIMELINE_RECEIVED', events: [event]})
+      state = panelReducer(state, {type: 'TIMELINE_RECEIVED', events: [event]})
+
+      expect(state.recording?.entries).toMatchObject([{kind: 'timeline', events: [event]}])
+      expect(state.recording?.entries).toHaveLength(1)
+    })
+
+    it('opens a recording for review at its last snapshot', () => {
+      let state = panelReducer(INITIAL_STATE, {type: 'START_RECORDING', storyId: 's1', startedAt: Date.now()})
+      state = panelReducer(state, {type: 'METRICS_RECEIVED', metrics: DEFAULT_METRICS})
+      state = panelReducer(state, {type: 'METRICS_RECEIVED', metrics: DEFAULT_METRICS})
+      state = panelReducer(state, {type: 'IMPORT_FAILED', message: 'bad file'})
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      state = panelReducer(state, {type: 'REVIEW_RECORDING', recording: state.recording!})
+
+      expect(state.review?.position).toBe(1)
+      expect(state.importError).toBeNull()
+
+      state = panelReducer(state, {type: 'SEEK_RECORDING', position: 0})
+      expect(state.review?.position).toBe(0)
+
+      state = panelReducer(state, {type: 'CLOSE_REVIEW'})
+      expect(state.review).toBeNull()
+    })
+
+    it('ignores seeking when no recording is under review', () => {
+      const next = panelReducer(INITIAL_STATE, {type: 'SEEK_RECORDING', position: 3})
+
+      expect(next).toBe(INITIAL_STATE)
+    })
+  })
+
+  describe('leak check', () => {
+    it('tracks progress and the result of a leak check', () => {
+      let state = panelReducer(INITIAL_STATE, {type: 'LEAK_CHECK_STARTED', storyId: 's1', cycles: 5})
+      expect(state.leakCheck).toEqual({status: 'running', storyId: 's1', completed: 0, cycles: 5})
+
+      state = panelReducer(state, {type: 'LEAK_CHECK_PROGRESS', storyId: 's1', completed: 2, cycles: 5})
+      expect(state.leakCheck).toMatchObject({status: 'running', completed: 2})
+
+      const result = {
+        storyId: 's1',
+        cycles: 5,
+        samples: [],
+        memorySlopeMB: null,
+        domNodeSlope: 0,
+        listenerSlope: 1,
+        likelyLeak: true,
+      }
+      state = panelReducer(state, {type: 'LEAK_CHECK_COMPLETED', result})
+      expect(state.leakCheck).toEqual({status: 'done', storyId: 's1', result})
+    })
+
+    it('records why a leak check failed', () => {
+      const state = panelReducer(INITIAL_STATE, {type: 'LEAK_CHECK_FAILED', storyId: 's1', message: 'timed out'})
+
+      expect(state.leakCheck).toEqual({status: 'failed', storyId: 's1', message: 'timed out'})
+    })
+  })
+
   describe('unknown action', () => {
     it('returns current state for unknown action type', () => {
       // @ts-expect-error -- testing unknown action
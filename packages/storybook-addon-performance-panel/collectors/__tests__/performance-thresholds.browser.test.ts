@@ -0,0 +1,44 @@
+import {describe, expect, it} from 'vitest'
+
+import {resolveThresholds, THRESHOLD_PRESETS} from '../../core/performance-thresholds'
+import {THRESHOLDS} from '../../core/performance-types'
+
+describe('resolveThresholds', () => {
+  it('returns the defaults without settings', () => {
+    expect(resolveThresholds()).toEqual(THRESHOLDS)
+    expect(resolveThresholds(undefined, undefined)).toEqual(THRESHOLDS)
+  })
+
+  it('applies a preset over the defaults', () => {
+    const thresholds = resolveThresholds({preset: 'strict'})
+
+    expect(thresholds.FPS_GOOD).toBe(THRESHOLD_PRESETS.strict.FPS_GOOD)
+    expect(thresholds.INP_GOOD).toBe(100)
+    expect(thresholds.GC_PRESSURE_WARNING).toBe(THRESHOLDS.GC_PRESSURE_WARNING)
+  })
+
+  it('applies overrides over the preset', () => {
+    const thresholds = resolveThresholds({preset: 'strict', overrides: {INP_GOOD: 150}})
+
+    expect(thresholds.INP_GOOD).toBe(150)
+    expect(thresholds.INP_WARNING).toBe(THRESHOLD_PRESETS.strict.INP_WARNING)
+  })
+
+  it('lets later settings win', () => {
+    const thresholds = resolveThresholds({overrides: {FPS_GOOD: 90}}, {preset: 'mobile'})
+
+    expect(thresholds.FPS_GOOD).toBe(THRESHOLD_PRESETS.mobile.FPS_GOOD)
+  })
+
+  it('keeps good thresholds on the good side of warning thresholds in every preset', () => {
+    for (const preset of Object.keys(THRESHOLD_PRESETS) as (keyof typeof THRESHOLD_PRESETS)[]) {
+      const thresholds = resolveThresholds({preset})
+
+      expect(thresholds.FPS_GOOD).toBeGreaterThan(thresholds.FPS_WARNING)
+      expect(thresholds.FRAME_TIME_TARGET).toBeLessThan(thresholds.FRAME_TIME_WARNING)
+      expect(thresholds.INP_GOOD).toBeLessThan(thresholds.INP_WARNING)
+      expect(thresholds.CLS_GOOD).toBeLessThan(thresholds.CLS_WARNING)
+      expect(thresholds.TBT_WARNING).toBeLessThan(thresholds.TBT_DANGER)
+    }
+  })
+})
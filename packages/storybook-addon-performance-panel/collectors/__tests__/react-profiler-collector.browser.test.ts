@@ -1,4 +1,4 @@
-import {beforeEach, describe, expect, it} from 'vitest'
+import {afterEach, beforeEach, describe, expect, it} from 'vitest'
 
 import {ReactProfilerCollector} from '../../collectors/react-profiler-collector'
 import type {RenderInfo} from '../../core/performance-types'
@@ -30,6 +30,10 @@ describe('ReactProfilerCollector', () => {
     collector.start()
   })
 
+  afterEach(() => {
+    collector.stop()
+  })
+
   describe('getMetrics', () => {
     it('returns initial metrics', () => {
       const metrics = collector.getMetrics()
@@ -161,6 +165,65 @@ describe('ReactProfilerCollector', () => {
     })
   })
 
+  describe('getCommitLog', () => {
+    it('lists commits across profilers, oldest first', () => {
+      collector.reportRender(createRenderInfo({profilerId: 'list', phase: 'mount', startTime: 10, actualDuration: 8}))
+      collector.reportRender(
+        createRenderInfo({
+          profilerId: 'row',
+          phase: 'update',
+          startTime: 40,
+          actualDuration: 3,
+          baseDuration: 12,
+          commitTime: 45,
+        }),
+      )
+
+      expect(collector.getCommitLog()).toEqual([
+        {
+          profilerId: 'list',
+          phase: 'mount',
+          startTime: 10,
+          actualDuration: 8,
+          baseDuration: 9.6,
+          commitLag: 0,
+          interaction: null,
+        },
+        {
+          profilerId: 'row',
+          phase: 'update',
+          startTime: 40,
+          actualDuration: 3,
+          baseDuration: 12,
+          commitLag: 2,
+          interaction: null,
+        },
+      ])
+    })
+
+    it('links commits to the interaction shortly before them', () => {
+      const button = document.createElement('button')
+      button.className = 'save'
+      document.body.appendChild(button)
+
+      button.dispatchEvent(new MouseEvent('click', {bubbles: true}))
+      const now = performance.now()
+      collector.reportRender(createRenderInfo({phase: 'update', startTime: now + 5}))
+      collector.reportRender(createRenderInfo({phase: 'update', startTime: now + 5_000}))
+
+      expect(collector.getCommitLog().map(commit => commit.interaction)).toEqual(['click on button.save', null])
+      button.remove()
+    })
+
+    it('is cleared on reset', () => {
+      collector.reportRender(createRenderInfo())
+
+      collector.reset()
+
+      expect(collector.getCommitLog()).toEqual([])
+    })
+  })
+
   describe('reset', () => {
     it('preserves mount metrics', () => {
       collector.reportRender(createRenderInfo({phase: 'mount', actualDuration: 10}))
@@ -0,0 +1,224 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+import {installReactDevToolsHook, RenderReasonCollector} from '../../collectors/render-reason-collector'
+
+const HOST_ROOT = 3
+const CLASS_COMPONENT = 1
+const PERFORMED_WORK = 1
+
+/** The fiber fields the collector reads */
+interface TestFiber {
+  tag: number
+  type: unknown
+  flags: number
+  alternate: TestFiber | null
+  child: TestFiber | null
+  sibling: TestFiber | null
+  memoizedProps: unknown
+  memoizedState: unknown
+  dependencies: {firstContext: {memoizedValue: unknown; next: null} | null} | null
+  selfBaseDuration: number
+}
+
+function App() {
+  return null
+}
+function Button() {
+  return null
+}
+function Counter() {
+  return null
+}
+function Themed() {
+  return null
+}
+function Label() {
+  return null
+}
+
+function createFiber(type: unknown, overrides: Partial<TestFiber> = {}): TestFiber {
+  return {
+    tag: 0,
+    type,
+    flags: 0,
+    alternate: null,
+    child: null,
+    sibling: null,
+    memoizedProps: {},
+    memoizedState: null,
+    dependencies: null,
+    selfBaseDuration: 0,
+    ...overrides,
+  }
+}
+
+/** The next version of `previous`, which rendered unless `flags` says otherwise */
+function updateFiber(previous: TestFiber, overrides: Partial<TestFiber> = {}): TestFiber {
+  const fiber = {...previous, flags: PERFORMED_WORK, alternate: previous, ...overrides}
+  previous.alternate = fiber
+  return fiber
+}
+
+function withChildren(parent: TestFiber, children: TestFiber[]): TestFiber {
+  parent.child = children[0] ?? null
+  children.forEach((child, index) => {
+    child.sibling = children[index + 1] ?? null
+  })
+  return parent
+}
+
+function commit(current: TestFiber): void {
+  window.__REACT_DEVTOOLS_GLOBAL_HOOK__?.onCommitFiberRoot(1, {current})
+}
+
+/** Commit a root whose children re-rendered with the given changes */
+function commitUpdates(...updates: [previous: TestFiber, next: Partial<TestFiber>][]): void {
+  const root = withChildren(
+    createFiber(null, {tag: HOST_ROOT}),
+    updates.map(([previous]) => previous),
+  )
+  commit(
+    withChildren(
+      updateFiber(root, {flags: 0}),
+      updates.map(([previous, next]) => updateFiber(previous, next)),
+    ),
+  )
+}
+
+describe('RenderReasonCollector', () => {
+  const originalHook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__
+  let collector: RenderReasonCollector
+
+  beforeEach(() => {
+    delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__
+    installReactDevToolsHook()
+    collector = new RenderReasonCollector()
+    collector.enabled = true
+    collector.start()
+  })
+
+  afterEach(() => {
+    collector.stop()
+    window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = originalHook
+  })
+
+  it('lists the components that re-rendered with their self time and reasons', () => {
+    const onClick = () => undefined
+    const button = createFiber(Button, {memoizedProps: {label: 'Save', onClick}})
+    const counter = createFiber(Counter, {memoizedState: {memoizedState: 1, queue: {}, next: null}})
+    const themed = createFiber(Themed, {dependencies: {firstContext: {memoizedValue: 'light', next: null}}})
+    // A useMemo hook gets new state without scheduling a render
+    const label = createFiber(Label, {memoizedProps: {text: 'Total'}, memoizedState: {memoizedState: [], queue: null}})
+
+    commitUpdates(
+      [button, {memoizedProps: {label: 'Saved', onClick: () => undefined}, selfBaseDuration: 2}],
+      [counter, {memoizedState: {memoizedState: 2, queue: {}, next: null}, selfBaseDuration: 1}],
+      [themed, {dependencies: {firstContext: {memoizedValue: 'dark', next: null}}, selfBaseDuration: 0.5}],
+      [label, {memoizedProps: {text: 'Total'}, memoizedState: {memoizedState: [], queue: null}, selfBaseDuration: 3}],
+    )
+
+    const [commitInfo] = collector.getMetrics().commits
+    expect(commitInfo?.componentCount).toBe(4)
+    expect(commitInfo?.components).toEqual([
+      {name: 'Label', selfTime: 3, reasons: ['parent'], changedProps: []},
+      {name: 'Button', selfTime: 2, reasons: ['props'], changedProps: ['label', 'onClick']},
+      {name: 'Counter', selfTime: 1, reasons: ['state'], changedProps: []},
+      {name: 'Themed', selfTime: 0.5, reasons: ['context'], changedProps: []},
+    ])
+  })
+
+  it('compares class component state by identity', () => {
+    const state = {open: false}
+    const dialog = createFiber({displayName: 'Dialog'}, {tag: CLASS_COMPONENT, memoizedState: state})
+
+    commitUpdates([dialog, {memoizedState: {open: true}}])
+    commitUpdates([dialog, {memoizedState: state}])
+
+    expect(collector.getMetrics().commits.map(info => info.components[0]?.reasons)).toEqual([['state'], ['parent']])
+  })
+
+  it('skips mounts and subtrees React did not visit', () => {
+    // Flags left over from an earlier render, on a subtree the commit didn't touch
+    const app = withChildren(createFiber(App), [createFiber(Button, {flags: PERFORMED_WORK})])
+    commitUpdates([app, {}])
+    // A new tree has no alternates
+    commit(withChildren(createFiber(null, {tag: HOST_ROOT}), [createFiber(Counter, {flags: PERFORMED_WORK})]))
+
+    const {commits} = collector.getMetrics()
+    expect(commits).toHaveLength(1)
+    expect(commits[0]?.components.map(component => component.name)).toEqual(['App'])
+  })
+
+  it('ranks the components with the most re-render time', () => {
+    const button = createFiber(Button, {memoizedProps: {label: 'Save', onClick: null}})
+    const label = createFiber(Label)
+
+    commitUpdates([button, {memoizedProps: {label: 'Saving', onClick: null}, selfBaseDuration: 2}])
+    commitUpdates(
+      [button, {memoizedProps: {label: 'Saved', onClick: () => undefined}, selfBaseDuration: 1}],
+      [label, {selfBaseDuration: 2.5}],
+    )
+
+    expect(collector.getMetrics().offenders).toEqual([
+      {
+        name: 'Button',
+        renderCount: 2,
+        totalSelfTime: 3,
+        maxSelfTime: 2,
+        reasons: {props: 2, state: 0, context: 0, parent: 0},
+        changedProps: ['label', 'onClick'],
+      },
+      {
+        name: 'Label',
+        renderCount: 1,
+        totalSelfTime: 2.5,
+        maxSelfTime: 2.5,
+        reasons: {props: 0, state: 0, context: 0, parent: 1},
+        changedProps: [],
+      },
+    ])
+  })
+
+  it('ignores commits while disabled or stopped', () => {
+    const label = createFiber(Label)
+
+    collector.enabled = false
+    commitUpdates([label, {}])
+    collector.enabled = true
+    collector.stop()
+    commitUpdates([label, {}])
+
+    expect(collector.getMetrics()).toEqual({commits: [], offenders: []})
+  })
+
+  it('clears commits and offenders on reset', () => {
+    commitUpdates([createFiber(Label), {}])
+
+    collector.reset()
+
+    expect(collector.getMetrics()).toEqual({commits: [], offenders: []})
+  })
+
+  it('keeps an existing hook and still calls it', () => {
+    const onCommitFiberRoot = vi.fn()
+    const hook = {
+      supportsFiber: true,
+      renderers: new Map(),
+      inject: () => 1,
+      onCommitFiberRoot,
+      onCommitFiberUnmount: () => undefined,
+    }
+    window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook
+
+    installReactDevToolsHook()
+    const other = new RenderReasonCollector()
+    other.enabled = true
+    other.start()
+    commitUpdates([createFiber(Label), {}])
+    other.stop()
+
+    expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(hook)
+    expect(onCommitFiberRoot).toHaveBeenCalledOnce()
+    expect(other.getMetrics().commits).toHaveLength(1)
+  })
+})
@@ -0,0 +1,169 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+import {ResourceCollector} from '../../collectors/resource-collector'
+
+interface ResourceEntryInit {
+  name: string
+  initiatorType: string
+  startTime: number
+  duration: number
+  transferSize?: number
+  renderBlockingStatus?: 'blocking' | 'non-blocking'
+}
+
+describe('ResourceCollector', () => {
+  let collector: ResourceCollector
+  let observerCallbacks: PerformanceObserverCallback[]
+
+  /** Deliver Resource Timing entries to the collector's observer */
+  function emit(entries: ResourceEntryInit[]) {
+    const entryList: PerformanceObserverEntryList = {
+      getEntries: () =>
+        entries.map(entry => ({entryType: 'resource', transferSize: 0, ...entry}) as unknown as PerformanceEntry),
+      getEntriesByName: () => [],
+      getEntriesByType: () => [],
+    }
+    const observer = {disconnect: vi.fn(), observe: vi.fn(), takeRecords: () => []}
+    for (const callback of observerCallbacks) {
+      callback(entryList, observer)
+    }
+  }
+
+  beforeEach(() => {
+    observerCallbacks = []
+    vi.stubGlobal(
+      'PerformanceObserver',
+      class MockPerformanceObserver {
+        constructor(callback: PerformanceObserverCallback) {
+          observerCallbacks.push(callback)
+        }
+        observe = vi.fn()
+        disconnect = vi.fn()
+      },
+    )
+    collector = new ResourceCollector()
+  })
+
+  afterEach(() => {
+    collector.stop()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('returns initial metrics', () => {
+    expect(collector.getMetrics()).toEqual({
+      requestCount: 0,
+      requestsByKind: {fetch: 0, xhr: 0, image: 0, font: 0},
+      transferKB: 0,
+      renderBlockingCount: 0,
+      duplicateCount: 0,
+      duplicates: [],
+      longestChain: [],
+      slowestRequests: [],
+    })
+  })
+
+  it('lists fetch, XHR, image and font requests and ignores other resources', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(1_000)
+    collector.start()
+
+    emit([
+      {
+        name: `${location.origin}/api/user?id=1`,
+        initiatorType: 'fetch',
+        startTime: 1_010,
+        duration: 80,
+        transferSize: 2048,
+      },
+      {name: `${location.origin}/api/items`, initiatorType: 'xmlhttprequest', startTime: 1_020, duration: 40},
+      {name: 'https://cdn.example.com/avatar.png', initiatorType: 'img', startTime: 1_030, duration: 20},
+      {
+        name: `${location.origin}/fonts/inter.woff2`,
+        initiatorType: 'css',
+        startTime: 1_040,
+        duration: 10,
+        renderBlockingStatus: 'blocking',
+      },
+      {name: `${location.origin}/main.js`, initiatorType: 'script', startTime: 1_050, duration: 30},
+      {name: `${location.origin}/api/stale`, initiatorType: 'fetch', startTime: 900, duration: 30},
+    ])
+
+    const metrics = collector.getMetrics()
+    expect(metrics.requestCount).toBe(4)
+    expect(metrics.requestsByKind).toEqual({fetch: 1, xhr: 1, image: 1, font: 1})
+    expect(metrics.transferKB).toBe(2)
+    expect(metrics.renderBlockingCount).toBe(1)
+    expect(metrics.slowestRequests[0]).toEqual({
+      url: '/api/user?id=1',
+      kind: 'fetch',
+      initiatorType: 'fetch',
+      startTime: 10,
+      duration: 80,
+      transferSize: 2048,
+      renderBlocking: false,
+      interaction: null,
+    })
+    expect(metrics.slowestRequests.map(request => request.url)).toContain('https://cdn.example.com/avatar.png')
+  })
+
+  it('flags URLs requested more than once', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(0)
+    collector.start()
+
+    emit([
+      {name: '/api/user', initiatorType: 'fetch', startTime: 10, duration: 5},
+      {name: '/api/user', initiatorType: 'fetch', startTime: 500, duration: 5},
+      {name: '/api/user', initiatorType: 'fetch', startTime: 900, duration: 5},
+      {name: '/api/items', initiatorType: 'fetch', startTime: 20, duration: 5},
+    ])
+
+    expect(collector.getMetrics()).toMatchObject({
+      duplicateCount: 2,
+      duplicates: [{url: '/api/user', kind: 'fetch', count: 3}],
+    })
+  })
+
+  it('finds the longest chain of requests that waited for each other', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(0)
+    collector.start()
+
+    emit([
+      {name: '/api/session', initiatorType: 'fetch', startTime: 0, duration: 100},
+      {name: '/api/user', initiatorType: 'fetch', startTime: 110, duration: 100},
+      {name: '/avatars/1.png', initiatorType: 'img', startTime: 230, duration: 50},
+      // Runs in parallel with the chain, so it doesn't extend it
+      {name: '/api/flags', initiatorType: 'fetch', startTime: 5, duration: 500},
+    ])
+
+    expect(collector.getMetrics().longestChain).toEqual(['/api/session', '/api/user', '/avatars/1.png'])
+  })
+
+  it('links requests to the interaction shortly before them', () => {
+    collector.start()
+    const button = document.createElement('button')
+    button.className = 'save'
+    document.body.appendChild(button)
+
+    button.dispatchEvent(new PointerEvent('pointerdown', {bubbles: true}))
+    const now = performance.now()
+    emit([
+      {name: '/api/save', initiatorType: 'fetch', startTime: now + 10, duration: 50},
+      {name: '/api/poll', initiatorType: 'fetch', startTime: now + 5_000, duration: 10},
+    ])
+
+    const requests = collector.getMetrics().slowestRequests
+    expect(requests.find(request => request.url === '/api/save')?.interaction).toBe('pointerdown on button.save')
+    expect(requests.find(request => request.url === '/api/poll')?.interaction).toBeNull()
+    button.remove()
+  })
+
+  it('clears requests on reset', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(0)
+    collector.start()
+    emit([{name: '/api/user', initiatorType: 'fetch', startTime: 10, duration: 5}])
+
+    collector.reset()
+    expect(collector.getMetrics().requestCount).toBe(0)
+    expect(collector.getMetrics().slowestRequests).toEqual([])
+  })
+})
@@ -0,0 +1,206 @@
+import {describe, expect, it} from 'vitest'
+
+import {
+  DEFAULT_METRICS,
+  type InteractionInfo,
+  type ReactMetrics,
+  type TimelineEvent,
+} from '../../core/performance-types'
+import {
+  appendMetricsEntry,
+  appendProfilerEntry,
+  appendTimelineEntry,
+  countEntriesAt,
+  createSessionRecording,
+  getMetricsEntries,
+  getProfilerEntriesAt,
+  getTimelineEvents,
+  parseSessionRecording,
+  serializeSessionRecording,
+  SESSION_RECORDING_VERSION,
+} from '../../panel/session-recording'
+import {createEmptyReactMetrics} from '../react-profiler-collector'
+
+const interaction: InteractionInfo = {
+  duration: 120,
+  eventType: 'click',
+  targetSelector: 'button.primary',
+  inputDelay: 10,
+  processingTime: 90,
+  presentationDelay: 20,
+}
+
+function frame(startTime: number): TimelineEvent {
+  return {track: 'frame', name: 'Frame', startTime, duration: 16}
+}
+
+function reactMetrics(overrides: Partial<ReactMetrics> = {}): ReactMetrics {
+  return {...createEmptyReactMetrics(), ...overrides}
+}
+
+describe('session recording', () => {
+  describe('appendMetricsEntry', () => {
+    it('records metrics relative to the recording start', () => {
+      const recording = createSessionRecording('story-1', 1000)
+      const next = appendMetricsEntry(recording, DEFAULT_METRICS, {...DEFAULT_METRICS, fps: 58}, 1250)
+
+      expect(next.entries).toEqual([{kind: 'metrics', time: 250, metrics: {...DEFAULT_METRICS, fps: 58}}])
+      expect(recording.entries).toHaveLength(0)
+    })
+
+    it('derives an interaction entry when the interaction count increases', () => {
+      const recording = createSessionRecording('story-1', 0)
+      const metrics = {...DEFAULT_METRICS, interactionCount: 1, lastInteraction: interaction}
+
+      const next = appendMetricsEntry(recording, DEFAULT_METRICS, metrics, 100)
+
+      expect(next.entries.map(e => e.kind)).toEqual(['interaction', 'metrics'])
+    })
+
+    it('does not repeat an interaction already seen in the previous snapshot', () => {
+      const recording = createSessionRecording('story-1', 0)
+      const metrics = {...DEFAULT_METRICS, interactionCount: 1, lastInteraction: interaction}
+
+      const next = appendMetricsEntry(recording, metrics, metrics, 100)
+
+      expect(next.entries.map(e => e.kind)).toEqual(['metrics'])
+    })
+
+    it('derives a LoAF entry when the LoAF count increases', () => {
+      const recording = createSessionRecording('story-1', 0)
+      const lastLoaf = {
+        duration: 90,
+        blockingDuration: 40,
+        renderStart: 0,
+        styleAndLayoutStart: 0,
+        scriptCount: 0,
+        topScript: null,
+      }
+      const metrics = {...DEFAULT_METRICS, loafCount: 2, lastLoaf}
+
+      const next = appendMetricsEntry(recording, {...DEFAULT_METRICS, loafCount: 1}, metrics, 100)
+
+      expect(next.entries[0]).toEqual({kind: 'loaf', time: 100, loaf: lastLoaf})
+    })
+  })
+
+  describe('appendTimelineEntry', () => {
+    it('records only events not recorded by an earlier entry', () => {
+      let recording = createSessionRecording('story-1', 1000)
+      recording = appendTimelineEntry(recording, [frame(10), frame(26)], 1100)
+      recording = appendTimelineEntry(recording, [frame(26), frame(42)], 1200)
+
+      expect(recording.entries).toEqual([
+        {kind: 'timeline', time: 100, events: [frame(10), frame(26)]},
+        {kind: 'timeline', time: 200, events: [frame(42)]},
+      ])
+      expect(getTimelineEvents(recording).map(event => event.startTime)).toEqual([10, 26, 42])
+    })
+
+    it('deduplicates each track against its own window', () => {
+      const measure: TimelineEvent = {track: 'measure', name: 'search:filter', startTime: 5, duration: 3}
+      let recording = createSessionRecording('story-1', 0)
+      for (let i = 0; i < 10; i++) {
+        // Frames slide through a window of two, while the early measure stays reported
+        recording = appendTimelineEntry(recording, [measure, frame(i * 16), frame((i + 1) * 16)], i * 250)
+      }
+
+      const events = getTimelineEvents(recording)
+      expect(events.filter(event => event.track === 'measure')).toEqual([measure])
+      expect(events.filter(event => event.track === 'frame')).toHaveLength(11)
+    })
+
+    it('gives the same result when appending to the same recording twice', () => {
+      const recording = appendTimelineEntry(createSessionRecording('story-1', 0), [frame(10)], 100)
+
+      const first = appendTimelineEntry(recording, [frame(10), frame(26)], 200)
+      const second = appendTimelineEntry(recording, [frame(10), frame(26)], 200)
+
+      expect(second).toEqual(first)
+      expect(second.entries.at(-1)).toEqual({kind: 'timeline', time: 200, events: [frame(26)]})
+    })
+
+    it('deduplicates against recordings parsed from a file', () => {
+      const recording = appendTimelineEntry(createSessionRecording('story-1', 0), [frame(10)], 100)
+      const parsed = parseSessionRecording(serializeSessionRecording(recording))
+
+      expect(appendTimelineEntry(parsed, [frame(10)], 200)).toBe(parsed)
+    })
+
+    it('skips updates without new events', () => {
+      const recording = appendTimelineEntry(createSessionRecording('story-1', 0), [frame(10)], 100)
+
+      expect(appendTimelineEntry(recording, [frame(10)], 200)).toBe(recording)
+      expect(appendTimelineEntry(recording, [], 200)).toBe(recording)
+    })
+  })
+
+  describe('review helpers', () => {
+    it('returns the latest profiler update per profiler up to a time', () => {
+      let recording = createSessionRecording('story-1', 0)
+      recording = appendProfilerEntry(recording, {storyId: 'story-1', id: 'main', metrics: reactMetrics()}, 10)
+      recording = appendMetricsEntry(recording, DEFAULT_METRICS, DEFAULT_METRICS, 20)
+      recording = appendProfilerEntry(
+        recording,
+        {storyId: 'story-1', id: 'main', metrics: reactMetrics({reactRenderCount: 3})},
+        30,
+      )
+      recording = appendProfilerEntry(recording, {storyId: 'other', id: 'main', metrics: reactMetrics()}, 30)
+
+      expect(getProfilerEntriesAt(recording, 20).map(e => e.metrics.reactRenderCount)).toEqual([0])
+      expect(getProfilerEntriesAt(recording, 30).map(e => e.metrics.reactRenderCount)).toEqual([3])
+      expect(getMetricsEntries(recording)).toHaveLength(1)
+      expect(countEntriesAt(recording, 20)).toEqual({metrics: 1, profiler: 1, interaction: 0, loaf: 0, timeline: 0})
+    })
+  })
+
+  describe('serialization', () => {
+    it('round-trips through JSON', () => {
+      let recording = createSessionRecording('story-1', 5000)
+      recording = appendMetricsEntry(
+        recording,
+        DEFAULT_METRICS,
+        {...DEFAULT_METRICS, interactionCount: 1, lastInteraction: interaction},
+        5100,
+      )
+      recording = appendProfilerEntry(recording, {storyId: 'story-1', id: 'main', metrics: reactMetrics()}, 5200)
+      recording = appendTimelineEntry(recording, [frame(10)], 5300)
+
+      expect(parseSessionRecording(serializeSessionRecording(recording))).toEqual(recording)
+    })
+
+    it('fills in metrics missing from older recordings', () => {
+      const text = JSON.stringify({
+        format: 'storybook-addon-performance-panel/session-recording',
+        version: 1,
+        storyId: 'story-1',
+        startedAt: 0,
+        entries: [{kind: 'metrics', time: 0, metrics: {fps: 42}}],
+      })
+
+      const [entry] = getMetricsEntries(parseSessionRecording(text))
+
+      expect(entry?.metrics).toEqual({...DEFAULT_METRICS, fps: 42})
+    })
+
+    it('rejects invalid JSON', () => {
+      expect(() => parseSessionRecording('{')).toThrow('not valid JSON')
+    })
+
+    it('rejects documents that are not recordings', () => {
+      expect(() => parseSessionRecording(JSON.stringify({entries: []}))).toThrow('not a performance panel recording')
+    })
+
+    it('rejects recordings from a newer version', () => {
+      const recording = {...createSessionRecording('story-1', 0), version: SESSION_RECORDING_VERSION + 1}
+
+      expect(() => parseSessionRecording(JSON.stringify(recording))).toThrow('Unsupported session recording version')
+    })
+
+    it('rejects malformed entries', () => {
+      const recording = {...createSessionRecording('story-1', 0), entries: [{kind: 'metrics', time: 0}]}
+
+      expect(() => parseSessionRecording(JSON.stringify(recording))).toThrow('entry 0 is malformed')
+    })
+  })
+})
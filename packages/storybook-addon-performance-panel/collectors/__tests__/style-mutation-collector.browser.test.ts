@@ -58,6 +58,46 @@ describe('StyleMutationCollector', () => {
     })
   })
 
+  describe('write targets', () => {
+    it('attributes writes to elements and the properties that changed', async () => {
+      collector.start()
+      const cells = [1, 2].map(() => {
+        const cell = document.createElement('div')
+        cell.className = 'cell'
+        document.body.appendChild(cell)
+        return cell
+      })
+      const container = document.createElement('section')
+      container.id = 'grid'
+      document.body.appendChild(container)
+
+      for (const cell of cells) {
+        cell.style.backgroundColor = 'red'
+        cell.style.transform = 'scale(1.1)'
+        cell.style.backgroundColor = 'blue'
+      }
+      container.style.setProperty('--hue', '120')
+      await flushMutations()
+
+      expect(collector.getMetrics().writeTargets).toEqual([
+        {
+          selector: 'div.cell',
+          writes: 6,
+          cssVarWrites: 0,
+          elementCount: 2,
+          properties: ['background-color', 'transform'],
+        },
+        {selector: '#grid', writes: 1, cssVarWrites: 1, elementCount: 1, properties: ['--hue']},
+      ])
+
+      collector.reset()
+      expect(collector.getMetrics().writeTargets).toEqual([])
+      for (const element of [...cells, container]) {
+        element.remove()
+      }
+    })
+  })
+
   describe('DOM mutation tracking', () => {
     it('counts DOM mutations', async () => {
       collector.start()
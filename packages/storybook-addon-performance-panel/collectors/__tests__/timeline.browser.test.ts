@@ -0,0 +1,58 @@
+import {describe, expect, it} from 'vitest'
+
+import type {TimelineEvent} from '../../core/performance-types'
+import {getTimelineRange, getTimelineTicks, MAX_TRACK_ROWS, packTimelineRows} from '../../panel/timeline'
+
+function measure(startTime: number, duration: number): TimelineEvent {
+  return {track: 'measure', name: `measure@${String(startTime)}`, startTime, duration}
+}
+
+describe('getTimelineRange', () => {
+  it('returns null without events', () => {
+    expect(getTimelineRange([])).toBeNull()
+  })
+
+  it('spans from the earliest start to the latest end', () => {
+    expect(getTimelineRange([measure(100, 50), measure(120, 200), measure(130, 10)])).toEqual({start: 100, end: 320})
+  })
+
+  it('keeps a single instant event visible', () => {
+    expect(getTimelineRange([{track: 'layout-shift', name: 'Layout shift', startTime: 40, duration: 0}])).toEqual({
+      start: 40,
+      end: 41,
+    })
+  })
+})
+
+describe('packTimelineRows', () => {
+  it('keeps back-to-back events in one row', () => {
+    const frames = [measure(0, 16), measure(16, 16), measure(32, 16)]
+    expect(packTimelineRows(frames)).toEqual([frames])
+  })
+
+  it('moves overlapping events to the first free row', () => {
+    const outer = measure(0, 100)
+    const inner = measure(10, 20)
+    const after = measure(40, 10)
+    expect(packTimelineRows([outer, inner, after])).toEqual([[outer], [inner, after]])
+  })
+
+  it(`stacks at most ${String(MAX_TRACK_ROWS)} rows`, () => {
+    const events = Array.from({length: MAX_TRACK_ROWS + 2}, (_, index) => measure(index, 100))
+    const rows = packTimelineRows(events)
+    expect(rows).toHaveLength(MAX_TRACK_ROWS)
+    expect(rows.at(-1)).toHaveLength(3)
+  })
+})
+
+describe('getTimelineTicks', () => {
+  it('picks a 1, 2 or 5 step', () => {
+    expect(getTimelineTicks({start: 1000, end: 1900}, 4)).toEqual([0, 500])
+    expect(getTimelineTicks({start: 0, end: 100}, 10)).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100])
+    expect(getTimelineTicks({start: 0, end: 1000}, 8)).toEqual([0, 200, 400, 600, 800, 1000])
+  })
+
+  it('returns a single tick for an empty range', () => {
+    expect(getTimelineTicks({start: 5, end: 5}, 8)).toEqual([0])
+  })
+})
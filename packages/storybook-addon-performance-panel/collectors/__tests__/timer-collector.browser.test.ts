@@ -0,0 +1,102 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+import {runUntracked} from '../../collectors/instrumentation'
+import {TimerCollector} from '../../collectors/timer-collector'
+
+describe('TimerCollector', () => {
+  let collector: TimerCollector
+
+  beforeEach(() => {
+    collector = new TimerCollector()
+  })
+
+  afterEach(() => {
+    collector.stop()
+  })
+
+  it('returns initial metrics', () => {
+    expect(collector.getMetrics()).toEqual({
+      activeTimerCount: 0,
+      timersByKind: {timeout: 0, interval: 0, animationFrame: 0},
+      callSites: [],
+    })
+  })
+
+  it('counts pending timers by kind until they are cleared', () => {
+    collector.start()
+    const timeout = setTimeout(vi.fn(), 10_000)
+    const interval = setInterval(vi.fn(), 10_000)
+    const frame = requestAnimationFrame(vi.fn())
+    expect(collector.getMetrics().timersByKind).toEqual({timeout: 1, interval: 1, animationFrame: 1})
+
+    clearTimeout(timeout)
+    clearInterval(interval)
+    cancelAnimationFrame(frame)
+    expect(collector.getMetrics().activeTimerCount).toBe(0)
+  })
+
+  it('untracks timeouts and animation frames after their callback runs', async () => {
+    collector.start()
+    const onTimeout = vi.fn()
+    setTimeout(onTimeout, 0, 'arg')
+    await new Promise<void>(resolve => {
+      requestAnimationFrame(() => {
+        resolve()
+      })
+    })
+    await vi.waitFor(() => {
+      expect(onTimeout).toHaveBeenCalledWith('arg')
+    })
+
+    expect(collector.getMetrics().activeTimerCount).toBe(0)
+  })
+
+  it('keeps intervals tracked after they fire', async () => {
+    collector.start()
+    const onInterval = vi.fn()
+    const interval = setInterval(onInterval, 1)
+    await vi.waitFor(() => {
+      expect(onInterval).toHaveBeenCalled()
+    })
+
+    expect(collector.getMetrics().timersByKind.interval).toBe(1)
+    clearInterval(interval)
+  })
+
+  it('ignores timers scheduled before it started or inside runUntracked', () => {
+    const before = setInterval(vi.fn(), 10_000)
+    collector.start()
+    const untracked = runUntracked(() => setInterval(vi.fn(), 10_000))
+
+    expect(collector.getMetrics().activeTimerCount).toBe(0)
+    clearInterval(before)
+    clearInterval(untracked)
+  })
+
+  it('groups pending timers by kind and call site', () => {
+    collector.start()
+    const intervals = [1, 2].map(() => setInterval(vi.fn(), 10_000))
+    const frame = requestAnimationFrame(vi.fn())
+
+    const timers = collector.getActiveTimers()
+    expect(timers.map(({kind, count}) => ({kind, count}))).toEqual([
+      {kind: 'interval', count: 2},
+      {kind: 'animationFrame', count: 1},
+    ])
+    for (const {callSite} of timers) {
+      expect(callSite).toContain('timer-collector.browser.test.ts')
+    }
+
+    intervals.forEach(clearInterval)
+    cancelAnimationFrame(frame)
+  })
+
+  it('restores the original functions when stopped', () => {
+    const originalSetTimeout = window.setTimeout
+    collector.start()
+    expect(window.setTimeout).not.toBe(originalSetTimeout)
+
+    collector.stop()
+    expect(window.setTimeout).toBe(originalSetTimeout)
+  })
+})
@@ -0,0 +1,80 @@
+import {afterEach, beforeEach, describe, expect, it} from 'vitest'
+
+import {UserTimingCollector} from '../../collectors/user-timing-collector'
+
+describe('UserTimingCollector', () => {
+  let collector: UserTimingCollector
+
+  beforeEach(() => {
+    collector = new UserTimingCollector()
+  })
+
+  afterEach(() => {
+    collector.stop()
+    performance.clearMarks()
+    performance.clearMeasures()
+  })
+
+  it('returns initial metrics', () => {
+    expect(collector.getMetrics()).toEqual({markCount: 0, marks: [], measureCount: 0, measures: []})
+  })
+
+  it('counts marks by name', async () => {
+    collector.start()
+    performance.mark('render:start')
+    performance.mark('render:start')
+    performance.mark('fetch:done')
+
+    await expect.poll(() => collector.getMetrics().markCount).toBe(3)
+    expect(collector.getMetrics().marks).toEqual([
+      {name: 'render:start', count: 2},
+      {name: 'fetch:done', count: 1},
+    ])
+  })
+
+  it('groups measures by name with count, average, p95 and max', async () => {
+    collector.start()
+    const start = performance.now()
+    for (const duration of [10, 20, 30]) {
+      performance.measure('search:filter', {start, duration})
+    }
+    performance.measure('table:sort', {start, duration: 50})
+
+    await expect.poll(() => collector.getMetrics().measureCount).toBe(4)
+    expect(collector.getMetrics().measures).toEqual([
+      {name: 'table:sort', count: 1, avgDuration: 50, p95Duration: 50, maxDuration: 50},
+      {name: 'search:filter', count: 3, avgDuration: 20, p95Duration: 29, maxDuration: 30},
+    ])
+  })
+
+  it('ignores entries that ended before it started', async () => {
+    performance.mark('before', {startTime: 0})
+    collector.start()
+    performance.mark('after')
+
+    await expect.poll(() => collector.getMetrics().markCount).toBe(1)
+    expect(collector.getMetrics().marks).toEqual([{name: 'after', count: 1}])
+  })
+
+  it('records measures for the timeline', async () => {
+    collector.start()
+    const start = performance.now()
+    performance.mark('ignored')
+    performance.measure('table:sort', {start, duration: 50})
+
+    await expect.poll(() => collector.getMetrics().measureCount).toBe(1)
+    expect(collector.getTimelineEvents()).toEqual([
+      {track: 'measure', name: 'table:sort', startTime: start, duration: 50},
+    ])
+  })
+
+  it('clears timings on reset', async () => {
+    collector.start()
+    performance.mark('first')
+    await expect.poll(() => collector.getMetrics().markCount).toBe(1)
+
+    collector.reset()
+    expect(collector.getMetrics()).toEqual({markCount: 0, marks: [], measureCount: 0, measures: []})
+    expect(collector.getTimelineEvents()).toEqual([])
+  })
+})
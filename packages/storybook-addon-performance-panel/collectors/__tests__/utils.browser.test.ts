@@ -1,4 +1,4 @@
-import {describe, expect, it} from 'vitest'
+import {describe, expect, it, vi} from 'vitest'
 
 import {
   addToWindow,
@@ -6,6 +6,11 @@ import {
   computeFrameStability,
   computeP95,
   computeStdDev,
+  describeTarget,
+  findRecentInteraction,
+  getSimpleSelector,
+  isDetachedNode,
+  trackInteractions,
   updateMaxWithDecay,
 } from '../../collectors/utils'
 
@@ -144,3 +149,97 @@ describe('updateMaxWithDecay', () => {
     expect(result).toBe(4)
   })
 })
+
+describe('describeTarget', () => {
+  it('names window and document', () => {
+    expect(describeTarget(window)).toBe('window')
+    expect(describeTarget(document)).toBe('document')
+  })
+
+  it('prefers the element ID', () => {
+    const element = document.createElement('section')
+    element.id = 'hero'
+    element.className = 'a b'
+    expect(describeTarget(element)).toBe('#hero')
+  })
+
+  it('falls back to the tag and first two classes', () => {
+    const element = document.createElement('div')
+    element.className = 'card elevated selected'
+    expect(describeTarget(element)).toBe('div.card.elevated')
+  })
+
+  it('uses the constructor name for other targets', () => {
+    expect(describeTarget(new AbortController().signal)).toBe('AbortSignal')
+  })
+})
+
+describe('isDetachedNode', () => {
+  it('is true only for nodes outside the document', () => {
+    const element = document.createElement('div')
+    expect(isDetachedNode(element)).toBe(true)
+
+    document.body.appendChild(element)
+    expect(isDetachedNode(element)).toBe(false)
+    expect(isDetachedNode(window)).toBe(false)
+    element.remove()
+  })
+})
+
+describe('getSimpleSelector', () => {
+  it('prefers the ID, then the elementtiming attribute', () => {
+    const element = document.createElement('img')
+    element.setAttribute('elementtiming', 'hero')
+    expect(getSimpleSelector(element)).toBe('[elementtiming="hero"]')
+
+    element.id = 'banner'
+    expect(getSimpleSelector(element)).toBe('#banner')
+  })
+
+  it('falls back to the tag and first two classes', () => {
+    const element = document.createElement('div')
+    element.className = ' card  elevated selected'
+    expect(getSimpleSelector(element)).toBe('div.card.elevated')
+  })
+
+  it('handles SVG elements and missing elements', () => {
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg')
+    svg.setAttribute('class', 'icon')
+    expect(getSimpleSelector(svg)).toBe('svg.icon')
+    expect(getSimpleSelector(null)).toBe('unknown')
+  })
+})
+
+describe('trackInteractions', () => {
+  it('finds the latest interaction within the window', () => {
+    const stop = trackInteractions()
+    const button = document.createElement('button')
+    button.className = 'save'
+    document.body.appendChild(button)
+
+    button.dispatchEvent(new PointerEvent('pointerdown', {bubbles: true}))
+    window.dispatchEvent(new KeyboardEvent('keydown', {key: 'a', repeat: true}))
+    const now = performance.now()
+
+    expect(findRecentInteraction(now + 10, 100)).toBe('pointerdown on button.save')
+    expect(findRecentInteraction(now + 1_000, 100)).toBeNull()
+    stop()
+    button.remove()
+  })
+
+  it('shares listeners between callers and clears interactions once all have stopped', () => {
+    const onInteraction = vi.fn()
+    const stopFirst = trackInteractions(onInteraction)
+    const stopSecond = trackInteractions()
+
+    window.dispatchEvent(new MouseEvent('click'))
+    stopFirst()
+    stopFirst()
+    window.dispatchEvent(new MouseEvent('click'))
+    expect(onInteraction).toHaveBeenCalledOnce()
+    expect(findRecentInteraction(performance.now(), 100)).toBe('click on document')
+
+    stopSecond()
+    expect(findRecentInteraction(performance.now(), 100)).toBeNull()
+  })
+})
@@ -6,21 +6,35 @@
  * handles orchestration and ensures consistent state across all collectors.
  */
 
-import type {PerformanceMetrics, ReactMetrics, RenderInfo} from '../core/performance-types'
+import type {
+  PerformanceMetrics,
+  ReactMetrics,
+  RenderInfo,
+  StoryLeakReport,
+  TimelineEvent,
+} from '../core/performance-types'
 import {SPARKLINE_HISTORY_SIZE} from './constants'
+import {DetachedNodeCollector} from './detached-node-collector'
 import {ElementTimingCollector} from './element-timing-collector'
+import {EventListenerCollector} from './event-listener-collector'
 import {ForcedReflowCollector} from './forced-reflow-collector'
 import type {FrameTimingMetrics} from './frame-timing-collector'
 import {FrameTimingCollector} from './frame-timing-collector'
 import {InputCollector} from './input-collector'
+import {runUntracked} from './instrumentation'
 import {LayoutShiftCollector} from './layout-shift-collector'
 import {LongAnimationFrameCollector} from './long-animation-frame-collector'
 import {MainThreadCollector} from './main-thread-collector'
 import {MemoryCollector} from './memory-collector'
+import {ObserverCollector} from './observer-collector'
 import {PaintCollector} from './paint-collector'
 import {ReactProfilerCollector} from './react-profiler-collector'
+import {RenderReasonCollector} from './render-reason-collector'
+import {ResourceCollector} from './resource-collector'
 import {StyleMutationCollector} from './style-mutation-collector'
+import {TimerCollector} from './timer-collector'
 import type {MetricCollector} from './types'
+import {UserTimingCollector} from './user-timing-collector'
 import {addToWindow, computeAverage, computeP95} from './utils'
 
 /**
@@ -71,8 +85,15 @@ export class CollectorManager {
     readonly style: StyleMutationCollector
     readonly reflow: ForcedReflowCollector
     readonly react: ReactProfilerCollector
+    readonly renderReasons: RenderReasonCollector
     readonly paint: PaintCollector
     readonly elementTiming: ElementTimingCollector
+    readonly detachedNodes: DetachedNodeCollector
+    readonly userTiming: UserTimingCollector
+    readonly resources: ResourceCollector
+    readonly listeners: EventListenerCollector
+    readonly observers: ObserverCollector
+    readonly timers: TimerCollector
   }
 
   #running = false
@@ -102,13 +123,21 @@ export class CollectorManager {
       layoutShift: new LayoutShiftCollector(),
       memory: new MemoryCollector(),
       react: new ReactProfilerCollector(),
+      renderReasons: new RenderReasonCollector(),
       paint: new PaintCollector(),
       elementTiming: new ElementTimingCollector(),
+      detachedNodes: new DetachedNodeCollector(),
+      userTiming: new UserTimingCollector(),
+      resources: new ResourceCollector(),
+      // Last, so listeners, observers and timers created by the collectors above aren't counted
+      listeners: new EventListenerCollector(),
+      observers: new ObserverCollector(),
+      timers: new TimerCollector(),
     }
 
     // Wire up style → reflow dependency
     this.collectors.style.onLayoutDirty = () => {
-      this.collectors.reflow.markLayoutDirty()
+      this.collectors.reflow.markLayoutDirty('style attribute')
     }
 
     // Wire up profiler update callback with automatic cleanup
@@ -247,14 +276,14 @@ export class CollectorManager {
       // Throttle: only schedule if not already pending
       if (!pendingCount) {
         pendingCount = true
-        countTimeout = setTimeout(countElements, 500)
+        countTimeout = runUntracked(() => setTimeout(countElements, 500))
       }
     }
 
     // Initial count
     countElements()
 
-    const observer = new MutationObserver(scheduleCount)
+    const observer = runUntracked(() => new MutationObserver(scheduleCount))
     observer.observe(container, {childList: true, subtree: true})
 
     return () => {
@@ -263,6 +292,36 @@ export class CollectorManager {
     }
   }
 
+  /**
+   * Report what the story still has attached. Call after the story has been
+   * unmounted, while collectors are still running.
+   *
+   * @param storyId - The story that was unmounted
+   * @returns The leaks, or `null` when nothing leaked or collectors weren't running
+   */
+  collectLeaks(storyId: string): StoryLeakReport | null {
+    if (!this.#running) return null
+    const eventListeners = this.collectors.listeners.getAttachedListeners()
+    const observers = this.collectors.observers.getActiveObservers()
+    const timers = this.collectors.timers.getActiveTimers()
+    if (eventListeners.length === 0 && observers.length === 0 && timers.length === 0) return null
+    return {storyId, eventListeners, observers, timers}
+  }
+
+  /**
+   * Merge the recent timestamped events of all collectors that record them,
+   * for the timeline view. Kept out of {@link computeMetrics} so metrics
+   * snapshots and session recordings stay small.
+   *
+   * @returns Events from all tracks, sorted by start time
+   */
+  collectTimeline(): TimelineEvent[] {
+    const {frame, mainThread, loaf, input, react, layoutShift, userTiming} = this.collectors
+    return [frame, mainThread, loaf, input, react, layoutShift, userTiming]
+      .flatMap(collector => collector.getTimelineEvents())
+      .sort((a, b) => a.startTime - b.startTime)
+  }
+
   /**
    * Get current frame timing metrics.
    * Used for building sparkline data from frame times.
@@ -283,10 +342,28 @@ export class CollectorManager {
    */
   computeMetrics(): PerformanceMetrics {
     const state = this.#state
-    const {frame, input, mainThread, loaf, layoutShift, memory, style, reflow, react, paint, elementTiming} =
-      Object.fromEntries(Object.entries(this.collectors).map(([k, v]) => [k, v.getMetrics()])) as {
-        [K in keyof typeof this.collectors]: ReturnType<(typeof this.collectors)[K]['getMetrics']>
-      }
+    const {
+      frame,
+      input,
+      mainThread,
+      loaf,
+      layoutShift,
+      memory,
+      style,
+      reflow,
+      react,
+      renderReasons,
+      paint,
+      elementTiming,
+      detachedNodes,
+      userTiming,
+      resources,
+      listeners,
+      observers,
+      timers,
+    } = Object.fromEntries(Object.entries(this.collectors).map(([k, v]) => [k, v.getMetrics()])) as {
+      [K in keyof typeof this.collectors]: ReturnType<(typeof this.collectors)[K]['getMetrics']>
+    }
 
     const avgFrameTime = computeAverage(frame.frameTimes)
     const fps = avgFrameTime > 0 ? Math.round(1000 / avgFrameTime) : 0
@@ -326,6 +403,7 @@ export class CollectorManager {
       loafsWithScripts: loaf.loafsWithScripts,
       lastLoaf: loaf.lastLoaf,
       worstLoaf: loaf.worstLoaf,
+      loafScripts: loaf.scripts,
       // Continue with other metrics
       droppedFrames: frame.droppedFrames,
       frameJitter: frame.frameJitter,
@@ -335,6 +413,7 @@ export class CollectorManager {
       layoutShiftScore: layoutShift.layoutShiftScore,
       layoutShiftCount: layoutShift.layoutShiftCount,
       currentSessionCLS: layoutShift.currentSessionScore,
+      layoutShifts: layoutShift.layoutShifts,
       eventTimingSupported: input.eventTimingSupported,
       interactionCount: input.interactionCount,
       inpMs: input.inpMs,
@@ -342,6 +421,10 @@ export class CollectorManager {
       firstInputType: input.firstInputType,
       lastInteraction: input.lastInteraction,
       slowestInteraction: input.slowestInteraction,
+      interactionLog: input.interactionLog,
+      avgInputDelay: Math.round(input.avgInputDelay * 10) / 10,
+      avgProcessingTime: Math.round(input.avgProcessingTime * 10) / 10,
+      avgPresentationDelay: Math.round(input.avgPresentationDelay * 10) / 10,
       interactionsByType: input.interactionsByType,
       reactMountCount: react.reactMountCount,
       reactMountDuration: react.reactMountDuration,
@@ -349,16 +432,30 @@ export class CollectorManager {
       reactPostMountUpdateCount: react.reactPostMountUpdateCount,
       reactPostMountMaxDuration: react.reactPostMountMaxDuration,
       renderCascades: react.nestedUpdateCount,
+      reactCommits: this.collectors.react.getCommitLog(),
+      renderReasonCommits: renderReasons.commits,
+      renderOffenders: renderReasons.offenders,
       domElements: state.domElements,
       forcedReflowCount: reflow.forcedReflowCount,
-      eventListenerCount: 0, // Not currently tracked by collectors
-      observerCount: 0, // Not currently tracked by collectors
+      reflowCallSites: reflow.callSites,
+      eventListenerCount: listeners.listenerCount,
+      eventListenersPerInteraction: listeners.listenersAddedPerInteraction,
+      observerCount: observers.observerCount,
+      observersByType: observers.observersByType,
+      activeTimerCount: timers.activeTimerCount,
+      timersByKind: timers.timersByKind,
+      timerCallSites: timers.callSites,
+      detachedNodeCount: detachedNodes.detachedNodeCount,
+      detachedNodes: detachedNodes.detachedNodes,
+      detachedNodesConfirmed: detachedNodes.detachedNodesConfirmed,
       cssVarChanges: style.cssVarChanges,
+      styleWriteTargets: style.writeTargets,
       scriptEvalTime: Math.round(paint.scriptEvalTime * 10) / 10,
       gcPressure: Math.round(memory.gcPressure * 100) / 100,
       paintCount: paint.paintCount,
       paintJitter: input.paintJitter,
       compositorLayers: paint.compositorLayers,
+      previousStoryLeaks: null, // Set by PerformanceMonitorCore
       domMutationsPerFrame: Math.round(computeAverage(style.domMutationFrames)),
       slowReactUpdates: react.slowReactUpdates,
       reactP95Duration: computeP95(react.reactUpdateDurations),
@@ -371,6 +468,21 @@ export class CollectorManager {
         renderTime: Math.round(e.renderTime * 10) / 10,
         selector: e.selector,
       })),
+      // User Timing metrics
+      userMarkCount: userTiming.markCount,
+      userMarks: userTiming.marks,
+      userMeasureCount: userTiming.measureCount,
+      userMeasures: userTiming.measures,
+      // Network metrics
+      networkRequestCount: resources.requestCount,
+      networkRequestsByKind: resources.requestsByKind,
+      networkTransferKB: resources.transferKB,
+      renderBlockingRequests: resources.renderBlockingCount,
+      duplicateRequestCount: resources.duplicateCount,
+      duplicateRequests: resources.duplicates,
+      longestRequestChain: resources.longestChain.length,
+      requestChain: resources.longestChain,
+      slowestRequests: resources.slowestRequests,
     }
 
     return metrics
@@ -87,3 +87,32 @@ export const MAX_PAINT_DECAY_THRESHOLD = 10
 
 /** Decay rate per frame for max paint time */
 export const MAX_PAINT_DECAY_RATE = 0.98
+
+// ============================================================================
+// React Constants
+// ============================================================================
+
+/** Recent commits kept in the React commit log */
+export const MAX_LOGGED_COMMITS = 50
+
+/** Commits starting within this time after a click or key press are attributed to it (ms) */
+export const COMMIT_INTERACTION_WINDOW_MS = 250
+
+/** Recent commits kept with the components that re-rendered */
+export const MAX_RENDER_REASON_COMMITS = 20
+
+/** Components listed per commit, slowest first */
+export const MAX_COMPONENTS_PER_COMMIT = 10
+
+/** Components that re-rendered the most, listed as offenders */
+export const MAX_RENDER_OFFENDERS = 10
+
+// ============================================================================
+// Timeline Constants
+// ============================================================================
+
+/** Timeline events kept per collector */
+export const TIMELINE_EVENTS_WINDOW = 100
+
+/** Frames kept for the timeline, about five seconds at 60fps */
+export const TIMELINE_FRAMES_WINDOW = 300
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Detached DOM node collector
+ * @module collectors/DetachedNodeCollector
+ *
+ * Keeps weak references to element subtrees removed from `#storybook-root`
+ * and periodically checks which are still in memory. A removed subtree that
+ * survives a forced garbage collection is retained by something, usually a
+ * closure, ref or cache in a component that was unmounted. Such trees are
+ * invisible to the DOM node count, which only sees attached nodes.
+ */
+
+import type {DetachedNodeInfo} from '../core/performance-types'
+import type {MetricCollector} from './types'
+import {getSimpleSelector} from './utils'
+
+export interface DetachedNodeMetrics {
+  /** Elements in retained detached subtrees */
+  detachedNodeCount: number
+  /** Retained subtrees grouped by selector, largest first */
+  detachedNodes: DetachedNodeInfo[]
+  /** Whether the subtrees survived a forced garbage collection, rather than only a long wait */
+  detachedNodesConfirmed: boolean
+}
+
+/** ID of the element Storybook renders stories into */
+const STORY_ROOT_ID = 'storybook-root'
+
+/** Time between reachability checks (ms) */
+const CHECK_INTERVAL_MS = 1000
+
+/**
+ * Checks a removed subtree must survive before it is reported without
+ * `window.gc`. An idle page may go much longer than this without a major
+ * collection, so these reports stay unconfirmed. With `window.gc`,
+ * surviving one forced collection is conclusive.
+ */
+const RETAINED_AFTER_CHECKS = 60
+
+/** Removed subtrees tracked at once. The oldest are dropped beyond this. */
+const MAX_TRACKED_SUBTREES = 1000
+
+/** Number of selectors included in {@link DetachedNodeMetrics.detachedNodes} */
+const MAX_SELECTORS = 10
+
+/** A subtree removed from the story root */
+interface DetachedRecord {
+  element: WeakRef<Element>
+  selector: string
+  /** Checks the subtree has survived while detached */
+  checks: number
+  /** Whether the subtree survived a forced collection */
+  confirmed: boolean
+}
+
+interface WindowWithGC extends Window {
+  /** Exposed when Chromium runs with `--js-flags=--expose-gc` */
+  gc?: () => void
+}
+
+/**
+ * Tracks element subtrees removed from the story root while collecting and
+ * reports the ones still in memory after a forced garbage collection, or,
+ * unconfirmed, after {@link RETAINED_AFTER_CHECKS} checks without one.
+ *
+ * Only the root of each removed subtree is tracked; its descendants are
+ * counted when the subtree is reported. Subtrees that are inserted again,
+ * such as moved nodes, are no longer detached and are dropped.
+ */
+export class DetachedNodeCollector implements MetricCollector<DetachedNodeMetrics> {
+  #observer: MutationObserver | null = null
+  #checkInterval: ReturnType<typeof setInterval> | null = null
+  #records: DetachedRecord[] = []
+
+  start(): void {
+    const root = document.getElementById(STORY_ROOT_ID)
+    if (!root) return
+
+    this.#observer = new MutationObserver(mutations => {
+      this.#trackRemovals(mutations)
+    })
+    this.#observer.observe(root, {childList: true, subtree: true})
+
+    this.#checkInterval = setInterval(() => {
+      this.check()
+    }, CHECK_INTERVAL_MS)
+  }
+
+  stop(): void {
+    this.#observer?.disconnect()
+    if (this.#checkInterval) clearInterval(this.#checkInterval)
+    this.#observer = null
+    this.#checkInterval = null
+    this.#records = []
+  }
+
+  reset(): void {
+    // Nothing to reset: tracked subtrees are still in memory
+  }
+
+  /**
+   * Drop subtrees that were garbage collected or inserted again, and count
+   * a check for the rest. Runs every {@link CHECK_INTERVAL_MS} while started.
+   */
+  check(): void {
+    if (this.#observer) {
+      this.#trackRemovals(this.#observer.takeRecords())
+    }
+
+    // Only force a collection while some subtree is still unconfirmed, since a full GC is expensive
+    const {gc} = window as WindowWithGC
+    const collected = gc !== undefined && this.#records.some(record => !record.confirmed)
+    if (collected) gc()
+
+    this.#records = this.#records.filter(record => {
+      const element = record.element.deref()
+      if (!element || element.isConnected) return false
+      record.checks++
+      if (collected) record.confirmed = true
+      return true
+    })
+  }
+
+  getMetrics(): DetachedNodeMetrics {
+    const groups = new Map<string, DetachedNodeInfo>()
+    let detachedNodeCount = 0
+    let detachedNodesConfirmed = true
+    for (const record of this.#records) {
+      const element = record.element.deref()
+      if (!element || element.isConnected) continue
+      if (!record.confirmed && record.checks < RETAINED_AFTER_CHECKS) continue
+      detachedNodesConfirmed &&= record.confirmed
+
+      const nodeCount = 1 + element.getElementsByTagName('*').length
+      detachedNodeCount += nodeCount
+      const group = groups.get(record.selector)
+      if (group) {
+        group.nodeCount += nodeCount
+        group.count++
+      } else {
+        groups.set(record.selector, {selector: record.selector, nodeCount, count: 1})
+      }
+    }
+
+    return {
+      detachedNodeCount,
+      detachedNodes: [...groups.values()].sort((a, b) => b.nodeCount - a.nodeCount).slice(0, MAX_SELECTORS),
+      detachedNodesConfirmed: detachedNodeCount > 0 && detachedNodesConfirmed,
+    }
+  }
+
+  #trackRemovals(mutations: MutationRecord[]): void {
+    for (const mutation of mutations) {
+      for (const node of mutation.removedNodes) {
+        if (!(node instanceof Element)) continue
+        this.#records.push({element: new WeakRef(node), selector: getSimpleSelector(node), checks: 0, confirmed: false})
+      }
+    }
+    if (this.#records.length > MAX_TRACKED_SUBTREES) {
+      this.#records.splice(0, this.#records.length - MAX_TRACKED_SUBTREES)
+    }
+  }
+}
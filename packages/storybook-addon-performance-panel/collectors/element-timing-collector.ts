@@ -12,6 +12,7 @@
  */
 
 import type {MetricCollector} from './types'
+import {getSimpleSelector} from './utils'
 
 /**
  * Element timing entry from the Performance API
@@ -67,35 +68,6 @@ export interface ElementTimingMetrics {
   elementCount: number
 }
 
-/**
- * Generates a simple CSS selector for an element
- */
-function getSimpleSelector(element: Element | null): string {
-  if (!element) return 'unknown'
-
-  // Try ID first
-  if (element.id) {
-    return `#${element.id}`
-  }
-
-  // Try elementtiming attribute
-  const timing = element.getAttribute('elementtiming')
-  if (timing) {
-    return `[elementtiming="${timing}"]`
-  }
-
-  // Fall back to tag + class
-  const classes = element.className
-    ? `.${element.className
-        .split(/\s+/)
-        .filter(c => c)
-        .slice(0, 2)
-        .join('.')}`
-    : ''
-
-  return `${element.tagName.toLowerCase()}${classes}`
-}
-
 /**
  * Collects Element Timing metrics for elements with the `elementtiming` attribute.
  *
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Event listener tracking collector
+ * @module collectors/EventListenerCollector
+ *
+ * Instruments `EventTarget.prototype.addEventListener` and
+ * `removeEventListener` to count the listeners a story attaches and find
+ * the ones it forgets to remove.
+ */
+
+import type {LeakedListenerInfo} from '../core/performance-types'
+import {isUntracked} from './instrumentation'
+import type {MetricCollector} from './types'
+import {describeTarget, isDetachedNode, trackInteractions} from './utils'
+
+export interface EventListenerMetrics {
+  /** Listeners added while collecting that are still attached */
+  listenerCount: number
+  /** Average listeners added after each pointer or keyboard interaction */
+  listenersAddedPerInteraction: number
+}
+
+/** A listener added through the patched `addEventListener` */
+interface ListenerRecord {
+  target: WeakRef<EventTarget>
+  type: string
+}
+
+/** Listeners of one target, keyed by `type` and capture flag, then by callback */
+type TargetListeners = Map<string, Map<EventListenerOrEventListenerObject, ListenerRecord>>
+
+function getListenerKey(type: string, capture: boolean): string {
+  return `${type}:${capture ? 'capture' : 'bubble'}`
+}
+
+function isCapture(options: boolean | EventListenerOptions | undefined): boolean {
+  return typeof options === 'boolean' ? options : Boolean(options?.capture)
+}
+
+/**
+ * Tracks event listeners added while the story is active.
+ *
+ * Only listeners added after {@link start} are counted, so the addon's own
+ * listeners (attached by collectors that start earlier) and Storybook's
+ * listeners are excluded, as are listeners added inside `runUntracked()`.
+ * `once` listeners and listeners removed through an `AbortSignal` are
+ * untracked when the browser removes them.
+ */
+export class EventListenerCollector implements MetricCollector<EventListenerMetrics> {
+  #listeners = new WeakMap<EventTarget, TargetListeners>()
+  #records = new Set<ListenerRecord>()
+  #interactionCount = 0
+  #addedSinceFirstInteraction = 0
+
+  // Shared registry for prototype patching - tracks active collectors and original methods
+  static #registry: {
+    initialized: boolean
+    originalAdd: typeof EventTarget.prototype.addEventListener
+    originalRemove: typeof EventTarget.prototype.removeEventListener
+    activeCollectors: Set<EventListenerCollector>
+    currentCollector: EventListenerCollector | null
+  } | null = null
+
+  #stopTrackingInteractions: (() => void) | null = null
+
+  #handleInteraction = (event: Event) => {
+    // Clicks and input events follow a pointer or key press that was already counted
+    if (event.type === 'pointerdown' || event.type === 'keydown') this.#interactionCount++
+  }
+
+  start(): void {
+    if (!EventListenerCollector.#registry) {
+      EventListenerCollector.#registry = {
+        initialized: false,
+        // eslint-disable-next-line @typescript-eslint/unbound-method -- intentionally capturing to wrap
+        originalAdd: EventTarget.prototype.addEventListener,
+        // eslint-disable-next-line @typescript-eslint/unbound-method -- intentionally capturing to wrap
+        originalRemove: EventTarget.prototype.removeEventListener,
+        activeCollectors: new Set<EventListenerCollector>(),
+        currentCollector: null,
+      }
+    }
+
+    const registry = EventListenerCollector.#registry
+    registry.activeCollectors.add(this)
+    registry.currentCollector = this
+
+    if (!registry.initialized) {
+      registry.initialized = true
+
+      const {originalAdd, originalRemove} = registry
+      EventTarget.prototype.addEventListener = function (
+        type: string,
+        listener: EventListenerOrEventListenerObject | null,
+        options?: boolean | AddEventListenerOptions,
+      ) {
+        originalAdd.call(this, type, listener, options)
+        const collector = EventListenerCollector.#registry?.currentCollector
+        if (collector && listener && !isUntracked()) {
+          collector.#track(this, type, listener, options)
+        }
+      }
+      EventTarget.prototype.removeEventListener = function (
+        type: string,
+        listener: EventListenerOrEventListenerObject | null,
+        options?: boolean | EventListenerOptions,
+      ) {
+        originalRemove.call(this, type, listener, options)
+        const collector = EventListenerCollector.#registry?.currentCollector
+        if (collector && listener) {
+          collector.#untrack(this, getListenerKey(type, isCapture(options)), listener)
+        }
+      }
+    }
+
+    this.#stopTrackingInteractions ??= trackInteractions(this.#handleInteraction)
+  }
+
+  stop(): void {
+    const registry = EventListenerCollector.#registry
+    if (!registry) return
+
+    this.#stopTrackingInteractions?.()
+    this.#stopTrackingInteractions = null
+
+    registry.activeCollectors.delete(this)
+    if (registry.currentCollector === this) {
+      registry.currentCollector = null
+    }
+
+    // Removals aren't seen while stopped, so tracked listeners would go stale
+    this.#listeners = new WeakMap()
+    this.#records.clear()
+
+    // Restore the original methods when the last collector stops
+    if (registry.activeCollectors.size === 0 && registry.initialized) {
+      EventTarget.prototype.addEventListener = registry.originalAdd
+      EventTarget.prototype.removeEventListener = registry.originalRemove
+      registry.initialized = false
+    }
+  }
+
+  /**
+   * Reset interaction counters. Tracked listeners are kept, since they are
+   * still attached.
+   */
+  reset(): void {
+    this.#interactionCount = 0
+    this.#addedSinceFirstInteraction = 0
+  }
+
+  getMetrics(): EventListenerMetrics {
+    return {
+      listenerCount: this.#getAttachedRecords().length,
+      listenersAddedPerInteraction:
+        this.#interactionCount > 0
+          ? Math.round((this.#addedSinceFirstInteraction / this.#interactionCount) * 10) / 10
+          : 0,
+    }
+  }
+
+  /**
+   * Tracked listeners that are still attached, grouped by event type and
+   * target. Called when a story is torn down to find listeners it leaked.
+   */
+  getAttachedListeners(): LeakedListenerInfo[] {
+    const groups = new Map<string, LeakedListenerInfo>()
+    for (const record of this.#getAttachedRecords()) {
+      const target = record.target.deref()
+      if (!target) continue
+      const description = describeTarget(target)
+      const key = `${record.type} ${description}`
+      const group = groups.get(key)
+      if (group) {
+        group.count++
+      } else {
+        groups.set(key, {type: record.type, target: description, count: 1})
+      }
+    }
+    return [...groups.values()].sort((a, b) => b.count - a.count)
+  }
+
+  #getAttachedRecords(): ListenerRecord[] {
+    const attached: ListenerRecord[] = []
+    for (const record of this.#records) {
+      const target = record.target.deref()
+      if (!target) {
+        // Target was garbage collected along with its listeners
+        this.#records.delete(record)
+      } else if (!isDetachedNode(target)) {
+        attached.push(record)
+      }
+    }
+    return attached
+  }
+
+  #track(
+    target: EventTarget,
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options: boolean | AddEventListenerOptions | undefined,
+  ): void {
+    const signal = typeof options === 'object' ? options.signal : undefined
+    if (signal?.aborted) return
+
+    const capture = isCapture(options)
+    const key = getListenerKey(type, capture)
+    let targetListeners = this.#listeners.get(target)
+    if (!targetListeners) {
+      targetListeners = new Map()
+      this.#listeners.set(target, targetListeners)
+    }
+    let callbacks = targetListeners.get(key)
+    if (!callbacks) {
+      callbacks = new Map()
+      targetListeners.set(key, callbacks)
+    }
+    // Adding the same listener twice is a no-op in the browser
+    if (callbacks.has(listener)) return
+
+    const record: ListenerRecord = {target: new WeakRef(target), type}
+    callbacks.set(listener, record)
+    this.#records.add(record)
+    if (this.#interactionCount > 0) {
+      this.#addedSinceFirstInteraction++
+    }
+
+    // The browser removes these without calling removeEventListener
+    const originalAdd = EventListenerCollector.#registry?.originalAdd
+    const untrack = () => {
+      this.#untrack(target, key, listener, record)
+    }
+    if (typeof options === 'object' && options.once) {
+      originalAdd?.call(target, type, untrack, {capture, once: true})
+    }
+    if (signal) {
+      originalAdd?.call(signal, 'abort', untrack, {once: true})
+    }
+  }
+
+  /**
+   * Stop tracking a listener. When `expected` is given, only that record is
+   * removed, so a stale `once` or abort callback can't untrack a listener
+   * that was added again.
+   */
+  #untrack(
+    target: EventTarget,
+    key: string,
+    listener: EventListenerOrEventListenerObject,
+    expected?: ListenerRecord,
+  ): void {
+    const callbacks = this.#listeners.get(target)?.get(key)
+    const record = callbacks?.get(listener)
+    if (!record || (expected && record !== expected)) return
+    callbacks?.delete(listener)
+    this.#records.delete(record)
+  }
+}
@@ -1,14 +1,32 @@
 /**
  * @fileoverview Forced synchronous layout (reflow) detection collector
  * @module collectors/ForcedReflowCollector
+ *
+ * With {@link ForcedReflowCollector.captureStacks} enabled, also samples a
+ * stack for forced reflows and ranks the call sites by the layout property
+ * read and the style write that dirtied layout.
  */
 
+import type {ReflowCallSiteInfo} from '../core/performance-types'
+import {runUntracked} from './instrumentation'
 import type {MetricCollector} from './types'
+import {captureCallSite} from './utils'
 
 export interface ReflowMetrics {
   forcedReflowCount: number
+  /** Sampled call sites, most forced reflows first */
+  callSites: ReflowCallSiteInfo[]
 }
 
+/** Minimum time between captured stacks (ms). Capturing a stack costs tens of microseconds. */
+const STACK_SAMPLE_INTERVAL_MS = 50
+
+/** Distinct call sites tracked. Reflows at other call sites are counted but not attributed. */
+const MAX_TRACKED_CALL_SITES = 100
+
+/** Number of call sites included in {@link ReflowMetrics.callSites} */
+const MAX_CALL_SITES = 10
+
 /**
  * Detects forced synchronous layout (reflows).
  *
@@ -19,7 +37,15 @@ export interface ReflowMetrics {
 export class ForcedReflowCollector implements MetricCollector<ReflowMetrics> {
   #forcedReflowCount = 0
   #layoutDirty = false
+  /** Style write that dirtied layout, reported with sampled stacks */
+  #dirtyingWrite = 'unknown'
   #dirtyTimeout: ReturnType<typeof setTimeout> | null = null
+  /** Sampled reflows keyed by call site, property and write */
+  #callSites = new Map<string, ReflowCallSiteInfo>()
+  #lastStackTime = -Infinity
+
+  /** Capture a stack for forced reflows, at most every {@link STACK_SAMPLE_INTERVAL_MS} */
+  captureStacks = false
 
   // Shared registry for property patching - tracks active collectors and original descriptors
   static #registry: {
@@ -82,12 +108,19 @@ export class ForcedReflowCollector implements MetricCollector<ReflowMetrics> {
     'overflow',
   ] as const
 
-  markLayoutDirty(): void {
+  /**
+   * Record a style write that invalidates layout.
+   * @param write - What was written, e.g. `style.width`
+   */
+  markLayoutDirty(write = 'unknown'): void {
+    if (!this.#layoutDirty) this.#dirtyingWrite = write
     this.#layoutDirty = true
     if (this.#dirtyTimeout) clearTimeout(this.#dirtyTimeout)
-    this.#dirtyTimeout = setTimeout(() => {
-      this.#layoutDirty = false
-    }, 0)
+    this.#dirtyTimeout = runUntracked(() =>
+      setTimeout(() => {
+        this.#layoutDirty = false
+      }, 0),
+    )
   }
 
   start(): void {
@@ -121,6 +154,13 @@ export class ForcedReflowCollector implements MetricCollector<ReflowMetrics> {
               if (collector && collector.#layoutDirty) {
                 collector.#forcedReflowCount++
                 collector.#layoutDirty = false
+                if (
+                  collector.captureStacks &&
+                  performance.now() - collector.#lastStackTime >= STACK_SAMPLE_INTERVAL_MS
+                ) {
+                  collector.#lastStackTime = performance.now()
+                  collector.#recordCallSite(captureCallSite(), prop)
+                }
               }
               // eslint-disable-next-line @typescript-eslint/no-unsafe-return
               return descriptor.get?.call(this)
@@ -142,7 +182,7 @@ export class ForcedReflowCollector implements MetricCollector<ReflowMetrics> {
           Object.defineProperty(CSSStyleDeclaration.prototype, prop, {
             ...descriptor,
             set(value: string) {
-              ForcedReflowCollector.#registry?.currentCollector?.markLayoutDirty()
+              ForcedReflowCollector.#registry?.currentCollector?.markLayoutDirty(`style.${prop}`)
               origSet.call(this, value)
             },
           })
@@ -154,7 +194,7 @@ export class ForcedReflowCollector implements MetricCollector<ReflowMetrics> {
       const origSetProperty = CSSStyleDeclaration.prototype.setProperty
       registry.originalSetProperty = origSetProperty
       CSSStyleDeclaration.prototype.setProperty = function (property: string, value: string | null, priority?: string) {
-        ForcedReflowCollector.#registry?.currentCollector?.markLayoutDirty()
+        ForcedReflowCollector.#registry?.currentCollector?.markLayoutDirty(`style.setProperty('${property}')`)
         origSetProperty.call(this, property, value, priority ?? '')
       }
     }
@@ -201,11 +241,26 @@ export class ForcedReflowCollector implements MetricCollector<ReflowMetrics> {
   reset(): void {
     this.#forcedReflowCount = 0
     this.#layoutDirty = false
+    this.#callSites.clear()
   }
 
   getMetrics(): ReflowMetrics {
     return {
       forcedReflowCount: this.#forcedReflowCount,
+      callSites: [...this.#callSites.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, MAX_CALL_SITES)
+        .map(site => ({...site})),
+    }
+  }
+
+  #recordCallSite(callSite: string, property: string): void {
+    const key = `${callSite} ${property} ${this.#dirtyingWrite}`
+    const site = this.#callSites.get(key)
+    if (site) {
+      site.count++
+    } else if (this.#callSites.size < MAX_TRACKED_CALL_SITES) {
+      this.#callSites.set(key, {callSite, property, write: this.#dirtyingWrite, count: 1})
     }
   }
 }
@@ -3,6 +3,7 @@
  * @module collectors/FrameTimingCollector
  */
 
+import type {TimelineEvent} from '../core/performance-types'
 import {
   DROPPED_FRAME_MULTIPLIER,
   FRAME_TIME_60FPS,
@@ -13,8 +14,10 @@ import {
   JITTER_MULTIPLIER,
   MAX_DECAY_RATE,
   MAX_DECAY_THRESHOLD,
+  TIMELINE_FRAMES_WINDOW,
 } from './constants'
-import type {MetricCollector} from './types'
+import {runUntracked} from './instrumentation'
+import type {MetricCollector, TimelineSource} from './types'
 import {addToWindow, computeAverage, computeFrameStability, updateMaxWithDecay} from './utils'
 
 export interface FrameTimingMetrics {
@@ -35,8 +38,9 @@ export interface FrameTimingMetrics {
  * - Max frame time with decay
  * - Frame jitter (sudden spikes)
  */
-export class FrameTimingCollector implements MetricCollector<FrameTimingMetrics> {
+export class FrameTimingCollector implements MetricCollector<FrameTimingMetrics>, TimelineSource {
   #frameTimes: number[] = []
+  #timeline: TimelineEvent[] = []
   #maxFrameTime = 0
   #droppedFrames = 0
   #frameJitter = 0
@@ -56,7 +60,7 @@ export class FrameTimingCollector implements MetricCollector<FrameTimingMetrics>
     this.#lastTime = 0
     document.addEventListener('visibilitychange', this.#handleVisibilityChange)
     if (!document.hidden) {
-      this.#animationId = requestAnimationFrame(this.#measure)
+      this.#animationId = runUntracked(() => requestAnimationFrame(this.#measure))
     }
   }
 
@@ -78,6 +82,11 @@ export class FrameTimingCollector implements MetricCollector<FrameTimingMetrics>
     this.#droppedFrames = 0
     this.#frameJitter = 0
     this.#lastTime = 0
+    this.#timeline = []
+  }
+
+  getTimelineEvents(): TimelineEvent[] {
+    return [...this.#timeline]
   }
 
   getMetrics(): FrameTimingMetrics {
@@ -98,12 +107,17 @@ export class FrameTimingCollector implements MetricCollector<FrameTimingMetrics>
     if (this.#lastTime > 0) {
       const delta = now - this.#lastTime
 
+      addToWindow(
+        this.#timeline,
+        {track: 'frame', name: 'Frame', startTime: this.#lastTime, duration: delta},
+        TIMELINE_FRAMES_WINDOW,
+      )
       this.#processFrame(delta)
       this.#onFrame?.(delta)
     }
     this.#lastTime = now
 
-    this.#animationId = requestAnimationFrame(this.#measure)
+    this.#animationId = runUntracked(() => requestAnimationFrame(this.#measure))
   }
 
   #handleVisibilityChange = (): void => {
@@ -115,7 +129,7 @@ export class FrameTimingCollector implements MetricCollector<FrameTimingMetrics>
         this.#animationId = null
       }
     } else if (this.#running && this.#animationId === null) {
-      this.#animationId = requestAnimationFrame(this.#measure)
+      this.#animationId = runUntracked(() => requestAnimationFrame(this.#measure))
     }
   }
 
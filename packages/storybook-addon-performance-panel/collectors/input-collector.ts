@@ -16,7 +16,7 @@
  * @see https://w3c.github.io/event-timing/
  */
 
-import type {InteractionInfo} from '../core/performance-types'
+import type {InteractionInfo, TimelineEvent} from '../core/performance-types'
 import {
   INPUT_LATENCIES_WINDOW,
   INTERACTION_LATENCIES_WINDOW,
@@ -31,8 +31,10 @@ import {
   MAX_PAINT_DECAY_RATE,
   MAX_PAINT_DECAY_THRESHOLD,
   PAINT_TIMES_WINDOW,
+  TIMELINE_EVENTS_WINDOW,
 } from './constants'
-import type {MetricCollector} from './types'
+import {runUntracked} from './instrumentation'
+import type {MetricCollector, TimelineSource} from './types'
 import {addToWindow, computeAverage, updateMaxWithDecay} from './utils'
 
 /**
@@ -81,6 +83,8 @@ export interface InputMetrics {
   slowestInteraction: InteractionInfo | null
   /** Details about the most recent interaction (real-time debugging) */
   lastInteraction: InteractionInfo | null
+  /** Most recent interactions, oldest first */
+  interactionLog: InteractionInfo[]
   /** Breakdown of interactions by event type */
   interactionsByType: Record<string, number>
 }
@@ -101,7 +105,7 @@ export interface InputMetrics {
  * @see https://web.dev/articles/inp
  * @see https://w3c.github.io/event-timing/
  */
-export class InputCollector implements MetricCollector<InputMetrics> {
+export class InputCollector implements MetricCollector<InputMetrics>, TimelineSource {
   #inputLatencies: number[] = []
   #maxInputLatency = 0
   #inputJitter = 0
@@ -128,6 +132,8 @@ export class InputCollector implements MetricCollector<InputMetrics> {
 
   /** Cap to prevent unbounded growth during long sessions */
   static readonly #MAX_INTERACTIONS = 500
+  /** Number of recent interactions kept in the interaction log */
+  static readonly #MAX_LOGGED_INTERACTIONS = 50
   /** Legacy Chromium uses a step of seven when the native interaction count is unavailable. */
   static readonly #INTERACTION_ID_INCREMENT = 7
 
@@ -141,6 +147,10 @@ export class InputCollector implements MetricCollector<InputMetrics> {
   // Most recent interaction for real-time debugging
   #lastInteraction: InteractionInfo | null = null
 
+  // Recent interactions for the interaction log
+  #interactionLog: InteractionInfo[] = []
+  #timeline: TimelineEvent[] = []
+
   // Interaction type breakdown
   #interactionsByType: Record<string, number> = {}
 
@@ -247,6 +257,26 @@ export class InputCollector implements MetricCollector<InputMetrics> {
 
     // Always update last interaction for real-time debugging
     this.#lastInteraction = interactionInfo
+    this.#interactionLog.push(interactionInfo)
+    if (this.#interactionLog.length > InputCollector.#MAX_LOGGED_INTERACTIONS) {
+      this.#interactionLog.shift()
+    }
+    addToWindow(
+      this.#timeline,
+      {
+        track: 'interaction',
+        name: eventType,
+        startTime: entry.startTime,
+        duration,
+        detail: interactionInfo.targetSelector,
+        segments: [
+          {name: 'wait', startTime: entry.startTime, duration: inputDelay},
+          {name: 'js', startTime: entry.processingStart, duration: processingTime},
+          {name: 'paint', startTime: entry.processingEnd, duration: presentationDelay},
+        ],
+      },
+      TIMELINE_EVENTS_WINDOW,
+    )
 
     // Track the worst duration for each interaction
     // (an interaction may have multiple events, e.g., keydown + keyup)
@@ -345,6 +375,8 @@ export class InputCollector implements MetricCollector<InputMetrics> {
     this.#firstInputType = null
     this.#slowestInteraction = null
     this.#lastInteraction = null
+    this.#interactionLog = []
+    this.#timeline = []
     this.#interactionsByType = {}
     this.#epochMs = performance.now()
   }
@@ -368,10 +400,15 @@ export class InputCollector implements MetricCollector<InputMetrics> {
       firstInputType: this.#firstInputType,
       slowestInteraction: this.#slowestInteraction,
       lastInteraction: this.#lastInteraction,
+      interactionLog: [...this.#interactionLog],
       interactionsByType: {...this.#interactionsByType},
     }
   }
 
+  getTimelineEvents(): TimelineEvent[] {
+    return [...this.#timeline]
+  }
+
   #readNativeInteractionCount(): number | null {
     const count = (performance as Performance & {interactionCount?: number}).interactionCount
     return typeof count === 'number' ? count : null
@@ -402,18 +439,22 @@ export class InputCollector implements MetricCollector<InputMetrics> {
    */
   #handlePointerMove(event: PointerEvent): void {
     const eventTime = event.timeStamp
-    requestAnimationFrame(() => {
-      const rafTime = performance.now()
-      const latency = rafTime - eventTime
-      this.#processInput(latency)
-
-      // Paint time measurement via double-RAF
+    runUntracked(() =>
       requestAnimationFrame(() => {
-        const paintEnd = performance.now()
-        const paintTime = paintEnd - rafTime
-        this.#processPaint(paintTime)
-      })
-    })
+        const rafTime = performance.now()
+        const latency = rafTime - eventTime
+        this.#processInput(latency)
+
+        // Paint time measurement via double-RAF
+        runUntracked(() =>
+          requestAnimationFrame(() => {
+            const paintEnd = performance.now()
+            const paintTime = paintEnd - rafTime
+            this.#processPaint(paintTime)
+          }),
+        )
+      }),
+    )
   }
 
   #processInput(latency: number): void {
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Shared state for collectors that patch browser APIs
+ *
+ * Collectors such as `EventListenerCollector`, `ObserverCollector` and
+ * `TimerCollector` record what the story creates through patched globals.
+ * The addon's own listeners, observers and timers must not show up in those
+ * numbers, so code in the addon creates them inside {@link runUntracked}.
+ *
+ * @module collectors/instrumentation
+ */
+
+let untrackedDepth = 0
+
+/**
+ * Run `fn` without instrumenting collectors recording what it creates.
+ * Use for the addon's own observers, listeners and timers.
+ */
+export function runUntracked<T>(fn: () => T): T {
+  untrackedDepth++
+  try {
+    return fn()
+  } finally {
+    untrackedDepth--
+  }
+}
+
+/** Whether the current call is inside {@link runUntracked} */
+export function isUntracked(): boolean {
+  return untrackedDepth > 0
+}
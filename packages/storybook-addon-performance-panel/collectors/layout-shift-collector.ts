@@ -6,11 +6,17 @@
  * - Session windowing: max 1s gap between shifts, max 5s session duration
  * - CLS = maximum session window value (not cumulative across all sessions)
  *
+ * Also keeps recent shifts with the selectors and before/after rectangles
+ * of the elements that moved, from `LayoutShift.sources`.
+ *
  * @see https://web.dev/articles/cls
  * @see https://web.dev/articles/evolving-cls
  */
 
-import type {MetricCollector} from './types'
+import type {LayoutShiftInfo, LayoutShiftSourceInfo, ShiftRect, TimelineEvent} from '../core/performance-types'
+import {TIMELINE_EVENTS_WINDOW} from './constants'
+import type {MetricCollector, TimelineSource} from './types'
+import {addToWindow, getSimpleSelector} from './utils'
 
 export interface LayoutMetrics {
   /** CLS score (maximum session window value per spec) */
@@ -21,6 +27,8 @@ export interface LayoutMetrics {
   currentSessionScore: number
   /** Number of completed sessions */
   sessionCount: number
+  /** Recent layout shifts with the elements that moved, oldest first */
+  layoutShifts: LayoutShiftInfo[]
 }
 
 // These are in a later version of TypeScript's DOM lib, so we redefine them here
@@ -42,14 +50,35 @@ interface LayoutShift extends PerformanceEntry {
   /** The shift score for this entry. */
   value: number
 
-  /** Sources contributing to this layout shift. */
-  sources: readonly LayoutShiftAttribution[]
+  /** Sources contributing to this layout shift. Not exposed before Chrome 84. */
+  sources?: readonly LayoutShiftAttribution[]
 }
 
 /** Maximum gap between shifts in a session (1 second) */
 const SESSION_GAP_MS = 1000
 /** Maximum duration of a session window (5 seconds) */
 const SESSION_MAX_DURATION_MS = 5000
+/** Recent shifts kept with attribution */
+const MAX_SHIFTS = 20
+
+function toShiftRect(rect: DOMRectReadOnly): ShiftRect {
+  return {
+    x: Math.round(rect.x),
+    y: Math.round(rect.y),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  }
+}
+
+/** Describe a shift source. Text nodes are attributed to their parent element. */
+function toSourceInfo(source: LayoutShiftAttribution): LayoutShiftSourceInfo {
+  const element = source.node instanceof Element ? source.node : (source.node?.parentElement ?? null)
+  return {
+    selector: getSimpleSelector(element),
+    previousRect: toShiftRect(source.previousRect),
+    currentRect: toShiftRect(source.currentRect),
+  }
+}
 
 /**
  * Collects Cumulative Layout Shift (CLS) metrics using session windowing.
@@ -61,7 +90,7 @@ const SESSION_MAX_DURATION_MS = 5000
  *
  * @see https://web.dev/articles/evolving-cls
  */
-export class LayoutShiftCollector implements MetricCollector<LayoutMetrics> {
+export class LayoutShiftCollector implements MetricCollector<LayoutMetrics>, TimelineSource {
   /** Maximum session window value (the actual CLS score) */
   #maxSessionScore = 0
   /** Current session's cumulative score */
@@ -74,6 +103,9 @@ export class LayoutShiftCollector implements MetricCollector<LayoutMetrics> {
   #layoutShiftCount = 0
   /** Number of completed sessions */
   #sessionCount = 0
+  /** Recent shifts with attribution */
+  #shifts: LayoutShiftInfo[] = []
+  #timeline: TimelineEvent[] = []
   /** Entries before this timestamp belong to an earlier story or reset. */
   #epochMs = 0
 
@@ -100,6 +132,21 @@ export class LayoutShiftCollector implements MetricCollector<LayoutMetrics> {
     if (entry.hadRecentInput) return
 
     this.#layoutShiftCount++
+    const score = Math.round(entry.value * 10000) / 10000
+    const sources = (entry.sources ?? []).map(toSourceInfo)
+    this.#shifts.push({score, time: Math.round(entry.startTime - this.#epochMs), sources})
+    if (this.#shifts.length > MAX_SHIFTS) this.#shifts.shift()
+    addToWindow(
+      this.#timeline,
+      {
+        track: 'layout-shift',
+        name: 'Layout shift',
+        startTime: entry.startTime,
+        duration: 0,
+        detail: [`score ${String(score)}`, ...sources.map(source => source.selector)].join(' · '),
+      },
+      TIMELINE_EVENTS_WINDOW,
+    )
 
     // Check if this entry belongs to the current session or starts a new one
     const shouldStartNewSession =
@@ -149,15 +196,22 @@ export class LayoutShiftCollector implements MetricCollector<LayoutMetrics> {
     this.#sessionLastEntryTime = null
     this.#layoutShiftCount = 0
     this.#sessionCount = 0
+    this.#shifts = []
+    this.#timeline = []
     this.#epochMs = performance.now()
   }
 
+  getTimelineEvents(): TimelineEvent[] {
+    return [...this.#timeline]
+  }
+
   getMetrics(): LayoutMetrics {
     return {
       layoutShiftScore: Math.round(this.#maxSessionScore * 10000) / 10000,
       layoutShiftCount: this.#layoutShiftCount,
       currentSessionScore: Math.round(this.#currentSessionScore * 10000) / 10000,
       sessionCount: this.#sessionCount,
+      layoutShifts: [...this.#shifts],
     }
   }
 }
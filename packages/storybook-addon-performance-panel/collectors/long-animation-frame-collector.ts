@@ -8,13 +8,17 @@
  * @see https://w3c.github.io/long-animation-frames/
  */
 
-import type {LoAFScriptAttribution} from '../core/performance-types'
-import type {MetricCollector} from './types'
+import type {LoAFScriptAttribution, LoAFScriptStats, TimelineEvent} from '../core/performance-types'
+import {TIMELINE_EVENTS_WINDOW} from './constants'
+import type {MetricCollector, TimelineSource} from './types'
 import {addToWindow, computeAverage, computeP95} from './utils'
 
 /** Rolling window size for LoAF duration history */
 const LOAF_HISTORY_WINDOW = 50
 
+/** Distinct scripts aggregated. Scripts with other sources, functions or invokers are not attributed. */
+const MAX_TRACKED_SCRIPTS = 50
+
 /**
  * Long Animation Frame entry interface
  * @see https://w3c.github.io/long-animation-frames/#sec-PerformanceLongAnimationFrameTiming
@@ -96,6 +100,8 @@ export interface LongAnimationFrameMetrics {
     scriptCount: number
     topScript: LoAFScriptAttribution | null
   } | null
+  /** Scripts aggregated by source URL, function name and invoker, longest total duration first */
+  scripts: LoAFScriptStats[]
 }
 
 /**
@@ -105,14 +111,15 @@ export interface LongAnimationFrameMetrics {
  * caused frames to exceed 50ms, including:
  * - Total frame duration and blocking duration
  * - Render and style/layout timing
- * - Script attribution (which scripts contributed)
+ * - Script attribution (which scripts contributed), also aggregated
+ *   across the session by source URL, function name and invoker
  *
  * This is more detailed than Long Tasks API and specifically targets
  * animation/rendering performance.
  *
  * @see https://web.dev/articles/long-animation-frames
  */
-export class LongAnimationFrameCollector implements MetricCollector<LongAnimationFrameMetrics> {
+export class LongAnimationFrameCollector implements MetricCollector<LongAnimationFrameMetrics>, TimelineSource {
   #loafSupported = false
   #loafCount = 0
   #totalBlockingDuration = 0
@@ -122,6 +129,9 @@ export class LongAnimationFrameCollector implements MetricCollector<LongAnimatio
   #loafsWithScripts = 0
   #lastLoaf: LongAnimationFrameMetrics['lastLoaf'] = null
   #worstLoaf: LongAnimationFrameMetrics['worstLoaf'] = null
+  /** Script statistics keyed by source URL, function name and invoker */
+  #scripts = new Map<string, LoAFScriptStats>()
+  #timeline: TimelineEvent[] = []
   /** Entries before this timestamp belong to an earlier story or reset. */
   #epochMs = 0
 
@@ -169,6 +179,26 @@ export class LongAnimationFrameCollector implements MetricCollector<LongAnimatio
     if (scripts.length > 0) {
       this.#loafsWithScripts++
     }
+    for (const script of scripts) {
+      this.#recordScript(script)
+    }
+
+    addToWindow(
+      this.#timeline,
+      {
+        track: 'loaf',
+        name: 'Long animation frame',
+        startTime: entry.startTime,
+        duration: entry.duration,
+        detail: `blocking ${String(Math.round(entry.blockingDuration))}ms · ${String(scripts.length)} scripts`,
+        segments: scripts.map(script => ({
+          name: `${script.sourceFunctionName || 'anonymous'} (${script.invoker || 'unknown'})`,
+          startTime: script.startTime,
+          duration: script.duration,
+        })),
+      },
+      TIMELINE_EVENTS_WINDOW,
+    )
 
     // Extract top contributing script (longest duration)
     let topScript: LoAFScriptAttribution | null = null
@@ -209,6 +239,33 @@ export class LongAnimationFrameCollector implements MetricCollector<LongAnimatio
     }
   }
 
+  #recordScript(script: PerformanceScriptTiming): void {
+    const sourceURL = script.sourceURL || 'unknown'
+    const sourceFunctionName = script.sourceFunctionName || 'anonymous'
+    const invoker = script.invoker || 'unknown'
+    const key = `${sourceURL} ${sourceFunctionName} ${invoker}`
+
+    let stats = this.#scripts.get(key)
+    if (!stats) {
+      if (this.#scripts.size >= MAX_TRACKED_SCRIPTS) return
+      stats = {
+        sourceURL,
+        sourceFunctionName,
+        invokerType: script.invokerType,
+        invoker,
+        count: 0,
+        totalDuration: 0,
+        forcedStyleAndLayoutDuration: 0,
+        maxDuration: 0,
+      }
+      this.#scripts.set(key, stats)
+    }
+    stats.count++
+    stats.totalDuration += script.duration
+    stats.forcedStyleAndLayoutDuration += script.forcedStyleAndLayoutDuration
+    stats.maxDuration = Math.max(stats.maxDuration, script.duration)
+  }
+
   stop(): void {
     this.#observer?.disconnect()
     this.#observer = null
@@ -223,9 +280,15 @@ export class LongAnimationFrameCollector implements MetricCollector<LongAnimatio
     this.#loafsWithScripts = 0
     this.#lastLoaf = null
     this.#worstLoaf = null
+    this.#scripts.clear()
+    this.#timeline = []
     this.#epochMs = performance.now()
   }
 
+  getTimelineEvents(): TimelineEvent[] {
+    return [...this.#timeline]
+  }
+
   getMetrics(): LongAnimationFrameMetrics {
     return {
       loafSupported: this.#loafSupported,
@@ -238,6 +301,14 @@ export class LongAnimationFrameCollector implements MetricCollector<LongAnimatio
       loafsWithScripts: this.#loafsWithScripts,
       lastLoaf: this.#lastLoaf,
       worstLoaf: this.#worstLoaf,
+      scripts: [...this.#scripts.values()]
+        .map(stats => ({
+          ...stats,
+          totalDuration: Math.round(stats.totalDuration),
+          forcedStyleAndLayoutDuration: Math.round(stats.forcedStyleAndLayoutDuration),
+          maxDuration: Math.round(stats.maxDuration),
+        }))
+        .sort((a, b) => b.totalDuration - a.totalDuration),
     }
   }
 }
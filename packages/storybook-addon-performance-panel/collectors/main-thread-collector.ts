@@ -3,7 +3,10 @@
  * @module collectors/MainThreadCollector
  */
 
-import type {MetricCollector} from './types'
+import type {TimelineEvent} from '../core/performance-types'
+import {TIMELINE_EVENTS_WINDOW} from './constants'
+import type {MetricCollector, TimelineSource} from './types'
+import {addToWindow} from './utils'
 
 export interface MainThreadMetrics {
   longTasks: number
@@ -19,10 +22,11 @@ export interface MainThreadMetrics {
  * - Longest task duration
  * - Total Blocking Time (TBT)
  */
-export class MainThreadCollector implements MetricCollector<MainThreadMetrics> {
+export class MainThreadCollector implements MetricCollector<MainThreadMetrics>, TimelineSource {
   #longTasks = 0
   #longestTask = 0
   #totalBlockingTime = 0
+  #timeline: TimelineEvent[] = []
   #observer: PerformanceObserver | null = null
 
   start(): void {
@@ -35,6 +39,17 @@ export class MainThreadCollector implements MetricCollector<MainThreadMetrics> {
           }
           // TBT = sum of (duration - 50ms) for all long tasks
           this.#totalBlockingTime += Math.max(0, entry.duration - 50)
+          addToWindow(
+            this.#timeline,
+            {
+              track: 'long-task',
+              name: 'Long task',
+              startTime: entry.startTime,
+              duration: entry.duration,
+              detail: `blocking ${String(Math.round(Math.max(0, entry.duration - 50)))}ms`,
+            },
+            TIMELINE_EVENTS_WINDOW,
+          )
         }
       })
       this.#observer.observe({type: 'longtask'})
@@ -52,6 +67,11 @@ export class MainThreadCollector implements MetricCollector<MainThreadMetrics> {
     this.#longTasks = 0
     this.#longestTask = 0
     this.#totalBlockingTime = 0
+    this.#timeline = []
+  }
+
+  getTimelineEvents(): TimelineEvent[] {
+    return [...this.#timeline]
   }
 
   getMetrics(): MainThreadMetrics {
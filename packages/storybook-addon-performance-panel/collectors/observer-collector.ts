@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Observer tracking collector
+ * @module collectors/ObserverCollector
+ *
+ * Wraps the `MutationObserver`, `ResizeObserver`, `IntersectionObserver` and
+ * `PerformanceObserver` constructors and their `observe`, `unobserve` and
+ * `disconnect` methods to count the observers a story creates and find the
+ * ones it never disconnects.
+ */
+
+import type {LeakedObserverInfo, ObserverType, ObserverTypeCounts} from '../core/performance-types'
+import {isUntracked} from './instrumentation'
+import type {MetricCollector} from './types'
+import {describeTarget, isDetachedNode} from './utils'
+
+export interface ObserverMetrics {
+  /** Observers created while collecting that still have a target */
+  observerCount: number
+  /** Active observers and observed targets by type */
+  observersByType: Record<ObserverType, ObserverTypeCounts>
+}
+
+const OBSERVER_TYPES: readonly ObserverType[] = [
+  'MutationObserver',
+  'ResizeObserver',
+  'IntersectionObserver',
+  'PerformanceObserver',
+]
+
+/** Methods shared by the observer prototypes. `unobserve` is missing on Mutation and Performance observers. */
+interface ObserverMethods {
+  observe: (this: object, target?: unknown, options?: unknown) => void
+  unobserve?: (this: object, target: unknown) => void
+  disconnect: (this: object) => void
+}
+
+interface ObserverConstructor {
+  new (...args: never[]): ObserverMethods
+  prototype: ObserverMethods
+}
+
+interface OriginalObserver {
+  constructor: ObserverConstructor
+  methods: ObserverMethods
+}
+
+/** An observer created through a wrapped constructor */
+interface ObserverRecord {
+  type: ObserverType
+  observer: WeakRef<object>
+  /** Observed nodes, or entry types for `PerformanceObserver` */
+  targets: (WeakRef<object> | string)[]
+}
+
+function getObserverGlobals(): Partial<Record<ObserverType, ObserverConstructor>> {
+  return window as unknown as Partial<Record<ObserverType, ObserverConstructor>>
+}
+
+function createEmptyCounts(): Record<ObserverType, ObserverTypeCounts> {
+  return {
+    MutationObserver: {observers: 0, targets: 0},
+    ResizeObserver: {observers: 0, targets: 0},
+    IntersectionObserver: {observers: 0, targets: 0},
+    PerformanceObserver: {observers: 0, targets: 0},
+  }
+}
+
+/**
+ * Tracks observers created while the story is active.
+ *
+ * Observers the addon creates are excluded: collectors that start earlier
+ * create theirs before the constructors are wrapped, and other addon code
+ * creates them inside `runUntracked()`. An observer counts as active while it
+ * has at least one target that is still in the document.
+ */
+export class ObserverCollector implements MetricCollector<ObserverMetrics> {
+  #records = new WeakMap<object, ObserverRecord>()
+  #liveRecords = new Set<ObserverRecord>()
+
+  // Shared registry for global patching - tracks active collectors and originals
+  static #registry: {
+    initialized: boolean
+    originals: Map<ObserverType, OriginalObserver>
+    activeCollectors: Set<ObserverCollector>
+    currentCollector: ObserverCollector | null
+  } | null = null
+
+  start(): void {
+    ObserverCollector.#registry ??= {
+      initialized: false,
+      originals: new Map<ObserverType, OriginalObserver>(),
+      activeCollectors: new Set<ObserverCollector>(),
+      currentCollector: null,
+    }
+
+    const registry = ObserverCollector.#registry
+    registry.activeCollectors.add(this)
+    registry.currentCollector = this
+
+    if (!registry.initialized) {
+      registry.initialized = true
+      for (const type of OBSERVER_TYPES) {
+        ObserverCollector.#instrument(type)
+      }
+    }
+  }
+
+  stop(): void {
+    const registry = ObserverCollector.#registry
+    if (!registry) return
+
+    registry.activeCollectors.delete(this)
+    if (registry.currentCollector === this) {
+      registry.currentCollector = null
+    }
+
+    // Disconnects aren't seen while stopped, so tracked observers would go stale
+    this.#records = new WeakMap()
+    this.#liveRecords.clear()
+
+    // Restore the original constructors and methods when the last collector stops
+    if (registry.activeCollectors.size === 0 && registry.initialized) {
+      const globals = getObserverGlobals()
+      for (const [type, original] of registry.originals) {
+        Object.assign(original.constructor.prototype, original.methods)
+        globals[type] = original.constructor
+      }
+      registry.originals.clear()
+      registry.initialized = false
+    }
+  }
+
+  reset(): void {
+    // Nothing to reset: tracked observers are still observing
+  }
+
+  getMetrics(): ObserverMetrics {
+    const observersByType = createEmptyCounts()
+    let observerCount = 0
+    for (const {record, targetCount} of this.#getActiveRecords()) {
+      observersByType[record.type].observers++
+      observersByType[record.type].targets += targetCount
+      observerCount++
+    }
+    return {observerCount, observersByType}
+  }
+
+  /**
+   * Tracked observers that are still observing, grouped by type and first
+   * target. Called when a story is torn down to find observers it leaked.
+   */
+  getActiveObservers(): LeakedObserverInfo[] {
+    const groups = new Map<string, LeakedObserverInfo>()
+    for (const {record, firstTarget} of this.#getActiveRecords()) {
+      const key = `${record.type} ${firstTarget}`
+      const group = groups.get(key)
+      if (group) {
+        group.count++
+      } else {
+        groups.set(key, {type: record.type, target: firstTarget, count: 1})
+      }
+    }
+    return [...groups.values()].sort((a, b) => b.count - a.count)
+  }
+
+  #getActiveRecords(): {record: ObserverRecord; targetCount: number; firstTarget: string}[] {
+    const active: {record: ObserverRecord; targetCount: number; firstTarget: string}[] = []
+    for (const record of this.#liveRecords) {
+      if (!record.observer.deref()) {
+        // Observer was garbage collected, so it can't be observing anything
+        this.#liveRecords.delete(record)
+        continue
+      }
+
+      const descriptions: string[] = []
+      for (const target of record.targets) {
+        if (typeof target === 'string') {
+          descriptions.push(target)
+          continue
+        }
+        const node = target.deref()
+        if (node && !isDetachedNode(node)) {
+          descriptions.push(describeTarget(node))
+        }
+      }
+      const [firstTarget] = descriptions
+      if (firstTarget === undefined) continue
+
+      active.push({
+        record,
+        targetCount: descriptions.length,
+        firstTarget: record.type === 'PerformanceObserver' ? descriptions.join(', ') : firstTarget,
+      })
+    }
+    return active
+  }
+
+  static #instrument(type: ObserverType): void {
+    const registry = ObserverCollector.#registry
+    const globals = getObserverGlobals()
+    const Original = globals[type]
+    if (!registry || !Original) return
+
+    const {prototype} = Original
+    const methods: ObserverMethods = {
+      observe: prototype.observe,
+      disconnect: prototype.disconnect,
+    }
+    if (prototype.unobserve) {
+      methods.unobserve = prototype.unobserve
+    }
+    registry.originals.set(type, {constructor: Original, methods})
+
+    // Subclass so `instanceof` and static members such as
+    // `PerformanceObserver.supportedEntryTypes` keep working
+    const Tracked = class extends Original {
+      constructor(...args: never[]) {
+        super(...args)
+        const collector = ObserverCollector.#registry?.currentCollector
+        if (collector && !isUntracked()) {
+          collector.#track(this, type)
+        }
+      }
+    }
+    Object.defineProperty(Tracked, 'name', {value: type})
+    globals[type] = Tracked
+
+    prototype.observe = function (target, options) {
+      methods.observe.call(this, target, options)
+      const collector = ObserverCollector.#registry?.currentCollector
+      if (collector) {
+        collector.#observe(this, target)
+      }
+    }
+    const {unobserve} = methods
+    if (unobserve) {
+      prototype.unobserve = function (target) {
+        unobserve.call(this, target)
+        const collector = ObserverCollector.#registry?.currentCollector
+        if (collector) {
+          collector.#unobserve(this, target)
+        }
+      }
+    }
+    prototype.disconnect = function () {
+      methods.disconnect.call(this)
+      const collector = ObserverCollector.#registry?.currentCollector
+      if (collector) {
+        collector.#disconnect(this)
+      }
+    }
+  }
+
+  #track(observer: object, type: ObserverType): void {
+    const record: ObserverRecord = {type, observer: new WeakRef(observer), targets: []}
+    this.#records.set(observer, record)
+    this.#liveRecords.add(record)
+  }
+
+  /**
+   * Record an `observe()` call. For `PerformanceObserver` the first argument
+   * is the options object naming the entry types.
+   */
+  #observe(observer: object, target: unknown): void {
+    const record = this.#records.get(observer)
+    if (!record || typeof target !== 'object' || target === null) return
+
+    if (record.type === 'PerformanceObserver') {
+      const {entryTypes, type} = target as PerformanceObserverInit
+      if (entryTypes) {
+        // `entryTypes` replaces everything observed before
+        record.targets = [...new Set(entryTypes)]
+      } else if (type && !record.targets.includes(type)) {
+        record.targets.push(type)
+      }
+      return
+    }
+
+    // Observing the same node again only updates its options
+    if (!record.targets.some(entry => typeof entry !== 'string' && entry.deref() === target)) {
+      record.targets.push(new WeakRef(target))
+    }
+  }
+
+  #unobserve(observer: object, target: unknown): void {
+    const record = this.#records.get(observer)
+    if (!record) return
+    record.targets = record.targets.filter(entry => typeof entry === 'string' || entry.deref() !== target)
+  }
+
+  #disconnect(observer: object): void {
+    const record = this.#records.get(observer)
+    if (record) {
+      record.targets = []
+    }
+  }
+}
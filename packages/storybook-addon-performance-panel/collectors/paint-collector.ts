@@ -3,6 +3,7 @@
  * @module collectors/PaintCollector
  */
 
+import {runUntracked} from './instrumentation'
 import type {MetricCollector} from './types'
 
 export interface PaintMetrics {
@@ -19,7 +20,7 @@ function scheduleIdle(callback: () => void, options?: IdleRequestOptions): numbe
   if (typeof requestIdleCallback === 'function') {
     return requestIdleCallback(callback, options)
   }
-  return setTimeout(callback, 0) as unknown as number
+  return runUntracked(() => setTimeout(callback, 0)) as unknown as number
 }
 
 function cancelIdle(id: number): void {
@@ -3,9 +3,10 @@
  * @module collectors/ReactProfilerCollector
  */
 
-import type {ReactMetrics, RenderInfo} from '../core/performance-types'
-import type {MetricCollector} from './types'
-import {addToWindow} from './utils'
+import type {ReactCommitInfo, ReactMetrics, RenderInfo, TimelineEvent} from '../core/performance-types'
+import {COMMIT_INTERACTION_WINDOW_MS, MAX_LOGGED_COMMITS, TIMELINE_EVENTS_WINDOW} from './constants'
+import type {MetricCollector, TimelineSource} from './types'
+import {addToWindow, findRecentInteraction, trackInteractions} from './utils'
 
 /**
  * Default empty metrics for initialization.
@@ -55,24 +56,43 @@ interface ProfilerState {
  * - Base duration (theoretical render without memoization)
  * - Commit lag (time between render and commit)
  *
- * Aggregated metrics are computed on-demand from per-profiler data.
+ * Aggregated metrics are computed on-demand from per-profiler data. Recent
+ * commits are also kept individually, each linked to the click or key press
+ * shortly before it while the collector runs.
  */
-export class ReactProfilerCollector implements MetricCollector<ReactMetrics> {
+export class ReactProfilerCollector implements MetricCollector<ReactMetrics>, TimelineSource {
   // Per-profiler metrics
   #profilers = new Map<string, ProfilerState>()
 
+  // Recent commits for the timeline
+  #timeline: TimelineEvent[] = []
+
+  // Recent commits across all profilers, for the commit log
+  #commits: ReactCommitInfo[] = []
+
+  // Stops the shared interaction listeners used to attribute commits
+  #stopTrackingInteractions: (() => void) | null = null
+
+  // Interactions before this time happened before the last reset
+  #interactionsSince = 0
+
   // Callback for external listeners (e.g., store updates)
   #onProfilerUpdate?: (storyId: string, profilerId: string, metrics: ReactMetrics) => void
 
   start(): void {
-    // No setup needed - metrics come from reportRender calls
+    // Metrics come from reportRender calls; interactions only attribute commits
+    this.#stopTrackingInteractions ??= trackInteractions()
   }
 
   stop(): void {
-    // No cleanup needed
+    this.#stopTrackingInteractions?.()
+    this.#stopTrackingInteractions = null
   }
 
   reset(): void {
+    this.#timeline = []
+    this.#commits = []
+    this.#interactionsSince = performance.now()
     // Reset per-profiler metrics (preserve mounts)
     for (const [profilerId, state] of this.#profilers) {
       const profilerMountCount = state.metrics.reactMountCount
@@ -149,10 +169,40 @@ export class ReactProfilerCollector implements MetricCollector<ReactMetrics> {
       state.storyId = info.storyId
     }
     this.#updateProfilerMetrics(state, info, commitLag)
+    addToWindow(
+      this.#commits,
+      {
+        profilerId: info.profilerId,
+        phase: info.phase,
+        startTime: Math.round(info.startTime * 10) / 10,
+        actualDuration: Math.round(info.actualDuration * 10) / 10,
+        baseDuration: Math.round(info.baseDuration * 10) / 10,
+        commitLag: Math.round(commitLag * 10) / 10,
+        interaction: this.#findInteraction(info.startTime),
+      },
+      MAX_LOGGED_COMMITS,
+    )
+    addToWindow(
+      this.#timeline,
+      {
+        track: 'react-commit',
+        name: `${info.profilerId} ${info.phase}`,
+        startTime: info.startTime,
+        duration: info.commitTime - info.startTime,
+        detail: `render ${String(Math.round(info.actualDuration))}ms · base ${String(Math.round(info.baseDuration))}ms`,
+        segments: [{name: 'render', startTime: info.startTime, duration: info.actualDuration}],
+      },
+      TIMELINE_EVENTS_WINDOW,
+    )
     // Notify external listeners with storyId for grouping
     this.#onProfilerUpdate?.(info.storyId, info.profilerId, state.metrics)
   }
 
+  /** The click or key press shortly before `startTime`, if any */
+  #findInteraction(startTime: number): string | null {
+    return findRecentInteraction(startTime, Math.min(COMMIT_INTERACTION_WINDOW_MS, startTime - this.#interactionsSince))
+  }
+
   /**
    * Update per-profiler metrics.
    */
@@ -197,6 +247,17 @@ export class ReactProfilerCollector implements MetricCollector<ReactMetrics> {
     }
   }
 
+  getTimelineEvents(): TimelineEvent[] {
+    return [...this.#timeline]
+  }
+
+  /**
+   * Recent commits across all profilers, oldest first.
+   */
+  getCommitLog(): ReactCommitInfo[] {
+    return [...this.#commits]
+  }
+
   /**
    * Get aggregated metrics from all profilers.
    * Returns empty metrics if no profilers registered.
@@ -0,0 +1,364 @@
+/**
+ * @fileoverview React re-render attribution collector
+ * @module collectors/RenderReasonCollector
+ *
+ * Listens to commits through the React DevTools global hook and inspects the
+ * committed fiber tree to find the components that re-rendered, their self
+ * time, and why they re-rendered. Only runs with
+ * {@link RenderReasonCollector.enabled} set, since walking the tree on every
+ * commit adds to the render time it measures.
+ */
+
+import type {
+  ComponentRenderInfo,
+  RenderOffenderInfo,
+  RenderReason,
+  RenderReasonCommitInfo,
+} from '../core/performance-types'
+import {MAX_COMPONENTS_PER_COMMIT, MAX_RENDER_OFFENDERS, MAX_RENDER_REASON_COMMITS} from './constants'
+import type {MetricCollector} from './types'
+import {addToWindow} from './utils'
+
+export interface RenderReasonMetrics {
+  /** Recent commits with re-rendered components, oldest first */
+  commits: RenderReasonCommitInfo[]
+  /** Components with the most re-render self time, most first */
+  offenders: RenderOffenderInfo[]
+}
+
+/** Distinct components aggregated. Re-renders of other components are listed per commit only. */
+const MAX_TRACKED_COMPONENTS = 200
+
+/** Changed props listed per offender */
+const MAX_CHANGED_PROPS = 5
+
+// ============================================================================
+// React Internals
+// ============================================================================
+
+// Fiber tags of components that render (React's `ReactWorkTags`)
+const FUNCTION_COMPONENT = 0
+const CLASS_COMPONENT = 1
+const FORWARD_REF = 11
+const SIMPLE_MEMO_COMPONENT = 15
+const COMPONENT_TAGS = new Set([FUNCTION_COMPONENT, CLASS_COMPONENT, FORWARD_REF, SIMPLE_MEMO_COMPONENT])
+
+/** `PerformedWork` fiber flag: the component rendered instead of bailing out */
+const PERFORMED_WORK = 1
+
+/** The fields of a React fiber read here */
+interface Fiber {
+  tag: number
+  type: unknown
+  flags: number
+  alternate: Fiber | null
+  child: Fiber | null
+  sibling: Fiber | null
+  memoizedProps: unknown
+  /** Class component state, or the first hook of a function component */
+  memoizedState: unknown
+  dependencies: {firstContext: ContextDependency | null} | null
+  /** Render time excluding children. Only set by development and profiling builds. */
+  selfBaseDuration?: number
+}
+
+/** A context a component read while rendering */
+interface ContextDependency {
+  memoizedValue: unknown
+  next: ContextDependency | null
+}
+
+interface Hook {
+  memoizedState: unknown
+  /** Set for hooks that can schedule an update: useState, useReducer, useSyncExternalStore, ... */
+  queue: unknown
+  next: Hook | null
+}
+
+interface FiberRoot {
+  current: Fiber
+}
+
+/** The part of `__REACT_DEVTOOLS_GLOBAL_HOOK__` React calls into */
+interface ReactDevToolsHook {
+  supportsFiber: boolean
+  isDisabled?: boolean
+  renderers: Map<number, unknown>
+  inject: (renderer: unknown) => number
+  onCommitFiberRoot: (rendererId: number, root: FiberRoot, ...rest: unknown[]) => void
+  onCommitFiberUnmount: (rendererId: number, fiber: Fiber) => void
+}
+
+declare global {
+  interface Window {
+    __REACT_DEVTOOLS_GLOBAL_HOOK__?: ReactDevToolsHook
+  }
+}
+
+// ============================================================================
+// DevTools Hook
+// ============================================================================
+
+const commitListeners = new Set<(root: FiberRoot) => void>()
+
+/** Hook whose `onCommitFiberRoot` notifies {@link commitListeners} */
+let patchedHook: ReactDevToolsHook | null = null
+
+/**
+ * Create a minimal React DevTools hook, unless the DevTools extension or
+ * React Refresh already installed one. React only connects to the hook when
+ * react-dom loads, so call this before the first story renders.
+ *
+ * This defines `window.__REACT_DEVTOOLS_GLOBAL_HOOK__` for the whole page,
+ * which other libraries may take as React DevTools being open. Only called
+ * when the `renderReasons` addon option is set.
+ */
+export function installReactDevToolsHook(): void {
+  if (typeof window === 'undefined' || window.__REACT_DEVTOOLS_GLOBAL_HOOK__) return
+
+  const renderers = new Map<number, unknown>()
+  window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
+    supportsFiber: true,
+    renderers,
+    inject: renderer => {
+      const id = renderers.size + 1
+      renderers.set(id, renderer)
+      return id
+    },
+    onCommitFiberRoot: () => undefined,
+    onCommitFiberUnmount: () => undefined,
+  }
+}
+
+/**
+ * Call `listener` with the root of every React commit. The hook's
+ * `onCommitFiberRoot` is wrapped once and stays wrapped, so other tools that
+ * wrap it too can't be unwrapped out of order.
+ *
+ * @returns Unsubscribe function
+ */
+function subscribeToCommits(listener: (root: FiberRoot) => void): () => void {
+  const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__
+  if (hook && hook !== patchedHook) {
+    const onCommitFiberRoot = hook.onCommitFiberRoot
+    hook.onCommitFiberRoot = (rendererId, root, ...rest) => {
+      onCommitFiberRoot.call(hook, rendererId, root, ...rest)
+      for (const commitListener of commitListeners) {
+        commitListener(root)
+      }
+    }
+    patchedHook = hook
+  }
+  commitListeners.add(listener)
+  return () => commitListeners.delete(listener)
+}
+
+// ============================================================================
+// Fiber Inspection
+// ============================================================================
+
+function getDisplayName(type: unknown): string | null {
+  if (typeof type !== 'function' && (typeof type !== 'object' || type === null)) return null
+  const {displayName, name} = type as {displayName?: unknown; name?: unknown}
+  if (typeof displayName === 'string' && displayName) return displayName
+  return typeof name === 'string' && name ? name : null
+}
+
+function getComponentName(fiber: Fiber): string {
+  if (fiber.tag === FORWARD_REF) {
+    const render = (fiber.type as {render?: unknown} | null)?.render
+    return getDisplayName(fiber.type) ?? getDisplayName(render) ?? 'ForwardRef'
+  }
+  return getDisplayName(fiber.type) ?? 'Anonymous'
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** Keys whose values differ between two props objects */
+function getChangedKeys(previous: unknown, next: unknown): string[] {
+  if (!isRecord(previous) || !isRecord(next)) return []
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)])
+  return [...keys].filter(key => !Object.is(previous[key], next[key]))
+}
+
+function didStateChange(fiber: Fiber, previous: Fiber): boolean {
+  if (fiber.tag === CLASS_COMPONENT) return !Object.is(fiber.memoizedState, previous.memoizedState)
+
+  // Other hooks (useMemo, useEffect, ...) get new state on every render without causing one
+  let hook = fiber.memoizedState as Hook | null
+  let previousHook = previous.memoizedState as Hook | null
+  while (hook && previousHook) {
+    if (hook.queue !== null && !Object.is(hook.memoizedState, previousHook.memoizedState)) return true
+    hook = hook.next
+    previousHook = previousHook.next
+  }
+  return false
+}
+
+function didContextChange(fiber: Fiber, previous: Fiber): boolean {
+  let dependency = fiber.dependencies?.firstContext ?? null
+  let previousDependency = previous.dependencies?.firstContext ?? null
+  while (dependency && previousDependency) {
+    if (!Object.is(dependency.memoizedValue, previousDependency.memoizedValue)) return true
+    dependency = dependency.next
+    previousDependency = previousDependency.next
+  }
+  return false
+}
+
+function describeRender(fiber: Fiber, previous: Fiber): ComponentRenderInfo {
+  const changedProps =
+    fiber.memoizedProps === previous.memoizedProps ? [] : getChangedKeys(previous.memoizedProps, fiber.memoizedProps)
+  const reasons: RenderReason[] = []
+  if (changedProps.length > 0) reasons.push('props')
+  if (didStateChange(fiber, previous)) reasons.push('state')
+  if (didContextChange(fiber, previous)) reasons.push('context')
+
+  return {
+    name: getComponentName(fiber),
+    selfTime: Math.round((fiber.selfBaseDuration ?? 0) * 10) / 10,
+    // Nothing of its own changed, so it only rendered because its parent did
+    reasons: reasons.length > 0 ? reasons : ['parent'],
+    changedProps,
+  }
+}
+
+/**
+ * Components that re-rendered in the commit of `root`, compared with the
+ * previous tree through each fiber's alternate. Mounted subtrees are skipped,
+ * and so are subtrees React didn't visit, whose child pointers are unchanged.
+ */
+function findRenderedComponents(root: FiberRoot): ComponentRenderInfo[] {
+  const rendered: ComponentRenderInfo[] = []
+  const pending: Fiber[] = [root.current]
+  for (let fiber = pending.pop(); fiber; fiber = pending.pop()) {
+    const previous = fiber.alternate
+    if (!previous) continue
+
+    if (COMPONENT_TAGS.has(fiber.tag) && (fiber.flags & PERFORMED_WORK) !== 0) {
+      rendered.push(describeRender(fiber, previous))
+    }
+    if (fiber.child !== previous.child) {
+      for (let child = fiber.child; child; child = child.sibling) {
+        pending.push(child)
+      }
+    }
+  }
+  return rendered
+}
+
+// ============================================================================
+// Collector
+// ============================================================================
+
+/** Aggregated re-renders of one component */
+interface OffenderState {
+  renderCount: number
+  totalSelfTime: number
+  maxSelfTime: number
+  reasons: Record<RenderReason, number>
+  /** Change count per prop */
+  changedProps: Map<string, number>
+}
+
+/**
+ * Attributes React re-renders to components and their cause.
+ *
+ * For each commit, lists the components that rendered instead of bailing
+ * out, with their self time and the reason, following the React DevTools
+ * profiler: changed props (with the keys), changed state or hooks, a changed
+ * context value, or otherwise a parent re-render. Re-renders are also
+ * aggregated per component name to rank the top offenders of a story.
+ *
+ * Self times are 0 in production builds without the profiling build of
+ * react-dom.
+ */
+export class RenderReasonCollector implements MetricCollector<RenderReasonMetrics> {
+  #commits: RenderReasonCommitInfo[] = []
+  #offenders = new Map<string, OffenderState>()
+  #unsubscribe: (() => void) | null = null
+
+  /** Inspect commits. Off by default because the tree walk adds to commit time. */
+  enabled = false
+
+  #handleCommit = (root: FiberRoot) => {
+    if (!this.enabled) return
+    const components = findRenderedComponents(root)
+    if (components.length === 0) return
+
+    for (const component of components) {
+      this.#recordOffender(component)
+    }
+    addToWindow(
+      this.#commits,
+      {
+        commitTime: Math.round(performance.now() * 10) / 10,
+        componentCount: components.length,
+        components: components.sort((a, b) => b.selfTime - a.selfTime).slice(0, MAX_COMPONENTS_PER_COMMIT),
+      },
+      MAX_RENDER_REASON_COMMITS,
+    )
+  }
+
+  start(): void {
+    this.#unsubscribe ??= subscribeToCommits(this.#handleCommit)
+  }
+
+  stop(): void {
+    this.#unsubscribe?.()
+    this.#unsubscribe = null
+  }
+
+  reset(): void {
+    this.#commits = []
+    this.#offenders.clear()
+  }
+
+  #recordOffender(component: ComponentRenderInfo): void {
+    let offender = this.#offenders.get(component.name)
+    if (!offender) {
+      if (this.#offenders.size >= MAX_TRACKED_COMPONENTS) return
+      offender = {
+        renderCount: 0,
+        totalSelfTime: 0,
+        maxSelfTime: 0,
+        reasons: {props: 0, state: 0, context: 0, parent: 0},
+        changedProps: new Map(),
+      }
+      this.#offenders.set(component.name, offender)
+    }
+
+    offender.renderCount++
+    offender.totalSelfTime += component.selfTime
+    offender.maxSelfTime = Math.max(offender.maxSelfTime, component.selfTime)
+    for (const reason of component.reasons) {
+      offender.reasons[reason]++
+    }
+    for (const key of component.changedProps) {
+      offender.changedProps.set(key, (offender.changedProps.get(key) ?? 0) + 1)
+    }
+  }
+
+  getMetrics(): RenderReasonMetrics {
+    const offenders = Array.from(this.#offenders, ([name, offender]) => ({
+      name,
+      renderCount: offender.renderCount,
+      totalSelfTime: Math.round(offender.totalSelfTime * 10) / 10,
+      maxSelfTime: offender.maxSelfTime,
+      reasons: {...offender.reasons},
+      changedProps: Array.from(offender.changedProps)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_CHANGED_PROPS)
+        .map(([key]) => key),
+    }))
+
+    return {
+      commits: [...this.#commits],
+      offenders: offenders
+        .sort((a, b) => b.totalSelfTime - a.totalSelfTime || b.renderCount - a.renderCount)
+        .slice(0, MAX_RENDER_OFFENDERS),
+    }
+  }
+}
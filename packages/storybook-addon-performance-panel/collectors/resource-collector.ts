@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Network request metrics collector
+ * @module collectors/ResourceCollector
+ *
+ * Lists the fetch, XHR, image and font requests a story issues, from the
+ * Resource Timing API. Requests served by MSW through its service worker
+ * show up like real ones. Flags URLs requested more than once and chains of
+ * requests that each waited for the previous one (waterfalls), and links
+ * requests to the click or key press that triggered them.
+ *
+ * @see https://w3c.github.io/resource-timing/
+ */
+
+import type {DuplicateRequestInfo, NetworkRequestInfo, NetworkRequestKind} from '../core/performance-types'
+import type {MetricCollector} from './types'
+import {findRecentInteraction, trackInteractions} from './utils'
+
+export interface ResourceMetrics {
+  /** Requests issued since the epoch */
+  requestCount: number
+  /** Requests by kind */
+  requestsByKind: Record<NetworkRequestKind, number>
+  /** Total bytes transferred (KB) */
+  transferKB: number
+  /** Requests that blocked rendering */
+  renderBlockingCount: number
+  /** Requests repeating a URL that was already requested */
+  duplicateCount: number
+  /** URLs requested more than once, most repeated first */
+  duplicates: DuplicateRequestInfo[]
+  /** URLs in the longest chain of requests that each started right after the previous one finished */
+  longestChain: string[]
+  /** Slowest requests */
+  slowestRequests: NetworkRequestInfo[]
+}
+
+/** Resource Timing entry with render-blocking status (Chrome 107+) */
+interface ResourceTimingWithBlocking extends PerformanceResourceTiming {
+  renderBlockingStatus?: 'blocking' | 'non-blocking'
+}
+
+/** Requests kept for duplicate and waterfall detection */
+const MAX_REQUESTS = 200
+
+/** Number of requests included in {@link ResourceMetrics.slowestRequests} */
+const MAX_SLOWEST = 10
+
+/** Number of URLs included in {@link ResourceMetrics.duplicates} */
+const MAX_DUPLICATES = 10
+
+/** A request that starts within this time after another finished is treated as waiting for it (ms) */
+const CHAIN_GAP_MS = 100
+
+/** Requests starting within this time after a click or key press are attributed to it (ms) */
+const INTERACTION_WINDOW_MS = 1000
+
+const FONT_URL_PATTERN = /\.(woff2?|ttf|otf|eot)(\?|#|$)/i
+const IMAGE_URL_PATTERN = /\.(png|jpe?g|gif|webp|avif|svg|ico)(\?|#|$)/i
+
+/** Classify a Resource Timing entry, or return null for requests the collector doesn't track */
+function getRequestKind(entry: PerformanceResourceTiming): NetworkRequestKind | null {
+  switch (entry.initiatorType) {
+    case 'fetch':
+      return 'fetch'
+    case 'xmlhttprequest':
+      return 'xhr'
+    case 'img':
+    case 'image':
+      return 'image'
+  }
+  // Fonts and CSS background images are initiated by stylesheets or preload links
+  const {pathname} = new URL(entry.name, location.href)
+  if (FONT_URL_PATTERN.test(pathname)) return 'font'
+  if (entry.initiatorType === 'css' && IMAGE_URL_PATTERN.test(pathname)) return 'image'
+  return null
+}
+
+/** Shorten same-origin URLs to their path and query */
+function formatRequestUrl(url: string): string {
+  const parsed = new URL(url, location.href)
+  return parsed.origin === location.origin ? `${parsed.pathname}${parsed.search}` : parsed.href
+}
+
+function createEmptyCounts(): Record<NetworkRequestKind, number> {
+  return {fetch: 0, xhr: 0, image: 0, font: 0}
+}
+
+/**
+ * Collects fetch, XHR, image and font requests from Resource Timing entries.
+ *
+ * Entries are delivered when a response finishes, so requests still in
+ * flight aren't listed yet. Only requests started after the collector
+ * started or was reset are counted.
+ */
+export class ResourceCollector implements MetricCollector<ResourceMetrics> {
+  #requests: NetworkRequestInfo[] = []
+  #requestCount = 0
+  #requestsByKind = createEmptyCounts()
+  #transferBytes = 0
+  #renderBlockingCount = 0
+  /** Requests per URL, for duplicate detection */
+  #urlCounts = new Map<string, {kind: NetworkRequestKind; count: number}>()
+  /** Entries before this timestamp belong to an earlier story or reset. */
+  #epochMs = 0
+
+  #observer: PerformanceObserver | null = null
+  #stopTrackingInteractions: (() => void) | null = null
+
+  start(): void {
+    this.#epochMs = performance.now()
+    this.#stopTrackingInteractions ??= trackInteractions()
+
+    try {
+      this.#observer = new PerformanceObserver(list => {
+        for (const entry of list.getEntries()) {
+          this.#processEntry(entry as ResourceTimingWithBlocking)
+        }
+      })
+      this.#observer.observe({type: 'resource', buffered: true})
+    } catch {
+      /* Not supported */
+    }
+  }
+
+  #processEntry(entry: ResourceTimingWithBlocking): void {
+    if (entry.startTime < this.#epochMs) return
+    const kind = getRequestKind(entry)
+    if (!kind) return
+
+    const url = formatRequestUrl(entry.name)
+    const renderBlocking = entry.renderBlockingStatus === 'blocking'
+    const request: NetworkRequestInfo = {
+      url,
+      kind,
+      initiatorType: entry.initiatorType,
+      startTime: Math.round((entry.startTime - this.#epochMs) * 10) / 10,
+      duration: Math.round(entry.duration * 10) / 10,
+      transferSize: entry.transferSize,
+      renderBlocking,
+      // Interactions before the epoch belong to an earlier story or reset
+      interaction: findRecentInteraction(
+        entry.startTime,
+        Math.min(INTERACTION_WINDOW_MS, entry.startTime - this.#epochMs),
+      ),
+    }
+
+    this.#requests.push(request)
+    if (this.#requests.length > MAX_REQUESTS) this.#requests.shift()
+    this.#requestCount++
+    this.#requestsByKind[kind]++
+    this.#transferBytes += entry.transferSize
+    if (renderBlocking) this.#renderBlockingCount++
+
+    const seen = this.#urlCounts.get(url)
+    if (seen) {
+      seen.count++
+    } else {
+      this.#urlCounts.set(url, {kind, count: 1})
+    }
+  }
+
+  stop(): void {
+    this.#observer?.disconnect()
+    this.#observer = null
+    this.#stopTrackingInteractions?.()
+    this.#stopTrackingInteractions = null
+  }
+
+  reset(): void {
+    this.#requests = []
+    this.#requestCount = 0
+    this.#requestsByKind = createEmptyCounts()
+    this.#transferBytes = 0
+    this.#renderBlockingCount = 0
+    this.#urlCounts.clear()
+    this.#epochMs = performance.now()
+  }
+
+  getMetrics(): ResourceMetrics {
+    const duplicates: DuplicateRequestInfo[] = []
+    let duplicateCount = 0
+    for (const [url, {kind, count}] of this.#urlCounts) {
+      if (count < 2) continue
+      duplicates.push({url, kind, count})
+      duplicateCount += count - 1
+    }
+
+    return {
+      requestCount: this.#requestCount,
+      requestsByKind: {...this.#requestsByKind},
+      transferKB: Math.round((this.#transferBytes / 1024) * 10) / 10,
+      renderBlockingCount: this.#renderBlockingCount,
+      duplicateCount,
+      duplicates: duplicates.sort((a, b) => b.count - a.count).slice(0, MAX_DUPLICATES),
+      longestChain: this.#findLongestChain(),
+      slowestRequests: [...this.#requests].sort((a, b) => b.duration - a.duration).slice(0, MAX_SLOWEST),
+    }
+  }
+
+  /**
+   * Find the longest chain of requests where each one started within
+   * {@link CHAIN_GAP_MS} after the previous one finished, such as a fetch
+   * whose response triggers another fetch that loads an image.
+   */
+  #findLongestChain(): string[] {
+    const sorted = [...this.#requests].sort((a, b) => a.startTime - b.startTime)
+    const previous = new Map<NetworkRequestInfo, NetworkRequestInfo>()
+    const lengths = new Map<NetworkRequestInfo, number>()
+    let longest: NetworkRequestInfo | null = null
+
+    for (const request of sorted) {
+      let length = 1
+      for (const candidate of sorted) {
+        if (candidate === request) break
+        const end = candidate.startTime + candidate.duration
+        if (end > request.startTime || request.startTime - end > CHAIN_GAP_MS) continue
+        const candidateLength = (lengths.get(candidate) ?? 1) + 1
+        if (candidateLength > length) {
+          length = candidateLength
+          previous.set(request, candidate)
+        }
+      }
+      lengths.set(request, length)
+      if (!longest || length > (lengths.get(longest) ?? 0)) longest = request
+    }
+
+    const chain: string[] = []
+    for (let request = longest; request; request = previous.get(request) ?? null) {
+      chain.unshift(request.url)
+    }
+    return chain
+  }
+}
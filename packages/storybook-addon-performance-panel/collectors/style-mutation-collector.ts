@@ -3,15 +3,81 @@
  * @module collectors/StyleMutationCollector
  */
 
+import type {StyleWriteTargetInfo} from '../core/performance-types'
 import {THRASHING_FRAME_THRESHOLD, THRASHING_STYLE_WRITE_WINDOW} from './constants'
 import type {MetricCollector} from './types'
-import {addToWindow} from './utils'
+import {addToWindow, getSimpleSelector} from './utils'
 
 export interface StyleMetrics {
   styleWrites: number
   cssVarChanges: number
   domMutationFrames: number[]
   thrashingScore: number
+  /** Selectors receiving the most style writes, with the properties written */
+  writeTargets: StyleWriteTargetInfo[]
+}
+
+/** Distinct selectors tracked. Writes to other elements are counted but not attributed. */
+const MAX_TRACKED_TARGETS = 200
+
+/** Number of selectors included in {@link StyleMetrics.writeTargets} */
+const MAX_TARGETS = 10
+
+/** Properties listed per selector */
+const MAX_PROPERTIES = 5
+
+/** Style writes to elements with the same selector */
+interface WriteTargetRecord {
+  writes: number
+  cssVarWrites: number
+  elements: WeakSet<Element>
+  elementCount: number
+  /** Writes per property */
+  properties: Map<string, number>
+}
+
+/** Parse a `style` attribute into property → value pairs */
+function parseDeclarations(style: string): Map<string, string> {
+  const declarations = new Map<string, string>()
+  for (const declaration of style.split(';')) {
+    const colon = declaration.indexOf(':')
+    if (colon === -1) continue
+    const property = declaration.slice(0, colon).trim()
+    if (property) declarations.set(property, declaration.slice(colon + 1).trim())
+  }
+  return declarations
+}
+
+/** Properties set, changed or removed between two `style` attribute values */
+function getChangedProperties(oldStyle: string, newStyle: string): string[] {
+  const oldDeclarations = parseDeclarations(oldStyle)
+  const newDeclarations = parseDeclarations(newStyle)
+  const changed: string[] = []
+  for (const [property, value] of newDeclarations) {
+    if (oldDeclarations.get(property) !== value) changed.push(property)
+  }
+  for (const property of oldDeclarations.keys()) {
+    if (!newDeclarations.has(property)) changed.push(property)
+  }
+  return changed
+}
+
+/**
+ * The `style` attribute right after each style mutation. Records in a batch
+ * only carry the old value, and several writes to one element in the same
+ * task would otherwise all be compared with its final value.
+ */
+function getStyleValuesAfter(mutations: MutationRecord[]): Map<MutationRecord, string> {
+  const values = new Map<MutationRecord, string>()
+  const nextOldValues = new Map<Node, string>()
+  for (let i = mutations.length - 1; i >= 0; i--) {
+    const mutation = mutations[i]
+    if (mutation?.type !== 'attributes' || mutation.attributeName !== 'style') continue
+    const target = mutation.target as Element
+    values.set(mutation, nextOldValues.get(target) ?? target.getAttribute('style') ?? '')
+    nextOldValues.set(target, mutation.oldValue ?? '')
+  }
+  return values
 }
 
 /**
@@ -20,6 +86,7 @@ export interface StyleMetrics {
  * Tracks:
  * - Style attribute mutations
  * - CSS variable changes
+ * - Elements and properties receiving style writes
  * - DOM mutations per frame
  * - Layout thrashing score
  */
@@ -31,6 +98,8 @@ export class StyleMutationCollector implements MetricCollector<StyleMetrics> {
   #styleWriteCount = 0
   #lastStyleWriteTime = 0
   #domMutationCount = 0
+  /** Style writes by element selector */
+  #writeTargets = new Map<string, WriteTargetRecord>()
 
   #observer: MutationObserver | null = null
   #sampleInterval: ReturnType<typeof setInterval> | null = null
@@ -41,6 +110,7 @@ export class StyleMutationCollector implements MetricCollector<StyleMetrics> {
   start(): void {
     // Single observer for both style and DOM mutations
     this.#observer = new MutationObserver(mutations => {
+      const styleValues = getStyleValuesAfter(mutations)
       for (const mutation of mutations) {
         if (mutation.type === 'attributes' && mutation.attributeName === 'style') {
           this.#styleWrites++
@@ -60,6 +130,7 @@ export class StyleMutationCollector implements MetricCollector<StyleMetrics> {
               if (!oldSet.has(v.trim())) this.#cssVarChanges++
             }
           }
+          this.#recordWriteTarget(target, getChangedProperties(oldValue, styleValues.get(mutation) ?? newValue))
         } else if (mutation.type === 'childList') {
           this.#domMutationCount += mutation.addedNodes.length + mutation.removedNodes.length
         } else if (mutation.type === 'attributes' && mutation.attributeName !== 'style') {
@@ -96,6 +167,7 @@ export class StyleMutationCollector implements MetricCollector<StyleMetrics> {
     this.#thrashingScore = 0
     this.#styleWriteCount = 0
     this.#domMutationCount = 0
+    this.#writeTargets.clear()
   }
 
   /** Call on each frame to check for thrashing */
@@ -117,6 +189,39 @@ export class StyleMutationCollector implements MetricCollector<StyleMetrics> {
       cssVarChanges: this.#cssVarChanges,
       domMutationFrames: this.#domMutationFrames,
       thrashingScore: this.#thrashingScore,
+      writeTargets: [...this.#writeTargets]
+        .sort(([, a], [, b]) => b.writes - a.writes)
+        .slice(0, MAX_TARGETS)
+        .map(([selector, record]) => ({
+          selector,
+          writes: record.writes,
+          cssVarWrites: record.cssVarWrites,
+          elementCount: record.elementCount,
+          properties: [...record.properties]
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, MAX_PROPERTIES)
+            .map(([property]) => property),
+        })),
+    }
+  }
+
+  #recordWriteTarget(element: Element, changedProperties: string[]): void {
+    const selector = getSimpleSelector(element)
+    let record = this.#writeTargets.get(selector)
+    if (!record) {
+      if (this.#writeTargets.size >= MAX_TRACKED_TARGETS) return
+      record = {writes: 0, cssVarWrites: 0, elements: new WeakSet(), elementCount: 0, properties: new Map()}
+      this.#writeTargets.set(selector, record)
+    }
+
+    record.writes++
+    if (changedProperties.some(property => property.startsWith('--'))) record.cssVarWrites++
+    if (!record.elements.has(element)) {
+      record.elements.add(element)
+      record.elementCount++
+    }
+    for (const property of changedProperties) {
+      record.properties.set(property, (record.properties.get(property) ?? 0) + 1)
     }
   }
 }
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Timer and animation frame tracking collector
+ * @module collectors/TimerCollector
+ *
+ * Wraps `setTimeout`, `setInterval` and `requestAnimationFrame` and their
+ * cancel functions to count the timers a story schedules and find the ones
+ * still pending after it unmounts, such as intervals that are never cleared,
+ * `setTimeout` chains and `requestAnimationFrame` loops.
+ */
+
+import type {TimerCallSiteInfo, TimerKind} from '../core/performance-types'
+import {isUntracked} from './instrumentation'
+import type {MetricCollector} from './types'
+import {captureCallSite} from './utils'
+
+export interface TimerMetrics {
+  /** Timers scheduled while collecting that are still pending */
+  activeTimerCount: number
+  /** Pending timers by kind */
+  timersByKind: Record<TimerKind, number>
+  /** Call sites with the most pending timers */
+  callSites: TimerCallSiteInfo[]
+}
+
+/** Number of call sites included in {@link TimerMetrics.callSites} */
+const MAX_CALL_SITES = 10
+
+/** A timer scheduled through a patched function */
+interface TimerRecord {
+  kind: TimerKind
+  callSite: string
+}
+
+/** The browser timer functions, without the Node.js overloads merged into the globals */
+interface TimerFunctions {
+  setTimeout: (handler: TimerHandler, timeout?: number, ...args: unknown[]) => number
+  clearTimeout: (id?: number) => void
+  setInterval: (handler: TimerHandler, timeout?: number, ...args: unknown[]) => number
+  clearInterval: (id?: number) => void
+  requestAnimationFrame: (callback: FrameRequestCallback) => number
+  cancelAnimationFrame: (id: number) => void
+}
+
+function getTimerGlobals(): TimerFunctions {
+  return window
+}
+
+function createEmptyCounts(): Record<TimerKind, number> {
+  return {timeout: 0, interval: 0, animationFrame: 0}
+}
+
+/**
+ * Tracks timeouts, intervals and animation frames scheduled while the story
+ * is active, and the call site that scheduled each one.
+ *
+ * Timers scheduled before {@link start} or inside `runUntracked()` are not
+ * counted, which excludes the addon's own timers. Timeouts and animation
+ * frames are untracked when their callback runs or they are cancelled;
+ * intervals stay tracked until cleared. String handlers are not tracked.
+ */
+export class TimerCollector implements MetricCollector<TimerMetrics> {
+  /** Timeouts and intervals, which share IDs and can be cleared by either clear function */
+  #timers = new Map<number, TimerRecord>()
+  #animationFrames = new Map<number, TimerRecord>()
+
+  // Shared registry for global patching - tracks active collectors and original functions
+  static #registry: {
+    initialized: boolean
+    originals: TimerFunctions
+    activeCollectors: Set<TimerCollector>
+    currentCollector: TimerCollector | null
+  } | null = null
+
+  start(): void {
+    const globals = getTimerGlobals()
+    TimerCollector.#registry ??= {
+      initialized: false,
+      originals: {
+        setTimeout: globals.setTimeout,
+        clearTimeout: globals.clearTimeout,
+        setInterval: globals.setInterval,
+        clearInterval: globals.clearInterval,
+        requestAnimationFrame: globals.requestAnimationFrame,
+        cancelAnimationFrame: globals.cancelAnimationFrame,
+      },
+      activeCollectors: new Set<TimerCollector>(),
+      currentCollector: null,
+    }
+
+    const registry = TimerCollector.#registry
+    registry.activeCollectors.add(this)
+    registry.currentCollector = this
+
+    if (!registry.initialized) {
+      registry.initialized = true
+      TimerCollector.#instrument(registry.originals)
+    }
+  }
+
+  stop(): void {
+    const registry = TimerCollector.#registry
+    if (!registry) return
+
+    registry.activeCollectors.delete(this)
+    if (registry.currentCollector === this) {
+      registry.currentCollector = null
+    }
+
+    // Callbacks and cancellations aren't seen while stopped, so tracked timers would go stale
+    this.#timers.clear()
+    this.#animationFrames.clear()
+
+    // Restore the original functions when the last collector stops
+    if (registry.activeCollectors.size === 0 && registry.initialized) {
+      Object.assign(getTimerGlobals(), registry.originals)
+      registry.initialized = false
+    }
+  }
+
+  reset(): void {
+    // Nothing to reset: tracked timers are still pending
+  }
+
+  getMetrics(): TimerMetrics {
+    const timersByKind = createEmptyCounts()
+    for (const record of this.#getPendingRecords()) {
+      timersByKind[record.kind]++
+    }
+    return {
+      activeTimerCount: this.#timers.size + this.#animationFrames.size,
+      timersByKind,
+      callSites: this.getActiveTimers().slice(0, MAX_CALL_SITES),
+    }
+  }
+
+  /**
+   * Pending timers grouped by kind and call site. Called when a story is
+   * torn down to find timers that outlived it.
+   */
+  getActiveTimers(): TimerCallSiteInfo[] {
+    const groups = new Map<string, TimerCallSiteInfo>()
+    for (const record of this.#getPendingRecords()) {
+      const key = `${record.kind} ${record.callSite}`
+      const group = groups.get(key)
+      if (group) {
+        group.count++
+      } else {
+        groups.set(key, {kind: record.kind, callSite: record.callSite, count: 1})
+      }
+    }
+    return [...groups.values()].sort((a, b) => b.count - a.count)
+  }
+
+  #getPendingRecords(): TimerRecord[] {
+    return [...this.#timers.values(), ...this.#animationFrames.values()]
+  }
+
+  static #instrument(originals: TimerFunctions): void {
+    const globals = getTimerGlobals()
+
+    globals.setTimeout = function (handler: TimerHandler, timeout?: number, ...args: unknown[]): number {
+      const collector = TimerCollector.#registry?.currentCollector
+      if (!collector || isUntracked() || typeof handler !== 'function') {
+        return originals.setTimeout.call(window, handler, timeout, ...args)
+      }
+
+      const record: TimerRecord = {kind: 'timeout', callSite: captureCallSite()}
+      const callback = handler as (...callbackArgs: unknown[]) => void
+      const id = originals.setTimeout.call(
+        window,
+        (...callbackArgs: unknown[]) => {
+          collector.#untrack(collector.#timers, id, record)
+          callback(...callbackArgs)
+        },
+        timeout,
+        ...args,
+      )
+      collector.#timers.set(id, record)
+      return id
+    }
+
+    globals.setInterval = function (handler: TimerHandler, timeout?: number, ...args: unknown[]): number {
+      const id = originals.setInterval.call(window, handler, timeout, ...args)
+      const collector = TimerCollector.#registry?.currentCollector
+      if (collector && !isUntracked() && typeof handler === 'function') {
+        collector.#timers.set(id, {kind: 'interval', callSite: captureCallSite()})
+      }
+      return id
+    }
+
+    globals.requestAnimationFrame = function (callback: FrameRequestCallback): number {
+      const collector = TimerCollector.#registry?.currentCollector
+      if (!collector || isUntracked()) {
+        return originals.requestAnimationFrame.call(window, callback)
+      }
+
+      const record: TimerRecord = {kind: 'animationFrame', callSite: captureCallSite()}
+      const id = originals.requestAnimationFrame.call(window, time => {
+        collector.#untrack(collector.#animationFrames, id, record)
+        callback(time)
+      })
+      collector.#animationFrames.set(id, record)
+      return id
+    }
+
+    const clearTimer = (id: number | undefined) => {
+      const collector = TimerCollector.#registry?.currentCollector
+      if (collector && id !== undefined) {
+        collector.#timers.delete(id)
+      }
+    }
+    globals.clearTimeout = function (id?: number): void {
+      originals.clearTimeout.call(window, id)
+      clearTimer(id)
+    }
+    globals.clearInterval = function (id?: number): void {
+      originals.clearInterval.call(window, id)
+      clearTimer(id)
+    }
+    globals.cancelAnimationFrame = function (id: number): void {
+      originals.cancelAnimationFrame.call(window, id)
+      const collector = TimerCollector.#registry?.currentCollector
+      if (collector) {
+        collector.#animationFrames.delete(id)
+      }
+    }
+  }
+
+  /**
+   * Stop tracking a timer whose callback is running. Only `expected` is
+   * removed, in case the collector was restarted and the ID reused.
+   */
+  #untrack(records: Map<number, TimerRecord>, id: number, expected: TimerRecord): void {
+    if (records.get(id) === expected) {
+      records.delete(id)
+    }
+  }
+}
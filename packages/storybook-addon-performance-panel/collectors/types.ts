@@ -3,6 +3,8 @@
  * @module collectors/types
  */
 
+import type {TimelineEvent} from '../core/performance-types'
+
 /**
  * Base interface for all metric collectors.
  * Each collector is responsible for a specific category of metrics.
@@ -17,3 +19,11 @@ export interface MetricCollector<T> {
   /** Get current metrics */
   getMetrics(): T
 }
+
+/**
+ * Collector that also keeps recent timestamped events for the timeline view.
+ */
+export interface TimelineSource {
+  /** Recent timeline events, oldest first */
+  getTimelineEvents(): TimelineEvent[]
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview User Timing metrics collector
+ * @module collectors/UserTimingCollector
+ *
+ * Collects `performance.mark()` and `performance.measure()` entries created
+ * by the story, so timings components already record around expensive work
+ * show up in the panel. Measures are grouped by name.
+ *
+ * @see https://w3c.github.io/user-timing/
+ */
+
+import type {TimelineEvent, UserMarkInfo, UserMeasureStats} from '../core/performance-types'
+import {TIMELINE_EVENTS_WINDOW} from './constants'
+import type {MetricCollector, TimelineSource} from './types'
+import {addToWindow, computeAverage, computeP95} from './utils'
+
+export interface UserTimingMetrics {
+  /** Marks created since the epoch */
+  markCount: number
+  /** Most frequent mark names */
+  marks: UserMarkInfo[]
+  /** Measures created since the epoch */
+  measureCount: number
+  /** Measures grouped by name, slowest p95 first */
+  measures: UserMeasureStats[]
+}
+
+/** Recent durations kept per measure name for average and p95 */
+const MEASURE_DURATIONS_WINDOW = 100
+
+/** Distinct measure or mark names tracked. Entries with other names are counted but not grouped. */
+const MAX_NAMES = 50
+
+/** Number of mark names included in {@link UserTimingMetrics.marks} */
+const MAX_MARKS = 10
+
+interface MeasureRecord {
+  count: number
+  durations: number[]
+  maxDuration: number
+}
+
+/**
+ * Collects User Timing marks and measures.
+ *
+ * Only entries that end after the collector started or was reset are
+ * counted, so buffered entries from earlier stories are ignored. A measure
+ * spanning from page load (`performance.measure(name)` without a start)
+ * still counts, because it ends after the epoch.
+ */
+export class UserTimingCollector implements MetricCollector<UserTimingMetrics>, TimelineSource {
+  #markCount = 0
+  #marks = new Map<string, number>()
+  #measureCount = 0
+  #measures = new Map<string, MeasureRecord>()
+  #timeline: TimelineEvent[] = []
+  /** Entries ending before this timestamp belong to an earlier story or reset. */
+  #epochMs = 0
+
+  #observer: PerformanceObserver | null = null
+
+  start(): void {
+    this.#epochMs = performance.now()
+    try {
+      this.#observer = new PerformanceObserver(list => {
+        for (const entry of list.getEntries()) {
+          this.#processEntry(entry)
+        }
+      })
+      this.#observer.observe({type: 'mark', buffered: true})
+      this.#observer.observe({type: 'measure', buffered: true})
+    } catch {
+      // Browsers that can't observe by `type` report no user timings
+    }
+  }
+
+  #processEntry(entry: PerformanceEntry): void {
+    if (entry.startTime + entry.duration < this.#epochMs) return
+
+    if (entry.entryType === 'mark') {
+      this.#markCount++
+      const count = this.#marks.get(entry.name)
+      if (count !== undefined) {
+        this.#marks.set(entry.name, count + 1)
+      } else if (this.#marks.size < MAX_NAMES) {
+        this.#marks.set(entry.name, 1)
+      }
+      return
+    }
+
+    this.#measureCount++
+    addToWindow(
+      this.#timeline,
+      {track: 'measure', name: entry.name, startTime: entry.startTime, duration: entry.duration},
+      TIMELINE_EVENTS_WINDOW,
+    )
+    let record = this.#measures.get(entry.name)
+    if (!record) {
+      if (this.#measures.size >= MAX_NAMES) return
+      record = {count: 0, durations: [], maxDuration: 0}
+      this.#measures.set(entry.name, record)
+    }
+    record.count++
+    addToWindow(record.durations, entry.duration, MEASURE_DURATIONS_WINDOW)
+    record.maxDuration = Math.max(record.maxDuration, entry.duration)
+  }
+
+  stop(): void {
+    this.#observer?.disconnect()
+    this.#observer = null
+  }
+
+  reset(): void {
+    this.#markCount = 0
+    this.#marks.clear()
+    this.#measureCount = 0
+    this.#measures.clear()
+    this.#timeline = []
+    this.#epochMs = performance.now()
+  }
+
+  getTimelineEvents(): TimelineEvent[] {
+    return [...this.#timeline]
+  }
+
+  getMetrics(): UserTimingMetrics {
+    const measures = [...this.#measures].map(([name, record]): UserMeasureStats => ({
+      name,
+      count: record.count,
+      avgDuration: Math.round(computeAverage(record.durations) * 10) / 10,
+      p95Duration: computeP95(record.durations),
+      maxDuration: Math.round(record.maxDuration * 10) / 10,
+    }))
+    const marks = [...this.#marks]
+      .map(([name, count]): UserMarkInfo => ({name, count}))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_MARKS)
+
+    return {
+      markCount: this.#markCount,
+      marks,
+      measureCount: this.#measureCount,
+      measures: measures.sort((a, b) => b.p95Duration - a.p95Duration),
+    }
+  }
+}
@@ -3,6 +3,8 @@
  * @module collectors/utils
  */
 
+import {runUntracked} from './instrumentation'
+
 // ============================================================================
 // Statistical Functions
 // ============================================================================
@@ -142,7 +144,7 @@ export function getMemoryMB(): number | null {
 /**
  * Adds a value to a rolling window array, removing oldest if over limit.
  */
-export function addToWindow(arr: number[], value: number, maxSize: number): void {
+export function addToWindow<T>(arr: T[], value: T, maxSize: number): void {
   arr.push(value)
   if (arr.length > maxSize) arr.shift()
 }
@@ -164,3 +166,164 @@ export function updateMaxWithDecay(
   }
   return currentMax
 }
+
+// ============================================================================
+// DOM Utilities
+// ============================================================================
+
+/**
+ * Short description of an event target or observed node for leak reports:
+ * `window`, `document`, a simple selector or the constructor name.
+ */
+export function describeTarget(target: object): string {
+  if (target === window) return 'window'
+  if (target === document) return 'document'
+  if (target instanceof Element) {
+    if (target.id) return `#${target.id}`
+    const classes = [...target.classList].slice(0, 2)
+    return `${target.tagName.toLowerCase()}${classes.length > 0 ? `.${classes.join('.')}` : ''}`
+  }
+  return target.constructor.name
+}
+
+/**
+ * Whether a DOM node was removed from the document. Listeners and
+ * observers on detached nodes can't fire and are freed with the node.
+ */
+export function isDetachedNode(target: object): boolean {
+  return target instanceof Node && !target.isConnected
+}
+
+/**
+ * Generates a simple CSS selector for an element: its ID, its
+ * `elementtiming` attribute, or its tag and first two classes.
+ */
+export function getSimpleSelector(element: Element | null): string {
+  if (!element) return 'unknown'
+
+  // Try ID first
+  if (element.id) {
+    return `#${element.id}`
+  }
+
+  // Try elementtiming attribute
+  const timing = element.getAttribute('elementtiming')
+  if (timing) {
+    return `[elementtiming="${timing}"]`
+  }
+
+  // Fall back to tag + class. Read the attribute, since `className` isn't a string on SVG elements.
+  const className = element.getAttribute('class') ?? ''
+  const classes = className
+    ? `.${className
+        .split(/\s+/)
+        .filter(c => c)
+        .slice(0, 2)
+        .join('.')}`
+    : ''
+
+  return `${element.tagName.toLowerCase()}${classes}`
+}
+
+// ============================================================================
+// Interaction Tracking
+// ============================================================================
+
+/** Events that start an interaction other work can be attributed to */
+const INTERACTION_EVENTS = ['pointerdown', 'click', 'keydown', 'input'] as const
+
+/** Recent interactions kept for attribution */
+const MAX_RECENT_INTERACTIONS = 20
+
+/**
+ * Interactions shared by every collector that attributes work to them, so
+ * the page gets one set of window listeners however many collectors run.
+ */
+const interactionTracking = {
+  trackers: 0,
+  recent: [] as {time: number; description: string}[],
+  listeners: new Set<(event: Event) => void>(),
+}
+
+function handleInteraction(event: Event): void {
+  if (event instanceof KeyboardEvent && event.repeat) return
+  const target = event.target instanceof Element ? getSimpleSelector(event.target) : 'document'
+  addToWindow(
+    interactionTracking.recent,
+    {time: event.timeStamp, description: `${event.type} on ${target}`},
+    MAX_RECENT_INTERACTIONS,
+  )
+  for (const listener of interactionTracking.listeners) listener(event)
+}
+
+/**
+ * Start recording pointer, click, keyboard and input events for
+ * {@link findRecentInteraction}. Held key repeats are skipped. `onInteraction`
+ * is called for each recorded event.
+ *
+ * @returns A function that stops tracking for this caller. Listeners are
+ * removed and recent interactions cleared once no caller is tracking.
+ */
+export function trackInteractions(onInteraction?: (event: Event) => void): () => void {
+  if (interactionTracking.trackers++ === 0) {
+    // The addon's own listeners, not the story's
+    runUntracked(() => {
+      for (const type of INTERACTION_EVENTS) {
+        window.addEventListener(type, handleInteraction, {capture: true})
+      }
+    })
+  }
+  if (onInteraction) interactionTracking.listeners.add(onInteraction)
+
+  let stopped = false
+  return () => {
+    if (stopped) return
+    stopped = true
+    if (onInteraction) interactionTracking.listeners.delete(onInteraction)
+    if (--interactionTracking.trackers > 0) return
+    for (const type of INTERACTION_EVENTS) {
+      window.removeEventListener(type, handleInteraction, {capture: true})
+    }
+    interactionTracking.recent = []
+  }
+}
+
+/**
+ * Describe the latest interaction at most `windowMs` before `time`, such as
+ * `click on button.save`, or return null when there is none.
+ */
+export function findRecentInteraction(time: number, windowMs: number): string | null {
+  const {recent} = interactionTracking
+  for (let i = recent.length - 1; i >= 0; i--) {
+    const interaction = recent[i]
+    if (!interaction || interaction.time > time) continue
+    return time - interaction.time <= windowMs ? interaction.description : null
+  }
+  return null
+}
+
+// ============================================================================
+// Stack Trace Utilities
+// ============================================================================
+
+/** Stack frames end with `:line:column`, optionally followed by `)` in Chrome */
+const STACK_FRAME_PATTERN = /:\d+:\d+\)?$/
+
+/**
+ * Find the frame that called a patched function or property accessor, as
+ * `function (/path/file.ts:line:column)`. Must be called directly from the
+ * patched function: the first two frames are this function and the
+ * patched function.
+ */
+export function captureCallSite(): string {
+  const frames = (new Error().stack ?? '').split('\n').filter(line => STACK_FRAME_PATTERN.test(line.trim()))
+  const frame = frames[2]?.trim()
+  if (!frame) return 'unknown'
+  return (
+    frame
+      .replace(/^at /, '')
+      .replace(location.origin, '')
+      // Drop cache-busting query strings added by dev servers
+      .replace(/\?[^:)]*(?=:\d+:\d+\)?$)/, '')
+  )
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Preview global for external test harnesses
+ *
+ * Installs `window.__STORYBOOK_PERFORMANCE__` in the preview iframe so
+ * Playwright (or any browser automation) can read what the addon collected
+ * without scraping the panel. The object is backed by
+ * {@link performanceStore} and the active {@link PerformanceMonitorCore}.
+ *
+ * The shape is versioned. Additive changes keep the version; breaking
+ * changes bump {@link GLOBAL_API_VERSION}, so harnesses can check it first.
+ *
+ * @example
+ * // Playwright, against iframe.html?id=...&performancePanelHeadless=true
+ * const metrics = await page.evaluate(() => window.__STORYBOOK_PERFORMANCE__.waitForIdle())
+ * expect(metrics.inpMs ?? 0).toBeLessThan(200)
+ *
+ * @module core/global-api
+ */
+
+import {runUntracked} from '../collectors/instrumentation'
+import {
+  type BudgetResult,
+  evaluateBudgets,
+  evaluateMeasureBudgets,
+  type MeasureBudgetResult,
+} from './performance-budgets'
+import {performanceStore, type ProfilerMetrics} from './performance-store'
+import type {PerformanceMetrics, TimelineEvent} from './performance-types'
+import {getActiveCore} from './preview-core'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Property name of the preview global */
+export const GLOBAL_API_KEY = '__STORYBOOK_PERFORMANCE__'
+
+/** Version of the {@link StorybookPerformanceApi} shape */
+export const GLOBAL_API_VERSION = 1
+
+/** How long the page must stay quiet before `waitForIdle` resolves (ms) */
+const DEFAULT_QUIET_MS = 500
+
+/** Upper bound for `waitForIdle` (ms) */
+const DEFAULT_IDLE_TIMEOUT_MS = 10_000
+
+/** How often `waitForIdle` checks for React commits (ms) */
+const IDLE_POLL_INTERVAL_MS = 50
+
+export interface WaitForIdleOptions {
+  /** Quiet period with no DOM mutations or React commits (default 500ms) */
+  quietMs?: number
+  /** Resolve anyway after this long (default 10s) */
+  timeoutMs?: number
+}
+
+export interface StorybookPerformanceApi {
+  /** Shape version, see {@link GLOBAL_API_VERSION} */
+  readonly version: typeof GLOBAL_API_VERSION
+  /** ID of the story being measured, or `null` when monitoring is disabled */
+  getStoryId(): string | null
+  /** Latest metrics. Fresh while collectors run, otherwise the last stored snapshot. */
+  getMetrics(): PerformanceMetrics
+  /** React profiler metrics keyed by profiler ID */
+  getProfilers(): Record<string, ProfilerMetrics>
+  /** Latest metrics checked against `parameters.performancePanel.budgets` */
+  getBudgetResults(): BudgetResult[]
+  /** Latest user timing measures checked against `parameters.performancePanel.measureBudgets` */
+  getMeasureBudgetResults(): MeasureBudgetResult[]
+  /**
+   * Recent timestamped events (frames, long tasks, interactions, React
+   * commits, ...) sorted by start time, with `performance.now()` timestamps.
+   * Empty when monitoring is disabled.
+   */
+  getTimelineEvents(): TimelineEvent[]
+  /** Clear all collected metrics for the current story */
+  reset(): void
+  /**
+   * Start collection if needed, wait until the story has stopped rendering
+   * and mutating the DOM, then return the latest metrics.
+   */
+  waitForIdle(options?: WaitForIdleOptions): Promise<PerformanceMetrics>
+  /**
+   * Call `listener` with the latest metrics whenever the store changes.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (metrics: PerformanceMetrics) => void): () => void
+}
+
+declare global {
+  interface Window {
+    __STORYBOOK_PERFORMANCE__?: StorybookPerformanceApi
+  }
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+function getMetrics(): PerformanceMetrics {
+  const core = getActiveCore()
+  return core?.isCollecting ? core.collectMetrics() : performanceStore.getGlobalMetrics()
+}
+
+function getProfilers(): Record<string, ProfilerMetrics> {
+  const profilers: Record<string, ProfilerMetrics> = {}
+  for (const [id, metrics] of performanceStore.getSnapshot().profilers) {
+    profilers[id] = metrics
+  }
+  return profilers
+}
+
+/** Most recent profiler update time, used to detect React commits */
+function getLastCommitTime(): number {
+  let last = 0
+  for (const metrics of performanceStore.getSnapshot().profilers.values()) {
+    last = Math.max(last, metrics.lastUpdated)
+  }
+  return last
+}
+
+function waitForIdle({
+  quietMs = DEFAULT_QUIET_MS,
+  timeoutMs = DEFAULT_IDLE_TIMEOUT_MS,
+}: WaitForIdleOptions = {}): Promise<PerformanceMetrics> {
+  getActiveCore()?.requestCollection()
+
+  return new Promise(resolve => {
+    const startedAt = performance.now()
+    let lastActivity = startedAt
+    let lastCommit = getLastCommitTime()
+
+    const observer = runUntracked(
+      () =>
+        new MutationObserver(() => {
+          lastActivity = performance.now()
+        }),
+    )
+    observer.observe(document.body, {childList: true, subtree: true, attributes: true, characterData: true})
+
+    const check = () => {
+      const commit = getLastCommitTime()
+      const now = performance.now()
+      if (commit !== lastCommit) {
+        lastCommit = commit
+        lastActivity = now
+      }
+      if (now - lastActivity >= quietMs || now - startedAt >= timeoutMs) {
+        observer.disconnect()
+        resolve(getMetrics())
+        return
+      }
+      runUntracked(() => setTimeout(check, IDLE_POLL_INTERVAL_MS))
+    }
+    runUntracked(() => setTimeout(check, IDLE_POLL_INTERVAL_MS))
+  })
+}
+
+function createGlobalApi(): StorybookPerformanceApi {
+  return {
+    version: GLOBAL_API_VERSION,
+    getStoryId: () => getActiveCore()?.storyId ?? null,
+    getMetrics,
+    getProfilers,
+    getBudgetResults: () => evaluateBudgets(getMetrics(), getActiveCore()?.budgets),
+    getMeasureBudgetResults: () => evaluateMeasureBudgets(getMetrics().userMeasures, getActiveCore()?.measureBudgets),
+    getTimelineEvents: () => getActiveCore()?.manager.collectTimeline() ?? [],
+    reset() {
+      const core = getActiveCore()
+      if (core) {
+        core.reset()
+      } else {
+        performanceStore.resetAll()
+      }
+    },
+    waitForIdle,
+    subscribe(listener) {
+      return performanceStore.subscribe(() => {
+        listener(performanceStore.getGlobalMetrics())
+      })
+    },
+  }
+}
+
+/**
+ * Install `window.__STORYBOOK_PERFORMANCE__` if it isn't there yet.
+ * Called by the decorator on every render, so it must stay cheap.
+ */
+export function installGlobalApi(): void {
+  if (typeof window === 'undefined' || window[GLOBAL_API_KEY]) return
+  window[GLOBAL_API_KEY] = createGlobalApi()
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Headless collection opt-in
+ *
+ * By default collectors only run while the panel is visible. Headless mode
+ * starts them as soon as the story renders and keeps the latest metrics in
+ * the preview's {@link performanceStore}, so test runners, embedded iframes
+ * and CI jobs can read numbers without a manager UI attached.
+ *
+ * Headless mode is enabled by any of:
+ * 1. `parameters.performancePanel.headless: true`
+ * 2. `globals.performancePanelHeadless: true` (e.g. `initialGlobals`, or
+ *    `&globals=performancePanelHeadless:!true` in the URL)
+ * 3. `?performancePanelHeadless` or `?performancePanelHeadless=true` in the
+ *    preview iframe URL
+ *
+ * @module core/headless
+ */
+
+import type {PerformancePanelParameters} from './performance-types'
+
+/** Global key for headless mode, e.g. `initialGlobals: {performancePanelHeadless: true}` */
+export const HEADLESS_GLOBAL_KEY = 'performancePanelHeadless'
+
+/** Query parameter for headless mode on the preview iframe URL */
+export const HEADLESS_URL_PARAM = 'performancePanelHeadless'
+
+/** Read the headless flag from a URL query string. `false` and `0` disable it. */
+export function isHeadlessUrl(search: string): boolean {
+  const value = new URLSearchParams(search).get(HEADLESS_URL_PARAM)
+  if (value === null) return false
+  return value !== 'false' && value !== '0'
+}
+
+/**
+ * Whether headless collection is requested for a story.
+ *
+ * @param params - The story's `performancePanel` parameters
+ * @param globals - The story's globals
+ * @param search - Query string of the preview URL
+ */
+export function isHeadlessRequested(
+  params: PerformancePanelParameters | undefined,
+  globals: Record<string, unknown> | undefined,
+  search: string = typeof window === 'undefined' ? '' : window.location.search,
+): boolean {
+  return params?.headless === true || globals?.[HEADLESS_GLOBAL_KEY] === true || isHeadlessUrl(search)
+}
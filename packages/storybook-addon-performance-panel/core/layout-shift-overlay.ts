@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Layout shift overlay
+ *
+ * Draws the before and after rectangles of recent layout shifts over the
+ * preview, so it's visible which elements moved and by how much. Previous
+ * positions are dashed, current positions are solid and labeled with the
+ * shift score.
+ *
+ * Rectangles are viewport coordinates recorded at the time of each shift,
+ * so they no longer line up once the story scrolls.
+ *
+ * @module core/layout-shift-overlay
+ */
+
+import type {LayoutShiftInfo, ShiftRect} from './performance-types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** ID of the overlay container */
+const OVERLAY_ID = 'perf-layout-shift-overlay'
+
+const PREVIOUS_RECT_STYLE = 'border: 2px dashed #f90; background: rgba(255, 153, 0, 0.08);'
+const CURRENT_RECT_STYLE = 'border: 2px solid #f06; background: rgba(255, 0, 102, 0.08);'
+const LABEL_STYLE =
+  'position: absolute; top: -18px; left: -2px; padding: 0 4px; font: 11px/16px monospace; color: #fff; background: #f06;'
+
+// ============================================================================
+// Overlay
+// ============================================================================
+
+let overlay: HTMLElement | null = null
+/** Shifts the overlay currently shows, to skip redrawing unchanged lists */
+let renderedShifts: readonly LayoutShiftInfo[] = []
+
+function createRectElement(rect: ShiftRect, style: string): HTMLElement {
+  const element = document.createElement('div')
+  element.style.cssText = `position: absolute; box-sizing: border-box; left: ${String(rect.x)}px; top: ${String(rect.y)}px; width: ${String(rect.width)}px; height: ${String(rect.height)}px; ${style}`
+  return element
+}
+
+function createShiftElements(shift: LayoutShiftInfo): HTMLElement[] {
+  return shift.sources.flatMap(source => {
+    const previous = createRectElement(source.previousRect, PREVIOUS_RECT_STYLE)
+    const current = createRectElement(source.currentRect, CURRENT_RECT_STYLE)
+    const label = document.createElement('span')
+    label.style.cssText = LABEL_STYLE
+    label.textContent = String(shift.score)
+    current.appendChild(label)
+    return [previous, current]
+  })
+}
+
+function isSameShiftList(a: readonly LayoutShiftInfo[], b: readonly LayoutShiftInfo[]): boolean {
+  return a.length === b.length && a.every((shift, index) => shift === b[index])
+}
+
+/**
+ * Show the overlay with the given shifts, replacing any shifts it showed
+ * before. Shifts without attribution are skipped.
+ */
+export function renderLayoutShiftOverlay(shifts: readonly LayoutShiftInfo[]): void {
+  if (overlay && isSameShiftList(shifts, renderedShifts)) return
+
+  if (!overlay) {
+    overlay = document.createElement('div')
+    overlay.id = OVERLAY_ID
+    overlay.setAttribute('aria-hidden', 'true')
+    overlay.style.cssText = 'position: fixed; inset: 0; z-index: 2147483647; pointer-events: none;'
+    // Outside <body> so the DOM mutation and element counts don't include it
+    document.documentElement.appendChild(overlay)
+  }
+
+  overlay.replaceChildren(...shifts.flatMap(createShiftElements))
+  renderedShifts = shifts
+}
+
+/** Remove the overlay from the preview. */
+export function removeLayoutShiftOverlay(): void {
+  overlay?.remove()
+  overlay = null
+  renderedShifts = []
+}
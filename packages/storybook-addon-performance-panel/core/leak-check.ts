@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Remount leak check
+ *
+ * Unmounts and remounts the current story repeatedly through Storybook's
+ * `FORCE_REMOUNT` event and samples heap size, DOM nodes and event listeners
+ * after every cycle. A story that cleans up after itself returns to the same
+ * numbers each time; one that leaks grows by a roughly constant amount per
+ * remount, so the check fits a line through the samples and flags slopes
+ * above {@link LEAK_CHECK_SLOPE_LIMITS}.
+ *
+ * This automates the usual DevTools routine of remounting a component a few
+ * times and comparing heap snapshots.
+ *
+ * @module core/leak-check
+ */
+
+import {FORCE_REMOUNT, STORY_ERRORED, STORY_RENDERED, STORY_THREW_EXCEPTION} from 'storybook/internal/core-events'
+import {addons} from 'storybook/preview-api'
+
+import {runUntracked} from '../collectors/instrumentation'
+import {LEAK_CHECK_SLOPE_LIMITS, type LeakCheckResult, type LeakCheckSample} from './performance-types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Most remounts a single check may run */
+export const MAX_LEAK_CHECK_CYCLES = 50
+
+/** Longest wait for a remounted story to render (ms) */
+const REMOUNT_TIMEOUT_MS = 10_000
+
+/** Time given to effects and timers scheduled on mount before sampling (ms) */
+const SETTLE_MS = 100
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Least-squares slope of `values` against their index, i.e. the average
+ * change per sample. Returns `0` for fewer than two values.
+ */
+export function computeSlope(values: readonly number[]): number {
+  const n = values.length
+  if (n < 2) return 0
+
+  const meanX = (n - 1) / 2
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n
+  let numerator = 0
+  let denominator = 0
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY)
+    denominator += (x - meanX) ** 2
+  })
+  return numerator / denominator
+}
+
+function roundSlope(slope: number): number {
+  return Math.round(slope * 100) / 100
+}
+
+/**
+ * Compute growth per remount from leak check samples and decide whether the
+ * story likely leaks.
+ *
+ * @param storyId - The story that was remounted
+ * @param samples - Samples in cycle order, starting with the warm-up sample
+ */
+export function analyzeLeakCheck(storyId: string, samples: LeakCheckSample[]): LeakCheckResult {
+  const memory = samples.map(sample => sample.memoryMB)
+  const memorySlope = memory.every((value): value is number => value !== null) ? computeSlope(memory) : null
+  const domNodeSlope = computeSlope(samples.map(sample => sample.domNodes))
+  const listenerSlope = computeSlope(samples.map(sample => sample.listeners))
+
+  return {
+    storyId,
+    cycles: Math.max(0, samples.length - 1),
+    samples,
+    memorySlopeMB: memorySlope === null ? null : roundSlope(memorySlope),
+    domNodeSlope: roundSlope(domNodeSlope),
+    listenerSlope: roundSlope(listenerSlope),
+    likelyLeak:
+      (memorySlope !== null && memorySlope >= LEAK_CHECK_SLOPE_LIMITS.memoryMB) ||
+      domNodeSlope >= LEAK_CHECK_SLOPE_LIMITS.domNodes ||
+      listenerSlope >= LEAK_CHECK_SLOPE_LIMITS.listeners,
+  }
+}
+
+// ============================================================================
+// Remounting
+// ============================================================================
+
+/**
+ * Ask Storybook to unmount and remount a story, resolving once it has
+ * rendered again (including its play function).
+ *
+ * @throws {Error} If the story errors or doesn't render within {@link REMOUNT_TIMEOUT_MS}.
+ */
+export function remountStory(storyId: string): Promise<void> {
+  const channel = addons.getChannel()
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timeoutId)
+      channel.off(STORY_RENDERED, handleRendered)
+      channel.off(STORY_ERRORED, handleErrored)
+      channel.off(STORY_THREW_EXCEPTION, handleErrored)
+    }
+    const handleRendered = (renderedId: string) => {
+      if (renderedId !== storyId) return
+      cleanup()
+      resolve()
+    }
+    const handleErrored = () => {
+      cleanup()
+      reject(new Error(`Story "${storyId}" failed to render while remounting`))
+    }
+    const timeoutId = runUntracked(() =>
+      setTimeout(() => {
+        cleanup()
+        reject(
+          new Error(`Story "${storyId}" did not render within ${String(REMOUNT_TIMEOUT_MS / 1000)}s of remounting`),
+        )
+      }, REMOUNT_TIMEOUT_MS),
+    )
+
+    channel.on(STORY_RENDERED, handleRendered)
+    channel.on(STORY_ERRORED, handleErrored)
+    channel.on(STORY_THREW_EXCEPTION, handleErrored)
+    channel.emit(FORCE_REMOUNT, {storyId})
+  })
+}
+
+interface WindowWithGC extends Window {
+  /** Exposed when Chromium runs with `--js-flags=--expose-gc` */
+  gc?: () => void
+}
+
+/**
+ * Let the remounted story settle, then collect garbage when the browser
+ * allows it so the heap sample reflects retained memory.
+ */
+async function settle(): Promise<void> {
+  await new Promise(resolve => runUntracked(() => setTimeout(resolve, SETTLE_MS)))
+  const {gc} = window as WindowWithGC
+  gc?.()
+}
+
+export interface LeakCheckOptions {
+  /** Remounts to sample after the warm-up remount */
+  cycles: number
+  /** Unmount and remount the story, resolving once it has rendered */
+  remount: () => Promise<void>
+  /** Measure the current state */
+  sample: () => Omit<LeakCheckSample, 'cycle'>
+  /** Called after each sampled remount */
+  onProgress?: (completed: number, cycles: number) => void
+}
+
+/**
+ * Remount a story `cycles + 1` times and analyze the samples. The first
+ * remount warms up caches and lazily created globals, so its sample is the
+ * baseline rather than the state before the check.
+ *
+ * @throws {Error} If a remount fails.
+ */
+export async function runLeakCheck(
+  storyId: string,
+  {cycles, remount, sample, onProgress}: LeakCheckOptions,
+): Promise<LeakCheckResult> {
+  const total = Math.min(Math.max(1, Math.round(cycles)), MAX_LEAK_CHECK_CYCLES)
+  const samples: LeakCheckSample[] = []
+
+  for (let cycle = 0; cycle <= total; cycle++) {
+    await remount()
+    await settle()
+    samples.push({cycle, ...sample()})
+    if (cycle > 0) {
+      onProgress?.(cycle, total)
+    }
+  }
+
+  return analyzeLeakCheck(storyId, samples)
+}
@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Play function assertions for performance metrics
+ *
+ * Reads metrics straight from the active {@link PerformanceMonitorCore} in the
+ * preview, so assertions work with the panel closed and in
+ * `@storybook/addon-vitest` runs where no manager is attached. Failed
+ * assertions throw a {@link PerformanceAssertionError}, which Storybook shows
+ * in the Interactions panel and test runners report as a failure.
+ *
+ * @example
+ * export const OpenMenu = meta.story({
+ *   async play({canvasElement, userEvent, canvas}) {
+ *     const perf = expectPerformance(canvasElement)
+ *     await userEvent.click(canvas.getByRole('button'))
+ *     await perf.toHaveINPBelow(200)
+ *     await perf.toHaveNoForcedReflows()
+ *   },
+ * })
+ *
+ * @module core/performance-assertions
+ */
+
+import {runUntracked} from '../collectors/instrumentation'
+import {
+  type BudgetMetricKey,
+  evaluateBudgets,
+  evaluateMeasureBudgets,
+  formatBudget,
+  type MeasureBudgets,
+  type PerformanceBudgets,
+} from './performance-budgets'
+import type {PerformanceMetrics} from './performance-types'
+import {getActiveCore, type PerformanceMonitorCore} from './preview-core'
+
+/**
+ * Thrown when a performance assertion fails or metrics can't be read.
+ */
+export class PerformanceAssertionError extends Error {
+  /** Metric the assertion checked, when there is one */
+  readonly metric: string | undefined
+
+  constructor(message: string, metric?: string) {
+    super(message)
+    this.name = 'PerformanceAssertionError'
+    this.metric = metric
+  }
+}
+
+function requireActiveCore(): PerformanceMonitorCore {
+  const core = getActiveCore()
+  if (!core) {
+    throw new PerformanceAssertionError(
+      'No active performance monitor. Make sure the performance panel addon is registered and not disabled for this story.',
+    )
+  }
+  return core
+}
+
+/**
+ * Resolve after the next frame has been presented, so that observers for
+ * work done in the current task (event timing, layout shifts, long animation
+ * frames) have delivered their entries.
+ */
+function waitForNextPaint(): Promise<void> {
+  return new Promise(resolve => {
+    runUntracked(() =>
+      requestAnimationFrame(() => {
+        runUntracked(() => setTimeout(resolve, 0))
+      }),
+    )
+  })
+}
+
+/**
+ * Read the current metrics for the active story.
+ *
+ * Starts collection if it isn't running yet (for example when the panel is
+ * closed). Metrics only cover what happened after collection started, so
+ * call {@link expectPerformance} at the top of the play function when you
+ * need to measure the interactions it performs.
+ *
+ * @throws {PerformanceAssertionError} If no performance monitor is active.
+ */
+export async function getPerformanceMetrics(): Promise<PerformanceMetrics> {
+  const core = requireActiveCore()
+  core.requestCollection()
+  await waitForNextPaint()
+  await waitForNextPaint()
+  return core.collectMetrics()
+}
+
+function formatValue(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+function assertBelow(metric: BudgetMetricKey, label: string, actual: number | null, limit: number): void {
+  if (actual === null) {
+    throw new PerformanceAssertionError(`${label} is not available in this browser`, metric)
+  }
+  if (!(actual < limit)) {
+    throw new PerformanceAssertionError(
+      `Expected ${label} to be below ${formatValue(limit)}, but it was ${formatValue(actual)}`,
+      metric,
+    )
+  }
+}
+
+export interface PerformanceExpectation {
+  /** Interaction to Next Paint (ms) is strictly below `ms` */
+  toHaveINPBelow(ms: number): Promise<void>
+  /** Cumulative Layout Shift is strictly below `score` */
+  toHaveCLSBelow(score: number): Promise<void>
+  /** No layout reads forced a synchronous reflow */
+  toHaveNoForcedReflows(): Promise<void>
+  /** Fewer than `count` elements inside the canvas (or story root) */
+  toHaveDOMElementsBelow(count: number): Promise<void>
+  /** Any numeric metric is strictly below `value` */
+  toHaveMetricBelow(metric: BudgetMetricKey, value: number): Promise<void>
+  /**
+   * No budget is exceeded. Defaults to the story's
+   * `parameters.performancePanel.budgets` and `measureBudgets`. Metrics
+   * without data in this browser and measures that weren't recorded don't
+   * fail, like in the panel and the CLI.
+   */
+  toMeetBudgets(budgets?: PerformanceBudgets, measureBudgets?: MeasureBudgets): Promise<void>
+}
+
+/**
+ * Create performance assertions for the current story.
+ *
+ * Collection starts as soon as this is called, so create the expectation
+ * before performing the interactions you want to measure.
+ *
+ * @param canvasElement - The play function's `canvasElement`, used to scope
+ *   DOM element counts. Falls back to the story root.
+ * @throws {PerformanceAssertionError} If no performance monitor is active.
+ */
+export function expectPerformance(canvasElement?: HTMLElement): PerformanceExpectation {
+  const core = requireActiveCore()
+  core.requestCollection()
+
+  return {
+    async toHaveINPBelow(ms) {
+      const metrics = await getPerformanceMetrics()
+      if (!metrics.eventTimingSupported) {
+        throw new PerformanceAssertionError('INP is not available: Event Timing API is not supported', 'inpMs')
+      }
+      assertBelow('inpMs', 'INP (ms)', metrics.inpMs, ms)
+    },
+
+    async toHaveCLSBelow(score) {
+      const metrics = await getPerformanceMetrics()
+      assertBelow('layoutShiftScore', 'CLS', metrics.layoutShiftScore, score)
+    },
+
+    async toHaveNoForcedReflows() {
+      const metrics = await getPerformanceMetrics()
+      if (metrics.forcedReflowCount > 0) {
+        throw new PerformanceAssertionError(
+          `Expected no forced reflows, but ${String(metrics.forcedReflowCount)} occurred`,
+          'forcedReflowCount',
+        )
+      }
+    },
+
+    async toHaveDOMElementsBelow(count) {
+      const metrics = await getPerformanceMetrics()
+      const actual = canvasElement ? canvasElement.querySelectorAll('*').length : metrics.domElements
+      assertBelow('domElements', 'DOM element count', actual, count)
+    },
+
+    async toHaveMetricBelow(metric, value) {
+      const metrics = await getPerformanceMetrics()
+      assertBelow(metric, metric, metrics[metric], value)
+    },
+
+    async toMeetBudgets(budgets = core.budgets, measureBudgets = core.measureBudgets) {
+      if (!budgets && !measureBudgets) {
+        throw new PerformanceAssertionError(
+          'No budgets to check. Pass budgets or set parameters.performancePanel.budgets or measureBudgets.',
+        )
+      }
+      const metrics = await getPerformanceMetrics()
+      const failed = [
+        ...evaluateBudgets(metrics, budgets).map(result => ({...result, name: result.metric})),
+        ...evaluateMeasureBudgets(metrics.userMeasures, measureBudgets).map(result => ({
+          ...result,
+          name: result.measure,
+        })),
+      ].filter(result => result.status === 'fail')
+      if (failed.length > 0) {
+        const details = failed
+          .map(result => `${result.name}: ${formatValue(result.actual ?? 0)} (budget ${formatBudget(result)})`)
+          .join(', ')
+        throw new PerformanceAssertionError(`Performance budgets not met: ${details}`, failed[0]?.name)
+      }
+    },
+  }
+}
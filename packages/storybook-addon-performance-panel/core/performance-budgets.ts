@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Per-story performance budgets
+ *
+ * Budgets encode what "fast enough" means for a story. They are declared in
+ * `parameters.performancePanel.budgets`, keyed by any numeric
+ * {@link PerformanceMetrics} field, and evaluated against the latest metrics.
+ *
+ * Budgets are upper limits, except for metrics where higher is better (FPS,
+ * frame stability) where the budget is the minimum acceptable value.
+ *
+ * @module core/performance-budgets
+ */
+
+import type {PerformanceMetrics, UserMeasureStats} from './performance-types'
+
+/** Keys of {@link PerformanceMetrics} that hold a single numeric value */
+export type BudgetMetricKey = {
+  [K in keyof PerformanceMetrics]-?: PerformanceMetrics[K] extends number | null ? K : never
+}[keyof PerformanceMetrics]
+
+/**
+ * Budget values keyed by metric.
+ *
+ * @example
+ * { inpMs: 200, forcedReflowCount: 0, reactP95Duration: 8, fps: 55 }
+ */
+export type PerformanceBudgets = Partial<Record<BudgetMetricKey, number>>
+
+/**
+ * Outcome of checking one budget:
+ * - `pass`: value is within budget
+ * - `fail`: value exceeds budget
+ * - `no-data`: metric is unavailable in this browser (e.g. heap size outside Chrome)
+ */
+export type BudgetStatus = 'pass' | 'fail' | 'no-data'
+
+export interface BudgetResult {
+  metric: BudgetMetricKey
+  budget: number
+  actual: number | null
+  status: BudgetStatus
+  /** True when the budget is a minimum rather than a maximum */
+  higherIsBetter: boolean
+}
+
+/** Metrics where a larger value is better; budgets on these are minimums */
+const HIGHER_IS_BETTER: ReadonlySet<BudgetMetricKey> = new Set<BudgetMetricKey>(['fps', 'frameStability'])
+
+export function isHigherBetter(metric: BudgetMetricKey): boolean {
+  return HIGHER_IS_BETTER.has(metric)
+}
+
+/**
+ * Check every declared budget against a metrics snapshot.
+ * Results are returned in declaration order.
+ */
+export function evaluateBudgets(metrics: PerformanceMetrics, budgets: PerformanceBudgets | undefined): BudgetResult[] {
+  if (!budgets) return []
+
+  const results: BudgetResult[] = []
+  for (const [metric, budget] of Object.entries(budgets) as [BudgetMetricKey, number | undefined][]) {
+    if (typeof budget !== 'number') continue
+
+    const value: unknown = metrics[metric]
+    const actual = typeof value === 'number' ? value : null
+    const higherIsBetter = isHigherBetter(metric)
+    let status: BudgetStatus = 'no-data'
+    if (actual !== null) {
+      status = (higherIsBetter ? actual >= budget : actual <= budget) ? 'pass' : 'fail'
+    }
+
+    results.push({metric, budget, actual, status, higherIsBetter})
+  }
+  return results
+}
+
+/** Format a budget as a comparison, e.g. `≤ 200` or `≥ 55` */
+export function formatBudget(result: Pick<BudgetResult, 'budget' | 'higherIsBetter'>): string {
+  return `${result.higherIsBetter ? '≥' : '≤'} ${String(result.budget)}`
+}
+
+// ============================================================================
+// Measure Budgets
+// ============================================================================
+
+/**
+ * Maximum p95 duration (ms) keyed by `performance.measure()` name.
+ *
+ * @example
+ * { 'search:filter': 8, 'table:sort': 16 }
+ */
+export type MeasureBudgets = Record<string, number>
+
+export interface MeasureBudgetResult {
+  measure: string
+  budget: number
+  /** p95 duration of the measure, or `null` if it wasn't recorded */
+  actual: number | null
+  status: BudgetStatus
+  /** Always false: measure budgets are maximums */
+  higherIsBetter: false
+}
+
+/**
+ * Check every declared measure budget against the recorded measures.
+ * Measures without a recorded entry report `no-data`.
+ */
+export function evaluateMeasureBudgets(
+  measures: UserMeasureStats[],
+  budgets: MeasureBudgets | undefined,
+): MeasureBudgetResult[] {
+  if (!budgets) return []
+
+  const results: MeasureBudgetResult[] = []
+  for (const [measure, budget] of Object.entries(budgets)) {
+    if (typeof budget !== 'number') continue
+
+    const actual = measures.find(stats => stats.name === measure)?.p95Duration ?? null
+    const status: BudgetStatus = actual === null ? 'no-data' : actual <= budget ? 'pass' : 'fail'
+    results.push({measure, budget, actual, status, higherIsBetter: false})
+  }
+  return results
+}
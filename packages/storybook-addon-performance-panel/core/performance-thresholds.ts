@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Configurable status thresholds
+ *
+ * The panel colour-codes metrics using {@link THRESHOLDS}. Teams with
+ * different targets (120Hz displays, low-end mobile, stricter INP goals)
+ * can replace any {@link ThresholdKey} with a shipped preset and/or
+ * individual overrides.
+ *
+ * Settings are read from two places and applied in this order:
+ * 1. `parameters.performancePanel.thresholds` (global, component or story)
+ * 2. `globals.performancePanelThresholds` (e.g. `initialGlobals` or the URL)
+ *
+ * Within each, the preset is applied first and overrides on top of it.
+ *
+ * @module core/performance-thresholds
+ */
+
+import {type ThresholdKey, THRESHOLDS} from './performance-types'
+
+/** Complete set of status thresholds */
+export type Thresholds = Record<ThresholdKey, number>
+
+/** Subset of thresholds to replace */
+export type ThresholdOverrides = Partial<Thresholds>
+
+export type ThresholdPreset = 'desktop' | 'mobile' | 'strict'
+
+/**
+ * Threshold configuration accepted by parameters and globals.
+ *
+ * @example
+ * // 120Hz dashboards with a stricter INP goal
+ * { preset: 'strict', overrides: { INP_GOOD: 150 } }
+ */
+export interface ThresholdSettings {
+  /** Preset applied on top of the defaults */
+  preset?: ThresholdPreset
+  /** Individual thresholds applied on top of the preset */
+  overrides?: ThresholdOverrides
+}
+
+/** Global key for threshold settings, e.g. `initialGlobals: {performancePanelThresholds: {preset: 'mobile'}}` */
+export const THRESHOLDS_GLOBAL_KEY = 'performancePanelThresholds'
+
+/**
+ * Shipped presets, expressed as changes to {@link THRESHOLDS}.
+ *
+ * - `desktop`: The defaults — 60Hz displays and Web Vitals targets.
+ * - `mobile`: Tolerates slower CPUs for frame and main thread work and is
+ *   tighter on memory growth. Web Vitals targets are unchanged.
+ * - `strict`: 120Hz displays, halved INP/CLS goals and no tolerance for
+ *   forced reflows or long tasks.
+ */
+export const THRESHOLD_PRESETS: Readonly<Record<ThresholdPreset, ThresholdOverrides>> = {
+  desktop: {},
+  mobile: {
+    FPS_GOOD: 50,
+    FPS_WARNING: 24,
+    FRAME_TIME_TARGET: 20,
+    FRAME_TIME_WARNING: 42,
+    DROPPED_FRAMES_WARNING: 20,
+    INPUT_LATENCY_GOOD: 32,
+    INPUT_LATENCY_WARNING: 100,
+    LONG_TASKS_WARNING: 10,
+    LONGEST_TASK_WARNING: 150,
+    LOAF_COUNT_WARNING: 10,
+    LOAF_COUNT_DANGER: 25,
+    REACT_RENDER_GOOD: 12,
+    REACT_RENDER_WARNING: 24,
+    REACT_P95_WARNING: 12,
+    REACT_P95_DANGER: 24,
+    MEMORY_DELTA_WARNING: 3,
+    MEMORY_DELTA_DANGER: 10,
+    LAYERS_WARNING: 10,
+    LAYERS_DANGER: 30,
+  },
+  strict: {
+    FPS_GOOD: 110,
+    FPS_WARNING: 60,
+    FRAME_TIME_TARGET: 8.33,
+    FRAME_TIME_WARNING: 16.67,
+    DROPPED_FRAMES_WARNING: 3,
+    INPUT_LATENCY_GOOD: 8,
+    INPUT_LATENCY_WARNING: 25,
+    INP_GOOD: 100,
+    INP_WARNING: 200,
+    LONG_TASKS_WARNING: 1,
+    LONGEST_TASK_WARNING: 50,
+    TBT_WARNING: 100,
+    TBT_DANGER: 300,
+    LOAF_COUNT_WARNING: 2,
+    LOAF_COUNT_DANGER: 5,
+    CLS_GOOD: 0.05,
+    CLS_WARNING: 0.1,
+    FORCED_REFLOW_WARNING: 1,
+    FORCED_REFLOW_DANGER: 5,
+    REACT_RENDER_GOOD: 4,
+    REACT_RENDER_WARNING: 8,
+    REACT_P95_WARNING: 4,
+    REACT_P95_DANGER: 8,
+  },
+}
+
+function applySettings(thresholds: Thresholds, settings: ThresholdSettings | undefined): Thresholds {
+  if (!settings) return thresholds
+  const preset = settings.preset ? THRESHOLD_PRESETS[settings.preset] : undefined
+  return {...thresholds, ...preset, ...settings.overrides}
+}
+
+/**
+ * Merge threshold settings over the defaults. Later settings win.
+ *
+ * @example
+ * resolveThresholds(parameters.performancePanel?.thresholds, globals.performancePanelThresholds)
+ */
+export function resolveThresholds(...settings: (ThresholdSettings | undefined)[]): Thresholds {
+  return settings.reduce<Thresholds>(applySettings, THRESHOLDS)
+}
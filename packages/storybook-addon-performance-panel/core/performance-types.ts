@@ -13,6 +13,9 @@
  * @module performance-types
  */
 
+import type {MeasureBudgets, PerformanceBudgets} from './performance-budgets'
+import type {ThresholdSettings} from './performance-thresholds'
+
 // ============================================================================
 // React Profiler Types
 // ============================================================================
@@ -79,6 +82,73 @@ export interface ReactMetrics {
   totalActualDuration: number
 }
 
+/**
+ * A single React commit, as reported by a Profiler `onRender` callback.
+ */
+export interface ReactCommitInfo {
+  /** Profiler that reported the commit */
+  profilerId: string
+  phase: RenderInfo['phase']
+  /** When React began rendering this update (ms since page load) */
+  startTime: number
+  /** Time spent rendering the committed update (ms) */
+  actualDuration: number
+  /** Estimated time to render the entire subtree without memoization (ms) */
+  baseDuration: number
+  /** Time from render start to commit, excluding render time (ms) */
+  commitLag: number
+  /** Input event shortly before the commit, e.g. "click on button.save", or null */
+  interaction: string | null
+}
+
+/**
+ * Why a component re-rendered, as reported by the React DevTools profiler:
+ * changed props, changed state or hooks, a changed context value, or
+ * none of these, meaning its parent re-rendered.
+ */
+export type RenderReason = 'props' | 'state' | 'context' | 'parent'
+
+/**
+ * A component that re-rendered in a commit.
+ */
+export interface ComponentRenderInfo {
+  /** Display name of the component */
+  name: string
+  /** Time spent rendering the component itself, excluding children (ms) */
+  selfTime: number
+  reasons: RenderReason[]
+  /** Props whose values changed, when `reasons` includes `props` */
+  changedProps: string[]
+}
+
+/**
+ * The components that re-rendered in one commit.
+ */
+export interface RenderReasonCommitInfo {
+  /** When React committed (ms since page load) */
+  commitTime: number
+  /** Number of components that re-rendered */
+  componentCount: number
+  /** The slowest of those components, slowest first */
+  components: ComponentRenderInfo[]
+}
+
+/**
+ * Re-renders of one component, aggregated across commits.
+ */
+export interface RenderOffenderInfo {
+  name: string
+  renderCount: number
+  /** Total self time across re-renders (ms) */
+  totalSelfTime: number
+  /** Longest self time of a single re-render (ms) */
+  maxSelfTime: number
+  /** Re-renders per reason */
+  reasons: Record<RenderReason, number>
+  /** Props that changed, most often first */
+  changedProps: string[]
+}
+
 // ============================================================================
 // Addon Identifiers
 // ============================================================================
@@ -95,6 +165,11 @@ export const ADDON_ID = 'primer-performance-monitor'
  */
 export const PANEL_ID = `${ADDON_ID}/panel`
 
+/**
+ * Key under which stories declare {@link PerformancePanelParameters}.
+ */
+export const PARAM_KEY = 'performancePanel'
+
 // ============================================================================
 // Channel Events
 // ============================================================================
@@ -122,12 +197,26 @@ export const PERF_EVENTS = {
   REQUEST_PANEL_VISIBILITY: `${ADDON_ID}/request-panel-visibility`,
   /** Panel → Decorator: Highlight/inspect an element by selector */
   INSPECT_ELEMENT: `${ADDON_ID}/inspect-element`,
+  /** Panel → Decorator: Show or hide the before/after rectangles of recent layout shifts */
+  LAYOUT_SHIFT_OVERLAY: `${ADDON_ID}/layout-shift-overlay`,
+  /** Panel → Decorator: Start or stop sending timeline events with each metrics update */
+  TIMELINE_VISIBILITY: `${ADDON_ID}/timeline-visibility`,
+  /** Decorator → Panel: Recent timestamped events for the timeline view */
+  TIMELINE_UPDATE: `${ADDON_ID}/timeline-update`,
   /** Panel → Decorator: Select a specific profiler for display */
   SELECT_PROFILER: `${ADDON_ID}/select-profiler`,
   /** Decorator → Panel: Profiler metrics updated (per-profiler) */
   PROFILER_UPDATE: `${ADDON_ID}/profiler-update`,
   /** Decorator → Panel: List of all profilers changed */
   PROFILERS_CHANGED: `${ADDON_ID}/profilers-changed`,
+  /** Panel → Decorator: Remount the story repeatedly and sample for leaks */
+  RUN_LEAK_CHECK: `${ADDON_ID}/run-leak-check`,
+  /** Decorator → Panel: A leak check remount cycle finished */
+  LEAK_CHECK_PROGRESS: `${ADDON_ID}/leak-check-progress`,
+  /** Decorator → Panel: Leak check finished */
+  LEAK_CHECK_RESULT: `${ADDON_ID}/leak-check-result`,
+  /** Decorator → Panel: Leak check could not finish */
+  LEAK_CHECK_FAILED: `${ADDON_ID}/leak-check-failed`,
 } as const
 
 // ============================================================================
@@ -148,6 +237,9 @@ export const PERF_EVENTS = {
  * - `*_GOOD`: Green threshold (excellent performance)
  * - `*_WARNING`: Yellow threshold (needs attention)
  * - `*_DANGER`: Red threshold (poor performance)
+ *
+ * These are the defaults. Stories can switch to a preset or override
+ * individual values, see {@link ./performance-thresholds.ts}.
  */
 export const THRESHOLDS = {
   // ─────────────────────────────────────────────────────────────────────────
@@ -250,6 +342,14 @@ export const THRESHOLDS = {
   /** GC pressure above this is serious (MB/s) */
   GC_PRESSURE_DANGER: 5,
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // Network
+  // ─────────────────────────────────────────────────────────────────────────
+  /** Request duration below this is good (ms) */
+  REQUEST_DURATION_GOOD: 300,
+  /** Request duration above this is slow (ms) */
+  REQUEST_DURATION_WARNING: 1000,
+
   // ─────────────────────────────────────────────────────────────────────────
   // Observers (informational)
   // ─────────────────────────────────────────────────────────────────────────
@@ -277,7 +377,7 @@ export type ThresholdKey = keyof typeof THRESHOLDS
 
 /**
  * Information about a specific interaction for debugging.
- * Used for lastInteraction and slowestInteraction metrics.
+ * Used for lastInteraction, slowestInteraction and the interaction log.
  */
 export interface InteractionInfo {
   /** Duration of the interaction (ms) */
@@ -315,6 +415,29 @@ export interface LoAFScriptAttribution {
   duration: number
 }
 
+/**
+ * Scripts in long animation frames with the same source URL, function name
+ * and invoker, aggregated across the session.
+ */
+export interface LoAFScriptStats {
+  /** Script source URL, or `unknown` */
+  sourceURL: string
+  /** Function that was executing, or `anonymous` */
+  sourceFunctionName: string
+  /** Type of script invocation (e.g., 'user-callback', 'event-listener') */
+  invokerType: string
+  /** Name of the invoker (e.g., 'BUTTON#save.onclick', 'TimerHandler:setTimeout') */
+  invoker: string
+  /** Long animation frames the script ran in */
+  count: number
+  /** Total execution time (ms) */
+  totalDuration: number
+  /** Total forced style and layout time within the script (ms) */
+  forcedStyleAndLayoutDuration: number
+  /** Longest single execution (ms) */
+  maxDuration: number
+}
+
 /**
  * Details about a Long Animation Frame for debugging.
  * Used for lastLoaf and worstLoaf metrics.
@@ -334,6 +457,262 @@ export interface LoAFDetails {
   topScript: LoAFScriptAttribution | null
 }
 
+/**
+ * Event listeners with the same type and target that were still attached
+ * when their story was torn down.
+ */
+export interface LeakedListenerInfo {
+  /** Event type, e.g. `resize` */
+  type: string
+  /** `window`, `document`, a simple selector or the target's constructor name */
+  target: string
+  /** Number of listeners */
+  count: number
+}
+
+/** Observer constructors tracked by the addon */
+export type ObserverType = 'MutationObserver' | 'ResizeObserver' | 'IntersectionObserver' | 'PerformanceObserver'
+
+/** Active observers of one type */
+export interface ObserverTypeCounts {
+  /** Observers with at least one target */
+  observers: number
+  /** Observed elements, or entry types for `PerformanceObserver` */
+  targets: number
+}
+
+/**
+ * Observers with the same type and first target that were still observing
+ * when their story was torn down.
+ */
+export interface LeakedObserverInfo {
+  type: ObserverType
+  /** First observed target, described like {@link LeakedListenerInfo.target}, or the observed entry types */
+  target: string
+  /** Number of observers */
+  count: number
+}
+
+/** Timer APIs tracked by the addon */
+export type TimerKind = 'timeout' | 'interval' | 'animationFrame'
+
+/** Pending timers with the same kind that were scheduled from the same call site */
+export interface TimerCallSiteInfo {
+  kind: TimerKind
+  /** Stack frame that scheduled the timers, e.g. `Spinner (/src/Spinner.tsx:12:5)` */
+  callSite: string
+  /** Number of timers */
+  count: number
+}
+
+/** Inline style writes to elements with the same selector */
+export interface StyleWriteTargetInfo {
+  /** Selector of the written elements, e.g. `#toolbar` or `div.cell` */
+  selector: string
+  /** Style attribute changes */
+  writes: number
+  /** Style attribute changes that set a CSS custom property */
+  cssVarWrites: number
+  /** Distinct elements written */
+  elementCount: number
+  /** Properties and custom properties that changed, most written first, e.g. `transform` or `--hue` */
+  properties: string[]
+}
+
+/** Forced reflows sampled at one call site, for the same layout read and style write */
+export interface ReflowCallSiteInfo {
+  /** Stack frame that read layout, e.g. `measure (/src/Tooltip.tsx:40:18)` */
+  callSite: string
+  /** Layout property that was read, e.g. `offsetHeight` */
+  property: string
+  /** Style write that dirtied layout before the read, e.g. `style.width` */
+  write: string
+  /** Sampled forced reflows */
+  count: number
+}
+
+/**
+ * Element subtrees with the same root selector that were removed from the
+ * story root but are still in memory after garbage collection had a chance
+ * to free them.
+ */
+export interface DetachedNodeInfo {
+  /** Selector of the removed root element, e.g. `#dialog` or `div.tooltip` */
+  selector: string
+  /** Elements in the retained subtrees, including their roots */
+  nodeCount: number
+  /** Number of retained subtrees */
+  count: number
+}
+
+/** Viewport rectangle of a shifted element, in CSS pixels */
+export interface ShiftRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** An element that moved in a layout shift */
+export interface LayoutShiftSourceInfo {
+  /** Selector of the shifted element, or `unknown` if the browser didn't expose it */
+  selector: string
+  /** Position before the shift */
+  previousRect: ShiftRect
+  /** Position after the shift */
+  currentRect: ShiftRect
+}
+
+/** A layout shift counted towards CLS, with the elements that moved */
+export interface LayoutShiftInfo {
+  /** Shift score */
+  score: number
+  /** Time since the story started or was reset (ms) */
+  time: number
+  /** Elements that moved, most impactful first (at most 5, per the Layout Instability API) */
+  sources: LayoutShiftSourceInfo[]
+}
+
+/** Statistics for `performance.measure()` entries with the same name */
+export interface UserMeasureStats {
+  name: string
+  /** Measures recorded since the story started or was reset */
+  count: number
+  /** Average duration (ms) of the most recent measures */
+  avgDuration: number
+  /** 95th percentile duration (ms) of the most recent measures */
+  p95Duration: number
+  /** Longest duration (ms) of all measures */
+  maxDuration: number
+}
+
+/** `performance.mark()` entries with the same name */
+export interface UserMarkInfo {
+  name: string
+  count: number
+}
+
+/** Kinds of requests tracked in the Network section */
+export type NetworkRequestKind = 'fetch' | 'xhr' | 'image' | 'font'
+
+/** A request the story issued, from its Resource Timing entry */
+export interface NetworkRequestInfo {
+  /** Request URL, relative to the preview origin when same-origin */
+  url: string
+  kind: NetworkRequestKind
+  /** `initiatorType` of the Resource Timing entry, e.g. `fetch`, `img` or `css` */
+  initiatorType: string
+  /** Start time relative to when collection started (ms) */
+  startTime: number
+  /** Time from start to the end of the response (ms) */
+  duration: number
+  /** Bytes transferred, or 0 when served from cache or cross-origin without `Timing-Allow-Origin` */
+  transferSize: number
+  /** Whether the request blocked rendering (Chrome 107+) */
+  renderBlocking: boolean
+  /** Interaction that triggered the request, e.g. `click on button.save`, or null if none did */
+  interaction: string | null
+}
+
+/** A URL requested more than once */
+export interface DuplicateRequestInfo {
+  url: string
+  kind: NetworkRequestKind
+  /** Number of times it was requested */
+  count: number
+}
+
+/** Rows of the timeline view, top to bottom */
+export type TimelineTrack = 'frame' | 'long-task' | 'loaf' | 'interaction' | 'react-commit' | 'layout-shift' | 'measure'
+
+/** A span inside a timeline event, e.g. a script in a long animation frame */
+export interface TimelineSegment {
+  name: string
+  /** Start time on the preview's performance timeline (ms) */
+  startTime: number
+  /** Duration (ms) */
+  duration: number
+}
+
+/**
+ * A timestamped event on the timeline view. All tracks share the preview's
+ * performance timeline (`performance.now()`), so events from different
+ * collectors line up.
+ */
+export interface TimelineEvent {
+  track: TimelineTrack
+  /** Short label, e.g. the event type or measure name */
+  name: string
+  /** Start time on the preview's performance timeline (ms) */
+  startTime: number
+  /** Duration (ms), `0` for instant events such as layout shifts */
+  duration: number
+  /** Extra details shown on hover, e.g. `blocking 120ms` */
+  detail?: string
+  /** Spans within the event, e.g. the phases of an interaction */
+  segments?: TimelineSegment[]
+}
+
+/**
+ * Resources a story left behind after it was unmounted.
+ * Reported on the next story, since leaks are only known after teardown.
+ */
+export interface StoryLeakReport {
+  /** ID of the story that was torn down */
+  storyId: string
+  /** Listeners that were never removed */
+  eventListeners: LeakedListenerInfo[]
+  /** Observers that were never disconnected */
+  observers: LeakedObserverInfo[]
+  /** Timers and animation frames that were still pending */
+  timers: TimerCallSiteInfo[]
+}
+
+/** Measurements taken after one leak check remount */
+export interface LeakCheckSample {
+  /** Remount number, `0` for the sample taken after the warm-up remount */
+  cycle: number
+  /** JS heap size (MB), `null` outside Chromium */
+  memoryMB: number | null
+  /** Elements in the preview document */
+  domNodes: number
+  /** Event listeners added while collecting that are still attached */
+  listeners: number
+}
+
+/** Remounts a leak check samples after its warm-up remount by default */
+export const DEFAULT_LEAK_CHECK_CYCLES = 10
+
+/**
+ * Growth per remount at or above which a leak check flags a metric.
+ * Memory is noisy, so its limit leaves room for garbage that hasn't been
+ * collected yet.
+ */
+export const LEAK_CHECK_SLOPE_LIMITS = {
+  /** Heap growth (MB) */
+  memoryMB: 0.5,
+  /** Elements */
+  domNodes: 1,
+  /** Event listeners */
+  listeners: 0.5,
+} as const
+
+/** Outcome of remounting a story repeatedly (see `runLeakCheck`) */
+export interface LeakCheckResult {
+  storyId: string
+  /** Remounts sampled after the warm-up remount */
+  cycles: number
+  samples: LeakCheckSample[]
+  /** Heap growth per remount (MB), `null` when memory isn't available */
+  memorySlopeMB: number | null
+  /** DOM node growth per remount */
+  domNodeSlope: number
+  /** Event listener growth per remount */
+  listenerSlope: number
+  /** Whether any slope is above its leak threshold */
+  likelyLeak: boolean
+}
+
 /**
  * Performance metrics transmitted from decorator to panel.
  *
@@ -380,6 +759,14 @@ export interface PerformanceMetrics {
   lastInteraction: InteractionInfo | null
   /** Details about the slowest interaction for debugging */
   slowestInteraction: InteractionInfo | null
+  /** Most recent interactions, oldest first */
+  interactionLog: InteractionInfo[]
+  /** Average input delay across recent interactions (ms) */
+  avgInputDelay: number
+  /** Average processing time across recent interactions (ms) */
+  avgProcessingTime: number
+  /** Average presentation delay across recent interactions (ms) */
+  avgPresentationDelay: number
   /** Breakdown of interactions by event type */
   interactionsByType: Record<string, number>
 
@@ -450,6 +837,8 @@ export interface PerformanceMetrics {
   lastLoaf: LoAFDetails | null
   /** Details about the worst (longest) LoAF */
   worstLoaf: LoAFDetails | null
+  /** Scripts in LoAFs aggregated by source, function and invoker, longest total duration first */
+  loafScripts: LoAFScriptStats[]
 
   // ─────────────────────────────────────────────────────────────────────────
   // Layout & Style
@@ -464,12 +853,18 @@ export interface PerformanceMetrics {
   layoutShiftCount: number
   /** Current/ongoing session's CLS value */
   currentSessionCLS: number
+  /** Recent layout shifts with the elements that moved, oldest first */
+  layoutShifts: LayoutShiftInfo[]
   /** Synchronous reads that forced browser reflow */
   forcedReflowCount: number
+  /** Where sampled forced reflows were triggered, most frequent first (only with `reflowStacks`) */
+  reflowCallSites: ReflowCallSiteInfo[]
   /** Average DOM mutations per frame. High: >50 */
   domMutationsPerFrame: number
   /** CSS custom property changes */
   cssVarChanges: number
+  /** Elements receiving the most inline style writes, with the properties written */
+  styleWriteTargets: StyleWriteTargetInfo[]
 
   // ─────────────────────────────────────────────────────────────────────────
   // React Profiler
@@ -490,6 +885,12 @@ export interface PerformanceMetrics {
   slowReactUpdates: number
   /** Render cascades (setState during render) */
   renderCascades: number
+  /** Recent commits across all profilers, oldest first */
+  reactCommits: ReactCommitInfo[]
+  /** Recent commits with the components that re-rendered and why, oldest first (only with `renderReasons`) */
+  renderReasonCommits: RenderReasonCommitInfo[]
+  /** Components with the most re-render self time, most first (only with `renderReasons`) */
+  renderOffenders: RenderOffenderInfo[]
 
   // ─────────────────────────────────────────────────────────────────────────
   // DOM & Resources
@@ -502,12 +903,30 @@ export interface PerformanceMetrics {
   // ─────────────────────────────────────────────────────────────────────────
   // Observer Counts (informational)
   // ─────────────────────────────────────────────────────────────────────────
-  /** Active event listeners (when trackable) */
+  /** Event listeners added by the story that are still attached */
   eventListenerCount: number
-  /** Active observers (Intersection, Mutation, Resize) */
+  /** Average event listeners added after each pointer or keyboard interaction */
+  eventListenersPerInteraction: number
+  /** Observers created by the story that are still observing (Mutation, Resize, Intersection, Performance) */
   observerCount: number
+  /** Active observers and their observed targets by observer type */
+  observersByType: Record<ObserverType, ObserverTypeCounts>
+  /** Timeouts, intervals and animation frames scheduled by the story that are still pending */
+  activeTimerCount: number
+  /** Pending timers by kind */
+  timersByKind: Record<TimerKind, number>
+  /** Call sites with the most pending timers */
+  timerCallSites: TimerCallSiteInfo[]
+  /** Elements removed from the story root that are still retained in memory */
+  detachedNodeCount: number
+  /** Retained detached subtrees with the most elements */
+  detachedNodes: DetachedNodeInfo[]
+  /** Whether the detached subtrees survived a forced garbage collection (Chromium with `--expose-gc`) */
+  detachedNodesConfirmed: boolean
   /** Compositor layers (DevTools protocol, often null) */
   compositorLayers: number | null
+  /** What the previously selected story left behind after unmounting */
+  previousStoryLeaks: StoryLeakReport | null
 
   // ─────────────────────────────────────────────────────────────────────────
   // Element Timing (elements with elementtiming attribute)
@@ -520,6 +939,40 @@ export interface PerformanceMetrics {
   largestElementRenderTime: number
   /** Details about tracked elements (identifier → renderTime) */
   elementTimings: {identifier: string; renderTime: number; selector: string}[]
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // User Timing (performance.mark / performance.measure)
+  // ─────────────────────────────────────────────────────────────────────────
+  /** Marks created since the story started or was reset */
+  userMarkCount: number
+  /** Most frequent mark names */
+  userMarks: UserMarkInfo[]
+  /** Measures created since the story started or was reset */
+  userMeasureCount: number
+  /** Measures grouped by name, slowest p95 first */
+  userMeasures: UserMeasureStats[]
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Network (fetch, XHR, image and font requests)
+  // ─────────────────────────────────────────────────────────────────────────
+  /** Requests issued since the story started or was reset */
+  networkRequestCount: number
+  /** Requests by kind */
+  networkRequestsByKind: Record<NetworkRequestKind, number>
+  /** Total bytes transferred (KB) */
+  networkTransferKB: number
+  /** Requests that blocked rendering */
+  renderBlockingRequests: number
+  /** Requests repeating a URL that was already requested */
+  duplicateRequestCount: number
+  /** URLs requested more than once, most repeated first */
+  duplicateRequests: DuplicateRequestInfo[]
+  /** Requests in the longest chain where each started right after the previous one finished */
+  longestRequestChain: number
+  /** URLs in the longest request chain, in order */
+  requestChain: string[]
+  /** Slowest requests */
+  slowestRequests: NetworkRequestInfo[]
 }
 
 /**
@@ -543,6 +996,10 @@ export const DEFAULT_METRICS: PerformanceMetrics = {
   firstInputType: null,
   lastInteraction: null,
   slowestInteraction: null,
+  interactionLog: [],
+  avgInputDelay: 0,
+  avgProcessingTime: 0,
+  avgPresentationDelay: 0,
   interactionsByType: {},
   paintTime: 0,
   maxPaintTime: 0,
@@ -569,15 +1026,19 @@ export const DEFAULT_METRICS: PerformanceMetrics = {
   loafsWithScripts: 0,
   lastLoaf: null,
   worstLoaf: null,
+  loafScripts: [],
   // Layout & Style
   styleWrites: 0,
   thrashingScore: 0,
   layoutShiftScore: 0,
   layoutShiftCount: 0,
   currentSessionCLS: 0,
+  layoutShifts: [],
   forcedReflowCount: 0,
+  reflowCallSites: [],
   domMutationsPerFrame: 0,
   cssVarChanges: 0,
+  styleWriteTargets: [],
   reactRenderCount: 0,
   reactMountCount: 0,
   reactMountDuration: 0,
@@ -586,16 +1047,48 @@ export const DEFAULT_METRICS: PerformanceMetrics = {
   reactP95Duration: 0,
   slowReactUpdates: 0,
   renderCascades: 0,
+  reactCommits: [],
+  renderReasonCommits: [],
+  renderOffenders: [],
   domElements: null,
   scriptEvalTime: 0,
   eventListenerCount: 0,
+  eventListenersPerInteraction: 0,
   observerCount: 0,
+  observersByType: {
+    MutationObserver: {observers: 0, targets: 0},
+    ResizeObserver: {observers: 0, targets: 0},
+    IntersectionObserver: {observers: 0, targets: 0},
+    PerformanceObserver: {observers: 0, targets: 0},
+  },
+  activeTimerCount: 0,
+  timersByKind: {timeout: 0, interval: 0, animationFrame: 0},
+  timerCallSites: [],
+  detachedNodeCount: 0,
+  detachedNodes: [],
+  detachedNodesConfirmed: false,
   compositorLayers: null,
+  previousStoryLeaks: null,
   // Element Timing
   elementTimingSupported: true, // Assume supported until told otherwise
   elementTimingCount: 0,
   largestElementRenderTime: 0,
   elementTimings: [],
+  // User Timing
+  userMarkCount: 0,
+  userMarks: [],
+  userMeasureCount: 0,
+  userMeasures: [],
+  // Network
+  networkRequestCount: 0,
+  networkRequestsByKind: {fetch: 0, xhr: 0, image: 0, font: 0},
+  networkTransferKB: 0,
+  renderBlockingRequests: 0,
+  duplicateRequestCount: 0,
+  duplicateRequests: [],
+  longestRequestChain: 0,
+  requestChain: [],
+  slowestRequests: [],
 }
 
 // ============================================================================
@@ -626,6 +1119,95 @@ export const DEFAULT_METRICS: PerformanceMetrics = {
 export interface PerformancePanelParameters {
   /** When true, skips performance monitoring for this story. */
   disable?: boolean
+  /**
+   * Performance budgets keyed by metric. The panel shows whether each
+   * budget passes next to the metric, plus a summary banner.
+   *
+   * Budgets are maximums, except for `fps` and `frameStability` where they
+   * are minimums. Parameters merge, so budgets set globally or per component
+   * can be tightened or extended per story.
+   *
+   * @example
+   * parameters: {
+   *   performancePanel: { budgets: { inpMs: 200, forcedReflowCount: 0, reactP95Duration: 8 } },
+   * }
+   */
+  budgets?: PerformanceBudgets
+  /**
+   * Maximum p95 duration in milliseconds per `performance.measure()` name.
+   * Shown next to each measure in the User Timings section, and checked by
+   * `toMeetBudgets()` and `storybook-perf` like `budgets`.
+   *
+   * @example
+   * parameters: {
+   *   performancePanel: { measureBudgets: { 'search:filter': 8, 'table:sort': 16 } },
+   * }
+   */
+  measureBudgets?: MeasureBudgets
+  /**
+   * Status colour thresholds: a shipped preset (`desktop`, `mobile`,
+   * `strict`) and/or overrides for individual {@link ThresholdKey}s.
+   * `globals.performancePanelThresholds` takes the same shape and is
+   * applied on top.
+   *
+   * @example
+   * parameters: {
+   *   performancePanel: { thresholds: { preset: 'strict', overrides: { INP_GOOD: 150 } } },
+   * }
+   */
+  thresholds?: ThresholdSettings
+  /**
+   * Capture a stack for forced reflows, so the Layout & Stability section
+   * can rank the call sites that read layout after a style write. Stacks
+   * are sampled at most every 50ms to keep the overhead low.
+   *
+   * @example
+   * parameters: {
+   *   performancePanel: { reflowStacks: true },
+   * }
+   */
+  reflowStacks?: boolean
+  /**
+   * Inspect every React commit to find the components that re-rendered and
+   * why: changed props, state or hooks, context, or a parent re-render.
+   * The React section then lists the components with the most re-render
+   * time. Requires the React entry and the `renderReasons` addon option
+   * (see {@link PerformancePanelAddonOptions}).
+   *
+   * @example
+   * parameters: {
+   *   performancePanel: { renderReasons: true },
+   * }
+   */
+  renderReasons?: boolean
+  /**
+   * Start collecting as soon as the story renders instead of waiting for the
+   * panel to open, and keep the latest metrics in the preview for
+   * programmatic readers. Also enabled by `globals.performancePanelHeadless`
+   * or `?performancePanelHeadless` in the preview URL.
+   */
+  headless?: boolean
+}
+
+/**
+ * Options of the React entry, set on the addon in `.storybook/main.ts` or
+ * passed to `addonPerformancePanel()` in `.storybook/preview.ts`.
+ *
+ * @example
+ * // .storybook/main.ts
+ * addons: [
+ *   {name: '@github-ui/storybook-addon-performance-panel', options: {renderReasons: true}},
+ * ]
+ */
+export interface PerformancePanelAddonOptions {
+  /**
+   * Define a minimal `window.__REACT_DEVTOOLS_GLOBAL_HOOK__` when the React
+   * DevTools extension or React Refresh hasn't, so stories can set the
+   * `renderReasons` parameter. The hook is installed before react-dom loads
+   * and stays for the whole preview: react-dom then reports every commit to
+   * it, and libraries that check for React DevTools see it as present.
+   */
+  renderReasons?: boolean
 }
 
 /** Status variant for color-coded display */
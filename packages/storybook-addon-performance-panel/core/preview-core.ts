@@ -8,10 +8,14 @@
  *
  * The core class manages:
  * - CollectorManager creation and lifecycle (start/stop/reset)
- * - Channel event handling (REQUEST_METRICS, RESET, INSPECT_ELEMENT)
- * - Periodic metrics emission to the panel
+ * - Channel event handling (REQUEST_METRICS, RESET, INSPECT_ELEMENT, LAYOUT_SHIFT_OVERLAY, TIMELINE_VISIBILITY)
+ * - Periodic metrics emission to the panel, with timeline events while the timeline is open
+ * - On-demand collection for programmatic readers (play functions)
+ * - Headless collection that runs without the panel
  * - Sparkline data sampling
  * - Container DOM observation for element counting
+ * - Leak reports for stories that are switched away from
+ * - Remount leak checks requested by the panel
  *
  * @module preview-core
  * @see {@link ./performance-decorator.tsx} - React-specific decorator (uses this core)
@@ -21,14 +25,25 @@
 import {addons} from 'storybook/preview-api'
 
 import {CollectorManager} from '../collectors/collector-manager'
+import {runUntracked} from '../collectors/instrumentation'
+import {getMemoryMB} from '../collectors/utils'
+import {removeLayoutShiftOverlay, renderLayoutShiftOverlay} from './layout-shift-overlay'
+import {remountStory, runLeakCheck} from './leak-check'
+import type {MeasureBudgets, PerformanceBudgets} from './performance-budgets'
 import {performanceStore} from './performance-store'
-import {PERF_EVENTS} from './performance-types'
+import {
+  DEFAULT_LEAK_CHECK_CYCLES,
+  type LeakCheckResult,
+  PERF_EVENTS,
+  type PerformanceMetrics,
+  type StoryLeakReport,
+} from './performance-types'
 
 // ============================================================================
 // Timing Constants
 // ============================================================================
 
-/** How often to emit metrics while the panel is visible (ms) */
+/** How often to emit or store metrics while the panel is visible or headless (ms) */
 const UPDATE_INTERVAL_MS = 250
 
 /** How often to sample sparkline data points (ms) */
@@ -73,9 +88,11 @@ export function handleInspectElement(selector: string): void {
       // Use data attribute + CSS rule instead of inline styles
       // to avoid triggering StyleMutationCollector
       element.dataset.perfInspect = ''
-      setTimeout(() => {
-        delete element.dataset.perfInspect
-      }, 600)
+      runUntracked(() =>
+        setTimeout(() => {
+          delete element.dataset.perfInspect
+        }, 600),
+      )
 
       console.log(
         '%c[Performance Panel] Inspecting element:',
@@ -93,6 +110,14 @@ export function handleInspectElement(selector: string): void {
 // Performance Monitor Core
 // ============================================================================
 
+/**
+ * Why browser collectors are running:
+ * - `panel`: the manager panel is visible
+ * - `api`: a programmatic reader (e.g. a play function assertion) asked for metrics
+ * - `headless`: the story opted into headless mode (see {@link setHeadless})
+ */
+type CollectionReason = 'panel' | 'api' | 'headless'
+
 /**
  * Framework-agnostic performance monitoring core.
  *
@@ -107,12 +132,24 @@ export class PerformanceMonitorCore {
   /** Current story ID for profiler association */
   storyId: string
 
+  /** Budgets declared in the story's `performancePanel` parameters */
+  budgets: PerformanceBudgets | undefined
+
+  /** Measure budgets declared in the story's `performancePanel` parameters */
+  measureBudgets: MeasureBudgets | undefined
+
+  /** What the previously active story left behind (see {@link setActiveCore}) */
+  previousStoryLeaks: StoryLeakReport | null = null
+
   private metricsIntervalId: ReturnType<typeof setInterval> | null = null
   private sparklineIntervalId: ReturnType<typeof setInterval> | null = null
   private containerElement: HTMLElement | null = null
   private containerCleanup: (() => void) | null = null
   private channelCleanups: (() => void)[] = []
-  private panelVisible = false
+  private collectionReasons = new Set<CollectionReason>()
+  private leakCheckRunning = false
+  private showLayoutShiftOverlay = false
+  private showTimeline = false
 
   constructor(storyId: string) {
     this.storyId = storyId
@@ -124,19 +161,26 @@ export class PerformanceMonitorCore {
     })
   }
 
-  /** Set up channel listeners. Browser collectors begin when the panel becomes visible. */
+  /** Whether browser collectors are currently running */
+  get isCollecting(): boolean {
+    return this.collectionReasons.size > 0
+  }
+
+  /** Whether the story opted into headless collection */
+  get isHeadless(): boolean {
+    return this.collectionReasons.has('headless')
+  }
+
+  /**
+   * Set up channel listeners. Browser collectors begin when the panel becomes
+   * visible, headless mode is enabled or a programmatic reader calls
+   * {@link requestCollection}.
+   */
   start(): void {
     const channel = addons.getChannel()
-    this.panelVisible = false
-
-    const emitMetrics = () => {
-      const computed = this.manager.computeMetrics()
-      channel.emit(PERF_EVENTS.METRICS_UPDATE, computed)
-      performanceStore.setGlobalMetrics(computed)
-    }
 
     const handleRequestMetrics = () => {
-      emitMetrics()
+      channel.emit(PERF_EVENTS.METRICS_UPDATE, this.collectMetrics())
       for (const id of this.manager.getProfilerIds()) {
         const metrics = this.manager.getProfilerMetrics(id)
         if (metrics) {
@@ -150,23 +194,55 @@ export class PerformanceMonitorCore {
     }
 
     const handlePanelVisibility = (visible: boolean) => {
-      this.panelVisible = visible
+      this.#setCollecting('panel', visible)
+      if (visible) {
+        this.#publishMetrics()
+      }
+      this.#syncLiveUpdates()
+    }
+
+    const handleLayoutShiftOverlay = (visible: boolean) => {
+      this.showLayoutShiftOverlay = visible
       if (visible) {
-        this.manager.start()
-        this.#startContainerObservation()
-        emitMetrics()
-        this.#startLiveUpdates(emitMetrics)
+        renderLayoutShiftOverlay(this.manager.collectors.layoutShift.getMetrics().layoutShifts)
       } else {
-        this.#stopLiveUpdates()
-        this.#stopContainerObservation()
-        this.manager.stop()
+        removeLayoutShiftOverlay()
+      }
+    }
+
+    const handleTimelineVisibility = (visible: boolean) => {
+      this.showTimeline = visible
+      if (visible) {
+        channel.emit(PERF_EVENTS.TIMELINE_UPDATE, this.manager.collectTimeline())
       }
     }
 
+    const handleRunLeakCheck = (request?: {cycles?: number}) => {
+      if (this.leakCheckRunning) return
+      this.leakCheckRunning = true
+      const {storyId} = this
+      this.runLeakCheck(request?.cycles, (completed, cycles) => {
+        channel.emit(PERF_EVENTS.LEAK_CHECK_PROGRESS, {storyId, completed, cycles})
+      })
+        .then(result => {
+          channel.emit(PERF_EVENTS.LEAK_CHECK_RESULT, result)
+        })
+        .catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error)
+          channel.emit(PERF_EVENTS.LEAK_CHECK_FAILED, {storyId, message})
+        })
+        .finally(() => {
+          this.leakCheckRunning = false
+        })
+    }
+
     channel.on(PERF_EVENTS.REQUEST_METRICS, handleRequestMetrics)
     channel.on(PERF_EVENTS.RESET, handleReset)
     channel.on(PERF_EVENTS.PANEL_VISIBILITY, handlePanelVisibility)
     channel.on(PERF_EVENTS.INSPECT_ELEMENT, handleInspectElement)
+    channel.on(PERF_EVENTS.LAYOUT_SHIFT_OVERLAY, handleLayoutShiftOverlay)
+    channel.on(PERF_EVENTS.TIMELINE_VISIBILITY, handleTimelineVisibility)
+    channel.on(PERF_EVENTS.RUN_LEAK_CHECK, handleRunLeakCheck)
 
     this.channelCleanups = [
       () => {
@@ -181,6 +257,15 @@ export class PerformanceMonitorCore {
       () => {
         channel.off(PERF_EVENTS.INSPECT_ELEMENT, handleInspectElement)
       },
+      () => {
+        channel.off(PERF_EVENTS.LAYOUT_SHIFT_OVERLAY, handleLayoutShiftOverlay)
+      },
+      () => {
+        channel.off(PERF_EVENTS.TIMELINE_VISIBILITY, handleTimelineVisibility)
+      },
+      () => {
+        channel.off(PERF_EVENTS.RUN_LEAK_CHECK, handleRunLeakCheck)
+      },
     ]
 
     channel.emit(PERF_EVENTS.REQUEST_PANEL_VISIBILITY)
@@ -191,7 +276,10 @@ export class PerformanceMonitorCore {
    * Removes channel listeners and clears intervals.
    */
   stop(): void {
-    this.panelVisible = false
+    this.collectionReasons.clear()
+    this.showLayoutShiftOverlay = false
+    this.showTimeline = false
+    removeLayoutShiftOverlay()
     this.#stopLiveUpdates()
     this.#stopContainerObservation()
     this.manager.stop()
@@ -210,11 +298,108 @@ export class PerformanceMonitorCore {
     performanceStore.resetAll()
   }
 
-  #startLiveUpdates(emitMetrics: () => void): void {
-    this.metricsIntervalId ??= setInterval(emitMetrics, UPDATE_INTERVAL_MS)
-    this.sparklineIntervalId ??= setInterval(() => {
-      this.manager.updateSparklineData()
-    }, SPARKLINE_SAMPLE_INTERVAL_MS)
+  /**
+   * Keep collectors running for the rest of this story, regardless of panel
+   * visibility. Used by play function assertions, which may run with the
+   * panel closed or without a manager at all.
+   */
+  requestCollection(): void {
+    this.#setCollecting('api', true)
+  }
+
+  /**
+   * Start or stop headless collection. While enabled, collectors run
+   * regardless of panel visibility and the performance store is refreshed
+   * on the live update interval. Safe to call on every render.
+   */
+  setHeadless(enabled: boolean): void {
+    if (enabled === this.isHeadless) return
+    this.#setCollecting('headless', enabled)
+    this.#syncLiveUpdates()
+  }
+
+  /**
+   * Unmount and remount the story `cycles` times after a warm-up remount,
+   * sampling heap size, DOM nodes and attached listeners after each one.
+   * Keeps collectors running so listeners are tracked across remounts.
+   *
+   * @throws {Error} If the story fails to remount.
+   */
+  runLeakCheck(
+    cycles = DEFAULT_LEAK_CHECK_CYCLES,
+    onProgress?: (completed: number, cycles: number) => void,
+  ): Promise<LeakCheckResult> {
+    this.requestCollection()
+    return runLeakCheck(this.storyId, {
+      cycles,
+      remount: () => remountStory(this.storyId),
+      sample: () => ({
+        memoryMB: getMemoryMB(),
+        domNodes: document.getElementsByTagName('*').length,
+        listeners: this.manager.collectors.listeners.getMetrics().listenerCount,
+      }),
+      onProgress,
+    })
+  }
+
+  /** Compute current metrics and publish them to the performance store. */
+  collectMetrics(): PerformanceMetrics {
+    const computed = this.manager.computeMetrics()
+    computed.previousStoryLeaks = this.previousStoryLeaks
+    performanceStore.setGlobalMetrics(computed)
+    return computed
+  }
+
+  #setCollecting(reason: CollectionReason, active: boolean): void {
+    const wasCollecting = this.collectionReasons.size > 0
+    if (active) {
+      this.collectionReasons.add(reason)
+    } else {
+      this.collectionReasons.delete(reason)
+    }
+    const isCollecting = this.collectionReasons.size > 0
+
+    if (!wasCollecting && isCollecting) {
+      this.manager.start()
+      this.#startContainerObservation()
+    } else if (wasCollecting && !isCollecting) {
+      this.#stopContainerObservation()
+      this.manager.stop()
+    }
+  }
+
+  /** Refresh the store and, while the panel is visible, emit to the manager. */
+  #publishMetrics(): void {
+    const metrics = this.collectMetrics()
+    if (this.showLayoutShiftOverlay) {
+      renderLayoutShiftOverlay(metrics.layoutShifts)
+    }
+    if (this.collectionReasons.has('panel')) {
+      addons.getChannel().emit(PERF_EVENTS.METRICS_UPDATE, metrics)
+      if (this.showTimeline) {
+        addons.getChannel().emit(PERF_EVENTS.TIMELINE_UPDATE, this.manager.collectTimeline())
+      }
+    }
+  }
+
+  /** Live updates run while the panel is visible or headless mode is on. */
+  #syncLiveUpdates(): void {
+    if (this.collectionReasons.has('panel') || this.collectionReasons.has('headless')) {
+      this.#startLiveUpdates()
+    } else {
+      this.#stopLiveUpdates()
+    }
+  }
+
+  #startLiveUpdates(): void {
+    runUntracked(() => {
+      this.metricsIntervalId ??= setInterval(() => {
+        this.#publishMetrics()
+      }, UPDATE_INTERVAL_MS)
+      this.sparklineIntervalId ??= setInterval(() => {
+        this.manager.updateSparklineData()
+      }, SPARKLINE_SAMPLE_INTERVAL_MS)
+    })
   }
 
   #stopLiveUpdates(): void {
@@ -229,7 +414,7 @@ export class PerformanceMonitorCore {
   }
 
   #startContainerObservation(): void {
-    if (!this.panelVisible || !this.containerElement || this.containerCleanup) return
+    if (!this.isCollecting || !this.containerElement || this.containerCleanup) return
     this.containerCleanup = this.manager.observeContainer(this.containerElement)
   }
 
@@ -240,7 +425,7 @@ export class PerformanceMonitorCore {
 
   /**
    * Register a DOM container for element counting and mutation tracking.
-   * Observation is active only while the panel is visible.
+   * Observation is active only while collectors are running.
    */
   observeContainer(element: HTMLElement): () => void {
     if (this.containerElement !== element) {
@@ -279,10 +464,18 @@ export function getActiveCore(): PerformanceMonitorCore | null {
 /**
  * Set the active core. Stops the previous core if different.
  * Pass `null` to clear without setting a replacement.
+ *
+ * Storybook tears the previous story down before rendering the next one, so
+ * anything the previous core still sees attached or pending has leaked. It is reported
+ * on the new core as `previousStoryLeaks`.
  */
 export function setActiveCore(core: PerformanceMonitorCore | null): void {
   if (_activeCore && _activeCore !== core) {
+    const leaks = _activeCore.manager.collectLeaks(_activeCore.storyId)
     _activeCore.stop()
+    if (core) {
+      core.previousStoryLeaks = leaks
+    }
   }
   _activeCore = core
 }
@@ -21,6 +21,10 @@
 
 import type {DecoratorFunction, Renderer} from 'storybook/internal/types'
 
+import {runUntracked} from '../collectors/instrumentation'
+import {installGlobalApi} from '../core/global-api'
+import {isHeadlessRequested} from '../core/headless'
+import {PARAM_KEY, type PerformancePanelParameters} from '../core/performance-types'
 import {getActiveCore, PerformanceMonitorCore, setActiveCore} from '../core/preview-core'
 
 // ============================================================================
@@ -45,26 +49,31 @@ function waitForStorybookRoot(core: PerformanceMonitorCore, onFound: (root: HTML
     return
   }
 
-  const observer = new MutationObserver(() => {
-    // Guard: if a different story started while we were waiting, bail out
-    if (getActiveCore() !== core) {
-      observer.disconnect()
-      return
-    }
+  const observer = runUntracked(
+    () =>
+      new MutationObserver(() => {
+        // Guard: if a different story started while we were waiting, bail out
+        if (getActiveCore() !== core) {
+          observer.disconnect()
+          return
+        }
 
-    const root = document.getElementById('storybook-root')
-    if (root) {
-      observer.disconnect()
-      onFound(root)
-    }
-  })
+        const root = document.getElementById('storybook-root')
+        if (root) {
+          observer.disconnect()
+          onFound(root)
+        }
+      }),
+  )
 
   observer.observe(document.body, {childList: true, subtree: true})
 
   // Safety timeout — don't leak the observer indefinitely
-  setTimeout(() => {
-    observer.disconnect()
-  }, ROOT_DISCOVERY_TIMEOUT_MS)
+  runUntracked(() =>
+    setTimeout(() => {
+      observer.disconnect()
+    }, ROOT_DISCOVERY_TIMEOUT_MS),
+  )
 }
 
 // ============================================================================
@@ -92,7 +101,9 @@ function waitForStorybookRoot(core: PerformanceMonitorCore, onFound: (root: HTML
  * export default preview
  */
 export const withPerformanceMonitor: DecoratorFunction = (storyFn, ctx): Renderer['storyResult'] => {
-  const params = ctx.parameters.performancePanel as {disable?: boolean} | undefined
+  installGlobalApi()
+
+  const params = ctx.parameters[PARAM_KEY] as PerformancePanelParameters | undefined
   if (params?.disable) {
     setActiveCore(null)
     return storyFn()
@@ -116,6 +127,11 @@ export const withPerformanceMonitor: DecoratorFunction = (storyFn, ctx): Rendere
       createdCore.observeContainer(root)
     })
   }
+  core.budgets = params?.budgets
+  core.measureBudgets = params?.measureBudgets
+  core.manager.collectors.reflow.captureStacks = params?.reflowStacks === true
+  core.manager.collectors.renderReasons.enabled = params?.renderReasons === true
+  core.setHeadless(isHeadlessRequested(params, ctx.globals))
 
   return storyFn()
 }
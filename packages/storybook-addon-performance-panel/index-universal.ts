@@ -21,5 +21,14 @@ import addonAnnotations from './preview-universal'
 const start = () => definePreviewAddon(addonAnnotations)
 export default start
 
+export type {StorybookPerformanceApi, WaitForIdleOptions} from './core/global-api'
+export {
+  expectPerformance,
+  getPerformanceMetrics,
+  PerformanceAssertionError,
+  type PerformanceExpectation,
+} from './core/performance-assertions'
+export type {BudgetMetricKey, PerformanceBudgets} from './core/performance-budgets'
+export type {ThresholdOverrides, ThresholdPreset, ThresholdSettings} from './core/performance-thresholds'
 export type {PerformancePanelParameters} from './core/performance-types'
 export {withPerformanceMonitor} from './decorators/universal'
@@ -1,10 +1,25 @@
 import {definePreviewAddon} from 'storybook/internal/csf'
 
+import {installReactDevToolsHook} from './collectors/render-reason-collector'
+import type {PerformancePanelAddonOptions} from './core/performance-types'
 import addonAnnotations from './preview'
 
-const start = () => definePreviewAddon(addonAnnotations)
+const start = (options: PerformancePanelAddonOptions = {}) => {
+  // .storybook/preview.ts runs before Storybook loads react-dom for the first story
+  if (options.renderReasons === true) installReactDevToolsHook()
+  return definePreviewAddon(addonAnnotations)
+}
 export default start
 
 // Public API for manual per-story usage (framework-agnostic)
-export type {PerformancePanelParameters} from './core/performance-types'
+export type {StorybookPerformanceApi, WaitForIdleOptions} from './core/global-api'
+export {
+  expectPerformance,
+  getPerformanceMetrics,
+  PerformanceAssertionError,
+  type PerformanceExpectation,
+} from './core/performance-assertions'
+export type {BudgetMetricKey, PerformanceBudgets} from './core/performance-budgets'
+export type {ThresholdOverrides, ThresholdPreset, ThresholdSettings} from './core/performance-thresholds'
+export type {PerformancePanelAddonOptions, PerformancePanelParameters} from './core/performance-types'
 export {withPerformanceMonitor} from './decorators/universal'
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Baseline snapshots for before/after comparisons
+ *
+ * A baseline is a saved copy of a story's metrics and React profiler
+ * metrics. While one exists, the panel shows how each metric changed since
+ * it was saved, so a component tweak can be judged without writing numbers
+ * down.
+ *
+ * Baselines live in the manager's `localStorage`, keyed by story ID, so
+ * they survive reloads and branch switches.
+ *
+ * @module panel/baselines
+ */
+
+import {type BudgetMetricKey, isHigherBetter} from '../core/performance-budgets'
+import {DEFAULT_METRICS, type PerformanceMetrics, type ReactMetrics} from '../core/performance-types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Schema version written to new baselines. Bump when the shape changes. */
+export const BASELINE_VERSION = 1
+
+/** Prefix of the `localStorage` keys holding baselines */
+export const BASELINE_STORAGE_PREFIX = 'storybook-addon-performance-panel/baseline/'
+
+export interface BaselineProfiler {
+  id: string
+  metrics: ReactMetrics
+}
+
+export interface PerformanceBaseline {
+  version: number
+  storyId: string
+  /** Epoch milliseconds when the baseline was saved */
+  savedAt: number
+  metrics: PerformanceMetrics
+  profilers: BaselineProfiler[]
+}
+
+/**
+ * Direction of a change relative to the baseline:
+ * - `improved`: moved in the better direction (lower, or higher for FPS-like metrics)
+ * - `regressed`: moved in the worse direction
+ * - `unchanged`: no visible change
+ */
+export type DeltaTrend = 'improved' | 'regressed' | 'unchanged'
+
+export interface MetricDelta {
+  baseline: number
+  /** Current value minus baseline value */
+  delta: number
+  trend: DeltaTrend
+}
+
+/** Storage used for baselines; `localStorage` in the manager */
+export type BaselineStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+function getStorageKey(storyId: string): string {
+  return `${BASELINE_STORAGE_PREFIX}${storyId}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function createBaseline(
+  storyId: string,
+  metrics: PerformanceMetrics,
+  profilers: BaselineProfiler[],
+  savedAt: number = Date.now(),
+): PerformanceBaseline {
+  return {
+    version: BASELINE_VERSION,
+    storyId,
+    savedAt,
+    metrics,
+    profilers: profilers.map(({id, metrics: profilerMetrics}) => ({id, metrics: profilerMetrics})),
+  }
+}
+
+/**
+ * Read the saved baseline for a story. Returns `null` when there is none,
+ * it was written by a newer version of the addon, or storage is unavailable.
+ */
+export function loadBaseline(storyId: string, storage: BaselineStorage = localStorage): PerformanceBaseline | null {
+  let data: unknown
+  try {
+    const text = storage.getItem(getStorageKey(storyId))
+    if (text === null) return null
+    data = JSON.parse(text)
+  } catch {
+    return null
+  }
+
+  if (
+    !isRecord(data) ||
+    typeof data.version !== 'number' ||
+    data.version > BASELINE_VERSION ||
+    typeof data.savedAt !== 'number' ||
+    !isRecord(data.metrics) ||
+    !Array.isArray(data.profilers)
+  ) {
+    return null
+  }
+
+  return {
+    version: data.version,
+    storyId,
+    savedAt: data.savedAt,
+    // Fill in metrics added after the baseline was saved
+    metrics: {...DEFAULT_METRICS, ...data.metrics},
+    profilers: data.profilers.filter(
+      (profiler): profiler is BaselineProfiler =>
+        isRecord(profiler) && typeof profiler.id === 'string' && isRecord(profiler.metrics),
+    ),
+  }
+}
+
+/**
+ * Save a baseline, replacing any previous one for the same story.
+ * @returns Whether the baseline was stored (storage may be full or disabled)
+ */
+export function saveBaseline(baseline: PerformanceBaseline, storage: BaselineStorage = localStorage): boolean {
+  try {
+    storage.setItem(getStorageKey(baseline.storyId), JSON.stringify(baseline))
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function clearBaseline(storyId: string, storage: BaselineStorage = localStorage): void {
+  try {
+    storage.removeItem(getStorageKey(storyId))
+  } catch {
+    // Storage unavailable - nothing to clear
+  }
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/** Changes smaller than this fraction of the baseline are shown as unchanged */
+const UNCHANGED_RATIO = 0.01
+
+/**
+ * Compare a value with its baseline. Returns `null` when either side has no
+ * data.
+ */
+export function compareToBaseline(
+  current: number | null,
+  baseline: number | null,
+  higherIsBetter = false,
+): MetricDelta | null {
+  if (current === null || baseline === null || !Number.isFinite(current) || !Number.isFinite(baseline)) {
+    return null
+  }
+
+  const delta = current - baseline
+  let trend: DeltaTrend = 'unchanged'
+  if (delta !== 0 && Math.abs(delta) >= Math.abs(baseline) * UNCHANGED_RATIO) {
+    trend = delta > 0 === higherIsBetter ? 'improved' : 'regressed'
+  }
+  return {baseline, delta, trend}
+}
+
+/**
+ * Deltas for every numeric metric present in both snapshots, keyed by
+ * metric name.
+ */
+export function computeMetricDeltas(
+  metrics: PerformanceMetrics,
+  baseline: PerformanceMetrics,
+): Map<string, MetricDelta> {
+  const deltas = new Map<string, MetricDelta>()
+  for (const [key, value] of Object.entries(baseline)) {
+    const current: unknown = metrics[key as keyof PerformanceMetrics]
+    if (typeof value !== 'number' || typeof current !== 'number') continue
+    // Only numeric fields get here, so the key is a BudgetMetricKey
+    const delta = compareToBaseline(current, value, isHigherBetter(key as BudgetMetricKey))
+    if (delta) deltas.set(key, delta)
+  }
+  return deltas
+}
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Chrome trace export for session recordings
+ *
+ * Converts the timeline events of a session recording into the Chrome Trace
+ * Event JSON format, which Perfetto (ui.perfetto.dev) and the DevTools
+ * Performance panel can open. Each timeline track becomes its own thread, so
+ * frames, long tasks, long animation frames, interactions, React commits and
+ * layout shifts line up on one time axis. Script attribution, interaction
+ * phases and React render times become nested slices, and event details are
+ * attached as args.
+ *
+ * @see https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+ * @module panel/chrome-trace
+ */
+
+import type {TimelineEvent, TimelineTrack} from '../core/performance-types'
+import {getTimelineEvents, type SessionRecording} from './session-recording'
+import {TIMELINE_TRACKS} from './timeline'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A single event in the Trace Event format. Timestamps and durations are in microseconds. */
+export interface ChromeTraceEvent {
+  name: string
+  /** Phase: `X` complete event, `i` instant event, `M` metadata */
+  ph: 'X' | 'i' | 'M'
+  pid: number
+  tid: number
+  ts?: number
+  dur?: number
+  cat?: string
+  /** Scope of instant events (`t` = thread) */
+  s?: 't'
+  args?: Record<string, string | number>
+}
+
+/** A trace in the JSON Object Format */
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[]
+  displayTimeUnit: 'ms'
+  otherData: Record<string, string>
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/** Process ID used for every event. The trace only covers the preview. */
+const TRACE_PID = 1
+
+/** Thread ID of each track, in timeline display order */
+const TRACK_TIDS = new Map<TimelineTrack, number>(TIMELINE_TRACKS.map(({track}, index) => [track, index + 1]))
+
+function toMicroseconds(ms: number): number {
+  return Math.round(ms * 1000)
+}
+
+function getMetadataEvents(storyId: string): ChromeTraceEvent[] {
+  const events: ChromeTraceEvent[] = [
+    {name: 'process_name', ph: 'M', pid: TRACE_PID, tid: 0, args: {name: `Storybook: ${storyId}`}},
+  ]
+  for (const {track, label} of TIMELINE_TRACKS) {
+    const tid = TRACK_TIDS.get(track) ?? 0
+    events.push(
+      {name: 'thread_name', ph: 'M', pid: TRACE_PID, tid, args: {name: label}},
+      {name: 'thread_sort_index', ph: 'M', pid: TRACE_PID, tid, args: {sort_index: tid}},
+    )
+  }
+  return events
+}
+
+/**
+ * Convert one timeline event, plus its segments as slices nested inside it.
+ * Events without a duration, such as layout shifts, become instant events.
+ */
+function toTraceEvents(event: TimelineEvent): ChromeTraceEvent[] {
+  const tid = TRACK_TIDS.get(event.track) ?? 0
+  const args = event.detail ? {detail: event.detail} : undefined
+
+  if (event.duration === 0) {
+    return [
+      {
+        name: event.name,
+        cat: event.track,
+        ph: 'i',
+        s: 't',
+        pid: TRACE_PID,
+        tid,
+        ts: toMicroseconds(event.startTime),
+        args,
+      },
+    ]
+  }
+
+  const traceEvents: ChromeTraceEvent[] = [
+    {
+      name: event.name,
+      cat: event.track,
+      ph: 'X',
+      pid: TRACE_PID,
+      tid,
+      ts: toMicroseconds(event.startTime),
+      dur: toMicroseconds(event.duration),
+      args,
+    },
+  ]
+  for (const segment of event.segments ?? []) {
+    traceEvents.push({
+      name: segment.name,
+      cat: event.track,
+      ph: 'X',
+      pid: TRACE_PID,
+      tid,
+      ts: toMicroseconds(segment.startTime),
+      dur: toMicroseconds(segment.duration),
+    })
+  }
+  return traceEvents
+}
+
+/**
+ * Build a Chrome trace from the timeline events of a recording.
+ *
+ * Timestamps keep the preview's `performance.now()` time base. Recordings
+ * made before timeline events were recorded (version 1) produce a trace
+ * with only the track names.
+ */
+export function createChromeTrace(recording: SessionRecording): ChromeTrace {
+  return {
+    traceEvents: [...getMetadataEvents(recording.storyId), ...getTimelineEvents(recording).flatMap(toTraceEvents)],
+    displayTimeUnit: 'ms',
+    otherData: {
+      source: 'storybook-addon-performance-panel',
+      storyId: recording.storyId,
+      startedAt: new Date(recording.startedAt).toISOString(),
+    },
+  }
+}
+
+export function serializeChromeTrace(trace: ChromeTrace): string {
+  return JSON.stringify(trace)
+}
+
+export function getChromeTraceFileName(recording: SessionRecording): string {
+  const timestamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-')
+  return `trace-${recording.storyId}-${timestamp}.json`
+}
@@ -1,4 +1,7 @@
-import {styled} from 'storybook/theming'
+import {styled, type Theme} from 'storybook/theming'
+
+import type {TimelineTrack} from '../core/performance-types'
+
 /**
  * Styled components using Storybook's theming system.
  * All styles adapt to Storybook's light/dark theme automatically.
@@ -285,13 +288,20 @@ export const TimingBreakdown = styled.span(({theme}) => ({
   fontFamily: theme.typography.fonts.mono,
 }))
 
-/** Individual phase in timing breakdown */
-export const TimingPhase = styled.span<{phase: 'delay' | 'process' | 'paint'}>(({theme, phase}) => {
-  const colors = {
+/** Interaction phase: input delay, event processing or presentation delay */
+export type InteractionPhase = 'delay' | 'process' | 'paint'
+
+function getPhaseColors(theme: Theme): Record<InteractionPhase, string> {
+  return {
     delay: theme.color.warning,
     process: theme.color.secondary,
     paint: theme.color.positive,
   }
+}
+
+/** Individual phase in timing breakdown */
+export const TimingPhase = styled.span<{phase: InteractionPhase}>(({theme, phase}) => {
+  const colors = getPhaseColors(theme)
   return {
     display: 'inline-flex',
     alignItems: 'center',
@@ -325,3 +335,319 @@ export const TimingArrow = styled.span(({theme}) => ({
   fontSize: '7px',
   padding: '0 1px',
 }))
+
+/** Horizontal bar of stacked interaction phases; segment widths are set inline */
+export const PhaseBar = styled.span(({theme}) => ({
+  display: 'inline-flex',
+  height: '6px',
+  borderRadius: '2px',
+  overflow: 'hidden',
+  background: theme.appBorderColor,
+  verticalAlign: 'middle',
+}))
+
+/** One phase of a {@link PhaseBar} */
+export const PhaseSegment = styled.span<{phase: InteractionPhase}>(({theme, phase}) => ({
+  height: '100%',
+  background: getPhaseColors(theme)[phase],
+}))
+
+/** Single bar of a histogram; width is set inline */
+export const HistogramBar = styled.span(({theme}) => ({
+  display: 'inline-block',
+  height: '6px',
+  borderRadius: '2px',
+  background: theme.color.secondary,
+  verticalAlign: 'middle',
+}))
+
+/** Scrollable container for long lists below a section's metrics */
+export const ScrollArea = styled.div({
+  maxHeight: '160px',
+  overflowY: 'auto',
+})
+
+/** Column chart of commit durations; bar heights are set inline */
+export const CommitChart = styled.div(({theme}) => ({
+  display: 'flex',
+  alignItems: 'flex-end',
+  gap: '1px',
+  height: '32px',
+  padding: '4px 0',
+  borderBottom: `1px solid ${theme.appBorderColor}`,
+}))
+
+/** One commit in a {@link CommitChart} */
+export const CommitChartBar = styled.span<{slow: boolean}>(({theme, slow}) => ({
+  flex: '1 1 0',
+  maxWidth: '8px',
+  minHeight: '1px',
+  borderRadius: '1px 1px 0 0',
+  background: slow ? theme.color.negative : theme.color.secondary,
+}))
+
+/** Banner shown above the sections while reviewing a session recording */
+export const ReviewBar = styled.div(({theme}) => ({
+  display: 'flex',
+  alignItems: 'center',
+  flexWrap: 'wrap',
+  gap: '8px',
+  padding: '4px 8px',
+  marginBottom: '4px',
+  borderRadius: theme.appBorderRadius,
+  border: `1px solid ${theme.color.secondary}`,
+  background: `${theme.color.secondary}14`,
+}))
+
+export const ReviewTitle = styled.span(({theme}) => ({
+  fontSize: '10px',
+  fontWeight: theme.typography.weight.bold,
+  textTransform: 'uppercase',
+  letterSpacing: '0.5px',
+}))
+
+/** Range input for stepping through recorded metrics snapshots */
+export const ReviewScrubber = styled.input(({theme}) => ({
+  flex: 1,
+  minWidth: '120px',
+  accentColor: theme.color.secondary,
+}))
+
+/** Inline message above the sections (import errors, warnings) */
+export const PanelNotice = styled.div<{variant: 'info' | 'positive' | 'warning' | 'negative'}>(({theme, variant}) => {
+  const colors = {
+    info: theme.color.secondary,
+    positive: theme.color.positive,
+    warning: theme.color.warning,
+    negative: theme.color.negative,
+  }
+  return {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '4px 8px',
+    padding: '4px 8px',
+    marginBottom: '4px',
+    borderRadius: theme.appBorderRadius,
+    border: `1px solid ${colors[variant]}`,
+    background: `${colors[variant]}14`,
+    color: theme.color.defaultText,
+  }
+})
+
+/** Pass/fail indicator for a metric's budget, shown next to its label */
+export const BudgetBadge = styled.span<{status: 'pass' | 'fail' | 'no-data'}>(({theme, status}) => {
+  const colors = {
+    pass: theme.color.positive,
+    fail: theme.color.negative,
+    'no-data': theme.color.mediumdark,
+  }
+  return {
+    display: 'inline-flex',
+    alignItems: 'center',
+    padding: '0 3px',
+    fontSize: '8px',
+    borderRadius: '3px',
+    border: `1px solid ${colors[status]}`,
+    color: colors[status],
+    whiteSpace: 'nowrap',
+  }
+})
+
+/** Change since the saved baseline, shown next to a metric's label */
+export const DeltaBadge = styled.span<{trend: 'improved' | 'regressed' | 'unchanged'}>(({theme, trend}) => {
+  const colors = {
+    improved: theme.color.positive,
+    regressed: theme.color.negative,
+    unchanged: theme.color.mediumdark,
+  }
+  return {
+    fontSize: '8px',
+    fontVariantNumeric: 'tabular-nums',
+    color: colors[trend],
+    whiteSpace: 'nowrap',
+  }
+})
+
+/** Compact table below a section's metrics, e.g. for ranked attribution */
+export const DataTable = styled.table(({theme}) => ({
+  width: '100%',
+  borderCollapse: 'collapse',
+  fontSize: '10px',
+  borderTop: `1px solid ${theme.appBorderColor}`,
+  'th, td': {
+    padding: '2px 8px',
+    textAlign: 'right',
+    fontVariantNumeric: 'tabular-nums',
+    whiteSpace: 'nowrap',
+  },
+  'th:first-of-type, td:first-of-type': {
+    textAlign: 'left',
+    whiteSpace: 'normal',
+    wordBreak: 'break-all',
+  },
+  th: {
+    fontWeight: 'normal',
+    color: theme.color.mediumdark,
+  },
+  'tbody tr': {
+    borderTop: `1px solid ${theme.appBorderColor}`,
+  },
+}))
+
+/** Column header button that sorts a {@link DataTable} */
+export const SortButton = styled.button<{active: boolean}>(({theme, active}) => ({
+  padding: 0,
+  border: 'none',
+  background: 'transparent',
+  font: 'inherit',
+  color: active ? theme.color.defaultText : theme.color.mediumdark,
+  fontWeight: active ? theme.typography.weight.bold : 'normal',
+  cursor: 'pointer',
+  '&:focus-visible': {
+    outline: 'none',
+    boxShadow: `0 0 0 1px ${theme.color.secondary}`,
+  },
+}))
+
+/** Tab strip switching between the metric sections and the timeline */
+export const ViewTabs = styled.div(({theme}) => ({
+  display: 'flex',
+  gap: '2px',
+  padding: '0 8px',
+  borderBottom: `1px solid ${theme.appBorderColor}`,
+}))
+
+/** Tab in {@link ViewTabs} */
+export const ViewTab = styled.button<{selected: boolean}>(({theme, selected}) => ({
+  padding: '6px 8px',
+  border: 'none',
+  borderBottom: `2px solid ${selected ? theme.color.secondary : 'transparent'}`,
+  background: 'transparent',
+  font: 'inherit',
+  fontSize: '11px',
+  color: selected ? theme.color.defaultText : theme.color.mediumdark,
+  cursor: 'pointer',
+  '&:disabled': {
+    cursor: 'not-allowed',
+    opacity: 0.5,
+  },
+  '&:focus-visible': {
+    outline: 'none',
+    boxShadow: `inset 0 0 0 1px ${theme.color.secondary}`,
+  },
+}))
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+/** Height of one row of a timeline track (px) */
+export const TIMELINE_ROW_HEIGHT = 14
+
+function getTrackColors(theme: Theme): Record<TimelineTrack, string> {
+  return {
+    frame: theme.color.medium,
+    'long-task': theme.color.negative,
+    loaf: theme.color.warning,
+    interaction: theme.color.secondary,
+    'react-commit': theme.color.seafoam,
+    'layout-shift': theme.color.purple,
+    measure: theme.color.positive,
+  }
+}
+
+/** Zoom controls and hover details above the timeline */
+export const TimelineToolbar = styled.div(({theme}) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+  padding: '2px 8px',
+  minHeight: '28px',
+  borderBottom: `1px solid ${theme.appBorderColor}`,
+}))
+
+/** Details of the hovered timeline event */
+export const TimelineHoverDetail = styled.span(({theme}) => ({
+  flex: 1,
+  minWidth: 0,
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap',
+  fontSize: '10px',
+  fontFamily: theme.typography.fonts.mono,
+  color: theme.color.mediumdark,
+}))
+
+/** Horizontally scrollable container; zooming widens the canvas inside it */
+export const TimelineScroll = styled.div({
+  overflowX: 'auto',
+})
+
+/** Full width of the timeline at the current zoom; width is set inline */
+export const TimelineCanvas = styled.div({
+  minWidth: '100%',
+})
+
+/** One track: a label that stays in view while scrolling, and the lane */
+export const TimelineRow = styled.div(({theme}) => ({
+  display: 'flex',
+  borderBottom: `1px solid ${theme.appBorderColor}`,
+}))
+
+/** Track name, sticky on the left edge */
+export const TimelineTrackLabel = styled.div(({theme}) => ({
+  position: 'sticky',
+  left: 0,
+  zIndex: 1,
+  flex: '0 0 88px',
+  padding: '0 8px',
+  fontSize: '10px',
+  lineHeight: `${String(TIMELINE_ROW_HEIGHT)}px`,
+  color: theme.color.mediumdark,
+  background: theme.background.content,
+  borderRight: `1px solid ${theme.appBorderColor}`,
+}))
+
+/** Area events of a track are positioned in; height is set inline */
+export const TimelineLane = styled.div({
+  position: 'relative',
+  flex: 1,
+})
+
+/** A timeline event; position and width are set inline as percentages of the lane */
+export const TimelineBar = styled.div<{track: TimelineTrack; emphasized: boolean}>(({theme, track, emphasized}) => ({
+  position: 'absolute',
+  height: `${String(TIMELINE_ROW_HEIGHT - 2)}px`,
+  minWidth: track === 'layout-shift' ? '3px' : '1px',
+  marginTop: '1px',
+  borderRadius: '1px',
+  overflow: 'hidden',
+  boxSizing: 'border-box',
+  background: emphasized ? theme.color.negative : getTrackColors(theme)[track],
+  opacity: emphasized || track !== 'frame' ? 1 : 0.5,
+  cursor: 'default',
+}))
+
+/** A span inside a {@link TimelineBar}; position and width are set inline as percentages of the bar */
+export const TimelineBarSegment = styled.div({
+  position: 'absolute',
+  top: 0,
+  bottom: 0,
+  background: 'rgba(0, 0, 0, 0.25)',
+  borderLeft: '1px solid rgba(255, 255, 255, 0.6)',
+})
+
+/** Axis tick with its label; position is set inline */
+export const TimelineTick = styled.span(({theme}) => ({
+  position: 'absolute',
+  top: 0,
+  bottom: 0,
+  paddingLeft: '2px',
+  borderLeft: `1px solid ${theme.appBorderColor}`,
+  fontSize: '9px',
+  lineHeight: `${String(TIMELINE_ROW_HEIGHT)}px`,
+  fontVariantNumeric: 'tabular-nums',
+  color: theme.color.mediumdark,
+  whiteSpace: 'nowrap',
+}))
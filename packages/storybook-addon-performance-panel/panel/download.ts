@@ -0,0 +1,14 @@
+/**
+ * Trigger a browser download of generated file contents.
+ */
+export function downloadFile(fileName: string, contents: string, mimeType = 'application/json') {
+  const url = URL.createObjectURL(new Blob([contents], {type: mimeType}))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoke on the next task so the download has a chance to start
+  setTimeout(() => {
+    URL.revokeObjectURL(url)
+  }, 0)
+}
@@ -34,6 +34,24 @@ const mbFormatter = new Intl.NumberFormat('en-US', {
  */
 export const formatMb = (value: number): string => mbFormatter.format(value)
 
+/**
+ * Formatter for kilobytes with 1 decimal place.
+ */
+const kbFormatter = new Intl.NumberFormat('en-US', {
+  style: 'unit',
+  unit: 'kilobyte',
+  unitDisplay: 'narrow',
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+})
+
+/**
+ * Formats a number as kilobytes with 1 decimal place.
+ * @param value - Size in kilobytes
+ * @returns Formatted string (e.g., "12.5kB")
+ */
+export const formatKb = (value: number): string => kbFormatter.format(value)
+
 /**
  * Formatter for numbers with thousand separators.
  */
@@ -83,3 +101,36 @@ const rateFormatter = new Intl.NumberFormat('en-US', {
  * @returns Formatted string (e.g., "1.25 MB/s")
  */
 export const formatRate = (value: number, unit: string): string => `${rateFormatter.format(value)} ${unit}`
+
+/**
+ * Formatter for seconds with 1 decimal place.
+ */
+const secondsFormatter = new Intl.NumberFormat('en-US', {
+  style: 'unit',
+  unit: 'second',
+  unitDisplay: 'narrow',
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+})
+
+/**
+ * Formats a duration in milliseconds as seconds with 1 decimal place.
+ * @param value - Duration in milliseconds
+ * @returns Formatted string (e.g., "12.5s")
+ */
+export const formatSeconds = (value: number): string => secondsFormatter.format(value / 1000)
+
+/**
+ * Formatter for signed changes with up to 3 significant digits.
+ */
+const deltaFormatter = new Intl.NumberFormat('en-US', {
+  signDisplay: 'exceptZero',
+  maximumSignificantDigits: 3,
+})
+
+/**
+ * Formats a change relative to a baseline with an explicit sign.
+ * @param value - Current value minus baseline value
+ * @returns Formatted string (e.g., "+12.4", "-0.05", "0")
+ */
+export const formatDelta = (value: number): string => deltaFormatter.format(value)
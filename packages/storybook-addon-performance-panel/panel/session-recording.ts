@@ -0,0 +1,340 @@
+/**
+ * @fileoverview Session recording for the performance panel
+ *
+ * A session recording is an append-only timeline of everything the panel
+ * receives from the preview while recording is active: every metrics
+ * emission, every profiler update, the interactions and long animation
+ * frames derived from consecutive metrics snapshots, and the timestamped
+ * timeline events (frames, long tasks, React commits, ...) reported since the
+ * previous update.
+ *
+ * Recordings serialize to a versioned JSON document so they can be attached
+ * to bug reports and re-opened in another Storybook for offline review.
+ *
+ * @module panel/session-recording
+ */
+
+import {
+  DEFAULT_METRICS,
+  type InteractionInfo,
+  type LoAFDetails,
+  type PerformanceMetrics,
+  type ReactMetrics,
+  type TimelineEvent,
+  type TimelineTrack,
+} from '../core/performance-types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Identifies JSON documents produced by this addon */
+export const SESSION_RECORDING_FORMAT = 'storybook-addon-performance-panel/session-recording'
+
+/** Schema version written to new recordings. Bump when the entry shape changes. */
+export const SESSION_RECORDING_VERSION = 2
+
+/**
+ * Upper bound on recorded entries. Metrics and timeline events each arrive
+ * roughly every 250ms, so this covers about 20 minutes of continuous
+ * recording while keeping exported files a manageable size.
+ */
+export const MAX_SESSION_ENTRIES = 10_000
+
+interface SessionEntryBase {
+  /** Milliseconds since the recording started */
+  time: number
+}
+
+/** A full metrics snapshot as emitted by the preview */
+export interface MetricsSessionEntry extends SessionEntryBase {
+  kind: 'metrics'
+  metrics: PerformanceMetrics
+}
+
+/** A single React profiler update */
+export interface ProfilerSessionEntry extends SessionEntryBase {
+  kind: 'profiler'
+  storyId: string
+  id: string
+  metrics: ReactMetrics
+}
+
+/** An interaction observed between two metrics snapshots */
+export interface InteractionSessionEntry extends SessionEntryBase {
+  kind: 'interaction'
+  interaction: InteractionInfo
+}
+
+/** A long animation frame observed between two metrics snapshots */
+export interface LoAFSessionEntry extends SessionEntryBase {
+  kind: 'loaf'
+  loaf: LoAFDetails
+}
+
+/** Timeline events reported since the previous timeline entry (added in version 2) */
+export interface TimelineSessionEntry extends SessionEntryBase {
+  kind: 'timeline'
+  /** Events with `performance.now()` timestamps from the preview */
+  events: TimelineEvent[]
+}
+
+export type SessionEntry =
+  MetricsSessionEntry | ProfilerSessionEntry | InteractionSessionEntry | LoAFSessionEntry | TimelineSessionEntry
+
+export type SessionEntryKind = SessionEntry['kind']
+
+export interface SessionRecording {
+  format: typeof SESSION_RECORDING_FORMAT
+  version: number
+  /** Story that was selected when recording started */
+  storyId: string
+  /** Epoch milliseconds when recording started */
+  startedAt: number
+  /** Entries in the order they were received */
+  entries: SessionEntry[]
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+export function createSessionRecording(storyId: string, startedAt: number): SessionRecording {
+  return {
+    format: SESSION_RECORDING_FORMAT,
+    version: SESSION_RECORDING_VERSION,
+    storyId,
+    startedAt,
+    entries: [],
+  }
+}
+
+/**
+ * Recorded timeline events the preview may still report, keyed by
+ * {@link getTimelineEventKey}. Derived from a recording's entries and cached
+ * per recording object, so new events are found without rescanning the
+ * whole recording. Never mutated once cached.
+ */
+const recentTimelineEvents = new WeakMap<SessionRecording, ReadonlyMap<string, TimelineEvent>>()
+
+/** A copy of `recording` with `entries` appended */
+function withEntries(recording: SessionRecording, entries: SessionEntry[]): SessionRecording {
+  const next = {...recording, entries: [...recording.entries, ...entries]}
+  const recent = recentTimelineEvents.get(recording)
+  if (recent) recentTimelineEvents.set(next, recent)
+  return next
+}
+
+export function isSessionRecordingFull(recording: SessionRecording): boolean {
+  return recording.entries.length >= MAX_SESSION_ENTRIES
+}
+
+/**
+ * Append a metrics snapshot, plus any interaction or LoAF that happened since
+ * the previous snapshot.
+ *
+ * The preview only reports the most recent interaction and LoAF, so new ones
+ * are detected by their counters increasing between snapshots.
+ */
+export function appendMetricsEntry(
+  recording: SessionRecording,
+  previous: PerformanceMetrics,
+  metrics: PerformanceMetrics,
+  now: number,
+): SessionRecording {
+  const time = now - recording.startedAt
+  const entries: SessionEntry[] = []
+
+  if (metrics.lastInteraction && metrics.interactionCount > previous.interactionCount) {
+    entries.push({kind: 'interaction', time, interaction: metrics.lastInteraction})
+  }
+  if (metrics.lastLoaf && metrics.loafCount > previous.loafCount) {
+    entries.push({kind: 'loaf', time, loaf: metrics.lastLoaf})
+  }
+  entries.push({kind: 'metrics', time, metrics})
+
+  return withEntries(recording, entries)
+}
+
+export function appendProfilerEntry(
+  recording: SessionRecording,
+  update: {storyId: string; id: string; metrics: ReactMetrics},
+  now: number,
+): SessionRecording {
+  const entry: ProfilerSessionEntry = {kind: 'profiler', time: now - recording.startedAt, ...update}
+  return withEntries(recording, [entry])
+}
+
+function getTimelineEventKey(event: TimelineEvent): string {
+  return `${event.track}:${String(event.startTime)}:${event.name}`
+}
+
+function toRecentEntry(event: TimelineEvent): [string, TimelineEvent] {
+  return [getTimelineEventKey(event), event]
+}
+
+/**
+ * Append the timeline events not recorded yet.
+ *
+ * The preview reports a sliding window of recent events per track with
+ * every update, so events already recorded by an earlier entry are skipped.
+ * Recorded events older than their track's oldest reported event have left
+ * the window for good, so they're dropped from the events compared against.
+ */
+export function appendTimelineEntry(
+  recording: SessionRecording,
+  events: readonly TimelineEvent[],
+  now: number,
+): SessionRecording {
+  if (events.length === 0) return recording
+
+  const windowStarts = new Map<TimelineTrack, number>()
+  for (const event of events) {
+    windowStarts.set(event.track, Math.min(windowStarts.get(event.track) ?? Infinity, event.startTime))
+  }
+
+  // Copied, since the cached map may be shared with other recordings
+  const recent = new Map<string, TimelineEvent>()
+  const cached =
+    recentTimelineEvents.get(recording) ??
+    recording.entries.flatMap(entry => (entry.kind === 'timeline' ? entry.events : [])).map(toRecentEntry)
+  for (const [key, event] of cached) {
+    if (event.startTime >= (windowStarts.get(event.track) ?? -Infinity)) recent.set(key, event)
+  }
+
+  const added = events.filter(event => !recent.has(getTimelineEventKey(event)))
+  if (added.length === 0) {
+    recentTimelineEvents.set(recording, recent)
+    return recording
+  }
+
+  for (const event of added) recent.set(getTimelineEventKey(event), event)
+  const entry: TimelineSessionEntry = {kind: 'timeline', time: now - recording.startedAt, events: added}
+  const next = {...recording, entries: [...recording.entries, entry]}
+  recentTimelineEvents.set(next, recent)
+  return next
+}
+
+// ============================================================================
+// Review Helpers
+// ============================================================================
+
+export function getMetricsEntries(recording: SessionRecording): MetricsSessionEntry[] {
+  return recording.entries.filter((entry): entry is MetricsSessionEntry => entry.kind === 'metrics')
+}
+
+/**
+ * Latest update of each profiler in the recorded story, as of `time`.
+ */
+export function getProfilerEntriesAt(recording: SessionRecording, time: number): ProfilerSessionEntry[] {
+  const latest = new Map<string, ProfilerSessionEntry>()
+  for (const entry of recording.entries) {
+    if (entry.time > time) break
+    if (entry.kind === 'profiler' && entry.storyId === recording.storyId) {
+      latest.set(entry.id, entry)
+    }
+  }
+  return [...latest.values()]
+}
+
+/** Every recorded timeline event, sorted by start time */
+export function getTimelineEvents(recording: SessionRecording): TimelineEvent[] {
+  return recording.entries
+    .flatMap(entry => (entry.kind === 'timeline' ? entry.events : []))
+    .sort((a, b) => a.startTime - b.startTime)
+}
+
+/** Number of entries of each kind recorded up to and including `time` */
+export function countEntriesAt(recording: SessionRecording, time: number): Record<SessionEntryKind, number> {
+  const counts: Record<SessionEntryKind, number> = {metrics: 0, profiler: 0, interaction: 0, loaf: 0, timeline: 0}
+  for (const entry of recording.entries) {
+    if (entry.time > time) break
+    counts[entry.kind]++
+  }
+  return counts
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+export function serializeSessionRecording(recording: SessionRecording): string {
+  return JSON.stringify(recording, null, 2)
+}
+
+export function getSessionRecordingFileName(recording: SessionRecording): string {
+  const timestamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-')
+  return `performance-${recording.storyId}-${timestamp}.json`
+}
+
+const ENTRY_KINDS = new Set<string>(['metrics', 'profiler', 'interaction', 'loaf', 'timeline'])
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseEntry(value: unknown, index: number): SessionEntry {
+  if (!isRecord(value) || typeof value.kind !== 'string' || !ENTRY_KINDS.has(value.kind)) {
+    throw new Error(`Invalid session recording: entry ${String(index)} has an unknown kind`)
+  }
+  if (typeof value.time !== 'number') {
+    throw new Error(`Invalid session recording: entry ${String(index)} is missing a time`)
+  }
+
+  const entry = value as unknown as SessionEntry
+  switch (entry.kind) {
+    case 'metrics':
+      if (!isRecord(entry.metrics)) break
+      // Fill in metrics added after the recording was made
+      return {...entry, metrics: {...DEFAULT_METRICS, ...entry.metrics}}
+    case 'profiler':
+      if (!isRecord(entry.metrics) || typeof entry.id !== 'string' || typeof entry.storyId !== 'string') break
+      return entry
+    case 'interaction':
+      if (!isRecord(entry.interaction)) break
+      return entry
+    case 'loaf':
+      if (!isRecord(entry.loaf)) break
+      return entry
+    case 'timeline':
+      if (!Array.isArray(entry.events)) break
+      return entry
+  }
+  throw new Error(`Invalid session recording: entry ${String(index)} is malformed`)
+}
+
+/**
+ * Parse and validate a recording previously produced by
+ * {@link serializeSessionRecording}.
+ *
+ * @throws {Error} If the text is not a recording, or was written by a newer
+ * version of the addon.
+ */
+export function parseSessionRecording(text: string): SessionRecording {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid session recording: file is not valid JSON')
+  }
+
+  if (!isRecord(data) || data.format !== SESSION_RECORDING_FORMAT) {
+    throw new Error('Invalid session recording: not a performance panel recording')
+  }
+  if (typeof data.version !== 'number' || data.version > SESSION_RECORDING_VERSION) {
+    throw new Error(
+      `Unsupported session recording version ${String(data.version)} (this addon reads up to version ${String(SESSION_RECORDING_VERSION)})`,
+    )
+  }
+  if (typeof data.storyId !== 'string' || typeof data.startedAt !== 'number' || !Array.isArray(data.entries)) {
+    throw new Error('Invalid session recording: missing storyId, startedAt or entries')
+  }
+
+  return {
+    format: SESSION_RECORDING_FORMAT,
+    version: data.version,
+    storyId: data.storyId,
+    startedAt: data.startedAt,
+    entries: data.entries.map(parseEntry),
+  }
+}
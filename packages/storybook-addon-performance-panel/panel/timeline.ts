@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Layout helpers for the timeline view
+ *
+ * The timeline plots the events the preview sends while the timeline tab is
+ * open on one shared time axis, one track per event kind. These helpers
+ * compute the time range, the axis ticks and how overlapping events in a
+ * track are split into rows; rendering lives in the panel.
+ *
+ * @module panel/timeline
+ */
+
+import type {TimelineEvent, TimelineTrack} from '../core/performance-types'
+
+// ============================================================================
+// Tracks
+// ============================================================================
+
+/** Tracks in display order, with their labels */
+export const TIMELINE_TRACKS: readonly {track: TimelineTrack; label: string}[] = [
+  {track: 'frame', label: 'Frames'},
+  {track: 'long-task', label: 'Long tasks'},
+  {track: 'loaf', label: 'LoAFs'},
+  {track: 'interaction', label: 'Interactions'},
+  {track: 'react-commit', label: 'React commits'},
+  {track: 'layout-shift', label: 'Layout shifts'},
+  {track: 'measure', label: 'Measures'},
+]
+
+/** Rows a track is split into at most. Events that don't fit share the last row. */
+export const MAX_TRACK_ROWS = 4
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/** Time span on the preview's performance timeline (ms) */
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+/**
+ * Smallest range containing every event.
+ *
+ * @returns The range, or `null` when there are no events
+ */
+export function getTimelineRange(events: readonly TimelineEvent[]): TimeRange | null {
+  if (events.length === 0) return null
+  let start = Infinity
+  let end = -Infinity
+  for (const event of events) {
+    start = Math.min(start, event.startTime)
+    end = Math.max(end, event.startTime + event.duration)
+  }
+  // Keep a single instant event visible
+  return {start, end: Math.max(end, start + 1)}
+}
+
+/**
+ * Split the events of one track into rows, putting each event in the first
+ * row where it doesn't overlap the previous event, so nested measures and
+ * overlapping commits stay readable.
+ *
+ * @param events - Events of a single track, sorted by start time
+ */
+export function packTimelineRows(events: readonly TimelineEvent[]): TimelineEvent[][] {
+  const rows: TimelineEvent[][] = []
+  const rowEnds: number[] = []
+
+  for (const event of events) {
+    let row = rowEnds.findIndex(end => end <= event.startTime)
+    if (row === -1) {
+      row = rows.length < MAX_TRACK_ROWS ? rows.length : rows.length - 1
+    }
+    const rowEvents = rows[row]
+    if (rowEvents) {
+      rowEvents.push(event)
+    } else {
+      rows[row] = [event]
+    }
+    rowEnds[row] = Math.max(rowEnds[row] ?? 0, event.startTime + event.duration)
+  }
+
+  return rows
+}
+
+/**
+ * Axis tick offsets from the start of the range, spaced 1, 2 or 5 times a
+ * power of ten apart.
+ *
+ * @param range - Range the axis covers
+ * @param maxTicks - Upper bound on the number of intervals
+ * @returns Offsets (ms), starting at `0`
+ */
+export function getTimelineTicks(range: TimeRange, maxTicks: number): number[] {
+  const span = range.end - range.start
+  if (span <= 0 || maxTicks < 1) return [0]
+
+  const rawStep = span / maxTicks
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep))
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rawStep) ?? rawStep
+
+  const ticks: number[] = []
+  for (let index = 0; index * step <= span; index++) {
+    ticks.push(index * step)
+  }
+  return ticks
+}
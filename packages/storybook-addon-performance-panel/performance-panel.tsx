@@ -13,14 +13,15 @@
  * │  ┌─────────────────────────────────────────────────────────────────┐    │
  * │  │  PerformancePanel                                                │    │
  * │  │  ├─ ContentArea (scrollable grid)                               │    │
+ * │  │  │  ├─ ViewTabs              [Sections below or TimelineView]   │    │
  * │  │  │  ├─ FrameTimingSection    [FPS, Frame Time, Dropped]         │    │
  * │  │  │  ├─ InputSection          [Latency, INP, Jitter]             │    │
  * │  │  │  ├─ MainThreadSection     [Long Tasks, TBT, Thrashing]       │    │
  * │  │  │  ├─ LoAFSection           [LoAF Count, Blocking, Scripts]    │    │
- * │  │  │  ├─ ReactSection          [Mounts, Updates, Cascades, P95]   │    │
+ * │  │  │  ├─ ReactSection          [Mounts, Commit Log, Re-renders]   │    │
  * │  │  │  ├─ LayoutSection         [CLS, Reflows, DOM Mutations]      │    │
  * │  │  │  └─ MemorySection         [Heap, Delta, Peak, GC]            │    │
- * │  │  └─ SideToolbar (reset button)                                  │    │
+ * │  │  └─ SideToolbar (reset, baseline, session recording controls)   │    │
  * │  └─────────────────────────────────────────────────────────────────┘    │
  * └─────────────────────────────────────────────────────────────────────────┘
  * ```
@@ -32,52 +33,131 @@
  * - 🟡 Yellow: Needs improvement (may cause issues)
  * - 🔴 Red: Poor performance (likely causing issues)
  *
+ * The defaults can be replaced per story or globally, see
+ * {@link ./core/performance-thresholds.ts}.
+ *
  * ## Communication
  *
  * Uses Storybook's channel API to receive metrics:
  * - `PERF_EVENTS.METRICS_UPDATE` - Receives metrics from decorator
  * - `PERF_EVENTS.RESET` - Emits to reset all metrics
  * - `PERF_EVENTS.REQUEST_METRICS` - Requests immediate metrics update
+ * - `PERF_EVENTS.TIMELINE_VISIBILITY` / `TIMELINE_UPDATE` - Timeline events while the timeline tab is open or recording
  *
  * @module performance-panel
  * @see {@link ./performance-decorator.tsx} - The metrics collector
  * @see {@link ./performance-types.ts} - Shared types and constants
  */
 
-import {SyncIcon} from '@storybook/icons'
+import {
+  BeakerIcon,
+  BookmarkHollowIcon,
+  BookmarkIcon,
+  CloseIcon,
+  DownloadIcon,
+  EyeCloseIcon,
+  EyeIcon,
+  StackedIcon,
+  StopAltIcon,
+  SyncIcon,
+  TimeIcon,
+  UploadIcon,
+  VideoIcon,
+  ZoomIcon,
+  ZoomOutIcon,
+  ZoomResetIcon,
+} from '@storybook/icons'
 import React from 'react'
 import {AddonPanel, Badge, Button, Code, Popover, WithTooltip} from 'storybook/internal/components'
-import {useChannel, useStorybookState} from 'storybook/manager-api'
+import {useChannel, useGlobals, useParameter, useStorybookState} from 'storybook/manager-api'
 import {useTheme} from 'storybook/theming'
 
 import {computeP95} from './collectors/utils'
 import {
+  type BudgetMetricKey,
+  type BudgetResult,
+  evaluateBudgets,
+  evaluateMeasureBudgets,
+  formatBudget,
+  type MeasureBudgetResult,
+} from './core/performance-budgets'
+import {
+  resolveThresholds,
+  type Thresholds,
+  THRESHOLDS_GLOBAL_KEY,
+  type ThresholdSettings,
+} from './core/performance-thresholds'
+import {
+  type ComponentRenderInfo,
+  DEFAULT_LEAK_CHECK_CYCLES,
   DEFAULT_METRICS,
+  type DetachedNodeInfo,
   getStatusVariant,
   getZeroIsGoodStatus,
   type InteractionInfo,
+  LEAK_CHECK_SLOPE_LIMITS,
+  type LeakCheckResult,
+  type LoAFScriptStats,
+  type NetworkRequestInfo,
+  type NetworkRequestKind,
+  type ObserverType,
+  PARAM_KEY,
   PERF_EVENTS,
   type PerformanceMetrics,
+  type PerformancePanelParameters,
+  type ReactCommitInfo,
   type ReactMetrics,
+  type RenderOffenderInfo,
+  type RenderReason,
+  type RenderReasonCommitInfo,
   type StatusVariant,
   THRESHOLDS,
+  type TimelineEvent,
+  type TimerCallSiteInfo,
+  type TimerKind,
 } from './core/performance-types'
 import {
+  type BaselineProfiler,
+  clearBaseline,
+  compareToBaseline,
+  computeMetricDeltas,
+  createBaseline,
+  loadBaseline,
+  type MetricDelta,
+  type PerformanceBaseline,
+  saveBaseline,
+} from './panel/baselines'
+import {createChromeTrace, getChromeTraceFileName, serializeChromeTrace} from './panel/chrome-trace'
+import {
+  BudgetBadge,
+  CommitChart,
+  CommitChartBar,
   ContentArea,
+  DataTable,
+  DeltaBadge,
   DetailValue,
   EmptyState,
   EmptyStateHint,
   EmptyStateSubtitle,
   EmptyStateTitle,
+  HistogramBar,
   InfoIcon,
   InspectButton,
+  type InteractionPhase,
   MetricItem,
   MetricItemWithDetail,
   MetricLabel,
   MetricsList,
   MetricValue,
   NoDataHint,
+  PanelNotice,
   PanelWrapper,
+  PhaseBar,
+  PhaseSegment,
+  ReviewBar,
+  ReviewScrubber,
+  ReviewTitle,
+  ScrollArea,
   SecondaryValue,
   Section,
   SectionHeader,
@@ -85,14 +165,54 @@ import {
   SectionsGrid,
   SectionTitle,
   SideToolbar,
+  SortButton,
   SparklineContainer,
   SparklineRow,
+  TIMELINE_ROW_HEIGHT,
+  TimelineBar,
+  TimelineBarSegment,
+  TimelineCanvas,
+  TimelineHoverDetail,
+  TimelineLane,
+  TimelineRow,
+  TimelineScroll,
+  TimelineTick,
+  TimelineToolbar,
+  TimelineTrackLabel,
   TimingArrow,
   TimingBreakdown,
   TimingPhase,
+  ViewTab,
+  ViewTabs,
   WebVitalBadge,
 } from './panel/components'
-import {formatMb, formatMs, formatNumber, formatPercent, formatRate, formatScore} from './panel/formatters'
+import {downloadFile} from './panel/download'
+import {
+  formatDelta,
+  formatKb,
+  formatMb,
+  formatMs,
+  formatNumber,
+  formatPercent,
+  formatRate,
+  formatScore,
+  formatSeconds,
+} from './panel/formatters'
+import {
+  appendMetricsEntry,
+  appendProfilerEntry,
+  appendTimelineEntry,
+  countEntriesAt,
+  createSessionRecording,
+  getMetricsEntries,
+  getProfilerEntriesAt,
+  getSessionRecordingFileName,
+  isSessionRecordingFull,
+  parseSessionRecording,
+  serializeSessionRecording,
+  type SessionRecording,
+} from './panel/session-recording'
+import {getTimelineRange, getTimelineTicks, packTimelineRows, TIMELINE_TRACKS} from './panel/timeline'
 
 // ============================================================================
 // Profiler Types
@@ -262,8 +382,23 @@ const getZeroStatus = getZeroIsGoodStatus
 // Metric Components
 // ============================================================================
 
+/** Thresholds merged from parameters and globals, used for status colours */
+const ThresholdsContext = React.createContext<Thresholds>(THRESHOLDS)
+
+/** Budget results for the displayed metrics, keyed by metric */
+const BudgetResultsContext = React.createContext<ReadonlyMap<BudgetMetricKey, BudgetResult>>(new Map())
+
+/** Changes since the saved baseline, keyed by metric (empty without a baseline) */
+const MetricDeltasContext = React.createContext<ReadonlyMap<string, MetricDelta>>(new Map())
+
 interface MetricProps {
   label: string
+  /** Metrics field shown in this row, used to look up its budget and baseline delta */
+  metric?: BudgetMetricKey
+  /** Key of this row's baseline delta when it differs from `metric` */
+  baselineKey?: string
+  /** Budget for rows not backed by a metrics field, such as user timing measures */
+  budgetResult?: Pick<BudgetResult, 'budget' | 'status' | 'higherIsBetter'>
   tooltip?: string
   sparkline?: React.ReactNode
   /** Whether this is a Core Web Vital metric */
@@ -277,6 +412,9 @@ interface MetricProps {
 
 const Metric = React.memo(function Metric({
   label,
+  metric,
+  baselineKey,
+  budgetResult,
   tooltip,
   sparkline,
   isWebVital,
@@ -286,6 +424,11 @@ const Metric = React.memo(function Metric({
 }: MetricProps) {
   const hasDetail = detail != null || reserveDetailSpace === true
   const Container = hasDetail ? MetricItemWithDetail : MetricItem
+  const budgetResults = React.useContext(BudgetResultsContext)
+  const budget = budgetResult ?? (metric ? budgetResults.get(metric) : undefined)
+  const deltas = React.useContext(MetricDeltasContext)
+  const deltaKey = baselineKey ?? metric
+  const delta = deltaKey ? deltas.get(deltaKey) : undefined
 
   return (
     <Container>
@@ -293,6 +436,23 @@ const Metric = React.memo(function Metric({
       <MetricLabel>
         {label}
         {isWebVital && <WebVitalBadge>Vital</WebVitalBadge>}
+        {budget && (
+          <BudgetBadge
+            status={budget.status}
+            title={
+              budget.status === 'no-data'
+                ? `Budget ${formatBudget(budget)}: no data in this browser`
+                : `Budget ${formatBudget(budget)}: ${budget.status === 'pass' ? 'met' : 'exceeded'}`
+            }
+          >
+            {budget.status === 'pass' ? '✓' : budget.status === 'fail' ? '✗' : '–'} {formatBudget(budget)}
+          </BudgetBadge>
+        )}
+        {delta && (
+          <DeltaBadge trend={delta.trend} title={`Baseline: ${formatNumber(delta.baseline)}`}>
+            {formatDelta(delta.delta)}
+          </DeltaBadge>
+        )}
         {tooltip && (
           <WithTooltip tooltip={<Popover hasChrome={false}>{tooltip}</Popover>} closeOnOutsideClick>
             <InfoIcon type="button" aria-label={`Info about ${label}`}>
@@ -315,9 +475,11 @@ interface SectionProps {
   icon: string
   title: string
   children: React.ReactNode
+  /** Content rendered below the metrics list, such as a table */
+  footer?: React.ReactNode
 }
 
-const MetricsSection = React.memo(function MetricsSection({icon, title, children}: SectionProps) {
+const MetricsSection = React.memo(function MetricsSection({icon, title, children, footer}: SectionProps) {
   return (
     <Section>
       <SectionHeader>
@@ -325,6 +487,7 @@ const MetricsSection = React.memo(function MetricsSection({icon, title, children
         <SectionTitle>{title}</SectionTitle>
       </SectionHeader>
       <MetricsList>{children}</MetricsList>
+      {footer}
     </Section>
   )
 })
@@ -372,9 +535,10 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
   maxPaintTime,
   paintJitter,
 }: FrameTimingSectionProps) {
-  const fpsStatus = getStatus(fps, THRESHOLDS.FPS_GOOD, THRESHOLDS.FPS_WARNING, true)
+  const thresholds = React.useContext(ThresholdsContext)
+  const fpsStatus = getStatus(fps, thresholds.FPS_GOOD, thresholds.FPS_WARNING, true)
   const droppedStatus =
-    droppedFrames > THRESHOLDS.DROPPED_FRAMES_WARNING ? 'error' : droppedFrames > 0 ? 'warning' : 'success'
+    droppedFrames > thresholds.DROPPED_FRAMES_WARNING ? 'error' : droppedFrames > 0 ? 'warning' : 'success'
   const frameJitterStatus = getZeroStatus(frameJitter)
   const stabilityStatus = frameStability >= 90 ? 'success' : frameStability >= 70 ? 'warning' : 'error'
   const paintJitterStatus = getZeroStatus(paintJitter)
@@ -383,12 +547,13 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
     <MetricsSection icon="📊" title="Frame Timing">
       <Metric
         label="FPS"
+        metric="fps"
         tooltip="Frames per second. Target: 60fps. Below 30 causes visible stuttering."
         sparkline={
           <Sparkline
             data={fpsHistory}
-            goodThreshold={THRESHOLDS.FPS_GOOD}
-            badThreshold={THRESHOLDS.FPS_WARNING}
+            goodThreshold={thresholds.FPS_GOOD}
+            badThreshold={thresholds.FPS_WARNING}
             higherIsBetter
           />
         }
@@ -398,12 +563,13 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
 
       <Metric
         label="Frame Time"
+        metric="frameTime"
         tooltip="Average time per frame. Target: ≤16.67ms for 60fps."
         sparkline={
           <Sparkline
             data={frameTimeHistory}
-            goodThreshold={THRESHOLDS.FRAME_TIME_TARGET}
-            badThreshold={THRESHOLDS.FRAME_TIME_WARNING}
+            goodThreshold={thresholds.FRAME_TIME_TARGET}
+            badThreshold={thresholds.FRAME_TIME_WARNING}
           />
         }
         detail={<>max {formatMs(maxFrameTime)}</>}
@@ -411,7 +577,11 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
         {formatMs(frameTime)}
       </Metric>
 
-      <Metric label="Dropped Frames" tooltip="Frames taking >2× expected time. High count indicates stuttering.">
+      <Metric
+        label="Dropped Frames"
+        metric="droppedFrames"
+        tooltip="Frames taking >2× expected time. High count indicates stuttering."
+      >
         <StatusBadge variant={droppedStatus}>
           <span>{droppedFrames}</span>
           {droppedFrames === 0 ? <span> ✨</span> : <span> 💧</span>}
@@ -420,6 +590,7 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
 
       <Metric
         label="Frame Jitter"
+        metric="frameJitter"
         tooltip="Sudden spikes in frame time vs recent baseline. Indicates inconsistent rendering."
       >
         <StatusBadge variant={frameJitterStatus}>
@@ -429,6 +600,7 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
 
       <Metric
         label="Frame Stability"
+        metric="frameStability"
         tooltip="Frame time consistency (0-100%). 100% = perfectly smooth, lower = choppy/variable frame pacing."
       >
         <StatusBadge variant={stabilityStatus}>
@@ -437,13 +609,14 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
         </StatusBadge>
       </Metric>
 
-      <Metric label="Paint Time" tooltip="Browser rendering time via double-RAF technique.">
+      <Metric label="Paint Time" metric="paintTime" tooltip="Browser rendering time via double-RAF technique.">
         {formatMs(paintTime)}
         <SecondaryValue>/ {formatMs(maxPaintTime)} max</SecondaryValue>
       </Metric>
 
       <Metric
         label="Paint Jitter"
+        metric="paintJitter"
         tooltip="Sudden spikes in paint time vs recent baseline. Indicates rendering inconsistency."
       >
         <StatusBadge variant={paintJitterStatus}>
@@ -458,6 +631,171 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
 // Input Responsiveness Section
 // ----------------------------------------------------------------------------
 
+/** Number of event types shown in the interaction type histogram */
+const MAX_INTERACTION_TYPES_SHOWN = 6
+
+/** Width of a phase bar or histogram bar at full scale (px) */
+const INTERACTION_BAR_WIDTH = 80
+
+type PhaseDurations = Pick<InteractionInfo, 'inputDelay' | 'processingTime' | 'presentationDelay'>
+
+/**
+ * Labeled phase durations: input delay → processing → presentation delay.
+ *
+ * @component
+ * @private
+ */
+function InteractionPhaseTimings({phases}: {phases: PhaseDurations}) {
+  return (
+    <TimingBreakdown>
+      <TimingPhase phase="delay">
+        <abbr title="Input delay - time waiting for main thread">wait</abbr>
+        {Math.round(phases.inputDelay)}
+      </TimingPhase>
+      <TimingArrow>→</TimingArrow>
+      <TimingPhase phase="process">
+        <abbr title="Processing time - event handler execution">js</abbr>
+        {Math.round(phases.processingTime)}
+      </TimingPhase>
+      <TimingArrow>→</TimingArrow>
+      <TimingPhase phase="paint">
+        <abbr title="Presentation delay - render and paint">paint</abbr>
+        {Math.round(phases.presentationDelay)}
+      </TimingPhase>
+    </TimingBreakdown>
+  )
+}
+
+/**
+ * Phase durations as a stacked bar. `scale` is the duration that fills the
+ * whole bar (ms), so bars drawn with the same scale can be compared.
+ *
+ * @component
+ * @private
+ */
+function InteractionPhaseBar({phases, scale}: {phases: PhaseDurations; scale: number}) {
+  const segments: [InteractionPhase, number][] = [
+    ['delay', phases.inputDelay],
+    ['process', phases.processingTime],
+    ['paint', phases.presentationDelay],
+  ]
+  return (
+    <PhaseBar aria-hidden="true" style={{width: INTERACTION_BAR_WIDTH}}>
+      {segments.map(([phase, duration]) => (
+        <PhaseSegment
+          key={phase}
+          phase={phase}
+          style={{width: `${String(scale > 0 ? (duration / scale) * 100 : 0)}%`}}
+        />
+      ))}
+    </PhaseBar>
+  )
+}
+
+/**
+ * Interactions counted per event type, most frequent first.
+ *
+ * @component
+ * @private
+ */
+function InteractionTypeHistogram({interactionsByType}: {interactionsByType: Record<string, number>}) {
+  const types = Object.entries(interactionsByType)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_INTERACTION_TYPES_SHOWN)
+  const maxCount = types[0]?.[1] ?? 0
+
+  return (
+    <DataTable aria-label="Interactions by event type">
+      <thead>
+        <tr>
+          <th scope="col">Event type</th>
+          <th scope="col">Count</th>
+        </tr>
+      </thead>
+      <tbody>
+        {types.map(([eventType, count]) => (
+          <tr key={eventType}>
+            <td>
+              <Code>{eventType}</Code>
+            </td>
+            <td>
+              <HistogramBar aria-hidden="true" style={{width: (count / maxCount) * INTERACTION_BAR_WIDTH}} />{' '}
+              {formatNumber(count)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </DataTable>
+  )
+}
+
+/**
+ * Recent interactions, newest first, with their latency and phases. All
+ * phase bars share the slowest interaction's scale.
+ *
+ * @component
+ * @private
+ */
+function InteractionLogTable({
+  interactions,
+  onInspectElement,
+}: {
+  interactions: InteractionInfo[]
+  onInspectElement?: (selector: string) => void
+}) {
+  const thresholds = React.useContext(ThresholdsContext)
+  const scale = Math.max(...interactions.map(interaction => interaction.duration))
+
+  return (
+    <ScrollArea>
+      <DataTable aria-label="Interaction log">
+        <thead>
+          <tr>
+            <th scope="col">Interaction</th>
+            <th scope="col">Latency</th>
+            <th scope="col">Phases</th>
+          </tr>
+        </thead>
+        <tbody>
+          {interactions
+            .map((interaction, index) => (
+              <tr key={index}>
+                <td>
+                  <Code>{interaction.eventType}</Code>{' '}
+                  {interaction.targetSelector !== 'unknown' && (
+                    <>
+                      <SecondaryValue>{interaction.targetSelector}</SecondaryValue>
+                      {onInspectElement && (
+                        <InspectButton
+                          onClick={() => {
+                            onInspectElement(interaction.targetSelector)
+                          }}
+                          title="Highlight element in preview"
+                        >
+                          🔍
+                        </InspectButton>
+                      )}
+                    </>
+                  )}
+                </td>
+                <td>
+                  <StatusBadge variant={getStatus(interaction.duration, thresholds.INP_GOOD, thresholds.INP_WARNING)}>
+                    {Math.round(interaction.duration)}ms
+                  </StatusBadge>
+                </td>
+                <td>
+                  <InteractionPhaseBar phases={interaction} scale={scale} />{' '}
+                  <InteractionPhaseTimings phases={interaction} />
+                </td>
+              </tr>
+            ))
+            .reverse()}
+        </tbody>
+      </DataTable>
+    </ScrollArea>
+  )
+}
+
 /**
  * Input Section - User interaction latency metrics.
  *
@@ -465,6 +803,8 @@ const FrameTimingSection = React.memo(function FrameTimingSection({
  * - INP: Interaction to Next Paint (Core Web Vital)
  * - FID: First Input Delay (Core Web Vital - deprecated but still useful)
  * - Last/Slowest Interaction: Real-time details with inspect capability
+ * - Phase Breakdown: Average input delay, processing and presentation delay
+ * - Interaction Log: Event type histogram and recent interactions with their phases
  *
  * @component
  */
@@ -479,6 +819,11 @@ type InputSectionProps = Pick<
   | 'firstInputType'
   | 'lastInteraction'
   | 'slowestInteraction'
+  | 'interactionLog'
+  | 'avgInputDelay'
+  | 'avgProcessingTime'
+  | 'avgPresentationDelay'
+  | 'interactionsByType'
 > & {
   onInspectElement?: (selector: string) => void
 }
@@ -493,15 +838,21 @@ const InputSection = React.memo(function InputSection({
   firstInputType,
   lastInteraction,
   slowestInteraction,
+  interactionLog,
+  avgInputDelay,
+  avgProcessingTime,
+  avgPresentationDelay,
+  interactionsByType,
   onInspectElement,
 }: InputSectionProps) {
-  const inputStatus = getStatus(inputLatency, THRESHOLDS.INPUT_LATENCY_GOOD, THRESHOLDS.INPUT_LATENCY_WARNING)
-  const inpStatus = getStatus(inpMs, THRESHOLDS.INP_GOOD, THRESHOLDS.INP_WARNING)
+  const thresholds = React.useContext(ThresholdsContext)
+  const inputStatus = getStatus(inputLatency, thresholds.INPUT_LATENCY_GOOD, thresholds.INPUT_LATENCY_WARNING)
+  const inpStatus = getStatus(inpMs, thresholds.INP_GOOD, thresholds.INP_WARNING)
 
   // Determine status for interaction based on INP thresholds
   const getInteractionStatus = (interaction: InteractionInfo | null) => {
     if (!interaction) return 'neutral'
-    return getStatus(interaction.duration, THRESHOLDS.INP_GOOD, THRESHOLDS.INP_WARNING)
+    return getStatus(interaction.duration, thresholds.INP_GOOD, thresholds.INP_WARNING)
   }
 
   const handleInspect = (selector: string | undefined) => {
@@ -510,10 +861,29 @@ const InputSection = React.memo(function InputSection({
     }
   }
 
+  const avgPhases = {
+    inputDelay: avgInputDelay,
+    processingTime: avgProcessingTime,
+    presentationDelay: avgPresentationDelay,
+  }
+  const hasInteractionLog = eventTimingSupported && interactionLog.length > 0
+
   return (
-    <MetricsSection icon="👆" title="Input Responsiveness">
+    <MetricsSection
+      icon="👆"
+      title="Input Responsiveness"
+      footer={
+        hasInteractionLog ? (
+          <>
+            <InteractionTypeHistogram interactionsByType={interactionsByType} />
+            <InteractionLogTable interactions={interactionLog} onInspectElement={onInspectElement} />
+          </>
+        ) : null
+      }
+    >
       <Metric
         label="INP"
+        metric="inpMs"
         isWebVital
         tooltip="Interaction to Next Paint - p98 worst click/key latency. Core Web Vital. Good: ≤200ms, Poor: >500ms."
         reserveDetailSpace
@@ -558,22 +928,7 @@ const InputSection = React.memo(function InputSection({
             <>
               {lastInteraction.eventType}
               <span>·</span>
-              <TimingBreakdown>
-                <TimingPhase phase="delay">
-                  <abbr title="Input delay - time waiting for main thread">wait</abbr>
-                  {Math.round(lastInteraction.inputDelay)}
-                </TimingPhase>
-                <TimingArrow>→</TimingArrow>
-                <TimingPhase phase="process">
-                  <abbr title="Processing time - event handler execution">js</abbr>
-                  {Math.round(lastInteraction.processingTime)}
-                </TimingPhase>
-                <TimingArrow>→</TimingArrow>
-                <TimingPhase phase="paint">
-                  <abbr title="Presentation delay - render and paint">paint</abbr>
-                  {Math.round(lastInteraction.presentationDelay)}
-                </TimingPhase>
-              </TimingBreakdown>
+              <InteractionPhaseTimings phases={lastInteraction} />
               {lastInteraction.targetSelector !== 'unknown' && (
                 <>
                   <span>·</span>
@@ -612,22 +967,7 @@ const InputSection = React.memo(function InputSection({
             <>
               {slowestInteraction.eventType}
               <span>·</span>
-              <TimingBreakdown>
-                <TimingPhase phase="delay">
-                  <abbr title="Input delay - time waiting for main thread">wait</abbr>
-                  {Math.round(slowestInteraction.inputDelay)}
-                </TimingPhase>
-                <TimingArrow>→</TimingArrow>
-                <TimingPhase phase="process">
-                  <abbr title="Processing time - event handler execution">js</abbr>
-                  {Math.round(slowestInteraction.processingTime)}
-                </TimingPhase>
-                <TimingArrow>→</TimingArrow>
-                <TimingPhase phase="paint">
-                  <abbr title="Presentation delay - render and paint">paint</abbr>
-                  {Math.round(slowestInteraction.presentationDelay)}
-                </TimingPhase>
-              </TimingBreakdown>
+              <InteractionPhaseTimings phases={slowestInteraction} />
               {slowestInteraction.targetSelector !== 'unknown' && (
                 <>
                   <span>·</span>
@@ -657,8 +997,19 @@ const InputSection = React.memo(function InputSection({
         )}
       </Metric>
 
+      {hasInteractionLog && (
+        <Metric
+          label="Phase Breakdown"
+          tooltip="Average input delay (waiting) → processing (JS) → presentation delay (render) across recent interactions. The largest phase is where to optimize."
+          detail={<InteractionPhaseTimings phases={avgPhases} />}
+        >
+          <InteractionPhaseBar phases={avgPhases} scale={avgInputDelay + avgProcessingTime + avgPresentationDelay} />
+        </Metric>
+      )}
+
       <Metric
         label="FID"
+        metric="firstInputDelay"
         isWebVital
         tooltip="First Input Delay - latency of the very first interaction. Core Web Vital. Good: ≤100ms, Poor: >300ms."
         reserveDetailSpace
@@ -673,6 +1024,7 @@ const InputSection = React.memo(function InputSection({
 
       <Metric
         label="Pointer Latency"
+        metric="inputLatency"
         tooltip="Time from pointer move to next frame. High values indicate main thread contention."
       >
         <StatusBadge variant={inputStatus}>{formatMs(inputLatency)}</StatusBadge>
@@ -709,15 +1061,17 @@ const MainThreadSection = React.memo(function MainThreadSection({
   thrashingScore,
   domMutationsPerFrame,
 }: MainThreadSectionProps) {
-  const longTaskStatus = getStatus(longTasks, 0, THRESHOLDS.LONG_TASKS_WARNING)
-  const tbtStatus = getStatus(totalBlockingTime, 0, THRESHOLDS.TBT_WARNING)
+  const thresholds = React.useContext(ThresholdsContext)
+  const longTaskStatus = getStatus(longTasks, 0, thresholds.LONG_TASKS_WARNING)
+  const tbtStatus = getStatus(totalBlockingTime, 0, thresholds.TBT_WARNING)
   const thrashingStatus = getZeroStatus(thrashingScore)
-  const domMutationStatus = getStatus(domMutationsPerFrame, 0, THRESHOLDS.DOM_MUTATIONS_WARNING)
+  const domMutationStatus = getStatus(domMutationsPerFrame, 0, thresholds.DOM_MUTATIONS_WARNING)
 
   return (
     <MetricsSection icon="⏱️" title="Main Thread">
       <Metric
         label="Long Tasks"
+        metric="longTasks"
         tooltip="Tasks blocking main thread >50ms. Target: 0 during interactions."
         detail={longestTask > 0 ? <>longest: {Math.round(longestTask)}ms</> : null}
       >
@@ -729,6 +1083,7 @@ const MainThreadSection = React.memo(function MainThreadSection({
 
       <Metric
         label="TBT"
+        metric="totalBlockingTime"
         isWebVital
         tooltip="Total Blocking Time - sum of time beyond 50ms for each long task. Correlates to TTI. Good: <200ms, Poor: >600ms."
       >
@@ -738,13 +1093,21 @@ const MainThreadSection = React.memo(function MainThreadSection({
         </StatusBadge>
       </Metric>
 
-      <Metric label="Thrashing" tooltip="Frame blocking >50ms near style writes. Indicates forced synchronous layout.">
+      <Metric
+        label="Thrashing"
+        metric="thrashingScore"
+        tooltip="Frame blocking >50ms near style writes. Indicates forced synchronous layout."
+      >
         <StatusBadge variant={thrashingStatus}>
           {thrashingScore === 0 ? '✨ None' : `🔄 ${String(thrashingScore)} stalls`}
         </StatusBadge>
       </Metric>
 
-      <Metric label="DOM Churn" tooltip="DOM mutations per sample period. High values indicate excessive re-rendering.">
+      <Metric
+        label="DOM Churn"
+        metric="domMutationsPerFrame"
+        tooltip="DOM mutations per sample period. High values indicate excessive re-rendering."
+      >
         <StatusBadge variant={domMutationStatus}>
           <span>{domMutationsPerFrame === 0 ? '✨ ' : domMutationsPerFrame > 10 ? '🌪️ ' : '🔨 '}</span>
           <span>{domMutationsPerFrame}</span>
@@ -759,6 +1122,83 @@ const MainThreadSection = React.memo(function MainThreadSection({
 // Long Animation Frames Section
 // ----------------------------------------------------------------------------
 
+/** Number of scripts listed in the LoAF script table */
+const MAX_LOAF_SCRIPTS_SHOWN = 10
+
+type LoAFScriptSortKey = 'totalDuration' | 'forcedStyleAndLayoutDuration' | 'count'
+
+/** Sortable columns of the LoAF script table, with labels and descriptions */
+const LOAF_SCRIPT_COLUMNS: [LoAFScriptSortKey, string, string][] = [
+  ['totalDuration', 'Total', 'Total execution time in long animation frames'],
+  ['forcedStyleAndLayoutDuration', 'Forced S/L', 'Forced style and layout time within the script'],
+  ['count', 'Frames', 'Long animation frames the script ran in'],
+]
+
+/** File name of a script URL, without the query string */
+function getScriptFileName(sourceURL: string): string {
+  const path = sourceURL.split('?')[0] ?? sourceURL
+  return path.slice(path.lastIndexOf('/') + 1) || sourceURL
+}
+
+/**
+ * Scripts that ran in long animation frames, aggregated by source, function
+ * and invoker. Sorted by total duration by default; column headers change
+ * the sort.
+ *
+ * @component
+ * @private
+ */
+function LoAFScriptTable({scripts}: {scripts: LoAFScriptStats[]}) {
+  const [sortKey, setSortKey] = React.useState<LoAFScriptSortKey>('totalDuration')
+  const sortedScripts = React.useMemo(
+    () => [...scripts].sort((a, b) => b[sortKey] - a[sortKey]).slice(0, MAX_LOAF_SCRIPTS_SHOWN),
+    [scripts, sortKey],
+  )
+
+  return (
+    <DataTable aria-label="Scripts in long animation frames">
+      <thead>
+        <tr>
+          <th scope="col">Script</th>
+          {LOAF_SCRIPT_COLUMNS.map(([key, label, description]) => (
+            <th key={key} scope="col" aria-sort={sortKey === key ? 'descending' : 'none'}>
+              <SortButton
+                type="button"
+                active={sortKey === key}
+                title={description}
+                onClick={() => {
+                  setSortKey(key)
+                }}
+              >
+                {label}
+                {sortKey === key && ' ▾'}
+              </SortButton>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {sortedScripts.map(script => (
+          <tr
+            key={`${script.sourceURL} ${script.sourceFunctionName} ${script.invoker}`}
+            title={`${script.invokerType}: ${script.invoker}\n${script.sourceURL}`}
+          >
+            <td>
+              <Code>{script.sourceFunctionName}</Code>{' '}
+              <SecondaryValue>
+                {script.invoker} · {getScriptFileName(script.sourceURL)}
+              </SecondaryValue>
+            </td>
+            <td>{formatMs(script.totalDuration)}</td>
+            <td>{formatMs(script.forcedStyleAndLayoutDuration)}</td>
+            <td>{formatNumber(script.count)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </DataTable>
+  )
+}
+
 /**
  * Long Animation Frames Section - Detailed frame attribution.
  *
@@ -767,6 +1207,7 @@ const MainThreadSection = React.memo(function MainThreadSection({
  * - Blocking Duration: Total and longest blocking time
  * - P95 Duration: 95th percentile frame duration
  * - Script Attribution: Count of LoAFs with script info
+ * - Script Table: Scripts aggregated across the session, sortable by total, forced style/layout time and frames
  *
  * This API provides more detail than Long Tasks API, specifically for
  * animation/rendering performance with script attribution.
@@ -785,6 +1226,7 @@ type LoAFSectionProps = Pick<
   | 'loafsWithScripts'
   | 'lastLoaf'
   | 'worstLoaf'
+  | 'loafScripts'
 >
 
 const LoAFSection = React.memo(function LoAFSection({
@@ -797,7 +1239,9 @@ const LoAFSection = React.memo(function LoAFSection({
   p95LoafDuration,
   loafsWithScripts,
   worstLoaf,
+  loafScripts,
 }: LoAFSectionProps) {
+  const thresholds = React.useContext(ThresholdsContext)
   if (!loafSupported) {
     return (
       <MetricsSection icon="🎞️" title="Long Animation Frames">
@@ -810,14 +1254,19 @@ const LoAFSection = React.memo(function LoAFSection({
     )
   }
 
-  const countStatus = getStatus(loafCount, 0, THRESHOLDS.LOAF_COUNT_WARNING)
-  const blockingStatus = getStatus(totalLoafBlockingDuration, 0, THRESHOLDS.LOAF_BLOCKING_WARNING)
-  const durationStatus = getStatus(longestLoafDuration, 0, THRESHOLDS.LOAF_DURATION_WARNING)
+  const countStatus = getStatus(loafCount, 0, thresholds.LOAF_COUNT_WARNING)
+  const blockingStatus = getStatus(totalLoafBlockingDuration, 0, thresholds.LOAF_BLOCKING_WARNING)
+  const durationStatus = getStatus(longestLoafDuration, 0, thresholds.LOAF_DURATION_WARNING)
 
   return (
-    <MetricsSection icon="🎞️" title="Long Animation Frames">
+    <MetricsSection
+      icon="🎞️"
+      title="Long Animation Frames"
+      footer={loafScripts.length > 0 ? <LoAFScriptTable scripts={loafScripts} /> : null}
+    >
       <Metric
         label="LoAF Count"
+        metric="loafCount"
         tooltip="Count of animation frames exceeding 50ms. More detailed than Long Tasks - includes rendering attribution."
         detail={loafsWithScripts > 0 ? <>{loafsWithScripts} with scripts</> : null}
       >
@@ -829,6 +1278,7 @@ const LoAFSection = React.memo(function LoAFSection({
 
       <Metric
         label="Blocking"
+        metric="totalLoafBlockingDuration"
         tooltip="Total blocking duration from all LoAFs (time beyond 50ms threshold). Good: <200ms, Poor: >500ms."
         detail={longestLoafBlockingDuration > 0 ? <>worst: {longestLoafBlockingDuration}ms</> : null}
       >
@@ -840,6 +1290,7 @@ const LoAFSection = React.memo(function LoAFSection({
 
       <Metric
         label="Longest"
+        metric="longestLoafDuration"
         tooltip="Duration of the longest long animation frame. Good: <100ms, Poor: >200ms."
         detail={avgLoafDuration > 0 ? <>avg: {avgLoafDuration}ms</> : null}
       >
@@ -849,8 +1300,12 @@ const LoAFSection = React.memo(function LoAFSection({
         </StatusBadge>
       </Metric>
 
-      <Metric label="P95 Duration" tooltip="95th percentile LoAF duration. Shows worst-case frame times.">
-        <StatusBadge variant={getStatus(p95LoafDuration, 0, THRESHOLDS.LOAF_DURATION_WARNING)}>
+      <Metric
+        label="P95 Duration"
+        metric="p95LoafDuration"
+        tooltip="95th percentile LoAF duration. Shows worst-case frame times."
+      >
+        <StatusBadge variant={getStatus(p95LoafDuration, 0, thresholds.LOAF_DURATION_WARNING)}>
           <span>{p95LoafDuration === 0 ? '✨ ' : '📊 '}</span>
           <span>{p95LoafDuration}ms</span>
         </StatusBadge>
@@ -935,6 +1390,7 @@ const ElementTimingSection = React.memo(function ElementTimingSection({
     <MetricsSection icon="🎯" title="Element Timing">
       <Metric
         label="Elements"
+        metric="elementTimingCount"
         tooltip="Number of elements with `elementtiming` attribute tracked"
         detail={sortedElements.length > 3 ? <>{sortedElements.length} total</> : null}
       >
@@ -944,7 +1400,11 @@ const ElementTimingSection = React.memo(function ElementTimingSection({
         </StatusBadge>
       </Metric>
 
-      <Metric label="Largest" tooltip="Slowest element to render. Similar concept to LCP but for tracked elements.">
+      <Metric
+        label="Largest"
+        metric="largestElementRenderTime"
+        tooltip="Slowest element to render. Similar concept to LCP but for tracked elements."
+      >
         <StatusBadge variant={getStatus(largestElementRenderTime, 100, 250)}>
           <span>{largestElementRenderTime < 100 ? '⚡ ' : largestElementRenderTime < 250 ? '⏱️ ' : '🐌 '}</span>
           <span>{largestElementRenderTime}ms</span>
@@ -967,17 +1427,282 @@ const ElementTimingSection = React.memo(function ElementTimingSection({
   )
 })
 
+// ----------------------------------------------------------------------------
+// User Timings Section
+// ----------------------------------------------------------------------------
+
+/** Number of measures listed, slowest p95 first */
+const MAX_MEASURES_SHOWN = 5
+
+/**
+ * User Timings Section - `performance.mark()` and `performance.measure()`
+ * entries created by the story.
+ *
+ * Displays:
+ * - One row per measure name: p95 duration, with count, average and max
+ * - Marks: Number of marks, with the most frequent names
+ *
+ * Measures with a budget in `parameters.performancePanel.measureBudgets`
+ * are always listed and show whether their p95 is within budget.
+ *
+ * @component
+ */
+interface UserTimingsSectionProps extends Pick<
+  PerformanceMetrics,
+  'userMarkCount' | 'userMarks' | 'userMeasureCount' | 'userMeasures'
+> {
+  measureBudgetResults: MeasureBudgetResult[]
+}
+
+const UserTimingsSection = React.memo(function UserTimingsSection({
+  userMarkCount,
+  userMarks,
+  userMeasureCount,
+  userMeasures,
+  measureBudgetResults,
+}: UserTimingsSectionProps) {
+  const thresholds = React.useContext(ThresholdsContext)
+
+  if (userMarkCount === 0 && userMeasureCount === 0) {
+    return (
+      <MetricsSection icon="📏" title="User Timings">
+        <Metric
+          label="No user timings"
+          tooltip="Call performance.mark() and performance.measure() around expensive work to see it here"
+        >
+          <Code style={{fontSize: '10px'}}>performance.measure(&quot;name&quot;, start)</Code>
+        </Metric>
+      </MetricsSection>
+    )
+  }
+
+  const budgetsByMeasure = new Map(measureBudgetResults.map(result => [result.measure, result]))
+  const shownMeasures = userMeasures.filter(
+    (measure, i) => i < MAX_MEASURES_SHOWN || budgetsByMeasure.has(measure.name),
+  )
+  const hiddenMeasures = userMeasures.length - shownMeasures.length
+
+  return (
+    <MetricsSection icon="📏" title="User Timings">
+      {shownMeasures.map(measure => (
+        <Metric
+          key={measure.name}
+          label={measure.name}
+          budgetResult={budgetsByMeasure.get(measure.name)}
+          tooltip={`performance.measure("${measure.name}"): 95th percentile of the last 100 durations`}
+          detail={
+            <>
+              {formatNumber(measure.count)}× · avg {formatMs(measure.avgDuration)} · max {formatMs(measure.maxDuration)}
+            </>
+          }
+        >
+          <StatusBadge
+            variant={getStatus(measure.p95Duration, thresholds.FRAME_TIME_TARGET, thresholds.FRAME_TIME_WARNING)}
+          >
+            p95 {formatMs(measure.p95Duration)}
+          </StatusBadge>
+        </Metric>
+      ))}
+
+      {hiddenMeasures > 0 && (
+        <Metric label="More Measures" tooltip="Measures with a faster p95 than the ones listed above">
+          {formatNumber(hiddenMeasures)}
+        </Metric>
+      )}
+
+      <Metric
+        label="Marks"
+        metric="userMarkCount"
+        tooltip="performance.mark() calls since the story started or was reset, with the most frequent names"
+        detail={
+          userMarks.length > 0 ? (
+            <>
+              {userMarks
+                .slice(0, MAX_LEAKS_SHOWN)
+                .map(mark => `${mark.name} ×${String(mark.count)}`)
+                .join(' · ')}
+            </>
+          ) : null
+        }
+      >
+        {formatNumber(userMarkCount)}
+      </Metric>
+    </MetricsSection>
+  )
+})
+
+// ----------------------------------------------------------------------------
+// Network Section
+// ----------------------------------------------------------------------------
+
+/** Number of slowest requests listed */
+const MAX_REQUESTS_SHOWN = 3
+
+/** Request kinds in display order, with labels */
+const REQUEST_KIND_LABELS: [NetworkRequestKind, string][] = [
+  ['fetch', 'fetch'],
+  ['xhr', 'XHR'],
+  ['image', 'image'],
+  ['font', 'font'],
+]
+
+function getRequestKindLabel(kind: NetworkRequestKind): string {
+  return REQUEST_KIND_LABELS.find(([requestKind]) => requestKind === kind)?.[1] ?? kind
+}
+
+function describeRequest(request: NetworkRequestInfo): string {
+  const parts = [getRequestKindLabel(request.kind), formatKb(request.transferSize / 1024)]
+  if (request.renderBlocking) parts.push('render-blocking')
+  if (request.interaction) parts.push(`after ${request.interaction}`)
+  return parts.join(' · ')
+}
+
+/**
+ * Network Section - Fetch, XHR, image and font requests issued by the story.
+ *
+ * Displays:
+ * - Requests: Request count by kind and total transfer size
+ * - Render-Blocking: Requests that blocked rendering (only when some did)
+ * - Duplicates: URLs requested more than once (only when some were)
+ * - Waterfall: Longest chain of requests that each waited for the previous one (only for chains)
+ * - Slowest requests, with the interaction that triggered them
+ *
+ * @component
+ */
+type NetworkSectionProps = Pick<
+  PerformanceMetrics,
+  | 'networkRequestCount'
+  | 'networkRequestsByKind'
+  | 'networkTransferKB'
+  | 'renderBlockingRequests'
+  | 'duplicateRequestCount'
+  | 'duplicateRequests'
+  | 'longestRequestChain'
+  | 'requestChain'
+  | 'slowestRequests'
+>
+
+const NetworkSection = React.memo(function NetworkSection({
+  networkRequestCount,
+  networkRequestsByKind,
+  networkTransferKB,
+  renderBlockingRequests,
+  duplicateRequestCount,
+  duplicateRequests,
+  longestRequestChain,
+  requestChain,
+  slowestRequests,
+}: NetworkSectionProps) {
+  const thresholds = React.useContext(ThresholdsContext)
+
+  if (networkRequestCount === 0) {
+    return (
+      <MetricsSection icon="🌐" title="Network">
+        <Metric
+          label="Requests"
+          metric="networkRequestCount"
+          tooltip="Fetch, XHR, image and font requests the story issued, including requests handled by MSW. Requests appear once their response has finished."
+        >
+          <SecondaryValue>None yet</SecondaryValue>
+        </Metric>
+      </MetricsSection>
+    )
+  }
+
+  const kindDetail = REQUEST_KIND_LABELS.filter(([kind]) => networkRequestsByKind[kind] > 0)
+    .map(([kind, label]) => `${String(networkRequestsByKind[kind])} ${label}`)
+    .join(' · ')
+
+  return (
+    <MetricsSection icon="🌐" title="Network">
+      <Metric
+        label="Requests"
+        metric="networkRequestCount"
+        tooltip="Fetch, XHR, image and font requests the story issued, including requests handled by MSW. Requests appear once their response has finished. Cached and cross-origin responses without Timing-Allow-Origin report no transfer size."
+        detail={<>{kindDetail}</>}
+      >
+        <span>{formatNumber(networkRequestCount)}</span>
+        <SecondaryValue> / {formatKb(networkTransferKB)}</SecondaryValue>
+      </Metric>
+
+      {renderBlockingRequests > 0 && (
+        <Metric
+          label="Render-Blocking"
+          metric="renderBlockingRequests"
+          tooltip="Requests the browser waited for before rendering, such as fonts and images loaded by blocking stylesheets."
+        >
+          <StatusBadge variant="warning">{formatNumber(renderBlockingRequests)}</StatusBadge>
+        </Metric>
+      )}
+
+      {duplicateRequestCount > 0 && (
+        <Metric
+          label="Duplicates"
+          metric="duplicateRequestCount"
+          tooltip="Requests for a URL that was already requested. Usually missing caching or deduplication, or a component fetching on every render."
+          detail={<>{duplicateRequests.map(request => `${request.url} ×${String(request.count)}`).join(' · ')}</>}
+        >
+          <StatusBadge variant="warning">🔁 {formatNumber(duplicateRequestCount)} repeated</StatusBadge>
+        </Metric>
+      )}
+
+      {longestRequestChain > 1 && (
+        <Metric
+          label="Waterfall"
+          metric="longestRequestChain"
+          tooltip="Longest chain of requests where each started right after the previous one finished, so their latencies add up. Fetch in parallel or earlier to shorten it."
+          detail={<>{requestChain.join(' → ')}</>}
+        >
+          <StatusBadge variant={longestRequestChain > 2 ? 'warning' : 'neutral'}>
+            {formatNumber(longestRequestChain)} sequential
+          </StatusBadge>
+        </Metric>
+      )}
+
+      {slowestRequests.slice(0, MAX_REQUESTS_SHOWN).map(request => (
+        <Metric
+          key={`${request.url} ${String(request.startTime)}`}
+          label={request.url}
+          tooltip={`${request.initiatorType} request started ${formatMs(request.startTime)} after collection started`}
+          detail={<>{describeRequest(request)}</>}
+        >
+          <StatusBadge
+            variant={getStatus(request.duration, thresholds.REQUEST_DURATION_GOOD, thresholds.REQUEST_DURATION_WARNING)}
+          >
+            {formatMs(request.duration)}
+          </StatusBadge>
+        </Metric>
+      ))}
+    </MetricsSection>
+  )
+})
+
 // ----------------------------------------------------------------------------
 // Layout & Stability Section
 // ----------------------------------------------------------------------------
 
+/** Number of largest layout shifts listed */
+const MAX_SHIFTS_SHOWN = 3
+
+/** Shifted elements listed per layout shift */
+const MAX_SHIFT_SOURCES_SHOWN = 2
+
+/** Number of forced reflow call sites listed */
+const MAX_REFLOW_CALL_SITES_SHOWN = 5
+
+/** Number of elements with the most style writes listed */
+const MAX_STYLE_TARGETS_SHOWN = 3
+
 /**
  * Layout & Internals Section - Layout stability and browser internals.
  *
  * Displays:
  * - CLS: Cumulative Layout Shift (Core Web Vital)
+ * - Largest Shifts: Score, time and inspectable elements that moved
  * - Forced Reflows: Synchronous layout caused by read-after-write
+ * - Reflow Call Sites: Where sampled forced reflows read layout, with the property read and the style write
  * - Style Writes: Inline style mutations
+ * - Style Write Targets: Elements receiving the most style writes, with the properties written
  * - Jitter: Input latency spikes
  *
  * @component
@@ -987,24 +1712,38 @@ type LayoutAndInternalsSectionProps = Pick<
   | 'layoutShiftScore'
   | 'layoutShiftCount'
   | 'currentSessionCLS'
+  | 'layoutShifts'
   | 'forcedReflowCount'
+  | 'reflowCallSites'
   | 'styleWrites'
   | 'cssVarChanges'
+  | 'styleWriteTargets'
   | 'inputJitter'
->
+> & {
+  onInspectElement?: (selector: string) => void
+}
 
 const LayoutAndInternalsSection = React.memo(function LayoutAndInternalsSection({
   layoutShiftScore,
   layoutShiftCount,
   currentSessionCLS,
+  layoutShifts,
   forcedReflowCount,
+  reflowCallSites,
   styleWrites,
   cssVarChanges,
+  styleWriteTargets,
   inputJitter,
+  onInspectElement,
 }: LayoutAndInternalsSectionProps) {
-  const clsStatus = getStatus(layoutShiftScore, THRESHOLDS.CLS_GOOD, THRESHOLDS.CLS_WARNING)
-  const reflowStatus = getStatus(forcedReflowCount, 0, THRESHOLDS.FORCED_REFLOW_WARNING)
+  const thresholds = React.useContext(ThresholdsContext)
+  const clsStatus = getStatus(layoutShiftScore, thresholds.CLS_GOOD, thresholds.CLS_WARNING)
+  const reflowStatus = getStatus(forcedReflowCount, 0, thresholds.FORCED_REFLOW_WARNING)
   const jitterStatus = getZeroStatus(inputJitter)
+  const largestShifts = React.useMemo(
+    () => [...layoutShifts].sort((a, b) => b.score - a.score).slice(0, MAX_SHIFTS_SHOWN),
+    [layoutShifts],
+  )
 
   // Build detail parts - always show both when available
   const detailParts: string[] = []
@@ -1019,6 +1758,7 @@ const LayoutAndInternalsSection = React.memo(function LayoutAndInternalsSection(
     <MetricsSection icon="📐" title="Layout & Stability">
       <Metric
         label="CLS"
+        metric="layoutShiftScore"
         isWebVital
         tooltip="Cumulative Layout Shift (max session window). Core Web Vital. Good: <0.1, Poor: >0.25. Uses session windowing per spec."
         detail={detailParts.length > 0 ? <>{detailParts.join(' · ')}</> : null}
@@ -1032,9 +1772,48 @@ const LayoutAndInternalsSection = React.memo(function LayoutAndInternalsSection(
         </StatusBadge>
       </Metric>
 
+      {largestShifts.map(shift => (
+        <Metric
+          key={`${String(shift.time)} ${String(shift.score)}`}
+          label={shift.sources[0]?.selector ?? 'Layout shift'}
+          tooltip="Layout shift score and the elements that moved. Turn on the layout shift overlay to see their previous (dashed) and current (solid) positions."
+          detail={
+            <>
+              at {formatMs(shift.time)}
+              {shift.sources.slice(0, MAX_SHIFT_SOURCES_SHOWN).map((source, index) => (
+                <React.Fragment key={index}>
+                  <span>·</span>
+                  <Code>{source.selector.slice(0, 20)}</Code>
+                  {source.selector !== 'unknown' && onInspectElement && (
+                    <InspectButton
+                      onClick={() => {
+                        onInspectElement(source.selector)
+                      }}
+                      title="Highlight element in preview"
+                    >
+                      🔍
+                    </InspectButton>
+                  )}
+                </React.Fragment>
+              ))}
+              {shift.sources.length > MAX_SHIFT_SOURCES_SHOWN && (
+                <>
+                  <span>·</span>+{shift.sources.length - MAX_SHIFT_SOURCES_SHOWN} more
+                </>
+              )}
+            </>
+          }
+        >
+          <StatusBadge variant={getStatus(shift.score, thresholds.CLS_GOOD, thresholds.CLS_WARNING)}>
+            {formatScore(shift.score)}
+          </StatusBadge>
+        </Metric>
+      ))}
+
       <Metric
         label="Forced Reflows"
-        tooltip="Layout reads after style writes force synchronous layout. Major perf killer during drag."
+        metric="forcedReflowCount"
+        tooltip="Layout reads after style writes force synchronous layout. Major perf killer during drag. Set the reflowStacks parameter to rank the call sites."
       >
         <StatusBadge variant={reflowStatus}>
           <span>{forcedReflowCount === 0 ? '✨ ' : '💥 '}</span>
@@ -1042,16 +1821,69 @@ const LayoutAndInternalsSection = React.memo(function LayoutAndInternalsSection(
         </StatusBadge>
       </Metric>
 
+      {reflowCallSites.slice(0, MAX_REFLOW_CALL_SITES_SHOWN).map(site => (
+        <Metric
+          key={`${site.callSite} ${site.property} ${site.write}`}
+          label={site.callSite}
+          tooltip="Call site that read layout after a style write, from sampled stacks. Batch reads before writes, or read once and cache the value."
+          detail={
+            <>
+              <Code>{site.property}</Code> after <Code>{site.write}</Code>
+            </>
+          }
+        >
+          ×{site.count}
+        </Metric>
+      ))}
+
       <Metric
         label="Style Writes"
+        metric="styleWrites"
         tooltip="Inline style mutations observed via MutationObserver."
         detail={cssVarChanges > 0 ? <>{cssVarChanges} CSS var changes</> : null}
       >
         <span>🎨 {styleWrites}</span>
       </Metric>
 
+      {styleWriteTargets.slice(0, MAX_STYLE_TARGETS_SHOWN).map(target => (
+        <Metric
+          key={target.selector}
+          label={target.selector}
+          tooltip="Element receiving inline style writes, with the properties and CSS variables that changed most often. Elements with the same selector are grouped."
+          detail={
+            <>
+              {target.elementCount > 1 && (
+                <>
+                  {target.elementCount} elements
+                  <span>·</span>
+                </>
+              )}
+              {target.properties.map((property, index) => (
+                <React.Fragment key={property}>
+                  {index > 0 && ' '}
+                  <Code>{property}</Code>
+                </React.Fragment>
+              ))}
+              {target.selector !== 'unknown' && onInspectElement && (
+                <InspectButton
+                  onClick={() => {
+                    onInspectElement(target.selector)
+                  }}
+                  title="Highlight element in preview"
+                >
+                  🔍
+                </InspectButton>
+              )}
+            </>
+          }
+        >
+          {target.writes} writes
+        </Metric>
+      ))}
+
       <Metric
         label="Input Jitter"
+        metric="inputJitter"
         tooltip="Unexpected input latency spikes causing visible hitches during interaction."
       >
         <StatusBadge variant={jitterStatus}>
@@ -1081,6 +1913,18 @@ interface ReactPerformancePanelProps {
   reactP95Duration: number
   renderCascades: number
   memoizationEfficiency: number
+  /** This profiler's metrics in the saved baseline */
+  baseline?: ReactMetrics
+  /** Show budget badges. Budgets are checked against all profilers combined, so only set for a single profiler. */
+  showBudgets: boolean
+}
+
+/**
+ * Convert a memoization ratio to a "work saved" percentage.
+ * memoizationEfficiency = actual/base, so saved = 1 - ratio
+ */
+function getWorkSaved(memoizationEfficiency: number): number {
+  return Math.max(0, Math.min(100, (1 - memoizationEfficiency) * 100))
 }
 
 const ReactPerformancePanel = React.memo(function ReactPerformancePanel({
@@ -1093,91 +1937,310 @@ const ReactPerformancePanel = React.memo(function ReactPerformancePanel({
   reactP95Duration,
   renderCascades,
   memoizationEfficiency,
+  baseline,
+  showBudgets,
 }: ReactPerformancePanelProps) {
-  const slowUpdateStatus = getStatus(slowReactUpdates, 0, THRESHOLDS.SLOW_UPDATES_WARNING)
-  const p95Status = getStatus(reactP95Duration, 0, THRESHOLDS.REACT_P95_WARNING)
-  const cascadeStatus = getStatus(renderCascades, 0, THRESHOLDS.CASCADE_WARNING)
+  const thresholds = React.useContext(ThresholdsContext)
+  const budgetMetric = (metric: BudgetMetricKey) => (showBudgets ? metric : undefined)
+  const slowUpdateStatus = getStatus(slowReactUpdates, 0, thresholds.SLOW_UPDATES_WARNING)
+  const p95Status = getStatus(reactP95Duration, 0, thresholds.REACT_P95_WARNING)
+  const cascadeStatus = getStatus(renderCascades, 0, thresholds.CASCADE_WARNING)
 
-  // Convert ratio to "work saved" percentage
-  // memoizationEfficiency = actual/base, so saved = 1 - ratio
-  const workSaved = Math.max(0, Math.min(100, (1 - memoizationEfficiency) * 100))
+  const workSaved = getWorkSaved(memoizationEfficiency)
   const savedStatus = workSaved >= 20 ? 'success' : workSaved > 0 ? 'neutral' : 'warning'
 
+  // Deltas are keyed by the row's `baselineKey`
+  const deltas = React.useMemo(() => {
+    const result = new Map<string, MetricDelta>()
+    if (!baseline) return result
+    const rows: [key: string, current: number, saved: number, higherIsBetter: boolean][] = [
+      ['reactMountDuration', reactMountDuration, baseline.reactMountDuration, false],
+      ['slowReactUpdates', slowReactUpdates, baseline.slowReactUpdates, false],
+      ['reactP95Duration', reactP95Duration, computeP95(baseline.reactUpdateDurations), false],
+      ['nestedUpdateCount', renderCascades, baseline.nestedUpdateCount, false],
+      ['workSaved', workSaved, getWorkSaved(baseline.memoizationEfficiency), true],
+    ]
+    for (const [key, current, saved, higherIsBetter] of rows) {
+      const delta = compareToBaseline(current, saved, higherIsBetter)
+      if (delta) result.set(key, delta)
+    }
+    return result
+  }, [baseline, reactMountDuration, slowReactUpdates, reactP95Duration, renderCascades, workSaved])
+
   return (
     <Section>
       <SectionHeader>
         <SectionIcon>⚛️</SectionIcon>
         <SectionTitle>React Performance</SectionTitle>
       </SectionHeader>
-      <MetricsList>
-        <Metric label="ID" tooltip="Profiler ID (React element ID or custom name)">
-          {id}
-        </Metric>
-        <Metric
-          label="Mount"
-          tooltip="Initial render count and total duration."
-          detail={reactMountDuration > 0 ? <>{formatMs(reactMountDuration)} total</> : null}
-        >
-          {reactMountCount}×
-        </Metric>
-
-        <Metric
-          label="Slow Updates"
-          tooltip="React updates taking >16ms (one frame budget). These cause visible jank."
-          detail={
-            reactRenderCount > 0 && reactPostMountUpdateCount > 0 ? (
-              <>{reactPostMountUpdateCount} total updates</>
-            ) : null
-          }
-        >
-          {reactRenderCount > 0 ? (
-            <StatusBadge variant={slowUpdateStatus}>
-              <span>{slowReactUpdates === 0 ? '⚡ ' : '🐌 '}</span>
-              <span>{slowReactUpdates}</span>
+      <MetricDeltasContext.Provider value={deltas}>
+        <MetricsList>
+          <Metric label="ID" tooltip="Profiler ID (React element ID or custom name)">
+            {id}
+          </Metric>
+          <Metric
+            label="Mount"
+            metric={budgetMetric('reactMountDuration')}
+            baselineKey="reactMountDuration"
+            tooltip="Initial render count and total duration."
+            detail={reactMountDuration > 0 ? <>{formatMs(reactMountDuration)} total</> : null}
+          >
+            {reactMountCount}×
+          </Metric>
+
+          <Metric
+            label="Slow Updates"
+            metric={budgetMetric('slowReactUpdates')}
+            baselineKey="slowReactUpdates"
+            tooltip="React updates taking >16ms (one frame budget). These cause visible jank."
+            detail={
+              reactRenderCount > 0 && reactPostMountUpdateCount > 0 ? (
+                <>{reactPostMountUpdateCount} total updates</>
+              ) : null
+            }
+          >
+            {reactRenderCount > 0 ? (
+              <StatusBadge variant={slowUpdateStatus}>
+                <span>{slowReactUpdates === 0 ? '⚡ ' : '🐌 '}</span>
+                <span>{slowReactUpdates}</span>
+              </StatusBadge>
+            ) : (
+              <NoDataHint>No renders</NoDataHint>
+            )}
+          </Metric>
+
+          <Metric
+            label="P95 Duration"
+            metric={budgetMetric('reactP95Duration')}
+            baselineKey="reactP95Duration"
+            tooltip="95th percentile React update duration. Represents worst-case user experience."
+          >
+            {reactP95Duration > 0 ? (
+              <StatusBadge variant={p95Status}>
+                <span>{reactP95Duration < thresholds.REACT_P95_WARNING ? '🎯 ' : '🐢 '}</span>
+                <span>{formatMs(reactP95Duration)}</span>
+              </StatusBadge>
+            ) : (
+              <SecondaryValue>—</SecondaryValue>
+            )}
+          </Metric>
+
+          <Metric
+            label="Cascades"
+            metric={budgetMetric('renderCascades')}
+            baselineKey="nestedUpdateCount"
+            tooltip="Nested updates during commit phase. Often from setState in useLayoutEffect."
+          >
+            <StatusBadge variant={cascadeStatus}>
+              <span>{renderCascades === 0 ? '✨ ' : '🌀 '}</span>
+              <span>{renderCascades}</span>
             </StatusBadge>
-          ) : (
-            <NoDataHint>No renders</NoDataHint>
-          )}
-        </Metric>
+          </Metric>
+
+          <Metric
+            label="Work Saved"
+            baselineKey="workSaved"
+            tooltip="How much render work is being skipped by memoization (React.memo, useMemo). Higher is better. 0% means everything re-renders every time."
+          >
+            {reactRenderCount > 0 ? (
+              <StatusBadge variant={savedStatus}>
+                <span>{workSaved >= 20 ? '🎯 ' : workSaved > 0 ? '' : '⚠️ '}</span>
+                <span>{formatPercent(workSaved)}</span>
+              </StatusBadge>
+            ) : (
+              <SecondaryValue>—</SecondaryValue>
+            )}
+          </Metric>
+        </MetricsList>
+      </MetricDeltasContext.Provider>
+    </Section>
+  )
+})
 
-        <Metric
-          label="P95 Duration"
-          tooltip="95th percentile React update duration. Represents worst-case user experience."
-        >
-          {reactP95Duration > 0 ? (
-            <StatusBadge variant={p95Status}>
-              <span>{reactP95Duration < THRESHOLDS.REACT_P95_WARNING ? '🎯 ' : '🐢 '}</span>
-              <span>{formatMs(reactP95Duration)}</span>
-            </StatusBadge>
-          ) : (
-            <SecondaryValue>—</SecondaryValue>
-          )}
-        </Metric>
+/**
+ * React Commit Log - Recent commits across all profilers.
+ *
+ * Displays:
+ * - A column chart of commit render times, slow commits highlighted
+ * - Each commit, newest first: profiler and phase, render time versus base
+ *   time, commit lag and the interaction that preceded it
+ *
+ * @component
+ * @private
+ */
+function ReactCommitLog({commits}: {commits: ReactCommitInfo[]}) {
+  const thresholds = React.useContext(ThresholdsContext)
+  const maxDuration = Math.max(...commits.map(commit => commit.actualDuration))
 
-        <Metric label="Cascades" tooltip="Nested updates during commit phase. Often from setState in useLayoutEffect.">
-          <StatusBadge variant={cascadeStatus}>
-            <span>{renderCascades === 0 ? '✨ ' : '🌀 '}</span>
-            <span>{renderCascades}</span>
-          </StatusBadge>
-        </Metric>
+  return (
+    <Section>
+      <SectionHeader>
+        <SectionIcon>⚛️</SectionIcon>
+        <SectionTitle>React Commits</SectionTitle>
+      </SectionHeader>
+      <CommitChart aria-hidden="true">
+        {commits.map((commit, index) => (
+          <CommitChartBar
+            key={index}
+            slow={commit.actualDuration > thresholds.REACT_RENDER_WARNING}
+            title={`${commit.profilerId} ${commit.phase}: ${formatMs(commit.actualDuration)}`}
+            style={{height: `${String(maxDuration > 0 ? (commit.actualDuration / maxDuration) * 100 : 0)}%`}}
+          />
+        ))}
+      </CommitChart>
+      <ScrollArea>
+        <DataTable aria-label="React commit log">
+          <thead>
+            <tr>
+              <th scope="col">Time</th>
+              <th scope="col">Commit</th>
+              <th scope="col">Render</th>
+              <th scope="col">Lag</th>
+              <th scope="col">Trigger</th>
+            </tr>
+          </thead>
+          <tbody>
+            {commits
+              .map((commit, index) => (
+                <tr key={index}>
+                  <td>
+                    <SecondaryValue>{formatSeconds(commit.startTime)}</SecondaryValue>
+                  </td>
+                  <td>
+                    <Code>{commit.profilerId}</Code> <SecondaryValue>{commit.phase}</SecondaryValue>
+                  </td>
+                  <td>
+                    <StatusBadge
+                      variant={getStatus(
+                        commit.actualDuration,
+                        thresholds.REACT_RENDER_GOOD,
+                        thresholds.REACT_RENDER_WARNING,
+                      )}
+                    >
+                      {formatMs(commit.actualDuration)}
+                    </StatusBadge>{' '}
+                    <SecondaryValue title="Estimated render time without memoization">
+                      of {formatMs(commit.baseDuration)}
+                    </SecondaryValue>
+                  </td>
+                  <td>{formatMs(commit.commitLag)}</td>
+                  <td>{commit.interaction ?? <SecondaryValue>—</SecondaryValue>}</td>
+                </tr>
+              ))
+              .reverse()}
+          </tbody>
+        </DataTable>
+      </ScrollArea>
+    </Section>
+  )
+}
 
-        <Metric
-          label="Work Saved"
-          tooltip="How much render work is being skipped by memoization (React.memo, useMemo). Higher is better. 0% means everything re-renders every time."
-        >
-          {reactRenderCount > 0 ? (
-            <StatusBadge variant={savedStatus}>
-              <span>{workSaved >= 20 ? '🎯 ' : workSaved > 0 ? '' : '⚠️ '}</span>
-              <span>{formatPercent(workSaved)}</span>
-            </StatusBadge>
-          ) : (
-            <SecondaryValue>—</SecondaryValue>
-          )}
-        </Metric>
-      </MetricsList>
+const RENDER_REASON_LABELS: Record<RenderReason, string> = {
+  props: 'props',
+  state: 'state/hooks',
+  context: 'context',
+  parent: 'parent',
+}
+
+/** E.g. "Button 1.2ms (props: label, onClick; state/hooks)" */
+function formatComponentRender(component: ComponentRenderInfo): string {
+  const reasons = component.reasons.map(reason =>
+    reason === 'props' ? `props: ${component.changedProps.join(', ')}` : RENDER_REASON_LABELS[reason],
+  )
+  return `${component.name} ${formatMs(component.selfTime)} (${reasons.join('; ')})`
+}
+
+/** Recent commits listed below the offenders */
+const MAX_RENDER_REASON_COMMITS_SHOWN = 5
+
+/**
+ * Re-renders - Components that re-rendered, and why.
+ *
+ * Displays:
+ * - The components with the most re-render self time: re-render count,
+ *   total and longest self time, re-renders per reason and the props that
+ *   changed most often
+ * - The latest commits, newest first, with their slowest components
+ *
+ * @component
+ * @private
+ */
+function RenderReasonList({offenders, commits}: {offenders: RenderOffenderInfo[]; commits: RenderReasonCommitInfo[]}) {
+  return (
+    <Section>
+      <SectionHeader>
+        <SectionIcon>🔁</SectionIcon>
+        <SectionTitle>Re-renders</SectionTitle>
+      </SectionHeader>
+      <ScrollArea>
+        <DataTable aria-label="Components with the most re-render time">
+          <thead>
+            <tr>
+              <th scope="col">Component</th>
+              <th scope="col">Renders</th>
+              <th scope="col">Self time</th>
+              <th scope="col">Why</th>
+            </tr>
+          </thead>
+          <tbody>
+            {offenders.map(offender => (
+              <tr key={offender.name}>
+                <td>
+                  <Code>{offender.name}</Code>
+                </td>
+                <td>{offender.renderCount}</td>
+                <td>
+                  {formatMs(offender.totalSelfTime)}{' '}
+                  <SecondaryValue title="Longest single re-render">max {formatMs(offender.maxSelfTime)}</SecondaryValue>
+                </td>
+                <td>
+                  {(Object.keys(RENDER_REASON_LABELS) as RenderReason[])
+                    .filter(reason => offender.reasons[reason] > 0)
+                    .map(reason => `${RENDER_REASON_LABELS[reason]} ×${String(offender.reasons[reason])}`)
+                    .join(', ')}
+                  {offender.changedProps.length > 0 && (
+                    <SecondaryValue title="Props that changed most often">
+                      {' '}
+                      ({offender.changedProps.join(', ')})
+                    </SecondaryValue>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </DataTable>
+      </ScrollArea>
+      <ScrollArea>
+        <DataTable aria-label="Recent commits with re-rendered components">
+          <thead>
+            <tr>
+              <th scope="col">Time</th>
+              <th scope="col">Re-rendered components</th>
+            </tr>
+          </thead>
+          <tbody>
+            {commits
+              .slice(-MAX_RENDER_REASON_COMMITS_SHOWN)
+              .map(commit => (
+                <tr key={commit.commitTime}>
+                  <td>
+                    <SecondaryValue>{formatSeconds(commit.commitTime)}</SecondaryValue>
+                  </td>
+                  <td>
+                    {commit.components.map(formatComponentRender).join(' · ')}
+                    {commit.componentCount > commit.components.length && (
+                      <SecondaryValue> +{commit.componentCount - commit.components.length} more</SecondaryValue>
+                    )}
+                  </td>
+                </tr>
+              ))
+              .reverse()}
+          </tbody>
+        </DataTable>
+      </ScrollArea>
     </Section>
   )
-})
+}
 
 /**
  * React Section - Shows one panel per React profiler.
@@ -1185,18 +2248,34 @@ const ReactPerformancePanel = React.memo(function ReactPerformancePanel({
  * When there's only one profiler (the main story), shows a single panel.
  * When there are multiple profilers, shows one panel per profiler.
  * This makes it clear which metrics belong to which React tree.
+ * Recent commits of all profilers follow in a commit log, and with the
+ * `renderReasons` parameter, the components that re-rendered and why.
  *
  * @component
  */
 interface ReactSectionProps {
   /** List of registered profilers */
   profilers?: ProfilerInfo[]
+  /** Profiler metrics from the saved baseline */
+  baselineProfilers?: BaselineProfiler[]
+  /** Recent commits across all profilers, oldest first */
+  commits?: ReactCommitInfo[]
+  /** Components with the most re-render time (only with `renderReasons`) */
+  renderOffenders?: RenderOffenderInfo[]
+  /** Recent commits with the components that re-rendered */
+  renderReasonCommits?: RenderReasonCommitInfo[]
 }
 
 // Default empty profilers array - stable reference to avoid re-renders
 const EMPTY_PROFILERS: ProfilerInfo[] = []
 
-const ReactSection = React.memo(function ReactSection({profilers = EMPTY_PROFILERS}: ReactSectionProps) {
+const ReactSection = React.memo(function ReactSection({
+  profilers = EMPTY_PROFILERS,
+  baselineProfilers,
+  commits,
+  renderOffenders,
+  renderReasonCommits,
+}: ReactSectionProps) {
   // Don't render the React section at all when no profiler decorator is active
   // (e.g. HTML/Vue/Svelte storybooks using the universal-only addon entry)
   if (profilers.length === 0) {
@@ -1217,8 +2296,14 @@ const ReactSection = React.memo(function ReactSection({profilers = EMPTY_PROFILE
           reactP95Duration={computeP95(profiler.metrics.reactUpdateDurations)}
           renderCascades={profiler.metrics.nestedUpdateCount}
           memoizationEfficiency={profiler.metrics.memoizationEfficiency}
+          baseline={baselineProfilers?.find(saved => saved.id === profiler.id)?.metrics}
+          showBudgets={profilers.length === 1}
         />
       ))}
+      {commits && commits.length > 0 && <ReactCommitLog commits={commits} />}
+      {renderOffenders && renderOffenders.length > 0 && (
+        <RenderReasonList offenders={renderOffenders} commits={renderReasonCommits ?? []} />
+      )}
     </>
   )
 })
@@ -1233,6 +2318,7 @@ const ReactSection = React.memo(function ReactSection({profilers = EMPTY_PROFILE
  * Displays:
  * - Heap: Current JS heap size with sparkline (Chrome only)
  * - Peak / DOM: Peak memory and DOM node count
+ * - Detached Nodes: Removed elements still in memory, confirmed by a forced GC or not yet collected (only when some are)
  * - GC Pressure: Memory allocation rate (MB/s)
  * - Paint / Layers: Paint count and compositor layers
  *
@@ -1248,10 +2334,23 @@ type MemoryAndRenderingSectionProps = Pick<
   | 'memoryHistory'
   | 'gcPressure'
   | 'domElements'
+  | 'detachedNodeCount'
+  | 'detachedNodes'
+  | 'detachedNodesConfirmed'
   | 'paintCount'
   | 'compositorLayers'
 >
 
+function formatDetachedNodes(detachedNodes: DetachedNodeInfo[]) {
+  const shown = detachedNodes
+    .slice(0, MAX_LEAKS_SHOWN)
+    .map(group => `${group.selector} ×${String(group.count)} (${formatNumber(group.nodeCount)} nodes)`)
+  if (detachedNodes.length > MAX_LEAKS_SHOWN) {
+    shown.push(`${String(detachedNodes.length - MAX_LEAKS_SHOWN)} more`)
+  }
+  return shown.join(' · ')
+}
+
 const MemoryAndRenderingSection = React.memo(function MemoryAndRenderingSection({
   memoryUsedMB,
   memoryDeltaMB,
@@ -1259,18 +2358,22 @@ const MemoryAndRenderingSection = React.memo(function MemoryAndRenderingSection(
   memoryHistory,
   gcPressure,
   domElements,
+  detachedNodeCount,
+  detachedNodes,
+  detachedNodesConfirmed,
   paintCount,
   compositorLayers,
 }: MemoryAndRenderingSectionProps) {
-  const gcStatus = getStatus(gcPressure, 0, THRESHOLDS.GC_PRESSURE_WARNING)
-  const layerStatus = compositorLayers === null ? 'neutral' : getStatus(compositorLayers, 0, THRESHOLDS.LAYERS_WARNING)
+  const thresholds = React.useContext(ThresholdsContext)
+  const gcStatus = getStatus(gcPressure, 0, thresholds.GC_PRESSURE_WARNING)
+  const layerStatus = compositorLayers === null ? 'neutral' : getStatus(compositorLayers, 0, thresholds.LAYERS_WARNING)
 
   const deltaStatus =
     memoryDeltaMB === null
       ? 'neutral'
-      : memoryDeltaMB > THRESHOLDS.MEMORY_DELTA_DANGER
+      : memoryDeltaMB > thresholds.MEMORY_DELTA_DANGER
         ? 'error'
-        : memoryDeltaMB > THRESHOLDS.MEMORY_DELTA_WARNING
+        : memoryDeltaMB > thresholds.MEMORY_DELTA_WARNING
           ? 'warning'
           : 'success'
 
@@ -1283,16 +2386,36 @@ const MemoryAndRenderingSection = React.memo(function MemoryAndRenderingSection(
           ? formatMb(memoryDeltaMB)
           : '±0'
 
+  const detachedNodesMetric = detachedNodeCount > 0 && (
+    <Metric
+      label="Detached Nodes"
+      metric="detachedNodeCount"
+      tooltip={
+        detachedNodesConfirmed
+          ? 'Elements removed from the story that are still in memory after a forced garbage collection. Usually a closure, ref or cache in an unmounted component still points at them.'
+          : 'Elements removed from the story over a minute ago that are still in memory. Unconfirmed: the browser may not have collected garbage since. Start Chrome with --js-flags=--expose-gc to force a collection and confirm leaks.'
+      }
+      detail={<>{formatDetachedNodes(detachedNodes)}</>}
+    >
+      {detachedNodesConfirmed ? (
+        <StatusBadge variant="warning">💧 {formatNumber(detachedNodeCount)} retained</StatusBadge>
+      ) : (
+        <StatusBadge variant="neutral">{formatNumber(detachedNodeCount)} not yet collected</StatusBadge>
+      )}
+    </Metric>
+  )
+
   if (memoryUsedMB === null) {
     return (
       <MetricsSection icon="🧠" title="Memory & Rendering">
-        <Metric label="Heap">
+        <Metric label="Heap" metric="memoryUsedMB">
           <SecondaryValue>Not available (Chrome only)</SecondaryValue>
         </Metric>
-        <Metric label="Paint Count" tooltip="Number of paint operations.">
+        {detachedNodesMetric}
+        <Metric label="Paint Count" metric="paintCount" tooltip="Number of paint operations.">
           {paintCount}
         </Metric>
-        <Metric label="Compositor Layers" tooltip="Elements promoted to GPU layers.">
+        <Metric label="Compositor Layers" metric="compositorLayers" tooltip="Elements promoted to GPU layers.">
           {compositorLayers !== null ? <StatusBadge variant={layerStatus}>{compositorLayers}</StatusBadge> : '—'}
         </Metric>
       </MetricsSection>
@@ -1303,6 +2426,7 @@ const MemoryAndRenderingSection = React.memo(function MemoryAndRenderingSection(
     <MetricsSection icon="🧠" title="Memory & Rendering">
       <Metric
         label="Heap"
+        metric="memoryUsedMB"
         tooltip="Current JS heap size. Watch for sustained growth indicating leaks."
         sparkline={<Sparkline data={memoryHistory} />}
       >
@@ -1312,21 +2436,23 @@ const MemoryAndRenderingSection = React.memo(function MemoryAndRenderingSection(
         </span>
       </Metric>
 
-      <Metric label="Peak" tooltip="Peak heap memory observed.">
+      <Metric label="Peak" metric="peakMemoryMB" tooltip="Peak heap memory observed.">
         {peakMemoryMB !== null ? `${formatMb(peakMemoryMB)}MB` : '—'}
       </Metric>
 
-      <Metric label="DOM Nodes" tooltip="Current DOM element count in story container.">
+      <Metric label="DOM Nodes" metric="domElements" tooltip="Current DOM element count in story container.">
         {domElements !== null ? formatNumber(domElements) : '—'}
       </Metric>
 
-      <Metric label="GC Pressure" tooltip="Memory allocation rate. High values cause GC pauses.">
+      {detachedNodesMetric}
+
+      <Metric label="GC Pressure" metric="gcPressure" tooltip="Memory allocation rate. High values cause GC pauses.">
         <StatusBadge variant={gcStatus}>
           {gcPressure > 0.01 ? `🗑️ ${formatRate(gcPressure, 'MB/s')}` : '✨ Low'}
         </StatusBadge>
       </Metric>
 
-      <Metric label="Paint / Layers" tooltip="Paint operations and compositor layer count.">
+      <Metric label="Paint / Layers" metric="paintCount" tooltip="Paint operations and compositor layer count.">
         <span>{paintCount}</span>
         <SecondaryValue>
           /{' '}
@@ -1341,6 +2467,557 @@ const MemoryAndRenderingSection = React.memo(function MemoryAndRenderingSection(
   )
 })
 
+// ----------------------------------------------------------------------------
+// Listeners & Observers Section
+// ----------------------------------------------------------------------------
+
+/** Number of leaked listener or observer groups listed before collapsing into a count */
+const MAX_LEAKS_SHOWN = 3
+
+/** Observer types in display order, with short labels */
+const OBSERVER_LABELS: [ObserverType, string][] = [
+  ['MutationObserver', 'Mutation'],
+  ['ResizeObserver', 'Resize'],
+  ['IntersectionObserver', 'Intersection'],
+  ['PerformanceObserver', 'Performance'],
+]
+
+function formatLeaks(leaks: {type: string; target: string; count: number}[], describe: (type: string) => string) {
+  const shown = leaks
+    .slice(0, MAX_LEAKS_SHOWN)
+    .map(leak => `${describe(leak.type)} on ${leak.target} ×${String(leak.count)}`)
+  if (leaks.length > MAX_LEAKS_SHOWN) {
+    shown.push(`${String(leaks.length - MAX_LEAKS_SHOWN)} more`)
+  }
+  return shown.join(' · ')
+}
+
+function getObserverLabel(type: string): string {
+  return OBSERVER_LABELS.find(([observerType]) => observerType === type)?.[1] ?? type
+}
+
+/**
+ * Listeners & Observers Section - Event listeners and observers created by the story.
+ *
+ * Displays:
+ * - Listeners: Listeners the story added that are still attached
+ * - Per Interaction: Listeners added after each pointer or keyboard interaction
+ * - Observers: Active observers by type, with their observed targets
+ * - Leaked: Listeners and observers the previous story never cleaned up (only when it leaked)
+ *
+ * @component
+ */
+type ListenersAndObserversSectionProps = Pick<
+  PerformanceMetrics,
+  'eventListenerCount' | 'eventListenersPerInteraction' | 'observerCount' | 'observersByType' | 'previousStoryLeaks'
+>
+
+const ListenersAndObserversSection = React.memo(function ListenersAndObserversSection({
+  eventListenerCount,
+  eventListenersPerInteraction,
+  observerCount,
+  observersByType,
+  previousStoryLeaks,
+}: ListenersAndObserversSectionProps) {
+  const thresholds = React.useContext(ThresholdsContext)
+  const listenerStatus = getStatus(
+    eventListenerCount,
+    thresholds.EVENT_LISTENERS_WARNING,
+    thresholds.EVENT_LISTENERS_DANGER,
+  )
+  const observerStatus = getStatus(observerCount, thresholds.OBSERVERS_WARNING, thresholds.OBSERVERS_DANGER)
+  const observerDetail = OBSERVER_LABELS.filter(([type]) => observersByType[type].observers > 0)
+    .map(([type, label]) => {
+      const {observers, targets} = observersByType[type]
+      return `${String(observers)} ${label} (${String(targets)} ${targets === 1 ? 'target' : 'targets'})`
+    })
+    .join(' · ')
+
+  const leakedListeners = previousStoryLeaks?.eventListeners ?? []
+  const leakedListenerCount = leakedListeners.reduce((total, leak) => total + leak.count, 0)
+  const leakedObservers = previousStoryLeaks?.observers ?? []
+  const leakedObserverCount = leakedObservers.reduce((total, leak) => total + leak.count, 0)
+
+  return (
+    <MetricsSection icon="👂" title="Listeners & Observers">
+      <Metric
+        label="Listeners"
+        metric="eventListenerCount"
+        tooltip="Event listeners added by the story that are still attached. Listeners on detached elements are not counted."
+      >
+        <StatusBadge variant={listenerStatus}>{formatNumber(eventListenerCount)}</StatusBadge>
+      </Metric>
+
+      <Metric
+        label="Per Interaction"
+        metric="eventListenersPerInteraction"
+        tooltip="Average listeners added after each click or key press. If this keeps growing while the listener count does too, interactions are leaking listeners."
+      >
+        {eventListenersPerInteraction}
+      </Metric>
+
+      <Metric
+        label="Observers"
+        metric="observerCount"
+        tooltip="Mutation, Resize, Intersection and Performance observers created by the story that are still observing. The addon's own observers are excluded."
+        detail={observerDetail ? <>{observerDetail}</> : null}
+      >
+        <StatusBadge variant={observerStatus}>{formatNumber(observerCount)}</StatusBadge>
+      </Metric>
+
+      {previousStoryLeaks && leakedListenerCount > 0 && (
+        <Metric
+          label="Leaked Listeners"
+          tooltip={`Listeners "${previousStoryLeaks.storyId}" left attached after it unmounted. Remove them in your cleanup code.`}
+          detail={<>{formatLeaks(leakedListeners, type => type)}</>}
+        >
+          <StatusBadge variant="error">💧 {leakedListenerCount} from previous story</StatusBadge>
+        </Metric>
+      )}
+
+      {previousStoryLeaks && leakedObserverCount > 0 && (
+        <Metric
+          label="Leaked Observers"
+          tooltip={`Observers "${previousStoryLeaks.storyId}" never disconnected after it unmounted. Call disconnect() in your cleanup code.`}
+          detail={<>{formatLeaks(leakedObservers, getObserverLabel)}</>}
+        >
+          <StatusBadge variant="error">💧 {leakedObserverCount} from previous story</StatusBadge>
+        </Metric>
+      )}
+    </MetricsSection>
+  )
+})
+
+// ----------------------------------------------------------------------------
+// Timers Section
+// ----------------------------------------------------------------------------
+
+/** Timer kinds in display order, with singular and plural labels */
+const TIMER_LABELS: [TimerKind, string, string][] = [
+  ['timeout', 'timeout', 'timeouts'],
+  ['interval', 'interval', 'intervals'],
+  ['animationFrame', 'animation frame', 'animation frames'],
+]
+
+function getTimerLabel(kind: TimerKind, count: number): string {
+  const [, singular, plural] = TIMER_LABELS.find(([timerKind]) => timerKind === kind) ?? [kind, kind, kind]
+  return count === 1 ? singular : plural
+}
+
+function formatCallSites(callSites: TimerCallSiteInfo[]) {
+  const shown = callSites
+    .slice(0, MAX_LEAKS_SHOWN)
+    .map(site => `${getTimerLabel(site.kind, 1)} at ${site.callSite} ×${String(site.count)}`)
+  if (callSites.length > MAX_LEAKS_SHOWN) {
+    shown.push(`${String(callSites.length - MAX_LEAKS_SHOWN)} more`)
+  }
+  return shown.join(' · ')
+}
+
+/**
+ * Timers Section - Timeouts, intervals and animation frames scheduled by the story.
+ *
+ * Displays:
+ * - Pending Timers: Timers the story scheduled that haven't run or been cancelled, by kind
+ * - Call Sites: Where the most pending timers were scheduled
+ * - Leaked Timers: Timers the previous story left pending after it unmounted (only when it leaked)
+ *
+ * @component
+ */
+type TimersSectionProps = Pick<
+  PerformanceMetrics,
+  'activeTimerCount' | 'timersByKind' | 'timerCallSites' | 'previousStoryLeaks'
+>
+
+const TimersSection = React.memo(function TimersSection({
+  activeTimerCount,
+  timersByKind,
+  timerCallSites,
+  previousStoryLeaks,
+}: TimersSectionProps) {
+  const kindDetail = TIMER_LABELS.filter(([kind]) => timersByKind[kind] > 0)
+    .map(([kind]) => `${String(timersByKind[kind])} ${getTimerLabel(kind, timersByKind[kind])}`)
+    .join(' · ')
+
+  const leakedTimers = previousStoryLeaks?.timers ?? []
+  const leakedTimerCount = leakedTimers.reduce((total, leak) => total + leak.count, 0)
+
+  return (
+    <MetricsSection icon="⏲️" title="Timers">
+      <Metric
+        label="Pending Timers"
+        metric="activeTimerCount"
+        tooltip="Timeouts, intervals and animation frames scheduled by the story that haven't run or been cancelled. Intervals stay pending until cleared. The addon's own timers are excluded."
+        detail={kindDetail ? <>{kindDetail}</> : null}
+      >
+        {formatNumber(activeTimerCount)}
+      </Metric>
+
+      {timerCallSites.length > 0 && (
+        <Metric
+          label="Call Sites"
+          tooltip="Where the pending timers were scheduled, from the stack captured when each timer was created. A count that keeps growing points at a timer that is scheduled again and again."
+          detail={<>{formatCallSites(timerCallSites)}</>}
+        >
+          {formatNumber(timerCallSites.length)}
+        </Metric>
+      )}
+
+      {previousStoryLeaks && leakedTimerCount > 0 && (
+        <Metric
+          label="Leaked Timers"
+          tooltip={`Timers "${previousStoryLeaks.storyId}" left pending after it unmounted. Clear them in your cleanup code so their callbacks don't run against an unmounted component.`}
+          detail={<>{formatCallSites(leakedTimers)}</>}
+        >
+          <StatusBadge variant="error">💧 {leakedTimerCount} from previous story</StatusBadge>
+        </Metric>
+      )}
+    </MetricsSection>
+  )
+})
+
+// ----------------------------------------------------------------------------
+// Leak Check Section
+// ----------------------------------------------------------------------------
+
+function getSlopeStatus(slope: number, limit: number): StatusVariant {
+  return slope >= limit ? 'error' : 'success'
+}
+
+/**
+ * Leak Check Section - Growth per remount from the last leak check.
+ *
+ * Displays:
+ * - Progress while the story is being remounted
+ * - Result: Whether the story likely leaks, or why the check failed
+ * - Memory, DOM Nodes, Listeners: Growth per remount with a sparkline of the samples
+ *
+ * @component
+ */
+const LeakCheckSection = React.memo(function LeakCheckSection({leakCheck}: {leakCheck: LeakCheckState}) {
+  if (leakCheck.status === 'running') {
+    return (
+      <MetricsSection icon="🔁" title="Leak Check">
+        <Metric
+          label="Remounting"
+          tooltip="The story is unmounted and remounted repeatedly. Heap size, DOM nodes and listeners are sampled after each remount."
+        >
+          {formatNumber(leakCheck.completed)} / {formatNumber(leakCheck.cycles)}
+        </Metric>
+      </MetricsSection>
+    )
+  }
+
+  if (leakCheck.status === 'failed') {
+    return (
+      <MetricsSection icon="🔁" title="Leak Check">
+        <Metric label="Result" detail={<>{leakCheck.message}</>}>
+          <StatusBadge variant="error">Failed</StatusBadge>
+        </Metric>
+      </MetricsSection>
+    )
+  }
+
+  const {result} = leakCheck
+  const memorySamples = result.samples.flatMap(sample => (sample.memoryMB === null ? [] : [sample.memoryMB]))
+
+  return (
+    <MetricsSection icon="🔁" title="Leak Check">
+      <Metric
+        label="Result"
+        tooltip="Growth per remount is the slope of a line fitted through the samples. A story that cleans up after itself stays flat."
+        detail={<>{formatNumber(result.cycles)} remounts after a warm-up remount</>}
+      >
+        {result.likelyLeak ? (
+          <StatusBadge variant="error">💧 Likely leak</StatusBadge>
+        ) : (
+          <StatusBadge variant="success">No growth</StatusBadge>
+        )}
+      </Metric>
+
+      <Metric
+        label="Memory / Remount"
+        tooltip="JS heap growth per remount (Chrome only). Start Chrome with --enable-precise-memory-info for exact heap sizes and --js-flags=--expose-gc to collect garbage before each sample."
+        sparkline={memorySamples.length > 1 ? <Sparkline data={memorySamples} /> : undefined}
+      >
+        {result.memorySlopeMB === null ? (
+          '—'
+        ) : (
+          <StatusBadge variant={getSlopeStatus(result.memorySlopeMB, LEAK_CHECK_SLOPE_LIMITS.memoryMB)}>
+            {formatDelta(result.memorySlopeMB)} MB
+          </StatusBadge>
+        )}
+      </Metric>
+
+      <Metric
+        label="DOM Nodes / Remount"
+        tooltip="Elements added to the preview document per remount. Growth usually means portals or manually appended nodes aren't removed on unmount."
+        sparkline={<Sparkline data={result.samples.map(sample => sample.domNodes)} />}
+      >
+        <StatusBadge variant={getSlopeStatus(result.domNodeSlope, LEAK_CHECK_SLOPE_LIMITS.domNodes)}>
+          {formatDelta(result.domNodeSlope)}
+        </StatusBadge>
+      </Metric>
+
+      <Metric
+        label="Listeners / Remount"
+        tooltip="Event listeners left attached per remount. See Leaked Listeners in the Listeners & Observers section after switching stories to find them."
+        sparkline={<Sparkline data={result.samples.map(sample => sample.listeners)} />}
+      >
+        <StatusBadge variant={getSlopeStatus(result.listenerSlope, LEAK_CHECK_SLOPE_LIMITS.listeners)}>
+          {formatDelta(result.listenerSlope)}
+        </StatusBadge>
+      </Metric>
+    </MetricsSection>
+  )
+})
+
+// ============================================================================
+// Budget Summary
+// ============================================================================
+
+/**
+ * Banner summarizing budgets declared in `parameters.performancePanel.budgets`.
+ * Lists every failing budget, including metrics not shown in any section.
+ */
+const BudgetSummary = React.memo(function BudgetSummary({results}: {results: BudgetResult[]}) {
+  const failed = results.filter(result => result.status === 'fail')
+  const withoutData = results.filter(result => result.status === 'no-data').length
+  const total = String(results.length)
+
+  return (
+    <PanelNotice variant={failed.length > 0 ? 'negative' : 'positive'} role="status">
+      <strong>
+        {failed.length > 0
+          ? `${String(failed.length)} of ${total} budgets exceeded`
+          : `${String(results.length - withoutData)} of ${total} budgets met`}
+      </strong>
+      {failed.map(result => (
+        <SecondaryValue key={result.metric}>
+          {result.metric}: {formatNumber(result.actual ?? 0)} (budget {formatBudget(result)})
+        </SecondaryValue>
+      ))}
+      {withoutData > 0 && <SecondaryValue>{withoutData} without data in this browser</SecondaryValue>}
+    </PanelNotice>
+  )
+})
+
+// ============================================================================
+// Session Recording Review
+// ============================================================================
+
+interface RecordingReviewBarProps {
+  recording: SessionRecording
+  /** Index of the selected metrics snapshot */
+  position: number
+  snapshotCount: number
+  /** Time of the selected snapshot, relative to recording start */
+  time: number
+  onSeek: (position: number) => void
+  onClose: () => void
+}
+
+/**
+ * Scrubber for stepping through the metrics snapshots of a recording.
+ * Counters reflect everything recorded up to the selected snapshot.
+ */
+const RecordingReviewBar = React.memo(function RecordingReviewBar({
+  recording,
+  position,
+  snapshotCount,
+  time,
+  onSeek,
+  onClose,
+}: RecordingReviewBarProps) {
+  const counts = React.useMemo(() => countEntriesAt(recording, time), [recording, time])
+
+  return (
+    <ReviewBar>
+      <ReviewTitle>Recording</ReviewTitle>
+      <SecondaryValue title={new Date(recording.startedAt).toLocaleString()}>{recording.storyId}</SecondaryValue>
+      <ReviewScrubber
+        type="range"
+        min={0}
+        max={Math.max(0, snapshotCount - 1)}
+        value={position}
+        disabled={snapshotCount === 0}
+        aria-label="Recorded snapshot"
+        onChange={event => {
+          onSeek(Number(event.target.value))
+        }}
+      />
+      <SecondaryValue>
+        {formatSeconds(time)} · {formatNumber(counts.interaction)} interactions · {formatNumber(counts.loaf)} LoAFs
+      </SecondaryValue>
+      <Button variant="ghost" padding="small" onClick={onClose} ariaLabel="Close recording review">
+        <CloseIcon />
+      </Button>
+    </ReviewBar>
+  )
+})
+
+// ============================================================================
+// Timeline View
+// ============================================================================
+
+/** Timeline widths, as multiples of the panel width */
+const TIMELINE_ZOOM_LEVELS = [1, 2, 4, 8, 16, 32]
+
+/** Axis intervals per panel width */
+const TIMELINE_TICKS_PER_VIEW = 8
+
+/** Frames longer than this are highlighted on the timeline (ms) */
+const TIMELINE_LONG_FRAME_MS = 50
+
+/** One line describing a timeline event, shown while it's hovered */
+function describeTimelineEvent(event: TimelineEvent, rangeStart: number): string {
+  const parts = [event.name]
+  if (event.duration > 0) parts.push(formatMs(event.duration))
+  parts.push(`at ${formatMs(event.startTime - rangeStart)}`)
+  if (event.detail) parts.push(event.detail)
+  return parts.join(' · ')
+}
+
+/**
+ * Frames, long tasks, long animation frames, interactions, React commits,
+ * layout shifts and user timing measures on one shared time axis, so it's
+ * visible which events caused which. Zooming widens the timeline, which
+ * scrolls horizontally.
+ *
+ * @component
+ * @private
+ */
+const TimelineView = React.memo(function TimelineView({events}: {events: TimelineEvent[]}) {
+  const [zoomIndex, setZoomIndex] = React.useState(0)
+  const [hovered, setHovered] = React.useState<string | null>(null)
+  const zoom = TIMELINE_ZOOM_LEVELS[zoomIndex] ?? 1
+
+  const range = React.useMemo(() => getTimelineRange(events), [events])
+  const tracks = React.useMemo(
+    () =>
+      TIMELINE_TRACKS.map(({track, label}) => ({
+        track,
+        label,
+        rows: packTimelineRows(events.filter(event => event.track === track)),
+      })),
+    [events],
+  )
+
+  if (!range) {
+    return (
+      <EmptyState>
+        <EmptyStateTitle>No timeline events yet</EmptyStateTitle>
+        <EmptyStateSubtitle>Interact with the story to record frames, tasks and interactions</EmptyStateSubtitle>
+      </EmptyState>
+    )
+  }
+
+  const span = range.end - range.start
+  const toPercent = (time: number) => `${String(((time - range.start) / span) * 100)}%`
+  const ticks = getTimelineTicks(range, TIMELINE_TICKS_PER_VIEW * zoom)
+  const tickStep = ticks[1] ?? span
+
+  return (
+    <>
+      <TimelineToolbar>
+        <Button
+          variant="ghost"
+          padding="small"
+          onClick={() => {
+            setZoomIndex(index => Math.max(0, index - 1))
+          }}
+          disabled={zoomIndex === 0}
+          ariaLabel="Zoom out"
+        >
+          <ZoomOutIcon />
+        </Button>
+        <Button
+          variant="ghost"
+          padding="small"
+          onClick={() => {
+            setZoomIndex(index => Math.min(TIMELINE_ZOOM_LEVELS.length - 1, index + 1))
+          }}
+          disabled={zoomIndex === TIMELINE_ZOOM_LEVELS.length - 1}
+          ariaLabel="Zoom in"
+        >
+          <ZoomIcon />
+        </Button>
+        <Button
+          variant="ghost"
+          padding="small"
+          onClick={() => {
+            setZoomIndex(0)
+          }}
+          disabled={zoomIndex === 0}
+          ariaLabel="Fit timeline"
+        >
+          <ZoomResetIcon />
+        </Button>
+        <TimelineHoverDetail aria-live="polite">
+          {hovered ?? `${formatMs(span)} · hover an event for details`}
+        </TimelineHoverDetail>
+      </TimelineToolbar>
+      <TimelineScroll
+        onMouseLeave={() => {
+          setHovered(null)
+        }}
+      >
+        <TimelineCanvas style={{width: `${String(zoom * 100)}%`}}>
+          <TimelineRow>
+            <TimelineTrackLabel />
+            <TimelineLane style={{height: TIMELINE_ROW_HEIGHT}}>
+              {ticks.map(offset => (
+                <TimelineTick key={offset} style={{left: toPercent(range.start + offset)}}>
+                  {tickStep < 1000 ? formatMs(offset) : formatSeconds(offset)}
+                </TimelineTick>
+              ))}
+            </TimelineLane>
+          </TimelineRow>
+          {tracks.map(({track, label, rows}) => (
+            <TimelineRow key={track}>
+              <TimelineTrackLabel>{label}</TimelineTrackLabel>
+              <TimelineLane style={{height: Math.max(1, rows.length) * TIMELINE_ROW_HEIGHT}}>
+                {rows.flatMap((row, rowIndex) =>
+                  row.map(event => (
+                    <TimelineBar
+                      key={`${String(event.startTime)} ${event.name}`}
+                      track={track}
+                      emphasized={track === 'frame' && event.duration > TIMELINE_LONG_FRAME_MS}
+                      aria-label={describeTimelineEvent(event, range.start)}
+                      style={{
+                        left: toPercent(event.startTime),
+                        width: `${String((event.duration / span) * 100)}%`,
+                        top: rowIndex * TIMELINE_ROW_HEIGHT,
+                      }}
+                      onMouseEnter={() => {
+                        setHovered(describeTimelineEvent(event, range.start))
+                      }}
+                    >
+                      {event.duration > 0 &&
+                        event.segments?.map(segment => (
+                          <TimelineBarSegment
+                            key={`${String(segment.startTime)} ${segment.name}`}
+                            style={{
+                              left: `${String(((segment.startTime - event.startTime) / event.duration) * 100)}%`,
+                              width: `${String((segment.duration / event.duration) * 100)}%`,
+                            }}
+                            onMouseEnter={() => {
+                              setHovered(`${event.name} › ${segment.name} · ${formatMs(segment.duration)}`)
+                            }}
+                          />
+                        ))}
+                    </TimelineBar>
+                  )),
+                )}
+              </TimelineLane>
+            </TimelineRow>
+          ))}
+        </TimelineCanvas>
+      </TimelineScroll>
+    </>
+  )
+})
+
 // ============================================================================
 // Panel State Management
 // ============================================================================
@@ -1364,15 +3041,41 @@ export interface PanelState {
   /** Whether a React profiler decorator is active for the current story */
   hasReactProfiler: boolean
   errorMessage: string | null
+  /** Session being recorded, or the most recently stopped one */
+  recording: SessionRecording | null
+  isRecording: boolean
+  /** Recording open for review, and the index of the selected metrics snapshot */
+  review: {recording: SessionRecording; position: number} | null
+  /** Why the last recording import failed */
+  importError: string | null
+  /** Progress or outcome of the last leak check */
+  leakCheck: LeakCheckState | null
 }
 
+/** A leak check started from the panel, for {@link LeakCheckState.storyId} */
+export type LeakCheckState =
+  | {status: 'running'; storyId: string; completed: number; cycles: number}
+  | {status: 'done'; storyId: string; result: LeakCheckResult}
+  | {status: 'failed'; storyId: string; message: string}
+
 export type PanelAction =
   | {type: 'METRICS_RECEIVED'; metrics: PerformanceMetrics}
   | {type: 'PROFILER_UPDATE'; storyId: string; id: string; metrics: ReactMetrics}
+  | {type: 'TIMELINE_RECEIVED'; events: TimelineEvent[]}
   | {type: 'CLEANUP_OLD_STORIES'; currentStoryId: string}
   | {type: 'STORY_ERROR'; message: string}
   | {type: 'NO_DECORATOR'}
   | {type: 'RESET_METRICS'}
+  | {type: 'START_RECORDING'; storyId: string; startedAt: number}
+  | {type: 'STOP_RECORDING'}
+  | {type: 'REVIEW_RECORDING'; recording: SessionRecording}
+  | {type: 'SEEK_RECORDING'; position: number}
+  | {type: 'CLOSE_REVIEW'}
+  | {type: 'IMPORT_FAILED'; message: string}
+  | {type: 'LEAK_CHECK_STARTED'; storyId: string; cycles: number}
+  | {type: 'LEAK_CHECK_PROGRESS'; storyId: string; completed: number; cycles: number}
+  | {type: 'LEAK_CHECK_COMPLETED'; result: LeakCheckResult}
+  | {type: 'LEAK_CHECK_FAILED'; storyId: string; message: string}
 
 export const INITIAL_STATE: PanelState = {
   status: 'loading',
@@ -1380,17 +3083,37 @@ export const INITIAL_STATE: PanelState = {
   profilersByStory: {},
   hasReactProfiler: false,
   errorMessage: null,
+  recording: null,
+  isRecording: false,
+  review: null,
+  importError: null,
+  leakCheck: null,
+}
+
+/**
+ * Append to the active recording, stopping once it reaches its size limit.
+ */
+function recordInto(state: PanelState, append: (recording: SessionRecording) => SessionRecording): PanelState {
+  if (!state.isRecording || !state.recording) return state
+  if (isSessionRecordingFull(state.recording)) {
+    return {...state, isRecording: false}
+  }
+  return {...state, recording: append(state.recording)}
 }
 
 export function panelReducer(state: PanelState, action: PanelAction): PanelState {
   switch (action.type) {
-    case 'METRICS_RECEIVED':
+    case 'METRICS_RECEIVED': {
+      const recorded = recordInto(state, recording =>
+        appendMetricsEntry(recording, state.metrics, action.metrics, Date.now()),
+      )
       return {
-        ...state,
+        ...recorded,
         status: 'connected',
         metrics: action.metrics,
         errorMessage: null,
       }
+    }
 
     case 'PROFILER_UPDATE': {
       const {storyId, id, metrics} = action
@@ -1410,8 +3133,14 @@ export function panelReducer(state: PanelState, action: PanelAction): PanelState
         updatedProfilers = [...storyProfilers, newProfiler]
       }
 
+      // Late updates from a previous story don't belong in the recording
+      const recorded =
+        state.recording?.storyId === storyId
+          ? recordInto(state, recording => appendProfilerEntry(recording, {storyId, id, metrics}, Date.now()))
+          : state
+
       return {
-        ...state,
+        ...recorded,
         hasReactProfiler: true,
         profilersByStory: {
           ...state.profilersByStory,
@@ -1420,6 +3149,9 @@ export function panelReducer(state: PanelState, action: PanelAction): PanelState
       }
     }
 
+    case 'TIMELINE_RECEIVED':
+      return recordInto(state, recording => appendTimelineEntry(recording, action.events, Date.now()))
+
     case 'CLEANUP_OLD_STORIES': {
       // Keep only the current story's profilers
       const currentProfilers = state.profilersByStory[action.currentStoryId]
@@ -1428,6 +3160,8 @@ export function panelReducer(state: PanelState, action: PanelAction): PanelState
         // Reset hasReactProfiler on story change — it will be set again if a PROFILER_UPDATE arrives
         hasReactProfiler: currentProfilers ? state.hasReactProfiler : false,
         profilersByStory: currentProfilers ? {[action.currentStoryId]: currentProfilers} : {},
+        // A recording covers one story, so switching stories ends it
+        isRecording: state.isRecording && state.recording?.storyId === action.currentStoryId,
       }
     }
 
@@ -1448,6 +3182,54 @@ export function panelReducer(state: PanelState, action: PanelAction): PanelState
     case 'RESET_METRICS':
       return {...state, metrics: DEFAULT_METRICS}
 
+    case 'START_RECORDING':
+      return {
+        ...state,
+        isRecording: true,
+        recording: createSessionRecording(action.storyId, action.startedAt),
+      }
+
+    case 'STOP_RECORDING':
+      return {...state, isRecording: false}
+
+    case 'REVIEW_RECORDING':
+      return {
+        ...state,
+        importError: null,
+        review: {
+          recording: action.recording,
+          position: Math.max(0, getMetricsEntries(action.recording).length - 1),
+        },
+      }
+
+    case 'SEEK_RECORDING':
+      if (!state.review) return state
+      return {...state, review: {...state.review, position: action.position}}
+
+    case 'CLOSE_REVIEW':
+      return {...state, review: null}
+
+    case 'IMPORT_FAILED':
+      return {...state, importError: action.message}
+
+    case 'LEAK_CHECK_STARTED':
+      return {
+        ...state,
+        leakCheck: {status: 'running', storyId: action.storyId, completed: 0, cycles: action.cycles},
+      }
+
+    case 'LEAK_CHECK_PROGRESS':
+      return {
+        ...state,
+        leakCheck: {status: 'running', storyId: action.storyId, completed: action.completed, cycles: action.cycles},
+      }
+
+    case 'LEAK_CHECK_COMPLETED':
+      return {...state, leakCheck: {status: 'done', storyId: action.result.storyId, result: action.result}}
+
+    case 'LEAK_CHECK_FAILED':
+      return {...state, leakCheck: {status: 'failed', storyId: action.storyId, message: action.message}}
+
     default:
       return state
   }
@@ -1481,6 +3263,12 @@ function ConnectedPanelContent({storyId}: {storyId: string}) {
   // Track connected status for stale closure avoidance in useChannel
   const isConnected = () => state.status === 'connected'
 
+  // Timeline events are only sent while the timeline tab is open or a session is recorded, and only for the live story
+  const [view, setView] = React.useState<'metrics' | 'timeline'>('metrics')
+  const [timelineEvents, setTimelineEvents] = React.useState<TimelineEvent[]>([])
+  const showTimeline = view === 'timeline' && !state.review
+  const needsTimeline = showTimeline || state.isRecording
+
   // Channel event handlers - maps Storybook events to reducer actions
   const emit = useChannel({
     [PERF_EVENTS.METRICS_UPDATE]: (data: PerformanceMetrics) => {
@@ -1491,9 +3279,27 @@ function ConnectedPanelContent({storyId}: {storyId: string}) {
       dispatch({type: 'PROFILER_UPDATE', storyId: data.storyId, id: data.id, metrics: data.metrics})
     },
 
+    [PERF_EVENTS.TIMELINE_UPDATE]: (events: TimelineEvent[]) => {
+      setTimelineEvents(events)
+      dispatch({type: 'TIMELINE_RECEIVED', events})
+    },
+
+    [PERF_EVENTS.LEAK_CHECK_PROGRESS]: (data: {storyId: string; completed: number; cycles: number}) => {
+      dispatch({type: 'LEAK_CHECK_PROGRESS', ...data})
+    },
+    [PERF_EVENTS.LEAK_CHECK_RESULT]: (result: LeakCheckResult) => {
+      dispatch({type: 'LEAK_CHECK_COMPLETED', result})
+    },
+    [PERF_EVENTS.LEAK_CHECK_FAILED]: (data: {storyId: string; message: string}) => {
+      dispatch({type: 'LEAK_CHECK_FAILED', ...data})
+    },
+
     // Story rendered - request metrics from decorator
     storyRendered: () => {
       emit(PERF_EVENTS.REQUEST_METRICS)
+      if (needsTimeline) {
+        emit(PERF_EVENTS.TIMELINE_VISIBILITY, true)
+      }
     },
 
     // Story finished (including play function) - request final metrics
@@ -1548,6 +3354,7 @@ function ConnectedPanelContent({storyId}: {storyId: string}) {
   const handleReset = React.useCallback(() => {
     emit(PERF_EVENTS.RESET)
     dispatch({type: 'RESET_METRICS'})
+    setTimelineEvents([])
   }, [emit])
 
   const handleInspectElement = React.useCallback(
@@ -1557,8 +3364,155 @@ function ConnectedPanelContent({storyId}: {storyId: string}) {
     [emit],
   )
 
+  // ── Timeline ───────────────────────────────────────────────────────────
+
+  React.useEffect(() => {
+    if (!needsTimeline) return undefined
+    emit(PERF_EVENTS.TIMELINE_VISIBILITY, true)
+    return () => {
+      emit(PERF_EVENTS.TIMELINE_VISIBILITY, false)
+    }
+  }, [needsTimeline, storyId, emit])
+
+  // ── Layout shift overlay ───────────────────────────────────────────────
+
+  // The preview removes the overlay when the story changes, so it's only on for the story it was turned on for
+  const [shiftOverlayStoryId, setShiftOverlayStoryId] = React.useState<string | null>(null)
+  const showShiftOverlay = shiftOverlayStoryId === storyId
+
+  const handleToggleShiftOverlay = React.useCallback(() => {
+    emit(PERF_EVENTS.LAYOUT_SHIFT_OVERLAY, !showShiftOverlay)
+    setShiftOverlayStoryId(showShiftOverlay ? null : storyId)
+  }, [showShiftOverlay, storyId, emit])
+
+  // ── Leak check ─────────────────────────────────────────────────────────
+
+  const leakCheck = state.leakCheck?.storyId === storyId ? state.leakCheck : null
+  const isLeakCheckRunning = leakCheck?.status === 'running'
+
+  const handleRunLeakCheck = React.useCallback(() => {
+    dispatch({type: 'LEAK_CHECK_STARTED', storyId, cycles: DEFAULT_LEAK_CHECK_CYCLES})
+    emit(PERF_EVENTS.RUN_LEAK_CHECK, {cycles: DEFAULT_LEAK_CHECK_CYCLES})
+  }, [storyId, emit])
+
+  // ── Baselines ──────────────────────────────────────────────────────────
+
+  // The stored baseline is read once per story; saving or clearing replaces it
+  // in state so the panel doesn't have to read storage again
+  const storedBaseline = React.useMemo(() => loadBaseline(storyId), [storyId])
+  const [changedBaseline, setChangedBaseline] = React.useState<{
+    storyId: string
+    baseline: PerformanceBaseline | null
+  } | null>(null)
+  const baseline = changedBaseline?.storyId === storyId ? changedBaseline.baseline : storedBaseline
+  const [baselineError, setBaselineError] = React.useState(false)
+
+  const handleSaveBaseline = React.useCallback(() => {
+    const saved = createBaseline(storyId, state.metrics, state.profilersByStory[storyId] ?? [])
+    setBaselineError(!saveBaseline(saved))
+    setChangedBaseline({storyId, baseline: saved})
+  }, [storyId, state.metrics, state.profilersByStory])
+
+  const handleClearBaseline = React.useCallback(() => {
+    clearBaseline(storyId)
+    setBaselineError(false)
+    setChangedBaseline({storyId, baseline: null})
+  }, [storyId])
+
+  // ── Session recording ──────────────────────────────────────────────────
+
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+
+  const handleToggleRecording = React.useCallback(() => {
+    if (state.isRecording) {
+      dispatch({type: 'STOP_RECORDING'})
+    } else {
+      dispatch({type: 'START_RECORDING', storyId, startedAt: Date.now()})
+    }
+  }, [state.isRecording, storyId])
+
+  const handleReviewRecording = React.useCallback(() => {
+    if (state.recording) {
+      dispatch({type: 'REVIEW_RECORDING', recording: state.recording})
+    }
+  }, [state.recording])
+
+  const handleExportRecording = React.useCallback(() => {
+    const recording = state.review?.recording ?? state.recording
+    if (recording) {
+      downloadFile(getSessionRecordingFileName(recording), serializeSessionRecording(recording))
+    }
+  }, [state.review, state.recording])
+
+  const handleExportTrace = React.useCallback(() => {
+    const recording = state.review?.recording ?? state.recording
+    if (recording) {
+      downloadFile(getChromeTraceFileName(recording), serializeChromeTrace(createChromeTrace(recording)))
+    }
+  }, [state.review, state.recording])
+
+  const handleImportRecording = React.useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clear the input so importing the same file again still fires onChange
+    event.target.value = ''
+    if (!file) return
+
+    file
+      .text()
+      .then(text => {
+        dispatch({type: 'REVIEW_RECORDING', recording: parseSessionRecording(text)})
+      })
+      .catch((error: unknown) => {
+        dispatch({type: 'IMPORT_FAILED', message: error instanceof Error ? error.message : String(error)})
+      })
+  }, [])
+
+  // While reviewing, sections show the selected recorded snapshot instead of live data
+  const reviewRecording = state.review?.recording ?? null
+  const reviewEntries = React.useMemo(
+    () => (reviewRecording ? getMetricsEntries(reviewRecording) : []),
+    [reviewRecording],
+  )
+  const reviewEntry = state.review ? reviewEntries[state.review.position] : undefined
+  const reviewTime = reviewEntry?.time ?? 0
+  const reviewProfilers = React.useMemo<ProfilerInfo[]>(
+    () =>
+      reviewRecording
+        ? getProfilerEntriesAt(reviewRecording, reviewTime).map(entry => ({
+            id: entry.id,
+            metrics: entry.metrics,
+            lastUpdated: reviewRecording.startedAt + entry.time,
+          }))
+        : [],
+    [reviewRecording, reviewTime],
+  )
+
+  const metrics = state.review ? (reviewEntry?.metrics ?? DEFAULT_METRICS) : state.metrics
+
+  // Budgets and thresholds come from the selected story's merged parameters
+  const {budgets, measureBudgets, thresholds: thresholdParams} = useParameter<PerformancePanelParameters>(PARAM_KEY, {})
+  const [globals] = useGlobals()
+  const thresholdGlobals = globals[THRESHOLDS_GLOBAL_KEY] as ThresholdSettings | undefined
+  const thresholds = React.useMemo(
+    () => resolveThresholds(thresholdParams, thresholdGlobals),
+    [thresholdParams, thresholdGlobals],
+  )
+  const budgetResults = React.useMemo(() => evaluateBudgets(metrics, budgets), [metrics, budgets])
+  const budgetResultsByMetric = React.useMemo(
+    () => new Map(budgetResults.map(result => [result.metric, result])),
+    [budgetResults],
+  )
+  const measureBudgetResults = React.useMemo(
+    () => evaluateMeasureBudgets(metrics.userMeasures, measureBudgets),
+    [metrics.userMeasures, measureBudgets],
+  )
+  const metricDeltas = React.useMemo(
+    () => (baseline ? computeMetricDeltas(metrics, baseline.metrics) : new Map<string, MetricDelta>()),
+    [metrics, baseline],
+  )
+
   // Render based on connection status
-  if (state.status !== 'connected') {
+  if (state.status !== 'connected' && !state.review) {
     if (state.status === 'error') {
       return (
         <EmptyState>
@@ -1590,90 +3544,296 @@ function ConnectedPanelContent({storyId}: {storyId: string}) {
     )
   }
 
-  const {metrics} = state
+  const profilers = state.review ? reviewProfilers : currentProfilers
+  const showReactSection = state.review ? reviewProfilers.length > 0 : state.hasReactProfiler
+  const exportableRecording = state.review?.recording ?? state.recording
 
   return (
-    <PanelWrapper>
-      <ContentArea>
-        <SectionsGrid>
-          <FrameTimingSection
-            fps={metrics.fps}
-            fpsHistory={metrics.fpsHistory}
-            frameTime={metrics.frameTime}
-            maxFrameTime={metrics.maxFrameTime}
-            frameTimeHistory={metrics.frameTimeHistory}
-            droppedFrames={metrics.droppedFrames}
-            frameJitter={metrics.frameJitter}
-            frameStability={metrics.frameStability}
-            paintTime={metrics.paintTime}
-            maxPaintTime={metrics.maxPaintTime}
-            paintJitter={metrics.paintJitter}
-          />
-          <InputSection
-            inputLatency={metrics.inputLatency}
-            maxInputLatency={metrics.maxInputLatency}
-            eventTimingSupported={metrics.eventTimingSupported}
-            inpMs={metrics.inpMs}
-            interactionCount={metrics.interactionCount}
-            firstInputDelay={metrics.firstInputDelay}
-            firstInputType={metrics.firstInputType}
-            lastInteraction={metrics.lastInteraction}
-            slowestInteraction={metrics.slowestInteraction}
-            onInspectElement={handleInspectElement}
-          />
-          <MainThreadSection
-            longTasks={metrics.longTasks}
-            longestTask={metrics.longestTask}
-            totalBlockingTime={metrics.totalBlockingTime}
-            thrashingScore={metrics.thrashingScore}
-            domMutationsPerFrame={metrics.domMutationsPerFrame}
-          />
-          <LoAFSection
-            loafSupported={metrics.loafSupported}
-            loafCount={metrics.loafCount}
-            totalLoafBlockingDuration={metrics.totalLoafBlockingDuration}
-            longestLoafDuration={metrics.longestLoafDuration}
-            longestLoafBlockingDuration={metrics.longestLoafBlockingDuration}
-            avgLoafDuration={metrics.avgLoafDuration}
-            p95LoafDuration={metrics.p95LoafDuration}
-            loafsWithScripts={metrics.loafsWithScripts}
-            lastLoaf={metrics.lastLoaf}
-            worstLoaf={metrics.worstLoaf}
-          />
-          {state.hasReactProfiler && <ReactSection profilers={currentProfilers} />}
-          <LayoutAndInternalsSection
-            layoutShiftScore={metrics.layoutShiftScore}
-            layoutShiftCount={metrics.layoutShiftCount}
-            currentSessionCLS={metrics.currentSessionCLS}
-            forcedReflowCount={metrics.forcedReflowCount}
-            styleWrites={metrics.styleWrites}
-            cssVarChanges={metrics.cssVarChanges}
-            inputJitter={metrics.inputJitter}
-          />
-          <MemoryAndRenderingSection
-            memoryUsedMB={metrics.memoryUsedMB}
-            memoryDeltaMB={metrics.memoryDeltaMB}
-            peakMemoryMB={metrics.peakMemoryMB}
-            memoryHistory={metrics.memoryHistory}
-            gcPressure={metrics.gcPressure}
-            domElements={metrics.domElements}
-            paintCount={metrics.paintCount}
-            compositorLayers={metrics.compositorLayers}
-          />
-          <ElementTimingSection
-            elementTimingSupported={metrics.elementTimingSupported}
-            elementTimingCount={metrics.elementTimingCount}
-            largestElementRenderTime={metrics.largestElementRenderTime}
-            elementTimings={metrics.elementTimings}
-          />
-        </SectionsGrid>
-      </ContentArea>
-      <SideToolbar>
-        <Button variant="ghost" padding="small" onClick={handleReset} ariaLabel="Reset all metrics">
-          <SyncIcon />
-        </Button>
-      </SideToolbar>
-    </PanelWrapper>
+    <ThresholdsContext.Provider value={thresholds}>
+      <BudgetResultsContext.Provider value={budgetResultsByMetric}>
+        <MetricDeltasContext.Provider value={metricDeltas}>
+          <PanelWrapper>
+            <ContentArea>
+              {state.importError && (
+                <PanelNotice variant="negative" role="alert">
+                  <span>Could not import recording: {state.importError}</span>
+                </PanelNotice>
+              )}
+              {state.review && (
+                <RecordingReviewBar
+                  recording={state.review.recording}
+                  position={state.review.position}
+                  snapshotCount={reviewEntries.length}
+                  time={reviewTime}
+                  onSeek={position => {
+                    dispatch({type: 'SEEK_RECORDING', position})
+                  }}
+                  onClose={() => {
+                    dispatch({type: 'CLOSE_REVIEW'})
+                  }}
+                />
+              )}
+              <ViewTabs role="tablist" aria-label="Panel view">
+                <ViewTab
+                  type="button"
+                  role="tab"
+                  selected={!showTimeline}
+                  aria-selected={!showTimeline}
+                  onClick={() => {
+                    setView('metrics')
+                  }}
+                >
+                  Metrics
+                </ViewTab>
+                <ViewTab
+                  type="button"
+                  role="tab"
+                  selected={showTimeline}
+                  aria-selected={showTimeline}
+                  disabled={state.review !== null}
+                  title={state.review ? 'The timeline shows the live story only' : undefined}
+                  onClick={() => {
+                    setView('timeline')
+                  }}
+                >
+                  Timeline
+                </ViewTab>
+              </ViewTabs>
+              {showTimeline ? (
+                <TimelineView events={timelineEvents} />
+              ) : (
+                <>
+                  {baselineError && (
+                    <PanelNotice variant="warning" role="alert">
+                      <span>Could not save the baseline: browser storage is unavailable or full.</span>
+                    </PanelNotice>
+                  )}
+                  {baseline && (
+                    <PanelNotice variant="info">
+                      <span>
+                        Comparing with baseline saved {new Date(baseline.savedAt).toLocaleString()}. Green changes are
+                        improvements, red are regressions.
+                      </span>
+                      <Button variant="ghost" padding="small" onClick={handleClearBaseline} ariaLabel="Clear baseline">
+                        <CloseIcon />
+                      </Button>
+                    </PanelNotice>
+                  )}
+                  {budgetResults.length > 0 && <BudgetSummary results={budgetResults} />}
+                  <SectionsGrid>
+                    <FrameTimingSection
+                      fps={metrics.fps}
+                      fpsHistory={metrics.fpsHistory}
+                      frameTime={metrics.frameTime}
+                      maxFrameTime={metrics.maxFrameTime}
+                      frameTimeHistory={metrics.frameTimeHistory}
+                      droppedFrames={metrics.droppedFrames}
+                      frameJitter={metrics.frameJitter}
+                      frameStability={metrics.frameStability}
+                      paintTime={metrics.paintTime}
+                      maxPaintTime={metrics.maxPaintTime}
+                      paintJitter={metrics.paintJitter}
+                    />
+                    <InputSection
+                      inputLatency={metrics.inputLatency}
+                      maxInputLatency={metrics.maxInputLatency}
+                      eventTimingSupported={metrics.eventTimingSupported}
+                      inpMs={metrics.inpMs}
+                      interactionCount={metrics.interactionCount}
+                      firstInputDelay={metrics.firstInputDelay}
+                      firstInputType={metrics.firstInputType}
+                      lastInteraction={metrics.lastInteraction}
+                      slowestInteraction={metrics.slowestInteraction}
+                      interactionLog={metrics.interactionLog}
+                      avgInputDelay={metrics.avgInputDelay}
+                      avgProcessingTime={metrics.avgProcessingTime}
+                      avgPresentationDelay={metrics.avgPresentationDelay}
+                      interactionsByType={metrics.interactionsByType}
+                      onInspectElement={handleInspectElement}
+                    />
+                    <MainThreadSection
+                      longTasks={metrics.longTasks}
+                      longestTask={metrics.longestTask}
+                      totalBlockingTime={metrics.totalBlockingTime}
+                      thrashingScore={metrics.thrashingScore}
+                      domMutationsPerFrame={metrics.domMutationsPerFrame}
+                    />
+                    <LoAFSection
+                      loafSupported={metrics.loafSupported}
+                      loafCount={metrics.loafCount}
+                      totalLoafBlockingDuration={metrics.totalLoafBlockingDuration}
+                      longestLoafDuration={metrics.longestLoafDuration}
+                      longestLoafBlockingDuration={metrics.longestLoafBlockingDuration}
+                      avgLoafDuration={metrics.avgLoafDuration}
+                      p95LoafDuration={metrics.p95LoafDuration}
+                      loafsWithScripts={metrics.loafsWithScripts}
+                      lastLoaf={metrics.lastLoaf}
+                      worstLoaf={metrics.worstLoaf}
+                      loafScripts={metrics.loafScripts}
+                    />
+                    {showReactSection && (
+                      <ReactSection
+                        profilers={profilers}
+                        baselineProfilers={baseline?.profilers}
+                        commits={metrics.reactCommits}
+                        renderOffenders={metrics.renderOffenders}
+                        renderReasonCommits={metrics.renderReasonCommits}
+                      />
+                    )}
+                    <LayoutAndInternalsSection
+                      layoutShiftScore={metrics.layoutShiftScore}
+                      layoutShiftCount={metrics.layoutShiftCount}
+                      currentSessionCLS={metrics.currentSessionCLS}
+                      layoutShifts={metrics.layoutShifts}
+                      forcedReflowCount={metrics.forcedReflowCount}
+                      reflowCallSites={metrics.reflowCallSites}
+                      styleWrites={metrics.styleWrites}
+                      cssVarChanges={metrics.cssVarChanges}
+                      styleWriteTargets={metrics.styleWriteTargets}
+                      inputJitter={metrics.inputJitter}
+                      onInspectElement={handleInspectElement}
+                    />
+                    <MemoryAndRenderingSection
+                      memoryUsedMB={metrics.memoryUsedMB}
+                      memoryDeltaMB={metrics.memoryDeltaMB}
+                      peakMemoryMB={metrics.peakMemoryMB}
+                      memoryHistory={metrics.memoryHistory}
+                      gcPressure={metrics.gcPressure}
+                      domElements={metrics.domElements}
+                      detachedNodeCount={metrics.detachedNodeCount}
+                      detachedNodes={metrics.detachedNodes}
+                      detachedNodesConfirmed={metrics.detachedNodesConfirmed}
+                      paintCount={metrics.paintCount}
+                      compositorLayers={metrics.compositorLayers}
+                    />
+                    <ListenersAndObserversSection
+                      eventListenerCount={metrics.eventListenerCount}
+                      eventListenersPerInteraction={metrics.eventListenersPerInteraction}
+                      observerCount={metrics.observerCount}
+                      observersByType={metrics.observersByType}
+                      previousStoryLeaks={metrics.previousStoryLeaks}
+                    />
+                    <TimersSection
+                      activeTimerCount={metrics.activeTimerCount}
+                      timersByKind={metrics.timersByKind}
+                      timerCallSites={metrics.timerCallSites}
+                      previousStoryLeaks={metrics.previousStoryLeaks}
+                    />
+                    {leakCheck && !state.review && <LeakCheckSection leakCheck={leakCheck} />}
+                    <ElementTimingSection
+                      elementTimingSupported={metrics.elementTimingSupported}
+                      elementTimingCount={metrics.elementTimingCount}
+                      largestElementRenderTime={metrics.largestElementRenderTime}
+                      elementTimings={metrics.elementTimings}
+                    />
+                    <UserTimingsSection
+                      userMarkCount={metrics.userMarkCount}
+                      userMarks={metrics.userMarks}
+                      userMeasureCount={metrics.userMeasureCount}
+                      userMeasures={metrics.userMeasures}
+                      measureBudgetResults={measureBudgetResults}
+                    />
+                    <NetworkSection
+                      networkRequestCount={metrics.networkRequestCount}
+                      networkRequestsByKind={metrics.networkRequestsByKind}
+                      networkTransferKB={metrics.networkTransferKB}
+                      renderBlockingRequests={metrics.renderBlockingRequests}
+                      duplicateRequestCount={metrics.duplicateRequestCount}
+                      duplicateRequests={metrics.duplicateRequests}
+                      longestRequestChain={metrics.longestRequestChain}
+                      requestChain={metrics.requestChain}
+                      slowestRequests={metrics.slowestRequests}
+                    />
+                  </SectionsGrid>
+                </>
+              )}
+            </ContentArea>
+            <SideToolbar>
+              <Button variant="ghost" padding="small" onClick={handleReset} ariaLabel="Reset all metrics">
+                <SyncIcon />
+              </Button>
+              <Button
+                variant="ghost"
+                padding="small"
+                onClick={handleSaveBaseline}
+                disabled={state.review !== null}
+                ariaLabel={baseline ? 'Replace baseline' : 'Save baseline'}
+              >
+                {baseline ? <BookmarkIcon /> : <BookmarkHollowIcon />}
+              </Button>
+              <Button
+                variant="ghost"
+                padding="small"
+                onClick={handleRunLeakCheck}
+                disabled={isLeakCheckRunning || state.review !== null}
+                ariaLabel="Run leak check"
+              >
+                <BeakerIcon />
+              </Button>
+              <Button
+                variant="ghost"
+                padding="small"
+                onClick={handleToggleShiftOverlay}
+                ariaLabel={showShiftOverlay ? 'Hide layout shift overlay' : 'Show layout shift overlay'}
+              >
+                {showShiftOverlay ? <EyeCloseIcon /> : <EyeIcon />}
+              </Button>
+              <Button
+                variant="ghost"
+                padding="small"
+                onClick={handleToggleRecording}
+                ariaLabel={state.isRecording ? 'Stop recording' : 'Start recording'}
+              >
+                {state.isRecording ? <StopAltIcon /> : <VideoIcon />}
+              </Button>
+              <Button
+                variant="ghost"
+                padding="small"
+                onClick={handleReviewRecording}
+                disabled={!state.recording || state.isRecording}
+                ariaLabel="Review recording"
+              >
+                <TimeIcon />
+              </Button>
+              <Button
+                variant="ghost"
+                padding="small"
+                onClick={handleExportRecording}
+                disabled={!exportableRecording}
+                ariaLabel="Export recording"
+              >
+                <DownloadIcon />
+              </Button>
+              <Button
+                variant="ghost"
+                padding="small"
+                onClick={handleExportTrace}
+                disabled={!exportableRecording}
+                ariaLabel="Export recording as Chrome trace"
+              >
+                <StackedIcon />
+              </Button>
+              <Button
+                variant="ghost"
+                padding="small"
+                onClick={() => fileInputRef.current?.click()}
+                ariaLabel="Import recording"
+              >
+                <UploadIcon />
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                aria-label="Recording file"
+                onChange={handleImportRecording}
+              />
+            </SideToolbar>
+          </PanelWrapper>
+        </MetricDeltasContext.Provider>
+      </BudgetResultsContext.Provider>
+    </ThresholdsContext.Provider>
   )
 }
 
@@ -5,7 +5,9 @@
  * is added to the `addons` array in `.storybook/main.ts`.
  *
  * The preset registers the addon panel in Storybook's manager UI (managerEntries).
- * The decorator stack is auto-discovered via the `./preview` export.
+ * The decorator stack is auto-discovered via the `./preview` export. With the
+ * `renderReasons` option, it also adds the entry that installs a React
+ * DevTools hook (previewAnnotations).
  *
  * @see https://storybook.js.org/docs/addons/writing-presets
  * @module preset
@@ -14,6 +16,8 @@
 import {dirname, join} from 'path'
 import {fileURLToPath} from 'url'
 
+import type {PerformancePanelAddonOptions} from './core/performance-types'
+
 /**
  * Get the directory of this file at runtime.
  * Works in ESM context.
@@ -32,3 +36,17 @@ function getAddonDir(): string {
 export function managerEntries(entry: string[] = []): string[] {
   return [...entry, join(getAddonDir(), 'manager.js')]
 }
+
+/**
+ * Preview annotations for the addon.
+ * The React DevTools hook changes the page for every story, so its entry is
+ * only added when the addon is configured with `renderReasons`.
+ *
+ * @param entry - Existing preview annotations from other addons/presets
+ * @param options - Storybook options, including the addon's options
+ * @returns Array of preview annotation paths
+ */
+export function previewAnnotations(entry: string[] = [], options: PerformancePanelAddonOptions = {}): string[] {
+  if (options.renderReasons !== true) return entry
+  return [...entry, join(getAddonDir(), 'preview-render-reasons.js')]
+}
@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Preview Entry for Re-render Reasons
+ *
+ * Added to the preview by the preset when the addon's `renderReasons` option
+ * is set. Installs a React DevTools hook as soon as the preview loads, which
+ * is before Storybook loads react-dom for the first story render, so the
+ * `renderReasons` parameter can inspect commits.
+ *
+ * @see {@link ./preset.ts} - Adds this entry to `previewAnnotations`
+ * @module preview-render-reasons
+ */
+import {installReactDevToolsHook} from './collectors/render-reason-collector'
+
+installReactDevToolsHook()
@@ -37,6 +37,7 @@
 
 import {memo, Profiler, useCallback, useEffect, useRef, useState} from 'react'
 
+import {runUntracked} from '../collectors/instrumentation'
 import {createEmptyReactMetrics} from '../collectors/react-profiler-collector'
 import {addToWindow} from '../collectors/utils'
 import {performanceStore} from '../core/performance-store'
@@ -250,16 +251,18 @@ export const ReactProfilerWrapper = memo(function ReactProfilerWrapper({
     }
   }, [instanceId, baseId, enabled])
 
-  // Debounced store update to avoid excessive updates
+  // Debounced store update (~1 frame) to avoid excessive updates
   const scheduleStoreUpdate = useCallback(() => {
     if (updateTimeoutRef.current) return // Already scheduled
 
-    updateTimeoutRef.current = setTimeout(() => {
-      const metrics = metricsRef.current
-      if (metrics == null) return
-      updateTimeoutRef.current = null
-      performanceStore.updateProfiler(instanceId, metricsRefToReactMetrics(metrics))
-    }, 16) // ~1 frame
+    updateTimeoutRef.current = runUntracked(() =>
+      setTimeout(() => {
+        const metrics = metricsRef.current
+        if (metrics == null) return
+        updateTimeoutRef.current = null
+        performanceStore.updateProfiler(instanceId, metricsRefToReactMetrics(metrics))
+      }, 16),
+    )
   }, [instanceId])
 
   // Profiler callback